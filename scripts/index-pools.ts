@@ -0,0 +1,197 @@
+/**
+ * Pool transaction indexer (Node)
+ *
+ * Indexes every pool of the DEX program into a local SQLite database and prints
+ * rolling 24h/7d volume, fees and fee APR per shard and per pair. Re-running
+ * the script only fetches signatures newer than the last run.
+ *
+ * Run with: npm run index-pools -- [database path]
+ *
+ * Environment:
+ * - SOLANA_RPC_URL: RPC endpoint (default: the configured devnet RPC)
+ * - POOL_INDEX_DB: database path (default: pool-index.sqlite)
+ */
+
+import Database from 'better-sqlite3';
+import { Connection, PublicKey } from '@solana/web3.js';
+import dexConfig from '../src/config/dex-config.json';
+import { discoverPools, PoolConfigEntry } from '../src/lib/solana/poolRegistry';
+import { PoolEvent, PoolEventStore, PoolIndexResumePoint } from '../src/lib/solana/poolEventStore';
+import { computePairStats, getShardStats, ShardStats, syncPoolIndex } from '../src/lib/solana/poolIndexer';
+import { fetchPoolSnapshots } from '../src/lib/solana/poolSnapshot';
+
+/**
+ * Event store backed by a SQLite database
+ */
+class SqlitePoolEventStore implements PoolEventStore {
+  constructor(private db: Database.Database) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS events (
+        id TEXT PRIMARY KEY,
+        signature TEXT NOT NULL,
+        slot INTEGER NOT NULL,
+        block_time INTEGER NOT NULL,
+        pool_address TEXT NOT NULL,
+        shard_number INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        delta_a TEXT NOT NULL,
+        delta_b TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS events_pool_time ON events (pool_address, block_time);
+      CREATE TABLE IF NOT EXISTS cursors (
+        pool_address TEXT PRIMARY KEY,
+        signature TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS resume_points (
+        pool_address TEXT PRIMARY KEY,
+        before_signature TEXT NOT NULL,
+        until_signature TEXT
+      );
+    `);
+  }
+
+  async getCursor(poolAddress: string): Promise<string | null> {
+    const row = this.db
+      .prepare('SELECT signature FROM cursors WHERE pool_address = ?')
+      .get(poolAddress) as { signature: string } | undefined;
+    return row?.signature ?? null;
+  }
+
+  async setCursor(poolAddress: string, signature: string): Promise<void> {
+    this.db
+      .prepare('INSERT OR REPLACE INTO cursors (pool_address, signature) VALUES (?, ?)')
+      .run(poolAddress, signature);
+  }
+
+  async getResumePoint(poolAddress: string): Promise<PoolIndexResumePoint | null> {
+    const row = this.db
+      .prepare('SELECT before_signature, until_signature FROM resume_points WHERE pool_address = ?')
+      .get(poolAddress) as { before_signature: string; until_signature: string | null } | undefined;
+    return row ? { before: row.before_signature, until: row.until_signature } : null;
+  }
+
+  async setResumePoint(poolAddress: string, point: PoolIndexResumePoint | null): Promise<void> {
+    if (point) {
+      this.db
+        .prepare('INSERT OR REPLACE INTO resume_points (pool_address, before_signature, until_signature) VALUES (?, ?, ?)')
+        .run(poolAddress, point.before, point.until);
+    } else {
+      this.db.prepare('DELETE FROM resume_points WHERE pool_address = ?').run(poolAddress);
+    }
+  }
+
+  async putEvents(events: PoolEvent[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO events
+        (id, signature, slot, block_time, pool_address, shard_number, type, delta_a, delta_b)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertAll = this.db.transaction((batch: PoolEvent[]) => {
+      for (const event of batch) {
+        insert.run(
+          event.id, event.signature, event.slot, event.blockTime, event.poolAddress,
+          event.shardNumber, event.type, event.deltaA, event.deltaB
+        );
+      }
+    });
+    insertAll(events);
+  }
+
+  async getEvents(poolAddress: string, sinceBlockTime: number): Promise<PoolEvent[]> {
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM events
+        WHERE pool_address = ? AND block_time >= ?
+        ORDER BY slot, id
+      `)
+      .all(poolAddress, sinceBlockTime) as Record<string, unknown>[];
+    return rows.map(row => ({
+      id: row.id as string,
+      signature: row.signature as string,
+      slot: Number(row.slot),
+      blockTime: Number(row.block_time),
+      poolAddress: row.pool_address as string,
+      shardNumber: Number(row.shard_number),
+      type: row.type as PoolEvent['type'],
+      deltaA: row.delta_a as string,
+      deltaB: row.delta_b as string,
+    }));
+  }
+}
+
+/**
+ * Format base units of a pool's token A
+ */
+function formatAmount(amount: bigint, pool: PoolConfigEntry): string {
+  const decimals = dexConfig.tokens.find(t => t.mint === pool.tokenA)?.decimals ?? 9;
+  return `${(Number(amount) / Math.pow(10, decimals)).toFixed(2)} ${pool.tokenASymbol}`;
+}
+
+function printStats(label: string, stats: Omit<ShardStats, 'poolAddress' | 'shardNumber'>, pool: PoolConfigEntry) {
+  console.log(
+    `   ${label.padEnd(12)} vol 24h ${formatAmount(stats.volume24h, pool).padStart(18)}` +
+    ` | vol 7d ${formatAmount(stats.volume7d, pool).padStart(18)}` +
+    ` | fees 24h ${formatAmount(stats.fees24h, pool).padStart(14)}` +
+    ` | fees 7d ${formatAmount(stats.fees7d, pool).padStart(14)}` +
+    ` | APR ${(stats.feeApr * 100).toFixed(2)}%`
+  );
+}
+
+async function main() {
+  const dbPath = process.argv[2] || process.env.POOL_INDEX_DB || 'pool-index.sqlite';
+  const store = new SqlitePoolEventStore(new Database(dbPath));
+  const connection = new Connection(process.env.SOLANA_RPC_URL || dexConfig.rpcUrl, 'confirmed');
+
+  console.log(`🔄 Discovering pools of ${dexConfig.programId}...`);
+  const pools = await discoverPools(connection);
+  console.log(`📋 Found ${pools.length} pools, indexing into ${dbPath}\n`);
+
+  const results = await syncPoolIndex(connection, pools, store);
+  const indexed = results.reduce((total, result) => total + result.signatures, 0);
+  console.log(`\n✅ Indexed ${indexed} new transactions\n`);
+
+  const snapshots = await fetchPoolSnapshots(connection, pools.map(pool => ({
+    poolAddress: new PublicKey(pool.poolAddress),
+    tokenAAccount: new PublicKey(pool.tokenAccountA),
+    tokenBAccount: new PublicKey(pool.tokenAccountB),
+    lpTokenMint: new PublicKey(pool.poolTokenMint),
+  })));
+
+  // Group shards by pair (same token order, so amounts share a unit)
+  const pairs = new Map<string, { pool: PoolConfigEntry; shards: ShardStats[] }>();
+  for (let i = 0; i < pools.length; i++) {
+    const pool = pools[i];
+    const snapshot = snapshots[i];
+    if (!snapshot) {
+      console.warn(`⚠️  Skipping ${pool.poolAddress}: pool accounts could not be read`);
+      continue;
+    }
+
+    const stats = await getShardStats({
+      poolAddress: pool.poolAddress,
+      shardNumber: pool.shardNumber,
+      reserveA: snapshot.reserveA,
+      feeNumerator: snapshot.feeNumerator,
+      feeDenominator: snapshot.feeDenominator,
+    }, store);
+
+    const key = `${pool.tokenA}-${pool.tokenB}`;
+    const pair = pairs.get(key) ?? { pool, shards: [] };
+    pair.shards.push(stats);
+    pairs.set(key, pair);
+  }
+
+  for (const { pool, shards } of pairs.values()) {
+    console.log(`📊 ${pool.tokenASymbol}/${pool.tokenBSymbol}`);
+    shards
+      .sort((a, b) => a.shardNumber - b.shardNumber)
+      .forEach(shard => printStats(`Shard ${shard.shardNumber}`, shard, pool));
+    printStats('Pair', computePairStats(shards), pool);
+    console.log('');
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Indexing failed:', error);
+  process.exit(1);
+});
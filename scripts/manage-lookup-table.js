@@ -0,0 +1,183 @@
+#!/usr/bin/env node
+/**
+ * Create and extend the DEX address lookup table
+ * Usage: node scripts/manage-lookup-table.js [--dry-run]
+ *
+ * Collects the program, token mint and pool accounts from dex-config.json,
+ * creates the lookup table if `lookupTable` is not set yet, and extends it with
+ * any addresses it is missing (e.g. after new shards are deployed). The table
+ * address is written back to dex-config.json.
+ *
+ * The address order must stay in sync with getDexLookupTableAddresses() in
+ * src/lib/solana/lookupTable.ts.
+ */
+
+const {
+  AddressLookupTableProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} = require('@solana/web3.js');
+const { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_PROGRAM_ID } = require('@solana/spl-token');
+const fs = require('fs');
+const os = require('os');
+
+const CONFIG_PATH = 'src/config/dex-config.json';
+// Keeps each extend transaction comfortably under the packet size limit
+const ADDRESSES_PER_EXTEND = 20;
+
+const dexConfig = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf8'));
+const connection = new Connection(dexConfig.rpcUrl, 'confirmed');
+const dryRun = process.argv.includes('--dry-run');
+
+// Load payer keypair (also the lookup table authority)
+const walletPath = `${os.homedir()}/.config/solana/id.json`;
+let payer;
+try {
+  const secretKey = JSON.parse(fs.readFileSync(walletPath, 'utf8'));
+  payer = Keypair.fromSecretKey(new Uint8Array(secretKey));
+  console.log('✅ Loaded payer wallet:', payer.publicKey.toBase58());
+} catch (err) {
+  console.error('❌ Error loading payer wallet from', walletPath);
+  console.error('   Make sure you have a Solana wallet configured');
+  console.error('   Run: solana-keygen new');
+  process.exit(1);
+}
+
+function getDexAddresses() {
+  const addresses = [
+    dexConfig.programId,
+    TOKEN_PROGRAM_ID.toBase58(),
+    ASSOCIATED_TOKEN_PROGRAM_ID.toBase58(),
+    SystemProgram.programId.toBase58(),
+    ...dexConfig.tokens.map(token => token.mint),
+    ...dexConfig.pools.flatMap(pool => [
+      pool.poolAddress,
+      pool.authority,
+      pool.tokenAccountA,
+      pool.tokenAccountB,
+      pool.poolTokenMint,
+      pool.feeAccount,
+      pool.tokenA,
+      pool.tokenB,
+    ]),
+  ];
+
+  return Array.from(new Set(addresses));
+}
+
+async function sendInstructions(instructions) {
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  const message = new TransactionMessage({
+    payerKey: payer.publicKey,
+    recentBlockhash: blockhash,
+    instructions,
+  }).compileToV0Message();
+
+  const transaction = new VersionedTransaction(message);
+  transaction.sign([payer]);
+
+  const signature = await connection.sendTransaction(transaction);
+  await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+  return signature;
+}
+
+async function createLookupTable() {
+  const recentSlot = await connection.getSlot('finalized');
+  const [instruction, lookupTableAddress] = AddressLookupTableProgram.createLookupTable({
+    authority: payer.publicKey,
+    payer: payer.publicKey,
+    recentSlot,
+  });
+
+  console.log(`📇 Creating lookup table ${lookupTableAddress.toBase58()}...`);
+  const signature = await sendInstructions([instruction]);
+  console.log(`  ✅ Created`);
+  console.log(`  TX: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+
+  dexConfig.lookupTable = lookupTableAddress.toBase58();
+  fs.writeFileSync(CONFIG_PATH, JSON.stringify(dexConfig, null, 2) + '\n');
+  console.log(`  📝 Saved lookup table address to ${CONFIG_PATH}`);
+
+  return lookupTableAddress;
+}
+
+async function manageLookupTable() {
+  console.log('');
+  console.log('📇 DEX Address Lookup Table');
+  console.log('='.repeat(70));
+  console.log('');
+
+  const wanted = getDexAddresses();
+  console.log(`Accounts in dex-config.json: ${wanted.length} (${dexConfig.pools.length} pools)`);
+
+  let existing = [];
+  let lookupTableAddress = dexConfig.lookupTable ? new PublicKey(dexConfig.lookupTable) : null;
+
+  if (lookupTableAddress) {
+    const { value: table } = await connection.getAddressLookupTable(lookupTableAddress);
+    if (!table) {
+      console.error(`❌ Lookup table ${lookupTableAddress.toBase58()} from ${CONFIG_PATH} was not found on-chain`);
+      console.error('   Remove "lookupTable" from the config to create a new one');
+      process.exit(1);
+    }
+    if (!table.state.authority || !table.state.authority.equals(payer.publicKey)) {
+      console.error(`❌ Payer wallet is not the authority of lookup table ${lookupTableAddress.toBase58()}`);
+      process.exit(1);
+    }
+    existing = table.state.addresses.map(address => address.toBase58());
+    console.log(`Lookup table: ${lookupTableAddress.toBase58()} (${existing.length} addresses)`);
+  } else {
+    console.log('Lookup table: not created yet');
+  }
+
+  const missing = wanted.filter(address => !existing.includes(address));
+  console.log(`Missing addresses: ${missing.length}`);
+  console.log('');
+
+  if (dryRun) {
+    missing.forEach(address => console.log(`  + ${address}`));
+    console.log('');
+    console.log('🔍 Dry run - no transactions sent');
+    return;
+  }
+
+  if (!lookupTableAddress) {
+    lookupTableAddress = await createLookupTable();
+    console.log('');
+  }
+
+  for (let i = 0; i < missing.length; i += ADDRESSES_PER_EXTEND) {
+    const batch = missing.slice(i, i + ADDRESSES_PER_EXTEND);
+    console.log(`Extending with addresses ${i + 1}-${i + batch.length} of ${missing.length}...`);
+
+    const signature = await sendInstructions([
+      AddressLookupTableProgram.extendLookupTable({
+        lookupTable: lookupTableAddress,
+        authority: payer.publicKey,
+        payer: payer.publicKey,
+        addresses: batch.map(address => new PublicKey(address)),
+      }),
+    ]);
+
+    console.log(`  ✅ Extended`);
+    console.log(`  TX: https://explorer.solana.com/tx/${signature}?cluster=devnet`);
+
+    // Wait a bit between transactions to avoid rate limiting
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+
+  console.log('');
+  console.log('='.repeat(70));
+  console.log(missing.length > 0 ? '✅ Lookup table is up to date' : '✅ Nothing to do - lookup table is up to date');
+  console.log('   New addresses become usable one slot after they are added');
+  console.log('');
+}
+
+manageLookupTable().catch(err => {
+  console.error('❌ Error:', err.message);
+  process.exit(1);
+});
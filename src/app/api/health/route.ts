@@ -0,0 +1,15 @@
+/**
+ * GET /api/health
+ *
+ * Self-hosted SAMM Router: 200 when the RPC node answers, 503 otherwise.
+ */
+
+import { NextResponse } from 'next/server';
+import { checkHealth, getServerConnection } from '@/lib/sammRouter';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const health = await checkHealth(getServerConnection());
+  return NextResponse.json(health, { status: health.status === 'ok' ? 200 : 503 });
+}
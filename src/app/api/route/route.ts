@@ -0,0 +1,30 @@
+/**
+ * POST /api/route
+ *
+ * Self-hosted SAMM Router: pick the shard for a swap (see lib/sammRouter).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerConnection, routeSwap, SammRouterError } from '@/lib/sammRouter';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await routeSwap(getServerConnection(), body ?? {}));
+  } catch (error) {
+    const status = error instanceof SammRouterError ? error.status : 502;
+    const message = error instanceof Error ? error.message : String(error);
+    if (status >= 500) {
+      console.error('[api/route] Routing failed:', error);
+    }
+    return NextResponse.json({ success: false, error: message }, { status });
+  }
+}
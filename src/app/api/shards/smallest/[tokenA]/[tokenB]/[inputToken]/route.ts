@@ -0,0 +1,29 @@
+/**
+ * GET /api/shards/smallest/:tokenA/:tokenB/:inputToken
+ *
+ * Self-hosted SAMM Router: a pair's shards for liquidity routing, smallest
+ * first (see lib/sammRouter).
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerConnection, getSmallestShards, SammRouterError } from '@/lib/sammRouter';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { tokenA: string; tokenB: string; inputToken: string } }
+) {
+  try {
+    return NextResponse.json(
+      await getSmallestShards(getServerConnection(), params.tokenA, params.tokenB, params.inputToken)
+    );
+  } catch (error) {
+    const status = error instanceof SammRouterError ? error.status : 502;
+    const message = error instanceof Error ? error.message : String(error);
+    if (status >= 500) {
+      console.error('[api/shards/smallest] Shard lookup failed:', error);
+    }
+    return NextResponse.json({ success: false, error: message }, { status });
+  }
+}
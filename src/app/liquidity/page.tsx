@@ -17,9 +17,14 @@ import {
   validatePoolCreation,
   hasSufficientSolForPoolCreation,
 } from "@/utils/poolValidation";
-import { getLiquidityService } from "@/services/liquidityService";
+import {
+  AddLiquidityQuote,
+  getLiquidityService,
+  ShardRecommendation,
+} from "@/services/liquidityService";
 import { useTransactionStore } from "@/stores/transactionStore";
 import { useNotificationStore } from "@/stores/notificationStore";
+import { useSwapStore } from "@/stores/swapStore";
 import { PublicKey } from "@solana/web3.js";
 import {
   getAssociatedTokenAddress,
@@ -40,6 +45,7 @@ export default function LiquidityPage() {
   const { addTransaction } = useTransactionStore();
   const { showSuccess, showError, showInfo, showWarning } =
     useNotificationStore();
+  const slippageTolerance = useSwapStore((state) => state.slippageTolerance);
   
   // Integrate pool refresh hook for real-time data (Requirement 1.1, 4.1, 4.4, 5.1)
   const { 
@@ -66,10 +72,16 @@ export default function LiquidityPage() {
   const [amountA, setAmountA] = useState("");
   const [amountB, setAmountB] = useState("");
 
+  // Deposit mode: both tokens at the pool ratio, or one token (ADD_SINGLE)
+  const [depositMode, setDepositMode] = useState<"both" | "single">("both");
+  const [singleSide, setSingleSide] = useState<"A" | "B">("A");
+
   // Calculated values
   const [lpTokensToReceive, setLpTokensToReceive] = useState(BigInt(0));
   const [shareOfPool, setShareOfPool] = useState(0);
   const [priceImpact, setPriceImpact] = useState(0);
+  const [singleSidedSwapFee, setSingleSidedSwapFee] = useState(BigInt(0));
+  const [addLiquidityQuote, setAddLiquidityQuote] = useState<AddLiquidityQuote | null>(null);
 
   // UI state
   const [isProcessing, setIsProcessing] = useState(false);
@@ -85,11 +97,7 @@ export default function LiquidityPage() {
   const [showSuccessAnimation, setShowSuccessAnimation] = useState(false);
 
   // Shard routing state
-  const [selectedShard, setSelectedShard] = useState<{
-    poolAddress: string;
-    shardNumber: number;
-    reserves: { tokenA: string; tokenB: string };
-  } | null>(null);
+  const [selectedShard, setSelectedShard] = useState<ShardRecommendation | null>(null);
   const [isLoadingShard, setIsLoadingShard] = useState(false);
 
   // Remove liquidity modal state
@@ -132,7 +140,7 @@ export default function LiquidityPage() {
       if (shardPool) {
         // ✅ FIXED: Use ACTUAL LP supply from blockchain (fetched by poolBlockchainFetcher)
         // The shardPool object already contains the correct blockchain-fetched LP supply
-        // We only need to update reserves from the API shard data
+        // We only need to update reserves from the shard recommendation (backend or on-chain)
         const freshReserveA = BigInt(selectedShard.reserves.tokenA);
         const freshReserveB = BigInt(selectedShard.reserves.tokenB);
 
@@ -145,12 +153,12 @@ export default function LiquidityPage() {
           lpTokenSupply: shardPool.lpTokenSupply,
         };
 
-        console.log('🔄 Using fresh data from API + blockchain:', {
+        console.log('🔄 Using fresh shard reserves + blockchain LP supply:', {
           poolAddress: selectedShard.poolAddress,
           reserveA: selectedShard.reserves.tokenA,
           reserveB: selectedShard.reserves.tokenB,
           lpTokenSupply: shardPool.lpTokenSupply.toString(),
-          source: 'API reserves + blockchain LP supply'
+          source: `${selectedShard.routingMethod} reserves + blockchain LP supply`
         });
         return updatedPool;
       }
@@ -198,7 +206,7 @@ export default function LiquidityPage() {
         } else {
           setSelectedShard(null);
           console.log(
-            "ℹ️  No shard recommendation from backend, using first available pool"
+            "ℹ️  No shard recommendation, using first available pool"
           );
         }
       } catch (error) {
@@ -457,6 +465,11 @@ export default function LiquidityPage() {
         });
       }
 
+      // Single-sided deposits do not pair the amount with the other token
+      if (depositMode === "single") {
+        return;
+      }
+
       if (value && poolRatio > 0) {
         const calculatedB = calculateAmountB(value);
         setAmountB(calculatedB);
@@ -464,7 +477,7 @@ export default function LiquidityPage() {
         setAmountB("");
       }
     },
-    [poolRatio, calculateAmountB, validationErrors]
+    [poolRatio, calculateAmountB, validationErrors, depositMode]
   );
 
   const handleAmountBChange = useCallback(
@@ -483,6 +496,11 @@ export default function LiquidityPage() {
         });
       }
 
+      // Single-sided deposits do not pair the amount with the other token
+      if (depositMode === "single") {
+        return;
+      }
+
       if (value && poolRatio > 0) {
         const calculatedA = calculateAmountA(value);
         setAmountA(calculatedA);
@@ -490,7 +508,7 @@ export default function LiquidityPage() {
         setAmountA("");
       }
     },
-    [poolRatio, calculateAmountA, validationErrors]
+    [poolRatio, calculateAmountA, validationErrors, depositMode]
   );
 
   const handleMaxA = useCallback(() => {
@@ -509,8 +527,95 @@ export default function LiquidityPage() {
     }
   }, [selectedTokenB, tokenBBalance, handleAmountBChange]);
 
+  // Switching deposit mode or side invalidates the entered amounts
+  const handleDepositModeChange = useCallback((mode: "both" | "single") => {
+    setDepositMode(mode);
+    setAmountA("");
+    setAmountB("");
+    setSingleSidedSwapFee(BigInt(0));
+    setValidationErrors({});
+  }, []);
+
+  const handleSingleSideChange = useCallback((side: "A" | "B") => {
+    setSingleSide(side);
+    setAmountA("");
+    setAmountB("");
+    setSingleSidedSwapFee(BigInt(0));
+    setValidationErrors({});
+  }, []);
+
+  // Token and amount deposited in single-sided mode
+  const singleSidedToken = singleSide === "A" ? selectedTokenA : selectedTokenB;
+  const singleSidedAmount = singleSide === "A" ? amountA : amountB;
+  const singleSidedBalance = singleSide === "A" ? tokenABalance : tokenBBalance;
+
+  // Quote single-sided deposits against on-chain reserves and fees (debounced)
+  useEffect(() => {
+    if (depositMode !== "single") {
+      return;
+    }
+
+    const amountNum = parseFloat(singleSidedAmount);
+    if (!currentPool || !singleSidedToken || !connection || !amountNum || amountNum <= 0) {
+      setLpTokensToReceive(BigInt(0));
+      setShareOfPool(0);
+      setPriceImpact(0);
+      setSingleSidedSwapFee(BigInt(0));
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const amountIn = BigInt(
+          Math.floor(amountNum * Math.pow(10, singleSidedToken.decimals))
+        );
+        const liquidityService = getLiquidityService(connection, currentPool.programId);
+        const quote = await liquidityService.quoteSingleSidedDeposit(
+          currentPool,
+          singleSidedToken.mint,
+          amountIn
+        );
+        if (cancelled) return;
+
+        // Value lost versus a balanced deposit: half the pool's value is in the source token
+        const sourceReserve =
+          singleSidedToken.mint === currentPool.tokenA.mint
+            ? currentPool.reserveA
+            : currentPool.reserveB;
+        const depositValue =
+          currentPool.lpTokenSupply > BigInt(0)
+            ? (Number(quote.lpTokens) / Number(currentPool.lpTokenSupply)) *
+              Number(sourceReserve) * 2
+            : 0;
+        const impact =
+          depositValue > 0
+            ? Math.max(0, (1 - depositValue / Number(amountIn)) * 100)
+            : 0;
+
+        setLpTokensToReceive(quote.lpTokens);
+        setShareOfPool(quote.shareOfPool);
+        setPriceImpact(impact);
+        setSingleSidedSwapFee(quote.swapFee);
+      } catch (error) {
+        if (!cancelled) {
+          console.error("Error quoting single-sided deposit:", error);
+        }
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [depositMode, currentPool, singleSidedToken, singleSidedAmount, connection]);
+
   // Calculate LP tokens and pool share (Subtask 3.4)
   useEffect(() => {
+    if (depositMode === "single") {
+      return;
+    }
+
     if (!currentPool || !amountA || !amountB) {
       setLpTokensToReceive(BigInt(0));
       setShareOfPool(0);
@@ -574,12 +679,87 @@ export default function LiquidityPage() {
     } catch (error) {
       console.error("Error calculating LP tokens:", error);
     }
-  }, [currentPool, amountA, amountB]);
+  }, [depositMode, currentPool, amountA, amountB]);
+
+  // Quote the exact LP target and worst-case deposit at on-chain reserves (debounced)
+  useEffect(() => {
+    setAddLiquidityQuote(null);
+
+    if (depositMode === "single" || !currentPool || !connection) {
+      return;
+    }
+
+    const amountANum = parseFloat(amountA);
+    const amountBNum = parseFloat(amountB);
+    if (!amountANum || amountANum <= 0 || !amountBNum || amountBNum <= 0) {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const amountABigInt = BigInt(
+          Math.floor(amountANum * Math.pow(10, currentPool.tokenA.decimals))
+        );
+        const amountBBigInt = BigInt(
+          Math.floor(amountBNum * Math.pow(10, currentPool.tokenB.decimals))
+        );
+        const liquidityService = getLiquidityService(connection, currentPool.programId);
+        const quote = await liquidityService.quoteAddLiquidity(
+          currentPool,
+          amountABigInt,
+          amountBBigInt,
+          slippageTolerance
+        );
+        if (cancelled) return;
+
+        setAddLiquidityQuote(quote);
+        setLpTokensToReceive(quote.lpTokens);
+        setShareOfPool(quote.shareOfPool);
+      } catch (error) {
+        if (!cancelled) {
+          console.error("Error quoting deposit:", error);
+        }
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [depositMode, currentPool, amountA, amountB, slippageTolerance, connection]);
 
   // Validation logic (Subtask 3.5)
   const validateInputs = useCallback(() => {
     if (!currentPool || !selectedTokenA || !selectedTokenB) return false;
 
+    if (depositMode === "single") {
+      const errors: Record<string, string> = {};
+      const errorKey = singleSide === "A" ? "amountA" : "amountB";
+      const amountNum = parseFloat(singleSidedAmount);
+
+      if (!singleSidedToken || !amountNum || amountNum <= 0) {
+        errors[errorKey] = "Amount must be greater than 0";
+      } else if (
+        BigInt(Math.floor(amountNum * Math.pow(10, singleSidedToken.decimals))) >
+        singleSidedBalance
+      ) {
+        errors[errorKey] = `Insufficient ${singleSidedToken.symbol} balance`;
+      }
+
+      if (!hasSufficientSolForPoolCreation(solBalance)) {
+        errors.general = "Insufficient SOL for transaction fees";
+      }
+
+      if (priceImpact > 15) {
+        errors.general =
+          "Price impact too high (>15%). Please reduce the amount.";
+      }
+
+      setValidationErrors(errors);
+      return Object.keys(errors).length === 0;
+    }
+
     const validation = validatePoolCreation({
       tokenA: selectedTokenA,
       tokenB: selectedTokenB,
@@ -621,8 +801,104 @@ export default function LiquidityPage() {
     tokenBBalance,
     solBalance,
     priceImpact,
+    depositMode,
+    singleSide,
+    singleSidedToken,
+    singleSidedAmount,
+    singleSidedBalance,
   ]);
 
+  // Reset the add form after a successful deposit
+  const resetAddForm = () => {
+    setAmountA('');
+    setAmountB('');
+    setSelectedTokenA(null);
+    setSelectedTokenB(null);
+    setTokenASelectorExpanded(true);
+    setTokenBSelectorExpanded(false);
+    setAmountInputExpanded(false);
+    setLpTokensToReceive(BigInt(0));
+    setShareOfPool(0);
+    setPriceImpact(0);
+    setSingleSidedSwapFee(BigInt(0));
+    setValidationErrors({});
+    setShowSuccessAnimation(false);
+  };
+
+  // Single-sided deposit via ADD_SINGLE (called from handleAddLiquidity once checks pass)
+  const handleAddSingleSidedLiquidity = async () => {
+    try {
+      if (!connection || !solanaWallet || !currentPool || !singleSidedToken) {
+        throw new Error('Connection or wallet not available');
+      }
+
+      console.log('🔄 Refreshing pool data before liquidity operation');
+      await manualRefresh();
+
+      const amountIn = BigInt(
+        Math.floor(parseFloat(singleSidedAmount) * Math.pow(10, singleSidedToken.decimals))
+      );
+      const liquidityService = getLiquidityService(connection, currentPool.programId);
+
+      console.log('💰 Single-Sided Add Liquidity Parameters:');
+      console.log('  Amount In:', amountIn.toString(), `(${singleSidedAmount} ${singleSidedToken.symbol})`);
+      console.log('  Quoted LP Tokens:', lpTokensToReceive.toString());
+      console.log('  Quoted Swap Fee:', singleSidedSwapFee.toString());
+
+      const result = await liquidityService.addSingleSidedLiquidity(
+        {
+          pool: currentPool,
+          sourceMint: singleSidedToken.mint,
+          amountIn,
+        },
+        solanaWallet,
+        (status, signature, error) => {
+          if (error) {
+            setError(error);
+          }
+        }
+      );
+
+      if (result.status === TransactionStatus.CONFIRMED) {
+        addTransaction({
+          signature: result.signature,
+          hash: result.signature,
+          type: TransactionType.ADD_LIQUIDITY,
+          status: TransactionStatus.CONFIRMED,
+          timestamp: Date.now(),
+          tokenIn: singleSidedToken,
+          amountIn,
+          feePayer: solanaWallet.publicKey?.toString() || '',
+          solFee: BigInt(5000),
+        });
+
+        setShowSuccessAnimation(true);
+        showSuccess(
+          'Liquidity Added Successfully!',
+          `Added ${singleSidedAmount} ${singleSidedToken.symbol} to the pool`
+        );
+
+        await manualRefresh();
+        refreshAfterOperation().catch(err => {
+          console.warn('Failed to refresh LP positions:', err);
+        });
+
+        setTimeout(resetAddForm, 2000);
+      } else {
+        const errorMsg = result.error || 'Failed to add liquidity';
+        setError(errorMsg);
+        showError('Transaction Failed', errorMsg);
+      }
+    } catch (err) {
+      console.error('Single-sided add liquidity failed:', err);
+      const errorMsg = err instanceof Error ? err.message : 'Failed to add liquidity';
+      setError(errorMsg);
+      showError('Transaction Failed', errorMsg);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   // Add liquidity transaction logic (Subtask 3.8)
   const handleAddLiquidity = async () => {
     // ✅ CRITICAL: Prevent duplicate transaction submissions
@@ -663,6 +939,11 @@ export default function LiquidityPage() {
     setLastTransactionTime(now);
     setError(null);
 
+    if (depositMode === "single") {
+      await handleAddSingleSidedLiquidity();
+      return;
+    }
+
     try {
       // Fetch current pool reserves before liquidity operation (Requirement 1.1, 2.1)
       console.log('🔄 Refreshing pool data before liquidity operation');
@@ -691,33 +972,23 @@ export default function LiquidityPage() {
         return;
       }
       
-      // ✅ CRITICAL FIX: Pass EXPECTED LP tokens, not minimum!
-      // The smart contract's pool_token_amount parameter means:
-      // "I want to receive THIS MANY LP tokens"
-      // NOT "I'll accept at least this many LP tokens"
-      // 
-      // Slippage protection is handled by the maximum token amounts (2x buffer),
-      // not by reducing the LP token amount.
-      // This matches the working Node.js script behavior.
-      const expectedLpTokens = lpTokensToReceive;
-      
       console.log('💰 Add Liquidity Parameters:');
       console.log('  Amount A:', amountABigInt.toString(), `(${amountA} ${selectedTokenA.symbol})`);
       console.log('  Amount B:', amountBBigInt.toString(), `(${amountB} ${selectedTokenB.symbol})`);
-      console.log('  Expected LP Tokens:', lpTokensToReceive.toString());
+      console.log('  LP Tokens:', addLiquidityQuote ? addLiquidityQuote.lpTokens.toString() : '(quoted at build time)');
+      console.log('  Slippage Tolerance:', `${slippageTolerance}%`);
       console.log('  Pool Reserve A:', currentPool.reserveA.toString());
       console.log('  Pool Reserve B:', currentPool.reserveB.toString());
       console.log('  Pool LP Supply:', currentPool.lpTokenSupply.toString());
       console.log('  Deposit % of pool:', depositPercentage.toFixed(4) + '%');
-      console.log('  Note: Token amounts will have 2x buffer (100% slippage) added in liquidityService');
-      console.log('  Note: Matches working Node.js script exactly (2x buffer, 1% deposit)');
 
       const result = await liquidityService.addLiquidity(
         {
           pool: currentPool,
           amountA: amountABigInt,
           amountB: amountBBigInt,
-          minLpTokens: expectedLpTokens,
+          slippageTolerance,
+          quote: addLiquidityQuote ?? undefined,
         },
         solanaWallet,
         (status, signature, error) => {
@@ -759,20 +1030,7 @@ export default function LiquidityPage() {
         });
         
         // Reset form after animation
-        setTimeout(() => {
-          setAmountA('');
-          setAmountB('');
-          setSelectedTokenA(null);
-          setSelectedTokenB(null);
-          setTokenASelectorExpanded(true);
-          setTokenBSelectorExpanded(false);
-          setAmountInputExpanded(false);
-          setLpTokensToReceive(BigInt(0));
-          setShareOfPool(0);
-          setPriceImpact(0);
-          setValidationErrors({});
-          setShowSuccessAnimation(false);
-        }, 2000);
+        setTimeout(resetAddForm, 2000);
       } else {
         const errorMsg = result.error || 'Failed to add liquidity';
         setError(errorMsg);
@@ -1052,8 +1310,16 @@ export default function LiquidityPage() {
                               <span className="text-gray-400">
                                 Selected Shard:
                               </span>
-                              <span className="text-green-400 font-medium">
-                                Shard {selectedShard.shardNumber} (Smallest)
+                              <span
+                                className="text-green-400 font-medium"
+                                title={
+                                  selectedShard.routingMethod === "local"
+                                    ? "Router backend unavailable; selected from on-chain reserves"
+                                    : undefined
+                                }
+                              >
+                                Shard {selectedShard.shardNumber} (Smallest
+                                {selectedShard.routingMethod === "local" ? ", local" : ""})
                               </span>
                             </div>
                           ) : null}
@@ -1097,6 +1363,60 @@ export default function LiquidityPage() {
                     )}
                 </div>
 
+                {/* Deposit Mode - both tokens or a single token */}
+                {amountInputExpanded && selectedTokenA && selectedTokenB && (
+                  <div className="mt-4 space-y-2">
+                    <div
+                      className="grid grid-cols-2 gap-2 p-1 bg-white/5 border border-white/10 rounded-2xl"
+                      role="tablist"
+                      aria-label="Deposit mode"
+                    >
+                      {(["both", "single"] as const).map((mode) => (
+                        <button
+                          key={mode}
+                          type="button"
+                          role="tab"
+                          aria-selected={depositMode === mode}
+                          onClick={() => handleDepositModeChange(mode)}
+                          className={`py-2 rounded-xl text-sm font-medium transition-all ${
+                            depositMode === mode
+                              ? "bg-gradient-to-r from-blue-500 to-purple-500 text-white"
+                              : "text-white/60 hover:text-white"
+                          }`}
+                        >
+                          {mode === "both" ? "Both Tokens" : "Single Token"}
+                        </button>
+                      ))}
+                    </div>
+                    {depositMode === "single" && (
+                      <div className="flex items-center gap-2 text-sm text-white/70">
+                        <span>Deposit</span>
+                        {(["A", "B"] as const).map((side) => {
+                          const token = side === "A" ? selectedTokenA : selectedTokenB;
+                          return (
+                            <button
+                              key={side}
+                              type="button"
+                              onClick={() => handleSingleSideChange(side)}
+                              aria-pressed={singleSide === side}
+                              className={`px-3 py-1 rounded-lg border transition-all ${
+                                singleSide === side
+                                  ? "border-blue-500/50 bg-blue-500/10 text-white"
+                                  : "border-white/10 text-white/60 hover:text-white"
+                              }`}
+                            >
+                              {token.symbol}
+                            </button>
+                          );
+                        })}
+                        <span className="text-xs text-white/50">
+                          Half is swapped at the pool fee
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Amount Input Card - Expands when both tokens selected */}
                 <AmountInputCard
                   isExpanded={amountInputExpanded}
@@ -1116,6 +1436,17 @@ export default function LiquidityPage() {
                   priceImpact={priceImpact}
                   validationErrors={validationErrors}
                   isLoadingBalances={isLoadingBalances}
+                  singleToken={depositMode === "single" ? singleSide : undefined}
+                  swapFee={depositMode === "single" ? singleSidedSwapFee : undefined}
+                  maxDeposit={
+                    depositMode === "both" && addLiquidityQuote
+                      ? {
+                          tokenA: addLiquidityQuote.maxTokenA,
+                          tokenB: addLiquidityQuote.maxTokenB,
+                          slippageTolerance: addLiquidityQuote.slippageTolerance,
+                        }
+                      : undefined
+                  }
                 />
 
                 {/* Add Liquidity Button - Show when amount input is expanded */}
@@ -1169,8 +1500,9 @@ export default function LiquidityPage() {
                     <button
                       onClick={handleAddLiquidity}
                       disabled={
-                        !amountA ||
-                        !amountB ||
+                        (depositMode === "single"
+                          ? !singleSidedAmount
+                          : !amountA || !amountB) ||
                         isProcessing ||
                         Object.keys(validationErrors).length > 0 ||
                         showSuccessAnimation
@@ -12,10 +12,13 @@ import {
   FunnelIcon,
   ArrowPathIcon,
   ExclamationTriangleIcon,
+  PlusIcon,
 } from '@heroicons/react/24/outline';
 import dexConfig from '@/config/dex-config.json';
 import { TokenPairIcon } from '@/components/tokens/TokenIcon';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { AddShard } from '@/components/pools/AddShard';
+import { PairPriceChart } from '@/components/pools/PairPriceChart';
 import { usePoolStore } from '@/stores/poolStore';
 import { usePoolRefresh } from '@/hooks/usePoolRefresh';
 
@@ -73,6 +76,8 @@ export default function PoolsPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedPair, setSelectedPair] = useState<string>('all');
   const [showFilters, setShowFilters] = useState(false);
+  const [addShardPair, setAddShardPair] = useState<string | null>(null);
+  const [chartPair, setChartPair] = useState<string | null>(null);
   
   // Use centralized pool store and refresh hook
   const { pools } = usePoolStore();
@@ -361,17 +366,47 @@ export default function PoolsPage() {
                             </div>
                           </div>
                         </div>
-                        <div className="text-right">
-                          <div className="text-sm text-gray-400">Total Liquidity</div>
-                          <div className="text-lg font-bold text-white">
-                            {formatTokenAmount(totalLiquidityA.toString(), pairPools[0].tokenASymbol)} {pairPools[0].tokenASymbol}
-                          </div>
-                          <div className="text-sm text-gray-400">
-                            {formatTokenAmount(totalLiquidityB.toString(), pairPools[0].tokenBSymbol)} {pairPools[0].tokenBSymbol}
+                        <div className="flex items-center gap-4">
+                          <button
+                            onClick={() => setChartPair(chartPair === pairKey ? null : pairKey)}
+                            className={`flex items-center gap-1 px-3 py-2 backdrop-blur-xl border rounded-xl text-sm text-white transition-all ${
+                              chartPair === pairKey
+                                ? 'bg-blue-500/20 border-blue-500/50'
+                                : 'bg-white/5 border-white/10 hover:bg-white/10 hover:border-white/20'
+                            }`}
+                          >
+                            <ChartBarIcon className="w-4 h-4" />
+                            Price Chart
+                          </button>
+                          <button
+                            onClick={() => setAddShardPair(pairKey)}
+                            className="flex items-center gap-1 px-3 py-2 backdrop-blur-xl bg-white/5 border border-white/10 rounded-xl hover:bg-white/10 hover:border-white/20 text-sm text-white transition-all"
+                          >
+                            <PlusIcon className="w-4 h-4" />
+                            Add Shard
+                          </button>
+                          <div className="text-right">
+                            <div className="text-sm text-gray-400">Total Liquidity</div>
+                            <div className="text-lg font-bold text-white">
+                              {formatTokenAmount(totalLiquidityA.toString(), pairPools[0].tokenASymbol)} {pairPools[0].tokenASymbol}
+                            </div>
+                            <div className="text-sm text-gray-400">
+                              {formatTokenAmount(totalLiquidityB.toString(), pairPools[0].tokenBSymbol)} {pairPools[0].tokenBSymbol}
+                            </div>
                           </div>
                         </div>
                       </div>
 
+                      {chartPair === pairKey && (
+                        <PairPriceChart
+                          baseMint={pairPools[0].tokenA}
+                          quoteMint={pairPools[0].tokenB}
+                          baseSymbol={pairPools[0].tokenASymbol}
+                          quoteSymbol={pairPools[0].tokenBSymbol}
+                          className="mb-6"
+                        />
+                      )}
+
                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                         {pairPools.map((pool) => (
                           <div
@@ -436,6 +471,15 @@ export default function PoolsPage() {
           </>
         )}
       </div>
+
+      {addShardPair && (
+        <AddShard
+          isOpen={true}
+          pair={addShardPair}
+          onClose={() => setAddShardPair(null)}
+          onShardDeployed={() => manualRefresh()}
+        />
+      )}
     </div>
   );
 }
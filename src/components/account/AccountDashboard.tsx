@@ -13,6 +13,7 @@ import {
   FunnelIcon,
 } from '@heroicons/react/24/outline';
 import { TransactionType, TransactionStatus } from '@/types';
+import { TransactionExportMenu } from '@/components/transactions/TransactionExportMenu';
 
 
 export function AccountDashboard() {
@@ -335,13 +336,16 @@ export function AccountDashboard() {
         <div className="px-6 py-4 border-b border-gray-200">
           <div className="flex items-center justify-between">
             <h3 className="text-lg font-semibold text-gray-900">Transaction History</h3>
-            <button
-              onClick={() => setShowFilters(!showFilters)}
-              className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
-            >
-              <FunnelIcon className="w-4 h-4" />
-              <span>Filters</span>
-            </button>
+            <div className="flex items-center gap-2">
+              <TransactionExportMenu transactions={filteredTransactions} theme="light" />
+              <button
+                onClick={() => setShowFilters(!showFilters)}
+                className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+              >
+                <FunnelIcon className="w-4 h-4" />
+                <span>Filters</span>
+              </button>
+            </div>
           </div>
         </div>
 
@@ -12,6 +12,7 @@ import { validatePoolCreation, hasSufficientSolForPoolCreation } from '@/utils/p
 import { getLiquidityService } from '@/services/liquidityService';
 import { TransactionStatus, TransactionType } from '@/types';
 import { useTransactionStore } from '@/stores/transactionStore';
+import { useSwapStore } from '@/stores/swapStore';
 import { PublicKey } from '@solana/web3.js';
 import { getAssociatedTokenAddress, TOKEN_PROGRAM_ID, getAccount } from '@solana/spl-token';
 
@@ -34,6 +35,8 @@ export function AddLiquidity({ pool, isOpen, onClose, onLiquidityAdded }: AddLiq
   const { isConnected, tokenBalances, solBalance, solanaWallet, publicKey } = useWallet();
   const { connection } = useConnection();
   const { addTransaction } = useTransactionStore();
+  const feeSettings = useSwapStore((state) => state.feeSettings);
+  const slippageTolerance = useSwapStore((state) => state.slippageTolerance);
   
   const [state, setState] = useState<LiquidityState>({
     amountA: '',
@@ -356,16 +359,14 @@ export function AddLiquidity({ pool, isOpen, onClose, onLiquidityAdded }: AddLiq
       }
 
       const liquidityService = getLiquidityService(connection, pool.programId);
-      
-      // Calculate min LP tokens (with 1% slippage tolerance)
-      const minLpTokens = state.lpTokensToReceive * BigInt(99) / BigInt(100);
 
       const result = await liquidityService.addLiquidity(
         {
           pool,
           amountA: amountABigInt,
           amountB: amountBBigInt,
-          minLpTokens,
+          slippageTolerance,
+          feeSettings,
         },
         solanaWallet,
         (status, signature, error) => {
@@ -0,0 +1,279 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Dialog } from '@headlessui/react';
+import { XMarkIcon, InformationCircleIcon, ExclamationTriangleIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import { useConnection } from '@solana/wallet-adapter-react';
+import { useWallet } from '@/hooks/useWallet';
+import { useSwapStore } from '@/stores/swapStore';
+import { formatNumber } from '@/utils/formatting';
+import { parseSolanaError } from '@/utils/solanaErrors';
+import { feeToPercent } from '@/lib/solana/poolAccountDecoder';
+import {
+  deployShard,
+  quoteNewShard,
+  DeployedShard,
+  ShardDeploymentQuote,
+} from '@/lib/solana/shardDeployment';
+
+interface AddShardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Pair to add a shard to, as configured (e.g. "USDC/SOL") */
+  pair: string;
+  onShardDeployed?: (shard: DeployedShard) => void;
+}
+
+export function AddShard({ isOpen, onClose, pair, onShardDeployed }: AddShardProps) {
+  const { isConnected, solanaWallet } = useWallet();
+  const { connection } = useConnection();
+  const feeSettings = useSwapStore((state) => state.feeSettings);
+  const [symbolA, symbolB] = pair.split('/');
+
+  const [amountA, setAmountA] = useState('');
+  const [quote, setQuote] = useState<ShardDeploymentQuote | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [isDeploying, setIsDeploying] = useState(false);
+  const [deployed, setDeployed] = useState<DeployedShard | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Reset state when dialog opens/closes
+  useEffect(() => {
+    if (!isOpen) {
+      setAmountA('');
+      setQuote(null);
+      setDeployed(null);
+      setError(null);
+      setCopied(false);
+    }
+  }, [isOpen]);
+
+  // Re-quote at the current cross-shard price when the amount changes (debounced)
+  useEffect(() => {
+    const amount = parseFloat(amountA);
+    if (!isOpen || !(amount > 0)) {
+      setQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsQuoting(true);
+      try {
+        const newQuote = await quoteNewShard(connection, symbolA, symbolB, amount);
+        if (!cancelled) {
+          setQuote(newQuote);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setQuote(null);
+          setError(err instanceof Error ? err.message : 'Failed to price the new shard');
+        }
+      } finally {
+        if (!cancelled) setIsQuoting(false);
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [isOpen, amountA, connection, symbolA, symbolB]);
+
+  const configJson = useMemo(
+    () => deployed ? JSON.stringify(deployed.configUpdate, null, 2) : '',
+    [deployed]
+  );
+
+  const handleAmountChange = (value: string) => {
+    if (value === '' || /^\d*\.?\d*$/.test(value)) {
+      setAmountA(value);
+    }
+  };
+
+  const handleDeploy = async () => {
+    if (!quote || !solanaWallet) return;
+
+    setIsDeploying(true);
+    setError(null);
+
+    try {
+      const shard = await deployShard(connection, solanaWallet, quote, { feeSettings });
+      setDeployed(shard);
+      onShardDeployed?.(shard);
+    } catch (err) {
+      setError(parseSolanaError(err).userMessage);
+    } finally {
+      setIsDeploying(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(configJson);
+    setCopied(true);
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([configJson], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${symbolA}-${symbolB}-shard-${deployed?.config.shardNumber}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog open={isOpen} onClose={isDeploying ? () => {} : onClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm" aria-hidden="true" />
+
+      <div className="fixed inset-0 overflow-y-auto">
+        <div className="flex min-h-full items-center justify-center p-4">
+          <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-3xl backdrop-blur-xl bg-gray-900/95 border border-white/10 p-6 text-left align-middle shadow-xl transition-all">
+            <div className="flex items-center justify-between mb-6">
+              <Dialog.Title className="text-xl font-semibold text-white">
+                Add {pair} Shard
+              </Dialog.Title>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-white"
+                disabled={isDeploying}
+              >
+                <XMarkIcon className="w-6 h-6" />
+              </button>
+            </div>
+
+            {!isConnected && (
+              <div className="mb-6 p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-2xl">
+                <div className="flex items-center">
+                  <ExclamationTriangleIcon className="w-5 h-5 text-yellow-400 mr-2" />
+                  <span className="text-sm text-yellow-200">
+                    Please connect your wallet to deploy a shard
+                  </span>
+                </div>
+              </div>
+            )}
+
+            {deployed ? (
+              <div className="space-y-4">
+                <div className="flex items-center gap-2 text-green-400">
+                  <CheckCircleIcon className="w-5 h-5" />
+                  <span className="text-sm font-medium">
+                    Shard #{deployed.config.shardNumber} deployed and available for routing
+                  </span>
+                </div>
+                <p className="text-sm text-gray-400">
+                  Add the pool entry to <code className="text-gray-300">pools</code> and replace{' '}
+                  <code className="text-gray-300">summary</code> in dex-config.json to keep it after a reload.
+                </p>
+                <pre className="max-h-64 overflow-auto p-3 bg-black/40 border border-white/10 rounded-xl text-xs text-gray-300">
+                  {configJson}
+                </pre>
+                <div className="flex space-x-3">
+                  <button
+                    type="button"
+                    onClick={handleCopy}
+                    className="flex-1 px-4 py-2 text-sm font-medium text-white bg-white/5 border border-white/10 rounded-xl hover:bg-white/10"
+                  >
+                    {copied ? 'Copied' : 'Copy JSON'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleDownload}
+                    className="flex-1 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-xl hover:bg-blue-700"
+                  >
+                    Download
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {/* Token A Amount */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    {symbolA} Amount
+                  </label>
+                  <input
+                    type="text"
+                    value={amountA}
+                    onChange={(e) => handleAmountChange(e.target.value)}
+                    placeholder="0.0"
+                    disabled={isDeploying}
+                    className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    The matching {symbolB} amount is set by the current cross-shard price.
+                  </p>
+                </div>
+
+                {/* Shard Information */}
+                {quote && (
+                  <div className="p-4 bg-blue-500/10 border border-blue-500/30 rounded-2xl">
+                    <div className="flex items-center mb-3">
+                      <InformationCircleIcon className="w-5 h-5 text-blue-400 mr-2" />
+                      <span className="text-sm font-medium text-blue-200">Shard #{quote.shardNumber}</span>
+                    </div>
+                    <div className="space-y-2 text-sm">
+                      <div className="flex justify-between">
+                        <span className="text-gray-400">{symbolB} Amount:</span>
+                        <span className="font-medium text-white">{formatNumber(quote.amountB, 6)} {symbolB}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-400">Price ({quote.sourceShards} shards):</span>
+                        <span className="font-medium text-white">
+                          1 {quote.tokenA.symbol} = {formatNumber(quote.price, 6)} {quote.tokenB.symbol}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-400">Trade Fee:</span>
+                        <span className="font-medium text-white">
+                          {feeToPercent(quote.fees.tradeFeeNumerator, quote.fees.tradeFeeDenominator)}%
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {isQuoting && !quote && (
+                  <p className="text-sm text-gray-400">Fetching shard reserves...</p>
+                )}
+
+                {/* Error Display */}
+                {error && (
+                  <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-2xl">
+                    <div className="flex items-center">
+                      <ExclamationTriangleIcon className="w-5 h-5 text-red-400 mr-2" />
+                      <span className="text-sm text-red-200">{error}</span>
+                    </div>
+                  </div>
+                )}
+
+                {/* Action Buttons */}
+                <div className="flex space-x-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    disabled={isDeploying}
+                    className="flex-1 px-4 py-2 text-sm font-medium text-white bg-white/5 border border-white/10 rounded-xl hover:bg-white/10 disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleDeploy}
+                    disabled={!isConnected || !quote || isQuoting || isDeploying}
+                    className="flex-1 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-xl hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isDeploying ? 'Deploying Shard...' : 'Deploy Shard'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </Dialog.Panel>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
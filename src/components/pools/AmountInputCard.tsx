@@ -23,6 +23,12 @@ interface AmountInputCardProps {
   priceImpact: number;
   validationErrors: Record<string, string>;
   isLoadingBalances?: boolean;
+  /** Show only this token's input (single-sided deposit) */
+  singleToken?: 'A' | 'B';
+  /** Fee on the implicit swap of a single-sided deposit, in source token base units */
+  swapFee?: bigint;
+  /** Worst-case two-sided deposit allowed by the slippage tolerance, in base units */
+  maxDeposit?: { tokenA: bigint; tokenB: bigint; slippageTolerance: number };
 }
 
 export function AmountInputCard({
@@ -43,6 +49,9 @@ export function AmountInputCard({
   priceImpact,
   validationErrors,
   isLoadingBalances = false,
+  singleToken,
+  swapFee,
+  maxDeposit,
 }: AmountInputCardProps) {
   const amountAInputRef = useRef<HTMLInputElement>(null);
   const amountBInputRef = useRef<HTMLInputElement>(null);
@@ -63,6 +72,8 @@ export function AmountInputCard({
   const animationDuration = isMobile ? 0.25 : 0.4;
   const opacityDelay = isMobile ? 0.05 : 0.1;
 
+  const singleSourceToken = singleToken === 'A' ? tokenA : singleToken === 'B' ? tokenB : null;
+
   // Auto-focus first amount input when expanded
   useEffect(() => {
     if (isExpanded && amountAInputRef.current) {
@@ -179,7 +190,7 @@ export function AmountInputCard({
           </h3>
 
           {/* Token A Amount Input */}
-          {tokenA && (
+          {tokenA && singleToken !== 'B' && (
             <div className="mb-4 md:mb-6">
               <div className="flex items-center gap-2 mb-2">
                 <TokenLogo token={tokenA} size="sm" />
@@ -253,7 +264,7 @@ export function AmountInputCard({
           )}
 
           {/* Token B Amount Input */}
-          {tokenB && (
+          {tokenB && singleToken !== 'A' && (
             <div className="mb-4 md:mb-6">
               <div className="flex items-center gap-2 mb-2">
                 <TokenLogo token={tokenB} size="sm" />
@@ -379,6 +390,30 @@ export function AmountInputCard({
                 </span>
               </div>
 
+              {/* Swap Fee (single-sided deposits) */}
+              {singleSourceToken && swapFee !== undefined && (
+                <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-1 md:gap-0">
+                  <span className="text-sm text-white/70">Swap Fee</span>
+                  <span className="text-sm md:text-sm font-semibold text-white/80">
+                    {formatBalance(swapFee, singleSourceToken.decimals)} {singleSourceToken.displaySymbol || singleSourceToken.symbol}
+                  </span>
+                </div>
+              )}
+
+              {/* Max Deposit (two-sided deposits) */}
+              {!singleToken && maxDeposit && tokenA && tokenB && (
+                <div className="flex flex-col md:flex-row md:justify-between md:items-start gap-1 md:gap-0">
+                  <span className="text-sm text-white/70">
+                    Max Deposit ({maxDeposit.slippageTolerance}% slippage)
+                  </span>
+                  <span className="text-sm md:text-sm font-semibold text-white/80 md:text-right">
+                    {formatBalance(maxDeposit.tokenA, tokenA.decimals)} {tokenA.displaySymbol || tokenA.symbol}
+                    <br />
+                    {formatBalance(maxDeposit.tokenB, tokenB.decimals)} {tokenB.displaySymbol || tokenB.symbol}
+                  </span>
+                </div>
+              )}
+
               {/* Pool Ratio Info */}
               {tokenA && tokenB && poolRatio > 0 && (
                 <div className="pt-3 border-t border-white/10">
@@ -0,0 +1,229 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { usePairCandles } from '@/hooks/usePairCandles';
+import { Candle, CandleInterval } from '@/lib/solana/priceCandles';
+
+const INTERVALS: CandleInterval[] = ['1m', '15m', '1h', '1d'];
+
+/** Volume bar colors, by shard position in the pair */
+const SHARD_COLORS = ['#3b82f6', '#a855f7', '#ec4899', '#f59e0b', '#10b981', '#06b6d4'];
+
+const WIDTH = 800;
+const PRICE_HEIGHT = 220;
+const VOLUME_HEIGHT = 70;
+const GAP = 10;
+const PADDING_LEFT = 60;
+const PADDING_RIGHT = 10;
+
+interface PairPriceChartProps {
+  /** Mint prices are quoted for */
+  baseMint: string;
+  /** Mint prices are quoted in */
+  quoteMint: string;
+  /** Base token symbol */
+  baseSymbol: string;
+  /** Quote token symbol */
+  quoteSymbol: string;
+  /** Initial candle width */
+  defaultInterval?: CandleInterval;
+  className?: string;
+}
+
+function formatPrice(price: number): string {
+  if (price >= 1000) return price.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  if (price >= 1) return price.toFixed(4);
+  return price.toPrecision(4);
+}
+
+function formatCandleTime(time: number, interval: CandleInterval): string {
+  const date = new Date(time * 1000);
+  return interval === '1d'
+    ? date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+    : date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Candlestick chart of a pair's swap prices across all shards,
+ * with volume bars split by shard
+ */
+export function PairPriceChart({
+  baseMint,
+  quoteMint,
+  baseSymbol,
+  quoteSymbol,
+  defaultInterval = '15m',
+  className = '',
+}: PairPriceChartProps) {
+  const [interval, setCandleInterval] = useState<CandleInterval>(defaultInterval);
+  const { candles, shards, loading, error, refresh } = usePairCandles({ baseMint, quoteMint, interval });
+
+  const layout = useMemo(() => {
+    if (candles.length === 0) return null;
+
+    const high = Math.max(...candles.map(c => c.high));
+    const low = Math.min(...candles.map(c => c.low));
+    const range = high - low || high * 0.01 || 1;
+    const step = (WIDTH - PADDING_LEFT - PADDING_RIGHT) / candles.length;
+    const priceY = (price: number) => GAP + (1 - (price - low) / range) * (PRICE_HEIGHT - 2 * GAP);
+    // Volume bars are scaled to the largest candle
+    const maxVolume = Math.max(...candles.map(c => Number(c.volume))) || 1;
+    const volumeTop = PRICE_HEIGHT + GAP;
+
+    return { high, low, step, priceY, maxVolume, volumeTop };
+  }, [candles]);
+
+  const last: Candle | undefined = candles[candles.length - 1];
+  const first: Candle | undefined = candles[0];
+  const change = first && last && first.open > 0 ? ((last.close - first.open) / first.open) * 100 : 0;
+
+  return (
+    <div className={`backdrop-blur-xl bg-white/5 rounded-2xl p-4 border border-white/10 ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <div className="text-sm text-gray-400">{baseSymbol}/{quoteSymbol}</div>
+          {last ? (
+            <div className="flex items-baseline gap-2">
+              <span className="text-xl font-bold text-white">{formatPrice(last.close)} {quoteSymbol}</span>
+              <span className={`text-xs font-medium ${change >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {change >= 0 ? '+' : ''}{change.toFixed(2)}%
+              </span>
+            </div>
+          ) : (
+            <div className="text-xl font-bold text-gray-500">—</div>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          {INTERVALS.map(option => (
+            <button
+              key={option}
+              onClick={() => setCandleInterval(option)}
+              className={`px-2 py-1 text-xs font-medium rounded-lg transition-all ${
+                interval === option
+                  ? 'bg-blue-500/30 border border-blue-500/50 text-blue-200'
+                  : 'bg-white/5 border border-white/10 text-gray-400 hover:bg-white/10'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+          <button
+            onClick={() => refresh()}
+            disabled={loading}
+            className="ml-1 p-1 rounded-lg bg-white/5 border border-white/10 text-gray-400 hover:bg-white/10 disabled:opacity-50"
+            title="Fetch new swaps"
+          >
+            <ArrowPathIcon className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && candles.length === 0 ? (
+        <div className="h-48 flex items-center justify-center text-sm text-red-300">
+          Failed to load swap history
+        </div>
+      ) : !layout ? (
+        <div className="h-48 flex items-center justify-center text-sm text-gray-500">
+          {loading ? 'Loading swap history...' : 'No swaps in the indexed history yet'}
+        </div>
+      ) : (
+        <>
+          <svg
+            width="100%"
+            viewBox={`0 0 ${WIDTH} ${PRICE_HEIGHT + GAP + VOLUME_HEIGHT}`}
+            preserveAspectRatio="none"
+            className="h-72"
+          >
+            {/* Price grid */}
+            <g stroke="rgba(255,255,255,0.08)" strokeWidth="1">
+              {[0, 1, 2, 3].map(i => {
+                const y = GAP + (i * (PRICE_HEIGHT - 2 * GAP)) / 3;
+                return <line key={i} x1={PADDING_LEFT} y1={y} x2={WIDTH - PADDING_RIGHT} y2={y} strokeDasharray="4 4" />;
+              })}
+            </g>
+            <g fill="#9ca3af" fontSize="11">
+              {[0, 1, 2, 3].map(i => {
+                const price = layout.high - (i * (layout.high - layout.low)) / 3;
+                return (
+                  <text key={i} x="4" y={GAP + (i * (PRICE_HEIGHT - 2 * GAP)) / 3 + 4}>
+                    {formatPrice(price)}
+                  </text>
+                );
+              })}
+            </g>
+
+            {candles.map((candle, index) => {
+              const x = PADDING_LEFT + index * layout.step + layout.step / 2;
+              const bodyWidth = Math.max(layout.step * 0.6, 1);
+              const up = candle.close >= candle.open;
+              const color = up ? '#4ade80' : '#f87171';
+              const bodyTop = layout.priceY(Math.max(candle.open, candle.close));
+              const bodyBottom = layout.priceY(Math.min(candle.open, candle.close));
+
+              // Volume stacked by shard, bottom up
+              let volumeY = layout.volumeTop + VOLUME_HEIGHT;
+              const bars = shards.map((shard, shardIndex) => {
+                const volume = Number(candle.volumeByShard[shard] ?? 0);
+                const height = (volume / layout.maxVolume) * VOLUME_HEIGHT;
+                volumeY -= height;
+                return height > 0 ? (
+                  <rect
+                    key={shard}
+                    x={x - bodyWidth / 2}
+                    y={volumeY}
+                    width={bodyWidth}
+                    height={height}
+                    fill={SHARD_COLORS[shardIndex % SHARD_COLORS.length]}
+                    opacity="0.7"
+                  />
+                ) : null;
+              });
+
+              return (
+                <g key={candle.time}>
+                  <title>
+                    {`${formatCandleTime(candle.time, interval)}\nO ${formatPrice(candle.open)}  H ${formatPrice(candle.high)}  L ${formatPrice(candle.low)}  C ${formatPrice(candle.close)}\n${candle.trades} swap${candle.trades === 1 ? '' : 's'}`}
+                  </title>
+                  <line
+                    x1={x}
+                    y1={layout.priceY(candle.high)}
+                    x2={x}
+                    y2={layout.priceY(candle.low)}
+                    stroke={color}
+                    strokeWidth="1"
+                  />
+                  <rect
+                    x={x - bodyWidth / 2}
+                    y={bodyTop}
+                    width={bodyWidth}
+                    height={Math.max(bodyBottom - bodyTop, 1)}
+                    fill={color}
+                  />
+                  {bars}
+                </g>
+              );
+            })}
+          </svg>
+
+          <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
+            <span>{formatCandleTime(candles[0].time, interval)}</span>
+            <div className="flex items-center gap-3">
+              <span>Volume ({baseSymbol}):</span>
+              {shards.map((shard, shardIndex) => (
+                <span key={shard} className="flex items-center gap-1">
+                  <span
+                    className="inline-block w-2 h-2 rounded-sm"
+                    style={{ backgroundColor: SHARD_COLORS[shardIndex % SHARD_COLORS.length] }}
+                  />
+                  Shard {shard}
+                </span>
+              ))}
+            </div>
+            <span>{formatCandleTime(last!.time, interval)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import {
 } from '@heroicons/react/24/outline';
 import { Pool } from '@/types';
 import { TokenLogo } from '@/components/tokens/TokenLogo';
+import { PairPriceChart } from './PairPriceChart';
 import { formatTokenAmount, formatNumber, formatCurrency, formatDate } from '@/utils/formatting';
 
 interface PoolDetailsProps {
@@ -51,13 +52,16 @@ export function PoolDetails({ pool, isOpen, onClose, onAddLiquidity, onRemoveLiq
       // This is mock data for now
       await new Promise(resolve => setTimeout(resolve, 1000));
       
+      // Indexed volume and fees are in token A base units
+      const tokenAScale = Math.pow(10, pool?.tokenA.decimals ?? 9);
+
       const mockMetrics: PoolMetrics = {
         totalValueLocked: Number(pool?.totalLiquidity || 0) / 1e9,
-        volume24h: Number(pool?.volume24h || 0) / 1e9,
-        volume7d: Number(pool?.volume24h || 0) * 7 / 1e9,
-        fees24h: Number(pool?.fees24h || 0) / 1e9,
-        fees7d: Number(pool?.fees24h || 0) * 7 / 1e9,
-        apr: Math.random() * 50 + 5, // 5-55% APR
+        volume24h: Number(pool?.volume24h || 0) / tokenAScale,
+        volume7d: Number(pool?.volume7d ?? (pool?.volume24h || BigInt(0)) * BigInt(7)) / tokenAScale,
+        fees24h: Number(pool?.fees24h || 0) / tokenAScale,
+        fees7d: Number(pool?.fees7d ?? (pool?.fees24h || BigInt(0)) * BigInt(7)) / tokenAScale,
+        apr: (pool?.feeApr ?? 0) * 100, // Indexed 7-day fee APR
         priceChange24h: (Math.random() - 0.5) * 20, // -10% to +10%
       };
       
@@ -321,14 +325,16 @@ function TransactionsTab({ pool }: { pool: Pool }) {
 }
 
 function AnalyticsTab({ pool, metrics }: { pool: Pool; metrics: PoolMetrics | null }) {
-  // TODO: Implement analytics charts and data
+  // Candles cover every shard of the pair, not just this pool
   return (
-    <div className="text-center py-8">
-      <BeakerIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-      <div className="text-gray-500 mb-2">Pool Analytics</div>
-      <p className="text-sm text-gray-400">
-        Charts and analytics will be displayed here
-      </p>
+    <div className="bg-gray-900 rounded-2xl">
+      <PairPriceChart
+        baseMint={pool.tokenA.mint}
+        quoteMint={pool.tokenB.mint}
+        baseSymbol={pool.tokenA.symbol}
+        quoteSymbol={pool.tokenB.symbol}
+        defaultInterval="1h"
+      />
     </div>
   );
 }
\ No newline at end of file
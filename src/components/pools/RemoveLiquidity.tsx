@@ -9,9 +9,10 @@ import { useWallet } from '@/hooks/useWallet';
 import { useConnection } from '@solana/wallet-adapter-react';
 import { formatTokenAmount, formatNumber } from '@/utils/formatting';
 import { hasSufficientSolForPoolCreation } from '@/utils/poolValidation';
-import { getLiquidityService } from '@/services/liquidityService';
+import { getLiquidityService, SingleSidedWithdrawalQuote } from '@/services/liquidityService';
 import { TransactionStatus, TransactionType } from '@/types';
 import { useTransactionStore } from '@/stores/transactionStore';
+import { useSwapStore } from '@/stores/swapStore';
 import { usePoolPosition } from '@/hooks/useLiquidityPositions';
 import { getAssociatedTokenAddress } from '@solana/spl-token';
 
@@ -30,10 +31,17 @@ interface RemovalState {
   priceImpact: number;
 }
 
+/** Which tokens to receive: both proportionally, or only token A or B (REMOVE_SINGLE) */
+type ReceiveMode = 'both' | 'A' | 'B';
+
+// Same 1% tolerance as the proportional exit
+const SLIPPAGE_TOLERANCE_PERCENT = 1;
+
 export function RemoveLiquidity({ pool, isOpen, onClose, onLiquidityRemoved }: RemoveLiquidityProps) {
   const { isConnected, solBalance, solanaWallet, publicKey } = useWallet();
   const { connection } = useConnection();
   const { addTransaction } = useTransactionStore();
+  const feeSettings = useSwapStore((state) => state.feeSettings);
   const { position } = usePoolPosition(pool?.id || null);
   
   const [state, setState] = useState<RemovalState>({
@@ -48,6 +56,9 @@ export function RemoveLiquidity({ pool, isOpen, onClose, onLiquidityRemoved }: R
   const [error, setError] = useState<string | null>(null);
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
   const [fetchedLpBalance, setFetchedLpBalance] = useState<bigint>(BigInt(0));
+  const [receiveMode, setReceiveMode] = useState<ReceiveMode>('both');
+  const [singleQuote, setSingleQuote] = useState<SingleSidedWithdrawalQuote | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
 
   // Get user LP token balance from position or fetched balance
   const userLpTokenBalance = useMemo(() => {
@@ -69,6 +80,8 @@ export function RemoveLiquidity({ pool, isOpen, onClose, onLiquidityRemoved }: R
       });
       setError(null);
       setValidationErrors({});
+      setReceiveMode('both');
+      setSingleQuote(null);
     }
   }, [isOpen, pool]);
   
@@ -144,6 +157,60 @@ export function RemoveLiquidity({ pool, isOpen, onClose, onLiquidityRemoved }: R
     }
   }, [pool, state.percentage, userLpTokenBalance]);
 
+  // Quote single-token withdrawals against on-chain reserves and fees (debounced)
+  useEffect(() => {
+    if (!pool || !connection || receiveMode === 'both' || state.lpTokensToRemove === BigInt(0)) {
+      setSingleQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsQuoting(true);
+    const timer = setTimeout(async () => {
+      try {
+        const destination = receiveMode === 'A' ? pool.tokenA : pool.tokenB;
+        const liquidityService = getLiquidityService(connection, pool.programId);
+        const quote = await liquidityService.quoteSingleSidedWithdrawal(
+          pool,
+          destination.mint,
+          state.lpTokensToRemove,
+          SLIPPAGE_TOLERANCE_PERCENT
+        );
+        if (!cancelled) {
+          setSingleQuote(quote);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          console.error('Error quoting single-token withdrawal:', error);
+          setSingleQuote(null);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsQuoting(false);
+        }
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [pool, connection, receiveMode, state.lpTokensToRemove]);
+
+  // Value lost versus a proportional exit, which is worth twice the destination side
+  const singlePriceImpact = useMemo(() => {
+    if (!pool || !singleQuote || receiveMode === 'both' || pool.lpTokenSupply === BigInt(0)) {
+      return 0;
+    }
+    const reserve = receiveMode === 'A' ? pool.reserveA : pool.reserveB;
+    const proportionalValue = (Number(state.lpTokensToRemove) / Number(pool.lpTokenSupply)) * Number(reserve) * 2;
+    return proportionalValue > 0
+      ? Math.max(0, (1 - Number(singleQuote.tokenAmount) / proportionalValue) * 100)
+      : 0;
+  }, [pool, singleQuote, receiveMode, state.lpTokensToRemove]);
+
+  const priceImpact = receiveMode === 'both' ? state.priceImpact : singlePriceImpact;
+
   // Handle percentage change
   const handlePercentageChange = (percentage: number) => {
     setState(prev => ({ ...prev, percentage }));
@@ -171,13 +238,17 @@ export function RemoveLiquidity({ pool, isOpen, onClose, onLiquidityRemoved }: R
     }
 
     // Check price impact
-    if (state.priceImpact > 5) {
+    if (priceImpact > 5) {
       errors.priceImpact = 'High price impact. Consider reducing the amount.';
     }
 
+    if (receiveMode !== 'both' && !singleQuote) {
+      errors.quote = 'Waiting for a withdrawal quote';
+    }
+
     setValidationErrors(errors);
     return Object.keys(errors).length === 0;
-  }, [state, userLpTokenBalance, solBalance]);
+  }, [state, userLpTokenBalance, solBalance, priceImpact, receiveMode, singleQuote]);
 
   // Handle remove liquidity
   const handleRemoveLiquidity = async () => {
@@ -204,12 +275,18 @@ export function RemoveLiquidity({ pool, isOpen, onClose, onLiquidityRemoved }: R
 
       const liquidityService = getLiquidityService(connection, pool.programId);
 
+      if (receiveMode !== 'both') {
+        await handleRemoveSingleSidedLiquidity(liquidityService);
+        return;
+      }
+
       const result = await liquidityService.removeLiquidity(
         {
           pool,
           lpTokenAmount: state.lpTokensToRemove,
           minTokenA,
           minTokenB,
+          feeSettings,
         },
         solanaWallet,
         (status, signature, error) => {
@@ -250,12 +327,59 @@ export function RemoveLiquidity({ pool, isOpen, onClose, onLiquidityRemoved }: R
     }
   };
 
+  // Burn LP tokens for exactly one of the pair's tokens
+  const handleRemoveSingleSidedLiquidity = async (
+    liquidityService: ReturnType<typeof getLiquidityService>
+  ) => {
+    if (!pool || !solanaWallet || receiveMode === 'both') {
+      return;
+    }
+
+    const destination = receiveMode === 'A' ? pool.tokenA : pool.tokenB;
+    const result = await liquidityService.removeSingleSidedLiquidity(
+      {
+        pool,
+        destinationMint: destination.mint,
+        lpTokenAmount: state.lpTokensToRemove,
+        slippageTolerance: SLIPPAGE_TOLERANCE_PERCENT,
+        feeSettings,
+      },
+      solanaWallet,
+      (status, signature, error) => {
+        if (error) {
+          setError(error);
+        }
+      }
+    );
+
+    if (result.status === TransactionStatus.CONFIRMED) {
+      onLiquidityRemoved?.(pool.id, result.signature);
+
+      addTransaction({
+        signature: result.signature,
+        hash: result.signature,
+        type: TransactionType.REMOVE_LIQUIDITY,
+        status: TransactionStatus.CONFIRMED,
+        timestamp: Date.now(),
+        tokenOut: destination,
+        amountOut: singleQuote?.minTokenAmount,
+        feePayer: solanaWallet.publicKey?.toString() || '',
+        solFee: BigInt(5000), // Estimated
+      });
+
+      onClose();
+    } else {
+      setError(result.error || 'Failed to remove liquidity');
+    }
+  };
+
   const canRemoveLiquidity = useMemo(() => {
     return isConnected && 
            pool &&
            state.percentage > 0 && 
+           (receiveMode === 'both' || (singleQuote !== null && !isQuoting)) &&
            Object.keys(validationErrors).length === 0;
-  }, [isConnected, pool, state.percentage, validationErrors]);
+  }, [isConnected, pool, state.percentage, receiveMode, singleQuote, isQuoting, validationErrors]);
 
   if (!pool) return null;
 
@@ -348,8 +472,62 @@ export function RemoveLiquidity({ pool, isOpen, onClose, onLiquidityRemoved }: R
                 )}
               </div>
 
+              {/* Receive Mode */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-3">
+                  Receive
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {(['both', 'A', 'B'] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => {
+                        setReceiveMode(mode);
+                        setValidationErrors({});
+                      }}
+                      disabled={isRemoving}
+                      aria-pressed={receiveMode === mode}
+                      className={`px-3 py-2 text-sm font-medium rounded-lg border ${
+                        receiveMode === mode
+                          ? 'bg-blue-600 text-white border-blue-600'
+                          : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                      } disabled:opacity-50`}
+                    >
+                      {mode === 'both'
+                        ? 'Both tokens'
+                        : `Only ${mode === 'A' ? pool.tokenA.symbol : pool.tokenB.symbol}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Single Token to Receive */}
+              {state.percentage > 0 && receiveMode !== 'both' && (
+                <div className="space-y-4">
+                  <h3 className="text-sm font-medium text-gray-700">You will receive:</h3>
+                  <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <div className="flex items-center space-x-3">
+                      <TokenLogo token={receiveMode === 'A' ? pool.tokenA : pool.tokenB} size="sm" />
+                      <span className="font-medium">
+                        {(receiveMode === 'A' ? pool.tokenA : pool.tokenB).symbol}
+                      </span>
+                    </div>
+                    <div className="text-right">
+                      <div className="font-semibold">
+                        {isQuoting || !singleQuote
+                          ? '…'
+                          : formatTokenAmount(
+                              singleQuote.minTokenAmount,
+                              (receiveMode === 'A' ? pool.tokenA : pool.tokenB).decimals
+                            )}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Tokens to Receive */}
-              {state.percentage > 0 && (
+              {state.percentage > 0 && receiveMode === 'both' && (
                 <div className="space-y-4">
                   <h3 className="text-sm font-medium text-gray-700">You will receive:</h3>
                   
@@ -390,15 +568,29 @@ export function RemoveLiquidity({ pool, isOpen, onClose, onLiquidityRemoved }: R
                   </div>
                   <div className="space-y-2 text-sm">
                     <div className="flex justify-between">
-                      <span className="text-gray-600">LP Tokens to Burn:</span>
+                      <span className="text-gray-600">
+                        {receiveMode === 'both' ? 'LP Tokens to Burn:' : 'Max LP Tokens to Burn:'}
+                      </span>
                       <span className="font-medium">
                         {formatTokenAmount(state.lpTokensToRemove, 6)}
                       </span>
                     </div>
+                    {receiveMode !== 'both' && singleQuote && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Swap Fee:</span>
+                        <span className="font-medium">
+                          {formatTokenAmount(
+                            singleQuote.swapFee,
+                            (receiveMode === 'A' ? pool.tokenA : pool.tokenB).decimals
+                          )}{' '}
+                          {(receiveMode === 'A' ? pool.tokenA : pool.tokenB).symbol}
+                        </span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span className="text-gray-600">Price Impact:</span>
-                      <span className={`font-medium ${state.priceImpact > 5 ? 'text-yellow-600' : 'text-green-600'}`}>
-                        {formatNumber(state.priceImpact, 2)}%
+                      <span className={`font-medium ${priceImpact > 5 ? 'text-yellow-600' : 'text-green-600'}`}>
+                        {formatNumber(priceImpact, 2)}%
                       </span>
                     </div>
                   </div>
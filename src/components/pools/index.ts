@@ -1,8 +1,10 @@
 // Pool components
 export { PoolCreator } from './PoolCreator';
+export { AddShard } from './AddShard';
 export { PoolList } from './PoolList';
 export { PoolDetails } from './PoolDetails';
 export { AddLiquidity } from './AddLiquidity';
 export { RemoveLiquidity } from './RemoveLiquidity';
 export { TokenSelectorCard } from './TokenSelectorCard';
-export { AmountInputCard } from './AmountInputCard';
\ No newline at end of file
+export { AmountInputCard } from './AmountInputCard';
+export { PairPriceChart } from './PairPriceChart';
\ No newline at end of file
@@ -1,6 +1,7 @@
 'use client';
 
 import { usePortfolio } from '@/hooks/usePortfolio';
+import { useLiquidityPositions } from '@/hooks/useLiquidityPositions';
 import { usePortfolioStore } from '@/stores/portfolioStore';
 import { useWalletStore } from '@/stores/walletStore';
 import { ArrowUpIcon, ArrowDownIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
@@ -9,6 +10,7 @@ export function PortfolioDashboard() {
   const { isConnected } = useWalletStore();
   const { portfolio, loading } = usePortfolioStore();
   const { fetchPortfolio, exportPortfolio } = usePortfolio();
+  const { positions: lpPositions } = useLiquidityPositions();
 
   if (!isConnected) {
     return (
@@ -42,6 +44,17 @@ export function PortfolioDashboard() {
     })}`;
   };
 
+  // P&L figures are in the pool's token A
+  const formatPoolAmount = (amount: bigint | undefined, token: { symbol: string; decimals: number }) => {
+    if (amount === undefined) return '-';
+    return `${formatTokenAmount(amount, token.decimals)} ${token.symbol}`;
+  };
+
+  const pnlColor = (value: bigint | number | undefined) => {
+    if (value === undefined || Number(value) === 0) return 'text-gray-900';
+    return value > 0 ? 'text-green-600' : 'text-red-600';
+  };
+
   const performance = portfolio?.performance;
   const isPositive = performance && performance.change24hPercent >= 0;
 
@@ -123,7 +136,7 @@ export function PortfolioDashboard() {
             {portfolio ? portfolio.tokens.length + 1 : 0}
           </div>
           <div className="text-xs sm:text-sm text-gray-500 mt-1">
-            {portfolio?.liquidityPositions.length || 0} LP positions
+            {lpPositions.length} LP positions
           </div>
         </div>
       </div>
@@ -227,7 +240,7 @@ export function PortfolioDashboard() {
           <h3 className="text-base sm:text-lg font-medium text-gray-900">Liquidity Positions</h3>
         </div>
         <div className="overflow-x-auto scrollbar-thin">
-          {!portfolio || portfolio.liquidityPositions.length === 0 ? (
+          {lpPositions.length === 0 ? (
             <div className="p-6 sm:p-8 text-center text-gray-500 text-sm sm:text-base">
               No liquidity positions found
             </div>
@@ -242,40 +255,78 @@ export function PortfolioDashboard() {
                     Share
                   </th>
                   <th className="hidden md:table-cell px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Value (SOL)
+                    Value
                   </th>
                   <th className="px-3 sm:px-6 py-2 sm:py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Value (USD)
                   </th>
                   <th className="hidden lg:table-cell px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Fees Earned (24h)
+                    Cost Basis
+                  </th>
+                  <th className="hidden lg:table-cell px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Hold Value
+                  </th>
+                  <th className="hidden md:table-cell px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Impermanent Loss
+                  </th>
+                  <th className="hidden lg:table-cell px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Fees Earned
+                  </th>
+                  <th className="px-3 sm:px-6 py-2 sm:py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Net P&amp;L
                   </th>
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {portfolio.liquidityPositions.map((position, index) => (
-                  <tr key={index}>
-                    <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap">
-                      <div className="text-xs sm:text-sm font-medium text-gray-900">
-                        {position.pool.tokenA.symbol}/{position.pool.tokenB.symbol}
-                      </div>
-                    </td>
-                    <td className="hidden sm:table-cell px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
-                      {position.shareOfPool.toFixed(4)}%
-                    </td>
-                    <td className="hidden md:table-cell px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
-                      {formatSolAmount(position.value)}
-                    </td>
-                    <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap text-right text-xs sm:text-sm text-gray-900">
-                      {formatUsd(position.valueUsd)}
-                    </td>
-                    <td className="hidden lg:table-cell px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
-                      {position.feesEarned24h
-                        ? formatSolAmount(position.feesEarned24h)
-                        : '-'}
-                    </td>
-                  </tr>
-                ))}
+                {lpPositions.map((position) => {
+                  const { pool, pnl } = position;
+                  return (
+                    <tr key={pool.id}>
+                      <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap">
+                        <div className="text-xs sm:text-sm font-medium text-gray-900">
+                          {pool.tokenA.symbol}/{pool.tokenB.symbol}
+                        </div>
+                        <div className="text-xs text-gray-500 font-mono">
+                          {pool.id.slice(0, 4)}...{pool.id.slice(-4)}
+                        </div>
+                      </td>
+                      <td className="hidden sm:table-cell px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                        {position.shareOfPool.toFixed(4)}%
+                      </td>
+                      <td className="hidden md:table-cell px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                        {formatPoolAmount(position.value, pool.tokenA)}
+                      </td>
+                      <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap text-right text-xs sm:text-sm text-gray-900">
+                        {formatUsd(position.valueUsd)}
+                      </td>
+                      <td className="hidden lg:table-cell px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                        {formatPoolAmount(pnl?.costBasis, pool.tokenA)}
+                        {pnl && !pnl.historyComplete && (
+                          <div className="text-xs text-yellow-600" title="LP balance does not match the add/remove liquidity history">
+                            estimated
+                          </div>
+                        )}
+                      </td>
+                      <td className="hidden lg:table-cell px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                        {formatPoolAmount(pnl?.holdValue, pool.tokenA)}
+                      </td>
+                      <td className={`hidden md:table-cell px-6 py-4 whitespace-nowrap text-right text-sm ${pnlColor(pnl?.impermanentLoss)}`}>
+                        {pnl ? `${(pnl.impermanentLoss * 100).toFixed(2)}%` : '-'}
+                      </td>
+                      <td className="hidden lg:table-cell px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                        {formatPoolAmount(pnl?.feesEarned, pool.tokenA)}
+                        {pnl && !pnl.feesComplete && (
+                          <div className="text-xs text-yellow-600" title="Fees on single-sided deposits are not estimated">
+                            partial
+                          </div>
+                        )}
+                      </td>
+                      <td className={`px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap text-right text-xs sm:text-sm ${pnlColor(pnl?.netPnl)}`}>
+                        {pnl ? `${pnl.netPnl > BigInt(0) ? '+' : ''}${formatPoolAmount(pnl.netPnl, pool.tokenA)}` : '-'}
+                      </td>
+                    </tr>
+                  );
+                })}
               </tbody>
             </table>
           )}
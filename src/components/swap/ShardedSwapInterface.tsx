@@ -1,14 +1,78 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { useShardedDex } from "@/hooks/useShardedDex";
-import { SwapQuote } from "@/lib/shardedDex";
+import { SwapQuote, TokenConfig } from "@/lib/shardedDex";
+import { SwapQuote as ConfirmationQuote, Token } from "@/types";
 import { TokenIcon } from "@/components/tokens/TokenIcon";
 import { TokenBalances } from "./TokenBalances";
 import { SwapSuccessModal } from "./SwapSuccessModal";
 import { SwapErrorModal } from "./SwapErrorModal";
 import { SlippageSettings } from "./SlippageSettings";
 import { QuoteAgeProgress } from "./QuoteAgeProgress";
+import { SwapConfirmationModal, SwapSimulationPreview } from "./SwapConfirmationModal";
+import { useSwapStore } from "@/stores/swapStore";
+import { DataSourceBadge } from "@/components/ui/DataSourceBadge";
+import { PairPriceChart } from "@/components/pools/PairPriceChart";
+
+// How long a quote can be confirmed for; quotes auto-refresh every 10s while open
+const QUOTE_VALIDITY_MS = 30000;
+
+// Base fee per signature, in lamports
+const BASE_FEE_LAMPORTS = 5000;
+
+/**
+ * Convert a sharded DEX token to the app-wide token shape used by SwapConfirmationModal
+ */
+function toConfirmationToken(token: TokenConfig | undefined): Token | null {
+  if (!token) return null;
+  return {
+    mint: token.mint,
+    address: token.mint,
+    symbol: token.symbol,
+    name: token.name,
+    decimals: token.decimals,
+  };
+}
+
+/**
+ * Convert a sharded DEX quote to the app-wide quote shape used by SwapConfirmationModal
+ */
+function toConfirmationQuote(
+  quote: SwapQuote,
+  tokenIn: Token,
+  tokenOut: Token,
+  slippageTolerance: number,
+  quotedAt: number,
+  simulation: SwapSimulationPreview | null,
+  priorityFeeLamports: number
+): ConfirmationQuote {
+  const toBaseUnits = (amount: number, decimals: number) =>
+    BigInt(Math.floor(amount * Math.pow(10, decimals)));
+  const outputAmount = toBaseUnits(quote.estimatedOutput, tokenOut.decimals);
+  const isMultiHop = quote.jupiterQuote
+    ? quote.jupiterQuote.routePlan.length > 1
+    : !!quote.path && quote.path.length > 2;
+
+  return {
+    inputAmount: toBaseUnits(quote.inputAmount, tokenIn.decimals),
+    outputAmount,
+    // Exact-output swaps require the full output on-chain (the input is sent as quoted)
+    minimumReceived: quote.quoteMode === "exactOut"
+      ? outputAmount
+      : toBaseUnits(quote.estimatedOutput * (1 - slippageTolerance / 100), tokenOut.decimals),
+    priceImpact: quote.priceImpact,
+    exchangeRate: quote.inputAmount > 0 ? quote.estimatedOutput / quote.inputAmount : 0,
+    route: [],
+    routeType: isMultiHop ? "multi_hop" : "direct",
+    jupiterQuote: quote.jupiterQuote,
+    slippageTolerance,
+    estimatedSolFee: BigInt(BASE_FEE_LAMPORTS + priorityFeeLamports),
+    estimatedComputeUnits: simulation?.unitsConsumed ?? 0,
+    validUntil: quotedAt + QUOTE_VALIDITY_MS,
+    refreshInterval: 10000,
+  };
+}
 
 /**
  * Example component showing how to use the Sharded DEX
@@ -19,16 +83,24 @@ export function ShardedSwapInterface() {
     tokens,
     loading,
     error,
+    routerHealth,
     getQuote,
+    getQuoteExactOut,
     executeSwap,
+    simulateSwap,
     getPoolsForPair,
     getPoolsForPairRealTime,
+    subscribeToPair,
     getTradingPairs,
+    getTokenBySymbol,
   } = useShardedDex();
 
   const [inputToken, setInputToken] = useState("USDC");
   const [outputToken, setOutputToken] = useState("SOL");
   const [inputAmount, setInputAmount] = useState("");
+  const [outputAmount, setOutputAmount] = useState("");
+  // Which field the user typed in: 'exactIn' quotes the output, 'exactOut' quotes the input
+  const [quoteMode, setQuoteMode] = useState<"exactIn" | "exactOut">("exactIn");
   const [quote, setQuote] = useState<SwapQuote | null>(null);
   const [quoteLoading, setQuoteLoading] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
@@ -40,16 +112,32 @@ export function ShardedSwapInterface() {
     outputToken: string;
   } | null>(null);
   const [showErrorModal, setShowErrorModal] = useState(false);
+  const [showConfirmModal, setShowConfirmModal] = useState(false);
+  const [simulation, setSimulation] = useState<SwapSimulationPreview | null>(null);
+  const [simulatedPriorityFee, setSimulatedPriorityFee] = useState(0);
   const [errorMessage, setErrorMessage] = useState("");
   const [showSlippageSettings, setShowSlippageSettings] = useState(false);
-  const [slippageTolerance, setSlippageTolerance] = useState(5.0); // Default 5% - accounts for devnet pool changes
+  const slippageTolerance = useSwapStore((state) => state.slippageTolerance);
+  const setSlippageTolerance = useSwapStore((state) => state.setSlippageTolerance);
+  const feeSettings = useSwapStore((state) => state.feeSettings);
+  const setFeeSettings = useSwapStore((state) => state.setFeeSettings);
 
   const [quoteAge, setQuoteAge] = useState(0);
   const [lastQuoteTime, setLastQuoteTime] = useState<number>(0);
   const [realTimePools, setRealTimePools] = useState<any[]>([]);
   const [poolsLoading, setPoolsLoading] = useState(false);
+  // Bumped whenever a shard's reserves change on-chain
+  const [reserveVersion, setReserveVersion] = useState(0);
+
+  // Stream live reserves for the selected pair
+  useEffect(() => {
+    return subscribeToPair(inputToken, outputToken, () => {
+      setReserveVersion((version) => version + 1);
+    });
+  }, [inputToken, outputToken, subscribeToPair]);
 
-  // Fetch real-time pool data when token pair changes
+  // Fetch real-time pool data when the token pair changes or reserves move
+  // (reads the subscription-fed cache, so this does not hit the RPC)
   useEffect(() => {
     const fetchRealTimePools = async () => {
       setPoolsLoading(true);
@@ -66,15 +154,21 @@ export function ShardedSwapInterface() {
     };
 
     fetchRealTimePools();
+  }, [inputToken, outputToken, reserveVersion, getPoolsForPairRealTime, getPoolsForPair]);
 
-    // Auto-refresh pool data every 10 seconds
-    const refreshInterval = setInterval(fetchRealTimePools, 10000);
-    return () => clearInterval(refreshInterval);
-  }, [inputToken, outputToken, getPoolsForPairRealTime, getPoolsForPair]);
+  const activeAmount = quoteMode === "exactOut" ? outputAmount : inputAmount;
+
+  const requestQuote = useCallback(
+    (amount: number) =>
+      quoteMode === "exactOut"
+        ? getQuoteExactOut(inputToken, outputToken, amount)
+        : getQuote(inputToken, outputToken, amount, slippageTolerance),
+    [quoteMode, inputToken, outputToken, slippageTolerance, getQuote, getQuoteExactOut]
+  );
 
   // Get quote when inputs change
   useEffect(() => {
-    const amount = parseFloat(inputAmount);
+    const amount = parseFloat(activeAmount);
     if (!amount || amount <= 0) {
       setQuote(null);
       setQuoteAge(0);
@@ -84,7 +178,7 @@ export function ShardedSwapInterface() {
 
     const debounce = setTimeout(async () => {
       setQuoteLoading(true);
-      const q = await getQuote(inputToken, outputToken, amount);
+      const q = await requestQuote(amount);
       setQuote(q);
       setQuoteLoading(false);
       setLastQuoteTime(Date.now());
@@ -92,26 +186,49 @@ export function ShardedSwapInterface() {
     }, 500);
 
     return () => clearTimeout(debounce);
-  }, [inputToken, outputToken, inputAmount, getQuote]);
+  }, [activeAmount, requestQuote]);
 
   // Auto-refresh quote every 10 seconds to keep reserves reasonably fresh
   // The executeSwap function will fetch fresh reserves anyway before submitting
   useEffect(() => {
-    const amount = parseFloat(inputAmount);
+    const amount = parseFloat(activeAmount);
     if (!amount || amount <= 0 || !quote) {
       return;
     }
 
     const refreshInterval = setInterval(async () => {
       console.log('🔄 Auto-refreshing quote...');
-      const q = await getQuote(inputToken, outputToken, amount);
+      const q = await requestQuote(amount);
       setQuote(q);
       setLastQuoteTime(Date.now());
       setQuoteAge(0);
     }, 10000); // Refresh every 10 seconds (less aggressive)
 
     return () => clearInterval(refreshInterval);
-  }, [inputToken, outputToken, inputAmount, quote, getQuote]);
+  }, [activeAmount, quote, requestQuote]);
+
+  // Re-quote the moment reserves move
+  useEffect(() => {
+    const amount = parseFloat(activeAmount);
+    if (!reserveVersion || !amount || amount <= 0) {
+      return;
+    }
+
+    let cancelled = false;
+    (async () => {
+      const q = await requestQuote(amount);
+      if (!cancelled) {
+        setQuote(q);
+        setLastQuoteTime(Date.now());
+        setQuoteAge(0);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [reserveVersion]);
 
   // Track quote age
   useEffect(() => {
@@ -125,8 +242,48 @@ export function ShardedSwapInterface() {
     return () => clearInterval(ageInterval);
   }, [lastQuoteTime]);
 
-  const handleSwap = async () => {
+  // Simulate the swap while the confirmation modal is open (re-runs when the quote refreshes)
+  useEffect(() => {
+    if (!showConfirmModal || !quote) {
+      setSimulation(null);
+      return;
+    }
+
+    let cancelled = false;
+    setSimulation((previous) => ({ ...previous, status: "loading" }));
+
+    simulateSwap(quote, slippageTolerance)
+      .then((result) => {
+        if (cancelled) return;
+        setSimulatedPriorityFee(result.priorityFeeLamports);
+        setSimulation({
+          status: "success",
+          outputAmount: result.outputAmount?.toFixed(6),
+          unitsConsumed: result.unitsConsumed,
+        });
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setSimulation({
+          status: "failed",
+          error: err instanceof Error ? err.message : "Simulation failed",
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showConfirmModal, quote, slippageTolerance, simulateSwap]);
+
+  // Open the confirmation modal; the swap is sent from handleConfirmSwap
+  const handleSwap = () => {
     if (!quote) return;
+    setShowConfirmModal(true);
+  };
+
+  const handleConfirmSwap = async () => {
+    if (!quote) return;
+    setShowConfirmModal(false);
 
     try {
       const signature = await executeSwap(quote, slippageTolerance);
@@ -143,6 +300,7 @@ export function ShardedSwapInterface() {
 
         // Reset form
         setInputAmount("");
+        setOutputAmount("");
         setQuote(null);
       }
     } catch (err) {
@@ -162,6 +320,10 @@ export function ShardedSwapInterface() {
   // Use real-time pools data instead of static config data
   const pools = realTimePools.length > 0 ? realTimePools : getPoolsForPair(inputToken, outputToken);
   const pairs = getTradingPairs();
+  const confirmationTokenIn = toConfirmationToken(getTokenBySymbol(inputToken));
+  const confirmationTokenOut = toConfirmationToken(getTokenBySymbol(outputToken));
+  const inputMint = getTokenBySymbol(inputToken)?.mint;
+  const outputMint = getTokenBySymbol(outputToken)?.mint;
 
   return (
     <>
@@ -178,6 +340,29 @@ export function ShardedSwapInterface() {
         />
       )}
 
+      {/* Confirmation Modal (shows the simulated output before signing) */}
+      {quote && confirmationTokenIn && confirmationTokenOut && (
+        <SwapConfirmationModal
+          isOpen={showConfirmModal}
+          onClose={() => setShowConfirmModal(false)}
+          onConfirm={handleConfirmSwap}
+          quote={toConfirmationQuote(
+            quote,
+            confirmationTokenIn,
+            confirmationTokenOut,
+            slippageTolerance,
+            lastQuoteTime,
+            simulation,
+            simulatedPriorityFee
+          )}
+          tokenIn={confirmationTokenIn}
+          tokenOut={confirmationTokenOut}
+          amountIn={quote.inputAmount.toFixed(6)}
+          amountOut={quote.estimatedOutput.toFixed(6)}
+          simulation={simulation ?? undefined}
+        />
+      )}
+
       {/* Error Modal */}
       <SwapErrorModal
         isOpen={showErrorModal}
@@ -191,6 +376,8 @@ export function ShardedSwapInterface() {
         onClose={() => setShowSlippageSettings(false)}
         currentSlippage={slippageTolerance}
         onSlippageChange={setSlippageTolerance}
+        feeSettings={feeSettings}
+        onFeeSettingsChange={setFeeSettings}
       />
 
       <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
@@ -200,6 +387,11 @@ export function ShardedSwapInterface() {
             <div className="flex items-center justify-between mb-6">
               <h2 className="text-2xl font-bold text-white">Swap Tokens</h2>
               <div className="flex items-center gap-2">
+                <DataSourceBadge
+                  dataSource="blockchain"
+                  routerState={routerHealth.state}
+                  size="sm"
+                />
                 <button
                   onClick={() => setShowSlippageSettings(true)}
                   className="p-2 backdrop-blur-xl bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 rounded-full transition-all group"
@@ -244,8 +436,15 @@ export function ShardedSwapInterface() {
               <div className="flex gap-2">
                 <input
                   type="number"
-                  value={inputAmount}
-                  onChange={(e) => setInputAmount(e.target.value)}
+                  value={
+                    quoteMode === "exactOut"
+                      ? quote ? quote.inputAmount.toFixed(6) : ""
+                      : inputAmount
+                  }
+                  onChange={(e) => {
+                    setQuoteMode("exactIn");
+                    setInputAmount(e.target.value);
+                  }}
                   placeholder="0.00"
                   className="flex-1 px-4 py-3 backdrop-blur-xl bg-white/5 border border-white/10 rounded-2xl text-white placeholder-gray-500 focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all"
                 />
@@ -295,15 +494,24 @@ export function ShardedSwapInterface() {
             {/* Output Token */}
             <div className="mb-6">
               <label className="block text-sm font-medium text-gray-300 mb-2">
-                To
+                To{quoteMode === "exactOut" && (
+                  <span className="ml-2 text-xs text-blue-400">(exact amount)</span>
+                )}
               </label>
               <div className="flex gap-2">
                 <input
-                  type="text"
-                  value={quote ? quote.estimatedOutput.toFixed(6) : "0.00"}
-                  readOnly
+                  type="number"
+                  value={
+                    quoteMode === "exactIn"
+                      ? quote ? quote.estimatedOutput.toFixed(6) : ""
+                      : outputAmount
+                  }
+                  onChange={(e) => {
+                    setQuoteMode("exactOut");
+                    setOutputAmount(e.target.value);
+                  }}
                   placeholder="0.00"
-                  className="flex-1 px-4 py-3 backdrop-blur-xl bg-white/5 border border-white/10 rounded-2xl text-white placeholder-gray-500"
+                  className="flex-1 px-4 py-3 backdrop-blur-xl bg-white/5 border border-white/10 rounded-2xl text-white placeholder-gray-500 focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all"
                 />
                 <div className="flex items-center gap-2 px-4 py-3 backdrop-blur-xl bg-white/5 border border-white/10 rounded-2xl">
                   <TokenIcon symbol={outputToken} size="sm" />
@@ -359,12 +567,73 @@ export function ShardedSwapInterface() {
                     </span>
                   </div>
 
-                  <div className="flex justify-between text-sm">
-                    <span className="text-gray-400">Using Shard:</span>
-                    <span className="font-medium text-white">
-                      #{quote.route[0].shardNumber}
-                    </span>
-                  </div>
+                  {quote.source === "jupiter" ? (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-400">Venue:</span>
+                      <span
+                        className="font-medium text-white"
+                        title={quote.backendReason}
+                      >
+                        Jupiter
+                      </span>
+                    </div>
+                  ) : quote.path && quote.path.length > 2 ? (
+                    <>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-400">Route:</span>
+                        <span className="font-medium text-white">
+                          {quote.path
+                            .map((mint) => tokens.find((t) => t.mint === mint)?.symbol ?? mint.slice(0, 4))
+                            .join(" → ")}
+                        </span>
+                      </div>
+                      {quote.route.map((hop, index) => (
+                        <div
+                          key={hop.poolAddress}
+                          className="flex justify-between text-xs pl-3"
+                        >
+                          <span className="text-gray-500">
+                            Hop {index + 1} · Shard #{hop.shardNumber}
+                          </span>
+                          <span className="text-gray-300">
+                            {hop.inputAmount.toFixed(6)}{" "}
+                            {tokens.find((t) => t.mint === hop.inputToken)?.symbol} →{" "}
+                            {hop.outputAmount.toFixed(6)}{" "}
+                            {tokens.find((t) => t.mint === hop.outputToken)?.symbol}
+                          </span>
+                        </div>
+                      ))}
+                    </>
+                  ) : (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-400">
+                        {quote.route.length > 1 ? "Split Across:" : "Using Shard:"}
+                      </span>
+                      <span className="font-medium text-white">
+                        {quote.route.map((leg) => `#${leg.shardNumber}`).join(", ")}
+                      </span>
+                    </div>
+                  )}
+                  {quote.route.length > 1 && !quote.path &&
+                    quote.route.map((leg) => (
+                      <div
+                        key={leg.poolAddress}
+                        className="flex justify-between text-xs pl-3"
+                      >
+                        <span className="text-gray-500">
+                          Shard #{leg.shardNumber}
+                        </span>
+                        <span className="text-gray-300">
+                          {leg.inputAmount.toFixed(6)} {inputToken} →{" "}
+                          {leg.outputAmount.toFixed(6)} {outputToken}
+                        </span>
+                      </div>
+                    ))}
+                  {quote.quoteMode === "exactOut" && (
+                    <div className="text-xs text-gray-500">
+                      Exact output: the input is recomputed when you confirm, and the swap reverts if the price moves against it before it lands
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-400">Rate:</span>
                     <span className="font-medium text-white">
@@ -510,7 +779,7 @@ export function ShardedSwapInterface() {
                     <div
                       key={pool.poolAddress}
                       className={`text-xs p-3 rounded-2xl backdrop-blur-xl transition-all ${
-                        quote && quote.route[0].poolAddress === pool.poolAddress
+                        quote && quote.route.some((leg) => leg.poolAddress === pool.poolAddress)
                           ? "bg-blue-500/20 border border-blue-500/50"
                           : "bg-white/5 border border-white/10 hover:border-white/20"
                       }`}
@@ -533,7 +802,7 @@ export function ShardedSwapInterface() {
                           )}
                         </div>
                         {quote &&
-                          quote.route[0].poolAddress === pool.poolAddress && (
+                          quote.route.some((leg) => leg.poolAddress === pool.poolAddress) && (
                             <span className="text-blue-400 font-semibold">
                               ✓ Selected
                             </span>
@@ -556,6 +825,18 @@ export function ShardedSwapInterface() {
               </div>
             )}
 
+            {/* Price History (direct pairs only) */}
+            {pools.length > 0 && inputMint && outputMint && (
+              <div className="mb-6">
+                <PairPriceChart
+                  baseMint={inputMint}
+                  quoteMint={outputMint}
+                  baseSymbol={inputToken}
+                  quoteSymbol={outputToken}
+                />
+              </div>
+            )}
+
             {/* Trading Pairs */}
             <div
               className={
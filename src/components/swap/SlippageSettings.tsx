@@ -2,12 +2,16 @@
 
 import React, { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { PriorityFeeSettings } from "@/lib/solana/priorityFees";
 
 interface SlippageSettingsProps {
   isOpen: boolean;
   onClose: () => void;
   currentSlippage: number;
   onSlippageChange: (slippage: number) => void;
+  // Priority fee section is shown when these are provided
+  feeSettings?: PriorityFeeSettings;
+  onFeeSettingsChange?: (settings: Partial<PriorityFeeSettings>) => void;
 }
 
 export function SlippageSettings({
@@ -15,8 +19,13 @@ export function SlippageSettings({
   onClose,
   currentSlippage,
   onSlippageChange,
+  feeSettings,
+  onFeeSettingsChange,
 }: SlippageSettingsProps) {
   const [customSlippage, setCustomSlippage] = useState(currentSlippage.toString());
+  const [customPriorityFee, setCustomPriorityFee] = useState(
+    feeSettings && feeSettings.priorityFee > 0 ? feeSettings.priorityFee.toString() : ""
+  );
   const presetSlippages = [0.1, 0.5, 1.0, 3.0, 5.0];
 
   const handlePresetClick = (slippage: number) => {
@@ -32,6 +41,18 @@ export function SlippageSettings({
     }
   };
 
+  const handlePriorityFeeChange = (value: string) => {
+    setCustomPriorityFee(value);
+    if (value === "") {
+      onFeeSettingsChange?.({ priorityFee: 0 });
+      return;
+    }
+    const numValue = parseInt(value);
+    if (!isNaN(numValue) && numValue >= 0) {
+      onFeeSettingsChange?.({ priorityFee: numValue });
+    }
+  };
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -131,6 +152,41 @@ export function SlippageSettings({
                   )}
                 </div>
 
+                {/* Priority Fee */}
+                {feeSettings && onFeeSettingsChange && (
+                  <div className="mb-6">
+                    <label className="block text-sm font-medium text-gray-300 mb-2">
+                      Priority Fee (Lamports)
+                    </label>
+                    <input
+                      type="number"
+                      value={customPriorityFee}
+                      onChange={(e) => handlePriorityFeeChange(e.target.value)}
+                      placeholder="0"
+                      min="0"
+                      step="1000"
+                      className="w-full px-4 py-3 backdrop-blur-xl bg-white/5 border border-white/10 rounded-xl text-white placeholder-gray-500 focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 transition-all"
+                    />
+                    <label className="mt-3 flex items-center gap-2 text-sm text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={feeSettings.autoOptimizeFees}
+                        onChange={(e) => onFeeSettingsChange({ autoOptimizeFees: e.target.checked })}
+                        disabled={feeSettings.priorityFee > 0}
+                        className="w-4 h-4 rounded border-white/20 bg-white/5"
+                      />
+                      Auto-optimize from recent fees on these pools
+                    </label>
+                    <p className="mt-2 text-xs text-gray-500">
+                      {feeSettings.priorityFee > 0
+                        ? "A fixed fee overrides auto-optimization"
+                        : feeSettings.autoOptimizeFees
+                        ? "0 = estimate the fee from recent network activity"
+                        : "No priority fee will be paid"}
+                    </p>
+                  </div>
+                )}
+
                 {/* Info Box */}
                 <div className="backdrop-blur-xl bg-blue-500/10 border border-blue-500/30 rounded-xl p-3 mb-4">
                   <div className="flex items-start gap-2">
@@ -10,6 +10,7 @@ import { useSwap } from '@/hooks/useSwap';
 import { useWallet } from '@/hooks/useWallet';
 import { useSolanaConnection } from '@/hooks/useSolanaConnection';
 import { useTransactionStore } from '@/stores/transactionStore';
+import { useSwapStore } from '@/stores/swapStore';
 import { formatTokenAmount } from '@/utils/formatting';
 import { getJupiterSwapService, SwapSettings as SwapServiceSettings } from '@/services/jupiterSwapService';
 import { errorTracking } from '@/lib/errorTracking';
@@ -221,6 +222,11 @@ export function SolanaSwapInterface({ onSwapInitiate, className = '' }: SolanaSw
   // Handle settings change
   const handleSettingsChange = (newSettings: SwapSettingsData) => {
     setSwapSettings(newSettings);
+    // Share fee preferences with sharded swaps and liquidity transactions
+    useSwapStore.getState().setFeeSettings({
+      priorityFee: newSettings.priorityFee,
+      autoOptimizeFees: newSettings.autoOptimizeFees,
+    });
   };
 
   // Handle swap initiation
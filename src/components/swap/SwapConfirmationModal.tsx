@@ -13,6 +13,19 @@ import { SwapQuote, TransactionStatus, Token } from '@/types';
 import { TokenLogo } from '@/components/tokens';
 import { formatTokenAmount } from '@/utils/formatting';
 
+/**
+ * Result of simulating the swap transaction before it is signed
+ */
+export interface SwapSimulationPreview {
+  status: 'loading' | 'success' | 'failed';
+  /** Output credited by the simulation, formatted for display */
+  outputAmount?: string;
+  /** Compute units the simulation consumed */
+  unitsConsumed?: number;
+  /** Decoded error message when the simulation failed */
+  error?: string;
+}
+
 interface SwapConfirmationModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -25,6 +38,7 @@ interface SwapConfirmationModalProps {
   transactionStatus?: TransactionStatus;
   transactionSignature?: string;
   error?: string;
+  simulation?: SwapSimulationPreview;
 }
 
 export function SwapConfirmationModal({
@@ -38,7 +52,8 @@ export function SwapConfirmationModal({
   amountOut,
   transactionStatus,
   transactionSignature,
-  error
+  error,
+  simulation
 }: SwapConfirmationModalProps) {
   const [timeRemaining, setTimeRemaining] = useState(0);
 
@@ -95,6 +110,7 @@ export function SwapConfirmationModal({
   const statusDisplay = getStatusDisplay();
   const isProcessing = transactionStatus === TransactionStatus.PENDING;
   const isCompleted = transactionStatus === TransactionStatus.CONFIRMED || transactionStatus === TransactionStatus.FAILED;
+  const simulationFailed = simulation?.status === 'failed';
 
   if (!quote || !tokenIn || !tokenOut) return null;
 
@@ -191,6 +207,21 @@ export function SwapConfirmationModal({
 
                 {/* Transaction Details */}
                 <div className="mb-6 p-4 bg-gray-50 rounded-lg space-y-3">
+                  {simulation && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">Simulated Output</span>
+                      <span className={`font-medium ${simulationFailed ? 'text-red-600' : 'text-gray-900'}`}>
+                        {simulation.status === 'loading'
+                          ? 'Simulating...'
+                          : simulationFailed
+                          ? 'Would fail'
+                          : simulation.outputAmount !== undefined
+                          ? `${simulation.outputAmount} ${tokenOut.symbol}`
+                          : 'Succeeded'}
+                      </span>
+                    </div>
+                  )}
+
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Price Impact</span>
                     <span className={`font-medium ${
@@ -224,11 +255,24 @@ export function SwapConfirmationModal({
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Route</span>
                     <span className="font-medium text-gray-900">
-                      {quote.routeType === 'direct' ? 'Direct' : `${quote.jupiterQuote?.routePlan.length} hops`}
+                      {quote.routeType === 'direct' ? 'Direct' : quote.jupiterQuote ? `${quote.jupiterQuote.routePlan.length} hops` : 'Multi-hop'}
                     </span>
                   </div>
                 </div>
 
+                {/* Simulation Failure */}
+                {simulationFailed && (
+                  <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <div className="flex items-center text-red-800">
+                      <ExclamationCircleIcon className="w-5 h-5 mr-2" />
+                      <span className="text-sm font-medium">Simulation Failed</span>
+                    </div>
+                    <p className="text-sm text-red-700 mt-1">
+                      {simulation?.error || 'This swap would fail on-chain.'}
+                    </p>
+                  </div>
+                )}
+
                 {/* High Price Impact Warning */}
                 {quote.priceImpact > 5 && (
                   <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
@@ -274,14 +318,14 @@ export function SwapConfirmationModal({
                   </button>
                   <button
                     onClick={onConfirm}
-                    disabled={timeRemaining === 0}
+                    disabled={timeRemaining === 0 || simulationFailed}
                     className={`flex-1 px-4 py-2 text-sm font-medium text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                      timeRemaining === 0
+                      timeRemaining === 0 || simulationFailed
                         ? 'bg-gray-400 cursor-not-allowed'
                         : 'bg-blue-600 hover:bg-blue-700'
                     }`}
                   >
-                    {timeRemaining === 0 ? 'Quote Expired' : 'Confirm Swap'}
+                    {timeRemaining === 0 ? 'Quote Expired' : simulationFailed ? 'Swap Would Fail' : 'Confirm Swap'}
                   </button>
                 </>
               )}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { Transaction } from '@/types';
+import { downloadTransactions, EXPORT_PRESETS, ExportFormat, ExportPresetId } from '@/lib/transactionExport';
+
+interface TransactionExportMenuProps {
+  /** Transactions to export (typically the filtered list) */
+  transactions: Transaction[];
+  /** Color scheme of the surrounding page */
+  theme?: 'dark' | 'light';
+}
+
+const FORMATS: ExportFormat[] = ['csv', 'json'];
+
+/**
+ * Export button with a menu of column presets and file formats
+ */
+export function TransactionExportMenu({ transactions, theme = 'dark' }: TransactionExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+
+  const handleExport = (presetId: ExportPresetId) => {
+    downloadTransactions(transactions, format, presetId);
+    setOpen(false);
+  };
+
+  const dark = theme === 'dark';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={transactions.length === 0}
+        className={
+          dark
+            ? 'px-4 py-2 text-sm backdrop-blur-xl bg-white/5 border border-white/10 rounded-2xl text-gray-300 hover:bg-white/10 hover:border-white/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2'
+            : 'flex items-center space-x-2 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed'
+        }
+        title={`Export ${transactions.length} transaction${transactions.length !== 1 ? 's' : ''}`}
+      >
+        <ArrowDownTrayIcon className="w-4 h-4" />
+        <span>Export</span>
+      </button>
+
+      {open && (
+        <div
+          className={`absolute right-0 mt-2 w-56 z-20 p-2 ${
+            dark
+              ? 'backdrop-blur-xl bg-gray-900/95 border border-white/10 rounded-2xl'
+              : 'bg-white border border-gray-200 rounded-lg shadow-lg'
+          }`}
+        >
+          <div className="flex gap-1 mb-2">
+            {FORMATS.map(option => (
+              <button
+                key={option}
+                onClick={() => setFormat(option)}
+                className={`flex-1 px-2 py-1 text-xs font-medium rounded-lg uppercase ${
+                  format === option
+                    ? dark ? 'bg-blue-500/30 border border-blue-500/50 text-blue-200' : 'bg-blue-100 text-blue-700'
+                    : dark ? 'bg-white/5 border border-white/10 text-gray-400 hover:bg-white/10' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          {Object.values(EXPORT_PRESETS).map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => handleExport(preset.id)}
+              className={`w-full text-left px-3 py-2 text-sm rounded-lg ${
+                dark ? 'text-gray-300 hover:bg-white/10' : 'text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {preset.label}
+            </button>
+          ))}
+          <div className={`px-3 pt-2 text-xs ${dark ? 'text-gray-500' : 'text-gray-400'}`}>
+            {transactions.length} filtered transaction{transactions.length !== 1 ? 's' : ''}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { useTransactionTracking } from '@/hooks/useTransactionTracking';
 import { useTransactionHistory } from '@/hooks/useTransactionHistory';
 import { TransactionType, TransactionStatus } from '@/types';
 import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { TransactionExportMenu } from './TransactionExportMenu';
 // Lightweight relative time formatter to avoid external dependency
 const formatDistanceToNow = (timestamp: number): string => {
   const rtf = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' });
@@ -124,6 +125,7 @@ export function TransactionList() {
             <ArrowPathIcon className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
             {loading ? 'Loading...' : 'Refresh'}
           </button>
+          <TransactionExportMenu transactions={filteredTransactions} />
         </div>
         {transactionCount > 0 && (
           <div className="text-sm text-gray-400">
@@ -1,2 +1,3 @@
 export * from './TransactionList';
 export * from './TransactionDetails';
+export * from './TransactionExportMenu';
@@ -2,7 +2,8 @@
  * Data Source Badge Component
  * 
  * Displays the source of pool data (blockchain, config, or hybrid).
- * Shows visual indicators for live vs cached data.
+ * Shows visual indicators for live vs cached data, and whether quotes are
+ * routed locally because the SAMM Router backend's circuit is open.
  * 
  * Requirements:
  * - 1.4: Show fallback indicator when using config data
@@ -12,6 +13,7 @@
 'use client';
 
 import React from 'react';
+import { CircuitState } from '@/services/sammRouterService';
 import { 
   SignalIcon, 
   CloudIcon, 
@@ -25,6 +27,8 @@ export interface DataSourceBadgeProps {
   dataSource: DataSource;
   /** Error message if blockchain fetch failed */
   error?: string | null;
+  /** SAMM Router backend circuit state (omit to hide routing status) */
+  routerState?: CircuitState;
   /** Size variant */
   size?: 'sm' | 'md' | 'lg';
   /** Show label text */
@@ -49,6 +53,7 @@ export interface DataSourceBadgeProps {
 export function DataSourceBadge({
   dataSource,
   error = null,
+  routerState,
   size = 'md',
   showLabel = true,
   className = ''
@@ -119,10 +124,17 @@ export function DataSourceBadge({
 
   const Icon = config.icon;
 
+  // Router status is only worth showing when the backend is being skipped or probed
+  const routerNote = routerState === 'open'
+    ? { label: 'Local routing', description: 'Router backend unavailable - quoting locally' }
+    : routerState === 'half-open'
+    ? { label: 'Reconnecting', description: 'Checking whether the router backend is back' }
+    : null;
+
   return (
     <div
       className={`inline-flex items-center gap-1.5 rounded-full backdrop-blur-xl border ${config.bgClass} ${classes.container} ${className}`}
-      title={config.description}
+      title={routerNote ? `${config.description}. ${routerNote.description}` : config.description}
     >
       <div className="relative">
         <Icon className={`${classes.icon} ${config.iconClass}`} />
@@ -135,6 +147,11 @@ export function DataSourceBadge({
           {config.label}
         </span>
       )}
+      {routerNote && (
+        <span className="font-medium text-yellow-400">
+          {showLabel ? `· ${routerNote.label}` : <ExclamationTriangleIcon className={classes.icon} />}
+        </span>
+      )}
     </div>
   );
 }
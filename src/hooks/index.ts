@@ -4,6 +4,7 @@ export * from './useWalletManager'
 export * from './usePools'
 export * from './usePoolRefresh'
 export * from './usePoolData'
+export * from './usePairCandles'
 export * from './useSwap'
 export * from './useTokenList'
 export * from './useSolanaConnection'
@@ -6,18 +6,37 @@ import { getAssociatedTokenAddress } from '@solana/spl-token';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
 import { Pool, UserPortfolio } from '@/types';
 import { usePoolStore } from '@/stores/poolStore';
+import { computePositionPnl, fetchLiquidityEvents, PositionPnl } from '@/lib/solana/lpPositionHistory';
 
-interface LiquidityPosition {
+// Tokens valued at $1 when converting position values to USD
+const USD_STABLECOINS = ['USDC', 'USDT'];
+
+export interface LiquidityPosition {
   pool: Pool;
   lpTokenBalance: bigint;
   lpTokenAccount: PublicKey;
   shareOfPool: number;
   tokenAAmount: bigint;
   tokenBAmount: bigint;
-  value: bigint; // Total position value in lamports
-  valueUsd?: number;
+  value: bigint; // Total position value in token A base units
+  valueUsd?: number; // Only for pools with a USD stablecoin
   feesEarned24h?: bigint;
   impermanentLoss?: number; // Percentage
+  pnl?: PositionPnl; // Cost basis and P&L from the user's liquidity history (token A base units)
+}
+
+/**
+ * Convert a token A amount of a pool to USD, if one side of the pool is a USD stablecoin
+ */
+export function positionValueToUsd(pool: Pool, amountA: bigint): number | undefined {
+  if (USD_STABLECOINS.includes(pool.tokenA.symbol)) {
+    return Number(amountA) / Math.pow(10, pool.tokenA.decimals);
+  }
+  if (USD_STABLECOINS.includes(pool.tokenB.symbol) && pool.reserveA > BigInt(0)) {
+    const amountB = (amountA * pool.reserveB) / pool.reserveA;
+    return Number(amountB) / Math.pow(10, pool.tokenB.decimals);
+  }
+  return undefined;
 }
 
 interface UseLiquidityPositionsReturn {
@@ -96,29 +115,49 @@ export function useLiquidityPositions(): UseLiquidityPositionsReturn {
     console.log(`   Token A amount: ${tokenAAmount.toString()}`);
     console.log(`   Token B amount: ${tokenBAmount.toString()}`);
 
-    // Calculate position value (simplified - using SOL as base)
-    // In real implementation, would use price feeds
-    const value = tokenAAmount + tokenBAmount; // Simplified calculation
+    // Position value in token A, with token B converted at the pool price
+    const value = tokenAAmount + (pool.reserveB > BigInt(0) ? (tokenBAmount * pool.reserveA) / pool.reserveB : BigInt(0));
 
     // Calculate fees earned (simplified)
     const feesEarned24h = pool.fees24h 
       ? BigInt(Math.floor(Number(pool.fees24h) * shareOfPool))
       : BigInt(0);
 
-    // TODO: Calculate impermanent loss
-    // This requires historical price data and initial deposit amounts
-    const impermanentLoss = 0;
-
     return {
       shareOfPool: shareOfPool * 100, // Convert to percentage
       tokenAAmount,
       tokenBAmount,
       value,
+      valueUsd: positionValueToUsd(pool, value),
       feesEarned24h,
-      impermanentLoss,
     };
   }, []);
 
+  // Rebuild cost basis and P&L from the user's add/remove liquidity transactions
+  const fetchPositionPnl = useCallback(async (pool: Pool, lpTokenBalance: bigint): Promise<PositionPnl | undefined> => {
+    if (!publicKey || !connection) return undefined;
+
+    try {
+      const events = await fetchLiquidityEvents(connection, publicKey, {
+        poolAddress: pool.id,
+        tokenAccountA: pool.tokenAAccount.toBase58(),
+        tokenAccountB: pool.tokenBAccount.toBase58(),
+        poolTokenMint: pool.lpTokenMint.toBase58(),
+      });
+
+      return computePositionPnl(events, {
+        lpBalance: lpTokenBalance,
+        lpSupply: pool.lpTokenSupply,
+        reserveA: pool.reserveA,
+        reserveB: pool.reserveB,
+      }) ?? undefined;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️  Failed to load liquidity history for ${pool.tokenA.symbol}/${pool.tokenB.symbol}:`, errorMessage);
+      return undefined;
+    }
+  }, [publicKey, connection]);
+
   // Fetch all liquidity positions
   const fetchPositions = useCallback(async () => {
     if (!connected || !publicKey || pools.length === 0) {
@@ -147,12 +186,15 @@ export function useLiquidityPositions(): UseLiquidityPositionsReturn {
         );
 
         const positionDetails = calculatePositionDetails(pool, lpTokenBalance);
+        const pnl = await fetchPositionPnl(pool, lpTokenBalance);
 
         return {
           pool,
           lpTokenBalance,
           lpTokenAccount,
           ...positionDetails,
+          impermanentLoss: pnl ? pnl.impermanentLoss * 100 : undefined,
+          pnl,
         };
       });
 
@@ -162,11 +204,12 @@ export function useLiquidityPositions(): UseLiquidityPositionsReturn {
       // Calculate total value
       const totalVal = validPositions.reduce((sum, pos) => sum + pos.value, BigInt(0));
 
+      // Token A differs between pools, so only USD values can be summed meaningfully
+      const totalUsd = validPositions.reduce((sum, pos) => sum + (pos.valueUsd ?? 0), 0);
+
       setPositions(validPositions);
       setTotalValue(totalVal);
-      
-      // TODO: Calculate USD value using price feeds
-      setTotalValueUsd(Number(totalVal) / 1e9 * 100); // Mock USD price
+      setTotalValueUsd(totalUsd);
 
       console.log(`✅ Fetched ${validPositions.length} LP positions`);
       console.log(`   Total value: ${totalVal.toString()}`);
@@ -177,7 +220,7 @@ export function useLiquidityPositions(): UseLiquidityPositionsReturn {
     } finally {
       setLoading(false);
     }
-  }, [connected, publicKey, pools, fetchLpTokenBalance, calculatePositionDetails]);
+  }, [connected, publicKey, pools, fetchLpTokenBalance, calculatePositionDetails, fetchPositionPnl]);
 
   // Refresh positions
   const refreshPositions = useCallback(async () => {
@@ -0,0 +1,123 @@
+/**
+ * Pair Price Candles Hook
+ *
+ * Loads a trading pair's swap history across all shards and builds OHLCV
+ * candles from it (see priceCandles). Swap events are cached in the pool
+ * event store, so each refresh only fetches signatures newer than the last
+ * one; switching intervals rebuilds candles without touching the chain.
+ *
+ * @module usePairCandles
+ */
+
+'use client';
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { buildCandles, Candle, CandleInterval, PairSwapEvents, loadPairSwapEvents } from '@/lib/solana/priceCandles';
+import { useSolanaConnection } from './useSolanaConnection';
+
+export interface UsePairCandlesOptions {
+  /** Mint prices are quoted for */
+  baseMint?: string;
+  /** Mint prices are quoted in */
+  quoteMint?: string;
+  /** Candle width (default: 15m) */
+  interval?: CandleInterval;
+  /** Number of candles to build (default: 60) */
+  limit?: number;
+  /** How often to fetch new swaps in milliseconds (default: 60s, 0 to disable) */
+  refreshInterval?: number;
+}
+
+export interface UsePairCandlesReturn {
+  /** Candles oldest first */
+  candles: Candle[];
+  /** Shard numbers of the pair */
+  shards: number[];
+  /** Whether swaps are being fetched */
+  loading: boolean;
+  /** Error message if the last fetch failed */
+  error: string | null;
+  /** Fetch new swaps now */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook for a pair's price candles
+ *
+ * @param options - Pair, interval and refresh settings
+ * @returns Candles and loading state
+ *
+ * @example
+ * ```tsx
+ * const { candles, shards } = usePairCandles({ baseMint: sol.mint, quoteMint: usdc.mint, interval: '1h' });
+ * ```
+ */
+export function usePairCandles(options: UsePairCandlesOptions): UsePairCandlesReturn {
+  const { baseMint, quoteMint, interval = '15m', limit = 60, refreshInterval = 60000 } = options;
+  const { connection } = useSolanaConnection();
+
+  const [pairEvents, setPairEvents] = useState<PairSwapEvents | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const pairKeyRef = useRef<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!connection || !baseMint || !quoteMint) {
+      return;
+    }
+
+    const pairKey = `${baseMint}/${quoteMint}`;
+    pairKeyRef.current = pairKey;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const events = await loadPairSwapEvents(connection, baseMint, quoteMint);
+      // Ignore results for a pair that is no longer selected
+      if (pairKeyRef.current === pairKey) {
+        setPairEvents(events);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('❌ Failed to load pair swaps:', errorMessage);
+      if (pairKeyRef.current === pairKey) {
+        setError(errorMessage);
+      }
+    } finally {
+      if (pairKeyRef.current === pairKey) {
+        setLoading(false);
+      }
+    }
+  }, [connection, baseMint, quoteMint]);
+
+  useEffect(() => {
+    setPairEvents(null);
+    refresh();
+
+    if (refreshInterval <= 0) {
+      return;
+    }
+    const timer = setInterval(refresh, refreshInterval);
+    return () => clearInterval(timer);
+  }, [refresh, refreshInterval]);
+
+  const candles = useMemo(() => {
+    if (!pairEvents) {
+      return [];
+    }
+    return buildCandles(pairEvents.events, interval, {
+      baseDecimals: pairEvents.baseDecimals,
+      quoteDecimals: pairEvents.quoteDecimals,
+      limit,
+      now: Math.floor(Date.now() / 1000),
+    });
+  }, [pairEvents, interval, limit]);
+
+  return {
+    candles,
+    shards: pairEvents?.shards ?? [],
+    loading,
+    error,
+    refresh,
+  };
+}
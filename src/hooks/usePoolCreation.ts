@@ -1,19 +1,15 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import { PublicKey, Transaction, SystemProgram, LAMPORTS_PER_SOL } from '@solana/web3.js';
-import { 
-  createInitializeMintInstruction,
-  createAssociatedTokenAccountInstruction,
-  createMintToInstruction,
-  getAssociatedTokenAddress,
-  TOKEN_PROGRAM_ID,
-  ASSOCIATED_TOKEN_PROGRAM_ID,
-  getMinimumBalanceForRentExemptMint,
-} from '@solana/spl-token';
+import { PublicKey } from '@solana/web3.js';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
 import { Token, Pool } from '@/types';
 import { usePoolStore } from '@/stores/poolStore';
+import { useSwapStore } from '@/stores/swapStore';
+import { initializePool, poolFeesFromRate } from '@/lib/solana/poolInitialization';
+import { registerPool } from '@/lib/solana/poolRegistry';
+import { parseSolanaError } from '@/utils/solanaErrors';
+import dexConfig from '@/config/dex-config.json';
 
 interface CreatePoolParams {
   tokenA: Token;
@@ -24,6 +20,7 @@ interface CreatePoolParams {
 }
 
 interface UsePoolCreationReturn {
+  /** Create and initialize a pool on-chain; resolves to the new pool address */
   createPool: (params: CreatePoolParams) => Promise<string>;
   isCreating: boolean;
   error: string | null;
@@ -34,15 +31,16 @@ export function usePoolCreation(): UsePoolCreationReturn {
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { connection } = useConnection();
-  const { publicKey, sendTransaction } = useWallet();
+  const wallet = useWallet();
   const { addPool } = usePoolStore();
+  const feeSettings = useSwapStore((state) => state.feeSettings);
 
   const clearError = useCallback(() => {
     setError(null);
   }, []);
 
   const createPool = useCallback(async (params: CreatePoolParams): Promise<string> => {
-    if (!publicKey || !sendTransaction) {
+    if (!wallet.publicKey || !wallet.signTransaction) {
       throw new Error('Wallet not connected');
     }
 
@@ -52,123 +50,32 @@ export function usePoolCreation(): UsePoolCreationReturn {
     try {
       const { tokenA, tokenB, amountA, amountB, feeRate = 0.25 } = params;
 
-      // Generate keypairs for pool accounts
-      const poolKeypair = new PublicKey(Math.random().toString()); // Mock for now
-      const lpTokenMintKeypair = new PublicKey(Math.random().toString()); // Mock for now
-
-      // Get associated token addresses
-      const tokenAMint = new PublicKey(tokenA.mint);
-      const tokenBMint = new PublicKey(tokenB.mint);
-
-      const userTokenAAccount = await getAssociatedTokenAddress(tokenAMint, publicKey);
-      const userTokenBAccount = await getAssociatedTokenAddress(tokenBMint, publicKey);
-
-      const poolTokenAAccount = await getAssociatedTokenAddress(tokenAMint, poolKeypair);
-      const poolTokenBAccount = await getAssociatedTokenAddress(tokenBMint, poolKeypair);
-
-      const userLpTokenAccount = await getAssociatedTokenAddress(lpTokenMintKeypair, publicKey);
-
-      // Create transaction
-      const transaction = new Transaction();
-
-      // Get rent exemption amount for mint
-      const mintRentExemption = await getMinimumBalanceForRentExemptMint(connection);
-
-      // Create LP token mint account
-      transaction.add(
-        SystemProgram.createAccount({
-          fromPubkey: publicKey,
-          newAccountPubkey: lpTokenMintKeypair,
-          lamports: mintRentExemption,
-          space: 82, // Mint account size
-          programId: TOKEN_PROGRAM_ID,
-        })
+      const { signature, config, lpTokenSupply } = await initializePool(
+        connection,
+        wallet,
+        {
+          tokenA,
+          tokenB,
+          amountA,
+          amountB,
+          fees: poolFeesFromRate(feeRate),
+        },
+        { feeSettings }
       );
 
-      // Initialize LP token mint
-      transaction.add(
-        createInitializeMintInstruction(
-          lpTokenMintKeypair,
-          6, // LP token decimals
-          poolKeypair, // Mint authority (pool)
-          poolKeypair, // Freeze authority (pool)
-          TOKEN_PROGRAM_ID
-        )
-      );
+      console.log('Pool created:', { ...config, signature });
 
-      // Create associated token accounts for pool
-      transaction.add(
-        createAssociatedTokenAccountInstruction(
-          publicKey, // Payer
-          poolTokenAAccount,
-          poolKeypair, // Owner
-          tokenAMint,
-          TOKEN_PROGRAM_ID,
-          ASSOCIATED_TOKEN_PROGRAM_ID
-        )
-      );
+      // Make the pool routable for swaps and liquidity right away
+      registerPool(config);
 
-      transaction.add(
-        createAssociatedTokenAccountInstruction(
-          publicKey, // Payer
-          poolTokenBAccount,
-          poolKeypair, // Owner
-          tokenBMint,
-          TOKEN_PROGRAM_ID,
-          ASSOCIATED_TOKEN_PROGRAM_ID
-        )
-      );
-
-      // Create user LP token account
-      transaction.add(
-        createAssociatedTokenAccountInstruction(
-          publicKey, // Payer
-          userLpTokenAccount,
-          publicKey, // Owner
-          lpTokenMintKeypair,
-          TOKEN_PROGRAM_ID,
-          ASSOCIATED_TOKEN_PROGRAM_ID
-        )
-      );
-
-      // TODO: Add actual AMM program instructions for pool creation
-      // This would include:
-      // 1. Initialize pool account with AMM program
-      // 2. Transfer tokens from user to pool
-      // 3. Mint LP tokens to user
-      // 4. Set initial pool state
-
-      // For now, we'll simulate the transaction
-      console.log('Pool creation transaction prepared:', {
-        poolAccount: poolKeypair.toString(),
-        lpTokenMint: lpTokenMintKeypair.toString(),
-        tokenAAccount: poolTokenAAccount.toString(),
-        tokenBAccount: poolTokenBAccount.toString(),
-        userLpAccount: userLpTokenAccount.toString(),
-        amountA: amountA.toString(),
-        amountB: amountB.toString(),
-        feeRate,
-      });
-
-      // Simulate transaction sending (in real implementation, uncomment below)
-      // const signature = await sendTransaction(transaction, connection);
-      // await connection.confirmTransaction(signature, 'confirmed');
-
-      // Mock transaction signature for development
-      const mockSignature = `mock_tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-      // Calculate initial LP token supply (geometric mean of amounts)
-      const lpTokenSupply = BigInt(Math.floor(Math.sqrt(Number(amountA) * Number(amountB))));
-
-      // Create pool object
       const newPool: Pool = {
-        id: poolKeypair.toString(),
-        programId: 'mock_amm_program', // In real implementation, use actual AMM program ID
+        id: config.poolAddress,
+        programId: dexConfig.programId,
         tokenA,
         tokenB,
-        tokenAAccount: poolTokenAAccount,
-        tokenBAccount: poolTokenBAccount,
-        lpTokenMint: lpTokenMintKeypair,
+        tokenAAccount: new PublicKey(config.tokenAccountA),
+        tokenBAccount: new PublicKey(config.tokenAccountB),
+        lpTokenMint: new PublicKey(config.poolTokenMint),
         reserveA: amountA,
         reserveB: amountB,
         totalLiquidity: lpTokenSupply,
@@ -180,21 +87,24 @@ export function usePoolCreation(): UsePoolCreationReturn {
         createdAt: Date.now(),
         lastUpdated: Date.now(),
         ammType: 'constant_product',
+        dataSource: 'blockchain',
+        lastBlockchainFetch: Date.now(),
+        isFresh: true,
       };
 
       // Add pool to store
       addPool(newPool);
 
-      return mockSignature;
+      return config.poolAddress;
 
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to create pool';
+      const errorMessage = parseSolanaError(err).userMessage;
       setError(errorMessage);
       throw new Error(errorMessage);
     } finally {
       setIsCreating(false);
     }
-  }, [publicKey, sendTransaction, connection, addPool]);
+  }, [wallet, connection, addPool, feeSettings]);
 
   return {
     createPool,
@@ -202,4 +112,4 @@ export function usePoolCreation(): UsePoolCreationReturn {
     error,
     clearError,
   };
-}
\ No newline at end of file
+}
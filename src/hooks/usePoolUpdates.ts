@@ -1,14 +1,15 @@
 'use client';
 
 import { useEffect, useCallback, useRef } from 'react';
-import { Connection, PublicKey } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
 import { useConnection } from '@solana/wallet-adapter-react';
-import { Pool, PoolUpdateEvent } from '@/types';
+import { Pool } from '@/types';
 import { usePoolStore } from '@/stores/poolStore';
+import { getPoolSubscriptionManager, PoolReserveUpdate } from '@/lib/solana/poolSubscriptions';
+import { feeToPercent } from '@/lib/solana/poolAccountDecoder';
 
 interface UsePoolUpdatesOptions {
   enabled?: boolean;
-  updateInterval?: number; // milliseconds
 }
 
 interface UsePoolUpdatesReturn {
@@ -18,119 +19,71 @@ interface UsePoolUpdatesReturn {
   unsubscribeFromAllPools: () => void;
 }
 
+/**
+ * Convert a live reserve update into pool store fields
+ */
+export function reserveUpdateToPool(update: PoolReserveUpdate): Partial<Pool> {
+  return {
+    reserveA: update.reserveA,
+    reserveB: update.reserveB,
+    totalLiquidity: update.reserveA + update.reserveB,
+    feeRate: feeToPercent(update.feeNumerator, update.feeDenominator),
+    lastUpdated: update.receivedAt,
+    dataSource: 'blockchain',
+    lastBlockchainFetch: update.receivedAt,
+    blockchainFetchError: null,
+    isFresh: true,
+  };
+}
+
+/**
+ * Live pool reserve updates over websocket account subscriptions
+ *
+ * Subscribed pools receive vault changes as they land on-chain and are written
+ * to the pool store. Polling only happens while the websocket is disconnected
+ * (handled by the shared subscription manager).
+ */
 export function usePoolUpdates(options: UsePoolUpdatesOptions = {}): UsePoolUpdatesReturn {
-  const { enabled = true, updateInterval = 60000 } = options; // Increased from 30s to 60s
+  const { enabled = true } = options;
   const { connection } = useConnection();
-  const { pools, setPools } = usePoolStore();
-  
-  const subscriptionsRef = useRef<Map<string, number>>(new Map());
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const wsConnectionRef = useRef<WebSocket | null>(null);
-
-  // Fetch pool data from Solana
-  const fetchPoolData = useCallback(async (poolId: string): Promise<Partial<Pool> | null> => {
-    try {
-      const poolPubkey = new PublicKey(poolId);
-      
-      // TODO: Implement actual pool data fetching from Solana programs
-      // This would involve:
-      // 1. Fetching pool account data
-      // 2. Parsing AMM-specific data structures
-      // 3. Calculating current reserves, volume, fees, etc.
-      
-      // For now, return mock updated data
-      const mockUpdate: Partial<Pool> = {
-        reserveA: BigInt(Math.floor(Math.random() * 1000000 * 1e9)),
-        reserveB: BigInt(Math.floor(Math.random() * 1000000 * 1e6)),
-        volume24h: BigInt(Math.floor(Math.random() * 100000 * 1e9)),
-        fees24h: BigInt(Math.floor(Math.random() * 1000 * 1e9)),
-        lastUpdated: Date.now(),
-      };
-
-      return mockUpdate;
-    } catch (error) {
-      console.error(`Failed to fetch pool data for ${poolId}:`, error);
-      return null;
-    }
-  }, []);
+  const { pools, updatePool } = usePoolStore();
 
-  // Update pool data in store
-  const updatePoolData = useCallback((poolId: string, updates: Partial<Pool>) => {
-    setPools(pools.map(pool => 
-      pool.id === poolId 
-        ? { ...pool, ...updates }
-        : pool
-    ));
-  }, [pools, setPools]);
-
-  // Fetch updates for all subscribed pools
-  const fetchAllPoolUpdates = useCallback(async () => {
-    if (!enabled || subscriptionsRef.current.size === 0) return;
-
-    const updatePromises = Array.from(subscriptionsRef.current.keys()).map(async (poolId) => {
-      const updates = await fetchPoolData(poolId);
-      if (updates) {
-        updatePoolData(poolId, updates);
-      }
-    });
-
-    await Promise.all(updatePromises);
-  }, [enabled, fetchPoolData, updatePoolData]);
-
-  // Set up WebSocket connection for real-time updates
-  const setupWebSocketConnection = useCallback(() => {
-    if (!enabled || wsConnectionRef.current) return;
-
-    try {
-      // TODO: Implement actual WebSocket connection to Solana RPC
-      // For now, we'll use polling instead of WebSocket
-      console.log('WebSocket connection would be established here');
-      
-      // Mock WebSocket connection
-      const mockWs = {
-        close: () => console.log('Mock WebSocket closed'),
-        send: (data: string) => console.log('Mock WebSocket send:', data),
-      } as any;
-      
-      wsConnectionRef.current = mockWs;
-    } catch (error) {
-      console.error('Failed to establish WebSocket connection:', error);
-    }
-  }, [enabled]);
-
-  // Close WebSocket connection
-  const closeWebSocketConnection = useCallback(() => {
-    if (wsConnectionRef.current) {
-      wsConnectionRef.current.close();
-      wsConnectionRef.current = null;
-    }
-  }, []);
+  // Pool ID -> function closing its subscription
+  const subscriptionsRef = useRef<Map<string, () => void>>(new Map());
 
   // Subscribe to pool updates
   const subscribeToPool = useCallback((poolId: string) => {
-    if (!enabled) return;
-
-    // Add to subscriptions
-    subscriptionsRef.current.set(poolId, Date.now());
+    if (!enabled || subscriptionsRef.current.has(poolId)) return;
 
-    // Set up WebSocket if not already connected
-    setupWebSocketConnection();
+    const pool = usePoolStore.getState().pools.find(p => p.id === poolId);
+    if (!pool) {
+      console.warn(`Cannot subscribe to unknown pool: ${poolId}`);
+      return;
+    }
 
-    // TODO: Subscribe to specific pool account changes via WebSocket
+    const unsubscribe = getPoolSubscriptionManager(connection).subscribe(
+      {
+        poolAddress: new PublicKey(pool.id),
+        tokenAAccount: pool.tokenAAccount,
+        tokenBAccount: pool.tokenBAccount,
+        lpTokenMint: pool.lpTokenMint,
+      },
+      update => updatePool(poolId, reserveUpdateToPool(update))
+    );
+
+    subscriptionsRef.current.set(poolId, unsubscribe);
     console.log(`Subscribed to pool updates: ${poolId}`);
-  }, [enabled, setupWebSocketConnection]);
+  }, [enabled, connection, updatePool]);
 
   // Unsubscribe from pool updates
   const unsubscribeFromPool = useCallback((poolId: string) => {
-    subscriptionsRef.current.delete(poolId);
-
-    // Close WebSocket if no more subscriptions
-    if (subscriptionsRef.current.size === 0) {
-      closeWebSocketConnection();
-    }
+    const unsubscribe = subscriptionsRef.current.get(poolId);
+    if (!unsubscribe) return;
 
+    unsubscribe();
+    subscriptionsRef.current.delete(poolId);
     console.log(`Unsubscribed from pool updates: ${poolId}`);
-  }, [closeWebSocketConnection]);
+  }, []);
 
   // Subscribe to all pools
   const subscribeToAllPools = useCallback(() => {
@@ -144,30 +97,12 @@ export function usePoolUpdates(options: UsePoolUpdatesOptions = {}): UsePoolUpda
     });
   }, [unsubscribeFromPool]);
 
-  // Set up polling interval for updates
-  useEffect(() => {
-    if (!enabled) return;
-
-    intervalRef.current = setInterval(fetchAllPoolUpdates, updateInterval);
-
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-    };
-  }, [enabled, updateInterval, fetchAllPoolUpdates]);
-
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       unsubscribeFromAllPools();
-      closeWebSocketConnection();
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
     };
-  }, [unsubscribeFromAllPools, closeWebSocketConnection]);
+  }, [unsubscribeFromAllPools]);
 
   return {
     subscribeToPool,
@@ -205,4 +140,4 @@ export function usePoolListSubscriptions(enabled: boolean = true) {
       }
     };
   }, [enabled, pools.length, subscribeToAllPools, unsubscribeFromAllPools]);
-}
\ No newline at end of file
+}
@@ -4,7 +4,12 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useWallet } from '@solana/wallet-adapter-react';
-import { shardedDex, SwapQuote, TokenConfig, ShardedPool } from '../lib/shardedDex';
+import { shardedDex, SwapQuote, SwapSimulation, TokenConfig, ShardedPool } from '../lib/shardedDex';
+import { PoolReserveUpdate } from '../lib/solana/poolSubscriptions';
+import { RouterHealth } from '../services/sammRouterService';
+import { usePoolStore } from '../stores/poolStore';
+import { useSwapStore } from '../stores/swapStore';
+import { reserveUpdateToPool } from './usePoolUpdates';
 
 export function useShardedDex() {
   const { publicKey, signTransaction, signAllTransactions } = useWallet();
@@ -12,18 +17,29 @@ export function useShardedDex() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const [routerHealth, setRouterHealth] = useState<RouterHealth>(() => shardedDex.getRouterHealth());
+
   // Load tokens on mount
   useEffect(() => {
     setTokens(shardedDex.getTokens());
   }, []);
 
+  // Track the router backend's circuit state
+  useEffect(() => {
+    setRouterHealth(shardedDex.getRouterHealth());
+    return shardedDex.onRouterStateChange(setRouterHealth);
+  }, []);
+
   /**
    * Get quote for a swap
+   *
+   * Compares the SAMM shards against a Jupiter route and returns the better one.
    */
   const getQuote = useCallback(async (
     inputTokenSymbol: string,
     outputTokenSymbol: string,
-    inputAmount: number
+    inputAmount: number,
+    slippageTolerance: number = 0.5
   ): Promise<SwapQuote | null> => {
     if (!inputAmount || inputAmount <= 0) {
       setError('Invalid input amount');
@@ -41,11 +57,12 @@ export function useShardedDex() {
         signAllTransactions,
       } : undefined;
 
-      const quote = await shardedDex.getQuote(
+      const quote = await shardedDex.getAggregatedQuote(
         inputTokenSymbol,
         outputTokenSymbol,
         inputAmount,
-        walletAdapter
+        walletAdapter,
+        slippageTolerance
       );
       return quote;
     } catch (err) {
@@ -57,8 +74,40 @@ export function useShardedDex() {
     }
   }, [publicKey, signTransaction, signAllTransactions]);
 
+  /**
+   * Get quote for receiving an exact output amount
+   */
+  const getQuoteExactOut = useCallback(async (
+    inputTokenSymbol: string,
+    outputTokenSymbol: string,
+    outputAmount: number
+  ): Promise<SwapQuote | null> => {
+    if (!outputAmount || outputAmount <= 0) {
+      setError('Invalid output amount');
+      return null;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      return await shardedDex.getQuoteExactOut(
+        inputTokenSymbol,
+        outputTokenSymbol,
+        outputAmount
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to get quote';
+      setError(message);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
   /**
    * Execute a swap
+   * Uses the priority fee preferences from the swap store
    */
   const executeSwap = useCallback(async (
     quote: SwapQuote,
@@ -83,7 +132,8 @@ export function useShardedDex() {
       const signature = await shardedDex.executeSwap(
         walletAdapter,
         quote,
-        slippageTolerance
+        slippageTolerance,
+        useSwapStore.getState().feeSettings
       );
       return signature;
     } catch (err) {
@@ -95,6 +145,26 @@ export function useShardedDex() {
     }
   }, [publicKey, signTransaction, signAllTransactions]);
 
+  /**
+   * Simulate a swap without signing it
+   * Throws a DexTransactionError with the decoded program error if the swap would fail
+   */
+  const simulateSwap = useCallback(async (
+    quote: SwapQuote,
+    slippageTolerance: number = 0.5
+  ): Promise<SwapSimulation> => {
+    if (!publicKey) {
+      throw new Error('Wallet not connected');
+    }
+
+    return shardedDex.simulateSwap(
+      publicKey,
+      quote,
+      slippageTolerance,
+      useSwapStore.getState().feeSettings
+    );
+  }, [publicKey]);
+
   /**
    * Get pools for a trading pair (static config data)
    */
@@ -115,6 +185,21 @@ export function useShardedDex() {
     return await shardedDex.getShardsWithRealTimeData(tokenASymbol, tokenBSymbol);
   }, []);
 
+  /**
+   * Subscribe to live reserve updates for every shard of a pair
+   * Updates are also pushed into the pool store.
+   */
+  const subscribeToPair = useCallback((
+    tokenASymbol: string,
+    tokenBSymbol: string,
+    onUpdate?: (update: PoolReserveUpdate) => void
+  ): (() => void) => {
+    return shardedDex.subscribeToPair(tokenASymbol, tokenBSymbol, (update) => {
+      usePoolStore.getState().updatePool(update.poolAddress, reserveUpdateToPool(update));
+      onUpdate?.(update);
+    });
+  }, []);
+
   /**
    * Get all trading pairs
    */
@@ -133,10 +218,14 @@ export function useShardedDex() {
     tokens,
     loading,
     error,
+    routerHealth,
     getQuote,
+    getQuoteExactOut,
     executeSwap,
+    simulateSwap,
     getPoolsForPair,
     getPoolsForPairRealTime,
+    subscribeToPair,
     getTradingPairs,
     getTokenBySymbol,
     programId: shardedDex.getProgramId(),
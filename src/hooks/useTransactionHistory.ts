@@ -1,9 +1,10 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
-import { Connection, PublicKey, ConfirmedSignatureInfo, ParsedTransactionWithMeta } from '@solana/web3.js';
+import { PublicKey, ConfirmedSignatureInfo, VersionedTransactionResponse } from '@solana/web3.js';
 import { useTransactionStore } from '@/stores/transactionStore';
 import { useSolanaConnection } from './useSolanaConnection';
 import { useWallet } from './useWallet';
-import { Transaction, TransactionType, TransactionStatus, Token } from '@/types';
+import { parseWalletTransaction } from '@/lib/solana/transactionParser';
+import { Transaction } from '@/types';
 
 interface UseTransactionHistoryOptions {
   enabled?: boolean;
@@ -27,170 +28,17 @@ export function useTransactionHistory(options: UseTransactionHistoryOptions = {}
   const abortControllerRef = useRef<AbortController | null>(null);
 
   /**
-   * Parse transaction to determine type and extract relevant information
+   * Parse transaction into a history entry for the connected wallet
+   * (SAMM operations are decoded from their instructions, see transactionParser)
    */
   const parseTransaction = useCallback((
-    tx: any, // Solana getTransaction can return different types
+    tx: VersionedTransactionResponse,
     signature: string,
     blockTime: number | null | undefined
   ): Transaction | null => {
-    if (!tx || !tx.meta) return null;
-
-    const timestamp = blockTime ? blockTime * 1000 : Date.now();
-    // Handle both versioned and legacy transactions
-    const accountKeys = tx.transaction?.message?.accountKeys || tx.transaction?.staticAccountKeys || [];
-    const feePayer = (Array.isArray(accountKeys) 
-      ? accountKeys[0]?.pubkey || accountKeys[0]
-      : accountKeys[0]
-    )?.toString() || '';
-    const solFee = BigInt(tx.meta.fee || 0);
-    const status: TransactionStatus = tx.meta.err 
-      ? TransactionStatus.FAILED 
-      : TransactionStatus.CONFIRMED;
-    const error = tx.meta.err ? JSON.stringify(tx.meta.err) : undefined;
-
-    // Check if it's a swap transaction (Jupiter, Raydium, Orca, etc.)
-    const logMessages = tx.meta.logMessages || [];
-    const isSwap = logMessages.some(log => 
-      log.includes('Jupiter') || 
-      log.includes('JUP') ||
-      log.includes('swap') ||
-      log.includes('Swap') ||
-      log.includes('Raydium') ||
-      log.includes('Orca')
-    );
-
-    // Check if it's a liquidity transaction
-    const isAddLiquidity = logMessages.some(log => 
-      log.includes('add') && log.includes('liquidity') ||
-      log.includes('AddLiquidity')
-    );
-    const isRemoveLiquidity = logMessages.some(log => 
-      log.includes('remove') && log.includes('liquidity') ||
-      log.includes('RemoveLiquidity')
-    );
-    const isCreatePool = logMessages.some(log => 
-      log.includes('create') && log.includes('pool') ||
-      log.includes('CreatePool')
-    );
-
-    // Parse token transfers
-    const preBalances = tx.meta.preTokenBalances || [];
-    const postBalances = tx.meta.postTokenBalances || [];
-    const preSolBalance = tx.meta.preBalances?.[0] || 0;
-    const postSolBalance = tx.meta.postBalances?.[0] || 0;
-
-    // Find token changes
-    const tokenChanges = new Map<string, { pre: bigint; post: bigint; decimals: number }>();
-    
-    preBalances.forEach((balance) => {
-      const mint = balance.mint;
-      if (!mint) return;
-      
-      const decimals = balance.uiTokenAmount?.decimals || 9;
-      const preAmountStr = balance.uiTokenAmount?.uiAmountString || '0';
-      const preAmount = BigInt(Math.floor(parseFloat(preAmountStr) * Math.pow(10, decimals)));
-      
-      const postBalance = postBalances.find(pb => 
-        pb.accountIndex === balance.accountIndex && pb.mint === mint
-      );
-      const postAmountStr = postBalance?.uiTokenAmount?.uiAmountString || '0';
-      const postAmount = postBalance
-        ? BigInt(Math.floor(parseFloat(postAmountStr) * Math.pow(10, decimals)))
-        : BigInt(0);
-      
-      if (preAmount !== postAmount) {
-        tokenChanges.set(mint, { pre: preAmount, post: postAmount, decimals });
-      }
-    });
-
-    // Determine transaction type
-    let type: TransactionType;
-    let tokenIn: Token | undefined;
-    let tokenOut: Token | undefined;
-    let amountIn: bigint | undefined;
-    let amountOut: bigint | undefined;
-
-    if (isSwap) {
-      type = TransactionType.SWAP;
-      // Try to extract swap information from token changes
-      const tokenChangeEntries = Array.from(tokenChanges.entries());
-      if (tokenChangeEntries.length >= 2) {
-        // Assume first token is input, second is output
-        const [mintIn, changeIn] = tokenChangeEntries[0];
-        const [mintOut, changeOut] = tokenChangeEntries[1];
-        
-        const amountInDiff = changeIn.pre > changeIn.post 
-          ? changeIn.pre - changeIn.post 
-          : BigInt(0);
-        const amountOutDiff = changeOut.post > changeOut.pre
-          ? changeOut.post - changeOut.pre
-          : BigInt(0);
-
-        if (amountInDiff > 0 && amountOutDiff > 0) {
-          const decimalsIn = changeIn.decimals || 9;
-          const decimalsOut = changeOut.decimals || 9;
-          
-          tokenIn = {
-            mint: mintIn,
-            address: mintIn,
-            symbol: mintIn.slice(0, 4) + '...' + mintIn.slice(-4),
-            name: mintIn,
-            decimals: decimalsIn,
-            isNative: false,
-          };
-          tokenOut = {
-            mint: mintOut,
-            address: mintOut,
-            symbol: mintOut.slice(0, 4) + '...' + mintOut.slice(-4),
-            name: mintOut,
-            decimals: decimalsOut,
-            isNative: false,
-          };
-          amountIn = amountInDiff;
-          amountOut = amountOutDiff;
-        }
-      }
-    } else if (isAddLiquidity) {
-      type = TransactionType.ADD_LIQUIDITY;
-    } else if (isRemoveLiquidity) {
-      type = TransactionType.REMOVE_LIQUIDITY;
-    } else if (isCreatePool) {
-      type = TransactionType.CREATE_POOL;
-    } else {
-      // Check if it's a token transfer
-      const hasTokenTransfers = preBalances.length > 0 || postBalances.length > 0;
-      const hasSolTransfer = Math.abs(postSolBalance - preSolBalance) > solFee;
-
-      if (hasTokenTransfers) {
-        type = TransactionType.SPL_TRANSFER;
-      } else if (hasSolTransfer) {
-        type = TransactionType.SOL_TRANSFER;
-      } else {
-        // Default to SPL transfer if we can't determine
-        type = TransactionType.SPL_TRANSFER;
-      }
-    }
-
-    return {
-      signature,
-      hash: signature,
-      type,
-      status,
-      timestamp,
-      blockTime: blockTime || undefined,
-      slot: tx.slot,
-      feePayer,
-      solFee,
-      computeUnitsUsed: tx.meta.computeUnitsConsumed || undefined,
-      error,
-      logs: logMessages,
-      tokenIn,
-      tokenOut,
-      amountIn,
-      amountOut,
-    };
-  }, []);
+    if (!address) return null;
+    return parseWalletTransaction(tx, signature, address, blockTime);
+  }, [address]);
 
   /**
    * Fetch transaction history from blockchain with pagination support
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { shardedDex, SwapQuote } from '../shardedDex';
+import { JupiterSwapService } from '../../services/jupiterSwapService';
+import { JupiterQuote } from '../../types';
+import dexConfig from '../../config/dex-config.json';
+
+const usdc = dexConfig.tokens.find(t => t.symbol === 'USDC')!;
+const sol = dexConfig.tokens.find(t => t.symbol === 'SOL')!;
+
+const shardedQuote: SwapQuote = {
+  inputToken: usdc.mint,
+  outputToken: sol.mint,
+  inputAmount: 100,
+  estimatedOutput: 0.5,
+  priceImpact: 0.1,
+  route: [],
+  totalFee: 0.3,
+  routingMethod: 'local',
+};
+
+// Single Orca hop charging a 0.01 SOL platform fee
+const jupiterQuote = (outAmount: string): JupiterQuote => ({
+  inputMint: usdc.mint,
+  inAmount: '100000000',
+  outputMint: sol.mint,
+  outAmount,
+  otherAmountThreshold: outAmount,
+  swapMode: 'ExactIn',
+  slippageBps: 50,
+  platformFee: { amount: '10000000', feeBps: 20 },
+  priceImpactPct: '0.001',
+  routePlan: [{
+    swapInfo: {
+      ammKey: 'amm',
+      label: 'Orca',
+      inputMint: usdc.mint,
+      outputMint: sol.mint,
+      inAmount: '100000000',
+      outAmount,
+      feeAmount: '250000',
+      feeMint: usdc.mint,
+    },
+    percent: 100,
+  }],
+});
+
+function stubJupiter(quote: JupiterQuote | null) {
+  const getOptimizedQuote = vi.fn().mockResolvedValue(quote);
+  shardedDex.setJupiterService({ getOptimizedQuote } as unknown as JupiterSwapService);
+  return getOptimizedQuote;
+}
+
+describe('ShardedDexService.getAggregatedQuote', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    shardedDex.setJupiterService(null);
+  });
+
+  it('picks Jupiter when its output net of platform fees is higher', async () => {
+    vi.spyOn(shardedDex, 'getQuote').mockResolvedValue(shardedQuote);
+    const getOptimizedQuote = stubJupiter(jupiterQuote('520000000'));
+
+    const quote = await shardedDex.getAggregatedQuote('USDC', 'SOL', 100, undefined, 1);
+
+    expect(getOptimizedQuote).toHaveBeenCalledWith(usdc.mint, sol.mint, '100000000', expect.objectContaining({ slippageTolerance: 1 }));
+    expect(quote.source).toBe('jupiter');
+    expect(quote.routingMethod).toBe('jupiter');
+    expect(quote.estimatedOutput).toBeCloseTo(0.51, 9);
+    expect(quote.totalFee).toBeCloseTo(0.25, 9);
+    expect(quote.route).toEqual([]);
+  });
+
+  it('keeps the SAMM shards when the platform fee erases Jupiter\'s edge', async () => {
+    vi.spyOn(shardedDex, 'getQuote').mockResolvedValue(shardedQuote);
+    stubJupiter(jupiterQuote('505000000'));
+
+    const quote = await shardedDex.getAggregatedQuote('USDC', 'SOL', 100);
+
+    expect(quote.source).toBe('sharded');
+    expect(quote.estimatedOutput).toBe(0.5);
+  });
+
+  it('falls back to Jupiter when the shards cannot quote the pair', async () => {
+    vi.spyOn(shardedDex, 'getQuote').mockRejectedValue(new Error('No pools available for this token pair'));
+    stubJupiter(jupiterQuote('520000000'));
+
+    const quote = await shardedDex.getAggregatedQuote('USDC', 'SOL', 100);
+
+    expect(quote.source).toBe('jupiter');
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { shardedDex, PoolState, SwapQuote } from '../shardedDex';
+import { getAmountOut } from '../shardRouting';
+
+vi.mock('../solana/poolRegistry', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../solana/poolRegistry')>()),
+  discoverPools: vi.fn().mockResolvedValue([]),
+}));
+
+const shard = shardedDex.getShardsBySymbol('USDC', 'SOL')[0];
+const usdcIsTokenA = shardedDex.getTokens().find(t => t.symbol === 'USDC')!.mint === shard.tokenA;
+
+const poolState: PoolState = {
+  reserveA: 1_000_000_000_000n,
+  reserveB: 5_000_000_000_000n,
+  feeNumerator: 3n,
+  feeDenominator: 1000n,
+  lastUpdated: Date.now(),
+};
+
+// 100 USDC (6 decimals) against the stubbed reserves
+const inputAmount = 100_000_000n;
+const localOutput = getAmountOut(inputAmount, {
+  reserveIn: usdcIsTokenA ? poolState.reserveA : poolState.reserveB,
+  reserveOut: usdcIsTokenA ? poolState.reserveB : poolState.reserveA,
+  feeNumerator: poolState.feeNumerator,
+  feeDenominator: poolState.feeDenominator,
+});
+
+function stubBackend(expectedOutput: bigint) {
+  const router = (shardedDex as any).sammRouter;
+  vi.spyOn(router, 'isCircuitOpen').mockReturnValue(false);
+  vi.spyOn(router, 'getRoute').mockResolvedValue({
+    success: true,
+    data: {
+      shard: { id: 'shard', address: shard.poolAddress, tokenPair: { tokenA: shard.tokenA, tokenB: shard.tokenB }, reserves: { tokenA: '0', tokenB: '0' } },
+      expectedOutput: expectedOutput.toString(),
+      priceImpact: 0,
+      reason: 'test',
+    },
+  });
+}
+
+describe('ShardedDexService backend quote verification', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(shardedDex as any, 'getPoolState').mockResolvedValue(poolState);
+    shardedDex.resetPerformanceMetrics();
+    shardedDex.setQuoteDivergenceTolerance(1);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('accepts backend quotes within tolerance and records the discrepancy', async () => {
+    stubBackend(localOutput + localOutput / 200n);
+
+    const quote = await shardedDex.getQuote('USDC', 'SOL', 100);
+    const metrics = shardedDex.getPerformanceMetrics();
+
+    expect(quote.routingMethod).toBe('backend');
+    expect(metrics.backendQuotesVerified).toBe(1);
+    expect(metrics.backendQuotesRejected).toBe(0);
+    expect(metrics.quoteDiscrepancies).toHaveLength(1);
+    expect(metrics.quoteDiscrepancies[0]).toMatchObject({ localOutput: localOutput.toString(), rejected: false });
+    expect(metrics.quoteDiscrepancies[0].divergence).toBeCloseTo(0.5, 2);
+  });
+
+  it('quotes the local output when the backend promises more within tolerance', async () => {
+    stubBackend(localOutput + localOutput / 200n);
+
+    const quote = await shardedDex.getQuote('USDC', 'SOL', 100);
+
+    expect(quote.estimatedOutput).toBe(Number(localOutput) / 1e9);
+  });
+
+  it('requires an exact match with a zero tolerance', async () => {
+    shardedDex.setQuoteDivergenceTolerance(0);
+    stubBackend(localOutput + 1n);
+    const localQuote = { routingMethod: 'local' } as SwapQuote;
+    vi.spyOn(shardedDex as any, 'getQuoteLocal').mockResolvedValue(localQuote);
+
+    expect(await shardedDex.getQuote('USDC', 'SOL', 100)).toBe(localQuote);
+    expect(shardedDex.getPerformanceMetrics().backendQuotesRejected).toBe(1);
+  });
+
+  it('replaces quotes outside tolerance with the local route', async () => {
+    stubBackend(localOutput * 2n);
+    const localQuote = { routingMethod: 'local' } as SwapQuote;
+    const getQuoteLocal = vi.spyOn(shardedDex as any, 'getQuoteLocal').mockResolvedValue(localQuote);
+
+    const quote = await shardedDex.getQuote('USDC', 'SOL', 100);
+    const metrics = shardedDex.getPerformanceMetrics();
+
+    expect(quote).toBe(localQuote);
+    expect(getQuoteLocal).toHaveBeenCalledWith('USDC', 'SOL', 100);
+    expect(metrics.backendQuotesRejected).toBe(1);
+    expect(metrics.maxQuoteDivergence).toBeCloseTo(100, 2);
+    expect(metrics.quoteDiscrepancies[0].rejected).toBe(true);
+  });
+
+  it('does not accept backend quotes when the live reserves cannot be read', async () => {
+    stubBackend(localOutput);
+    // Config fallback: getPoolState marks reserves read from dex-config.json with lastUpdated 0
+    vi.spyOn(shardedDex as any, 'getPoolState').mockResolvedValue({ ...poolState, lastUpdated: 0 });
+    const localQuote = { routingMethod: 'local' } as SwapQuote;
+    vi.spyOn(shardedDex as any, 'getQuoteLocal').mockResolvedValue(localQuote);
+
+    expect(await shardedDex.getQuote('USDC', 'SOL', 100)).toBe(localQuote);
+    expect(shardedDex.getPerformanceMetrics().backendQuotesVerified).toBe(0);
+  });
+});
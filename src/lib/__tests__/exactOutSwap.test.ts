@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import { shardedDex, PoolState } from '../shardedDex';
+import { getAmountIn } from '../shardRouting';
+import { buildMultiShardSwapTransaction, SwapLeg } from '../swapInstructions';
+
+vi.mock('../solana/poolRegistry', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../solana/poolRegistry')>()),
+  discoverPools: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('../swapInstructions', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../swapInstructions')>()),
+  buildMultiShardSwapTransaction: vi.fn().mockResolvedValue({ transaction: {}, instructions: [] }),
+}));
+
+// Balanced reserves, so every shard quotes the same either way round
+const poolState: PoolState = {
+  reserveA: 1_000_000_000_000n,
+  reserveB: 1_000_000_000_000n,
+  feeNumerator: 3n,
+  feeDenominator: 1000n,
+  lastUpdated: Date.now(),
+};
+
+describe('ShardedDexService exact-output swaps', () => {
+  let getPoolState: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    getPoolState = vi.spyOn(shardedDex as any, 'getPoolState').mockResolvedValue(poolState);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('spends the input re-quoted at build time and requires the exact output', async () => {
+    const quote = await shardedDex.getQuoteExactOut('USDC', 'USDT', 100);
+
+    await (shardedDex as any).buildSwapTransaction(PublicKey.default, quote, 1);
+    const [shard] = vi.mocked(buildMultiShardSwapTransaction).mock.calls[0][5] as SwapLeg[];
+
+    expect(shard.amountIn).toBe(getAmountIn(100_000_000n, {
+      reserveIn: poolState.reserveA,
+      reserveOut: poolState.reserveB,
+      feeNumerator: poolState.feeNumerator,
+      feeDenominator: poolState.feeDenominator,
+    }));
+    expect(shard.minimumAmountOut).toBe(100_000_000n);
+  });
+
+  it('rejects the swap when the fresh input exceeds the maximum', async () => {
+    const quote = await shardedDex.getQuoteExactOut('USDC', 'USDT', 100);
+    // USDC is token A: a 10% thinner USDT side needs over 10% more USDC
+    getPoolState.mockResolvedValue({ ...poolState, reserveB: poolState.reserveB * 9n / 10n });
+
+    await expect((shardedDex as any).buildSwapTransaction(PublicKey.default, quote, 1))
+      .rejects.toThrow('above the allowed');
+  });
+
+  it('rejects the swap when the live reserves cannot be read', async () => {
+    const quote = await shardedDex.getQuoteExactOut('USDC', 'USDT', 100);
+    getPoolState.mockResolvedValue({ ...poolState, lastUpdated: 0 });
+
+    await expect((shardedDex as any).buildSwapTransaction(PublicKey.default, quote, 1))
+      .rejects.toThrow('Could not read the current reserves');
+  });
+});
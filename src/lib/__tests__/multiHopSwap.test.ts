@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import { shardedDex, PoolState } from '../shardedDex';
+import { getAmountOut } from '../shardRouting';
+import { buildMultiHopSwapTransaction, SwapHop } from '../swapInstructions';
+
+vi.mock('../solana/poolRegistry', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../solana/poolRegistry')>()),
+  discoverPools: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('../swapInstructions', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../swapInstructions')>()),
+  buildMultiHopSwapTransaction: vi.fn().mockResolvedValue({ transaction: {}, instructions: [] }),
+}));
+
+// Balanced reserves, so every shard quotes the same either way round
+const poolState: PoolState = {
+  reserveA: 1_000_000_000_000n,
+  reserveB: 1_000_000_000_000n,
+  feeNumerator: 3n,
+  feeDenominator: 1000n,
+  lastUpdated: Date.now(),
+};
+const liquidity = {
+  reserveIn: poolState.reserveA,
+  reserveOut: poolState.reserveB,
+  feeNumerator: poolState.feeNumerator,
+  feeDenominator: poolState.feeDenominator,
+};
+
+describe('ShardedDexService multi-hop swaps', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(shardedDex as any, 'getPoolState').mockResolvedValue(poolState);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('feeds each hop the previous hop\'s expected output and bounds only the final output', async () => {
+    // No USDT/SOL pool: routed USDT → USDC → SOL
+    const quote = await shardedDex.getQuote('USDT', 'SOL', 100);
+    expect(quote.route).toHaveLength(2);
+
+    await (shardedDex as any).buildSwapTransaction(PublicKey.default, quote, 1);
+    const hops = vi.mocked(buildMultiHopSwapTransaction).mock.calls[0][3] as SwapHop[];
+
+    const firstOutput = getAmountOut(100_000_000n, liquidity);
+    const finalOutput = getAmountOut(firstOutput, liquidity);
+    expect(hops[0].amountIn).toBe(100_000_000n);
+    expect(hops[0].minimumAmountOut).toBe(firstOutput);
+    expect(hops[1].amountIn).toBe(firstOutput);
+    expect(hops[1].minimumAmountOut).toBe(finalOutput * 9900n / 10000n);
+  });
+});
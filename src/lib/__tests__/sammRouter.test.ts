@@ -0,0 +1,77 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import dexConfig from '../../config/dex-config.json';
+import { fetchPoolSnapshots, PoolSnapshot } from '../solana/poolSnapshot';
+import { getSmallestShards, routeSwap } from '../sammRouter';
+
+vi.mock('../solana/poolRegistry', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../solana/poolRegistry')>()),
+  discoverPools: vi.fn(async () => dexConfig.pools),
+}));
+
+vi.mock('../solana/poolSnapshot', () => ({
+  fetchPoolSnapshots: vi.fn(),
+}));
+
+const [first] = dexConfig.pools;
+const shards = dexConfig.pools.filter(pool => pool.tokenA === first.tokenA && pool.tokenB === first.tokenB);
+const connection = {} as any;
+
+function snapshot(reserveA: bigint, reserveB: bigint): PoolSnapshot {
+  return {
+    poolAddress: '',
+    slot: 1,
+    pool: null,
+    reserveA,
+    reserveB,
+    lpTokenSupply: 1n,
+    lpDecimals: 9,
+    feeNumerator: 3n,
+    feeDenominator: 1000n,
+    feeRate: 0.3,
+    fetchedAt: 0,
+  };
+}
+
+describe('self-hosted SAMM router', () => {
+  beforeEach(() => {
+    // Every shard but the last is half the size of the one before
+    vi.mocked(fetchPoolSnapshots).mockResolvedValue(
+      shards.map((_, i) => snapshot(1_000_000_000n >> BigInt(i), 2_000_000_000n >> BigInt(i)))
+    );
+  });
+
+  it('routes a swap to the shard with the highest output', async () => {
+    const response = await routeSwap(connection, {
+      tokenA: first.tokenA,
+      tokenB: first.tokenB,
+      inputToken: first.tokenA,
+      inputAmount: '1000000',
+      trader: first.poolAddress,
+    });
+
+    expect(response.success).toBe(true);
+    expect(response.data?.shard.address).toBe(shards[0].poolAddress);
+    expect(response.data?.shard.reserves).toEqual({ tokenA: '1000000000', tokenB: '2000000000' });
+    expect(BigInt(response.data!.expectedOutput)).toBeGreaterThan(0n);
+    expect(response.data?.priceImpact).toBeGreaterThan(0);
+  });
+
+  it('rejects malformed route requests', async () => {
+    await expect(routeSwap(connection, { tokenA: 'nope' })).rejects.toMatchObject({ status: 400 });
+    await expect(routeSwap(connection, {
+      tokenA: first.tokenA,
+      tokenB: first.tokenB,
+      inputToken: first.tokenA,
+      inputAmount: '-5',
+    })).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('lists shards smallest first by the input token reserve', async () => {
+    const response = await getSmallestShards(connection, first.tokenA, first.tokenB, first.tokenB);
+
+    expect(response.data?.count).toBe(shards.length);
+    expect(response.data?.inputToken).toBe(first.tokenB);
+    expect(response.data?.shards.map(shard => shard.address)).toEqual(shards.map(s => s.poolAddress).reverse());
+  });
+});
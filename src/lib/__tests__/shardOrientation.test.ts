@@ -0,0 +1,61 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { shardedDex, PoolState, SwapQuote } from '../shardedDex';
+import { getAmountOut } from '../shardRouting';
+import { registerPool } from '../solana/poolRegistry';
+import dexConfig from '../../config/dex-config.json';
+
+const usdc = dexConfig.tokens.find(t => t.symbol === 'USDC')!;
+const configured = dexConfig.pools.find(p => p.tokenA === usdc.mint && p.tokenBSymbol === 'SOL')!;
+
+// Same pair registered the other way round (SOL as token A)
+const reversed = {
+  ...configured,
+  poolAddress: Keypair.generate().publicKey.toBase58(),
+  shardNumber: 99,
+  tokenA: configured.tokenB,
+  tokenB: configured.tokenA,
+  tokenASymbol: configured.tokenBSymbol,
+  tokenBSymbol: configured.tokenASymbol,
+  tokenAccountA: configured.tokenAccountB,
+  tokenAccountB: configured.tokenAccountA,
+};
+
+// Deep reversed shard: 5 SOL base units per USDC base unit
+const reversedState: PoolState = {
+  reserveA: 5_000_000_000_000n,
+  reserveB: 1_000_000_000_000n,
+  feeNumerator: 3n,
+  feeDenominator: 1000n,
+  lastUpdated: Date.now(),
+};
+// Shallow configured shards at 1:1
+const shallowState: PoolState = { ...reversedState, reserveA: 1_000_000n, reserveB: 1_000_000n };
+
+describe('ShardedDexService shard orientation', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    registerPool(reversed);
+    vi.spyOn(shardedDex as any, 'getPoolState').mockImplementation(async (pool: any) =>
+      pool.poolAddress === reversed.poolAddress ? reversedState : shallowState
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('quotes a shard that lists the pair in the opposite order with its own reserves', async () => {
+    const quote: SwapQuote = await (shardedDex as any).getQuoteLocal('USDC', 'SOL', 100);
+
+    const expected = getAmountOut(100_000_000n, {
+      reserveIn: reversedState.reserveB,
+      reserveOut: reversedState.reserveA,
+      feeNumerator: 3n,
+      feeDenominator: 1000n,
+    });
+    expect(quote.route.map(leg => leg.poolAddress)).toEqual([reversed.poolAddress]);
+    expect(quote.estimatedOutput).toBe(Number(expected) / 1e9);
+  });
+});
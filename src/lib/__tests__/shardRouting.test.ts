@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { getAmountOut, getAmountIn, splitAmountAcrossShards, findTokenPaths, ShardLiquidity } from '../shardRouting';
+
+const shard = (reserveIn: bigint, reserveOut: bigint): ShardLiquidity => ({
+  reserveIn,
+  reserveOut,
+  feeNumerator: 3n,
+  feeDenominator: 1000n,
+});
+
+describe('shardRouting', () => {
+  describe('getAmountOut', () => {
+    it('matches the 997/1000 constant product formula', () => {
+      const amountIn = 1_000_000n;
+      const reserveIn = 50_000_000_000n;
+      const reserveOut = 500_000_000_000n;
+
+      const expected = (amountIn * 997n * reserveOut) / (reserveIn * 1000n + amountIn * 997n);
+
+      expect(getAmountOut(amountIn, shard(reserveIn, reserveOut))).toBe(expected);
+    });
+
+    it('returns zero for empty pools or zero input', () => {
+      expect(getAmountOut(0n, shard(1000n, 1000n))).toBe(0n);
+      expect(getAmountOut(100n, shard(0n, 1000n))).toBe(0n);
+    });
+  });
+
+  describe('getAmountIn', () => {
+    it('returns the smallest input that yields at least the requested output', () => {
+      const pool = shard(50_000_000_000n, 500_000_000_000n);
+      const amountOut = 100_000_000n;
+
+      const amountIn = getAmountIn(amountOut, pool);
+
+      expect(getAmountOut(amountIn, pool)).toBeGreaterThanOrEqual(amountOut);
+      expect(getAmountOut(amountIn - 2n, pool)).toBeLessThan(amountOut);
+    });
+
+    it('throws when the output exceeds the pool reserve', () => {
+      expect(() => getAmountIn(1000n, shard(1000n, 1000n))).toThrow('Insufficient liquidity');
+    });
+  });
+
+  describe('splitAmountAcrossShards', () => {
+    it('splits proportionally to depth across shards with equal prices', () => {
+      const shards = [
+        shard(50_000_000_000n, 500_000_000_000n),
+        shard(100_000_000_000n, 1_000_000_000_000n),
+      ];
+
+      const split = splitAmountAcrossShards(30_000_000_000n, shards);
+
+      expect(split[0] + split[1]).toBe(30_000_000_000n);
+      // Twice the depth should take twice the flow
+      expect(Number(split[1]) / Number(split[0])).toBeCloseTo(2, 3);
+    });
+
+    it('returns more output than the best single shard for large orders', () => {
+      const shards = [
+        shard(50_000_000_000n, 500_000_000_000n),
+        shard(100_000_000_000n, 1_000_000_000_000n),
+        shard(200_000_000_000n, 2_000_000_000_000n),
+      ];
+      const totalIn = 40_000_000_000n;
+
+      const split = splitAmountAcrossShards(totalIn, shards);
+      const splitOutput = split.reduce((sum, amount, i) => sum + getAmountOut(amount, shards[i]), 0n);
+      const bestSingle = shards
+        .map(s => getAmountOut(totalIn, s))
+        .reduce((a, b) => (a > b ? a : b));
+
+      expect(splitOutput).toBeGreaterThan(bestSingle);
+    });
+
+    it('leaves a shard out when its spot price is worse than the equalised price', () => {
+      const shards = [
+        shard(100_000_000_000n, 1_000_000_000_000n),
+        // 20% worse price than the first shard
+        shard(100_000_000_000n, 800_000_000_000n),
+      ];
+
+      const split = splitAmountAcrossShards(1_000_000_000n, shards);
+
+      expect(split).toEqual([1_000_000_000n, 0n]);
+    });
+
+    it('drops legs below the minimum leg fraction', () => {
+      const shards = [
+        shard(1_000_000_000_000n, 10_000_000_000_000n),
+        shard(1_000_000_000n, 10_000_000_000n),
+      ];
+
+      const split = splitAmountAcrossShards(10_000_000_000n, shards, { minLegFraction: 0.05 });
+
+      expect(split).toEqual([10_000_000_000n, 0n]);
+    });
+
+    it('respects the maximum number of legs', () => {
+      const shards = [
+        shard(50_000_000_000n, 500_000_000_000n),
+        shard(100_000_000_000n, 1_000_000_000_000n),
+        shard(200_000_000_000n, 2_000_000_000_000n),
+      ];
+
+      const split = splitAmountAcrossShards(40_000_000_000n, shards, { maxLegs: 2 });
+
+      expect(split.filter(amount => amount > 0n)).toHaveLength(2);
+      expect(split.reduce((a, b) => a + b, 0n)).toBe(40_000_000_000n);
+    });
+  });
+
+  describe('findTokenPaths', () => {
+    const pairs: Array<[string, string]> = [
+      ['USDC', 'SOL'],
+      ['USDC', 'SOL'],
+      ['USDC', 'USDT'],
+      ['ETH', 'SOL'],
+    ];
+
+    it('finds a 3-hop path through intermediate tokens', () => {
+      expect(findTokenPaths(pairs, 'USDT', 'ETH')).toEqual([['USDT', 'USDC', 'SOL', 'ETH']]);
+    });
+
+    it('returns shorter paths first', () => {
+      const paths = findTokenPaths([...pairs, ['USDT', 'SOL']], 'USDT', 'ETH');
+
+      expect(paths[0]).toEqual(['USDT', 'SOL', 'ETH']);
+      expect(paths[1]).toEqual(['USDT', 'USDC', 'SOL', 'ETH']);
+    });
+
+    it('respects the maximum hop count', () => {
+      expect(findTokenPaths(pairs, 'USDT', 'ETH', 2)).toEqual([]);
+    });
+
+    it('returns no paths between unconnected tokens', () => {
+      expect(findTokenPaths(pairs, 'USDT', 'BONK')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { Token, Transaction, TransactionStatus, TransactionType } from '@/types';
+import { formatUnits, serializeTransactions } from '../transactionExport';
+
+const usdc: Token = { mint: 'usdcMint', address: 'usdcMint', symbol: 'USDC', name: 'USD Coin', decimals: 6 };
+const sol: Token = { mint: 'solMint', address: 'solMint', symbol: 'SOL', name: 'Wrapped SOL', decimals: 9 };
+
+function transaction(overrides: Partial<Transaction>): Transaction {
+  return {
+    signature: 'sig1',
+    hash: 'sig1',
+    type: TransactionType.SWAP,
+    status: TransactionStatus.CONFIRMED,
+    timestamp: Date.UTC(2025, 0, 2, 3, 4, 5),
+    feePayer: 'wallet',
+    solFee: 5000n,
+    ...overrides,
+  };
+}
+
+// 150.5 USDC for 1.25 SOL on shard 2
+const swap = transaction({
+  tokenIn: usdc,
+  amountIn: 150_500_000n,
+  tokenOut: sol,
+  amountOut: 1_250_000_000n,
+  poolId: 'pool2',
+  shardNumber: 2,
+});
+
+describe('formatUnits', () => {
+  it('applies decimals exactly', () => {
+    expect(formatUnits(1_250_000_000n, 9)).toBe('1.25');
+    expect(formatUnits(5000n, 9)).toBe('0.000005');
+    expect(formatUnits(123_456_789_012_345_678n, 9)).toBe('123456789.012345678');
+    expect(formatUnits(-1_500_000n, 6)).toBe('-1.5');
+    expect(formatUnits(42n, 0)).toBe('42');
+  });
+});
+
+describe('serializeTransactions', () => {
+  it('writes the full layout with pool, shard and USD value', () => {
+    const csv = serializeTransactions([swap], 'csv').split('\n');
+
+    expect(csv[0]).toBe('Timestamp,Signature,Type,Status,Token In,Token In Mint,Amount In,Token Out,Token Out Mint,Amount Out,Fee (SOL),Pool,Shard,Value (USD)');
+    expect(csv[1]).toBe('2025-01-02T03:04:05.000Z,sig1,swap,confirmed,USDC,usdcMint,150.5,SOL,solMint,1.25,0.000005,pool2,2,150.5');
+  });
+
+  it('splits liquidity deposits into one row per token for tax presets', () => {
+    const deposit = transaction({
+      type: TransactionType.ADD_LIQUIDITY,
+      tokenIn: usdc,
+      amountIn: 100_000_000n,
+      tokenOut: sol,
+      amountOut: 1_000_000_000n,
+    });
+
+    const rows = JSON.parse(serializeTransactions([deposit], 'json', 'koinly'));
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      'Date': '2025-01-02 03:04:05 UTC',
+      'Sent Amount': '100',
+      'Sent Currency': 'USDC',
+      'Fee Amount': '0.000005',
+      'Net Worth Amount': '100',
+      'TxHash': 'sig1',
+    });
+    expect(rows[1]).toMatchObject({ 'Sent Amount': '1', 'Sent Currency': 'SOL', 'Fee Amount': '' });
+  });
+
+  it('exports failed transactions as the fee only', () => {
+    const failed = transaction({ ...swap, status: TransactionStatus.FAILED });
+    const [header, row] = serializeTransactions([failed], 'csv', 'cointracking').split('\n');
+
+    expect(header.split(',')[0]).toBe('Type');
+    expect(row.split(',').slice(0, 5)).toEqual(['Other Fee', '', '', '0.000005', 'SOL']);
+  });
+
+  it('quotes CSV fields containing separators', () => {
+    const withComma = transaction({ signature: 'a,b' });
+    expect(serializeTransactions([withComma], 'csv').split('\n')[1]).toContain('"a,b"');
+  });
+
+  it('neutralizes formulas in CSV but not in JSON', () => {
+    const scam: Token = { ...usdc, mint: 'scamMint', symbol: '=HYPERLINK("x")' };
+    const tx = transaction({ ...swap, tokenIn: scam });
+
+    const row = serializeTransactions([tx], 'csv').split('\n')[1];
+    expect(row).toContain(`"'=HYPERLINK(""x"")"`);
+
+    const [record] = JSON.parse(serializeTransactions([tx], 'json'));
+    expect(record['Token In']).toBe('=HYPERLINK("x")');
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Self-hosted SAMM Router
+ *
+ * Server-side implementation of the SAMM Router API that `SammRouterService`
+ * talks to, so the whole stack can run without the external router. The
+ * Next.js route handlers under `src/app/api` are thin wrappers around these
+ * functions:
+ *
+ * - `POST /api/route` → routeSwap
+ * - `GET /api/shards/smallest/:tokenA/:tokenB/:inputToken` → getSmallestShards
+ * - `GET /api/health` → checkHealth
+ *
+ * Pools come from on-chain discovery (see poolRegistry) and reserves from
+ * live pool snapshots, so responses use the same math as local routing.
+ *
+ * @module sammRouter
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import dexConfig from '../config/dex-config.json';
+import type {
+  LiquidityShardData,
+  RouteRequest,
+  RouteResponse,
+  SmallestShardsResponse,
+} from '../services/sammRouterService';
+import { getAmountOut } from './shardRouting';
+import { discoverPools, PoolConfigEntry } from './solana/poolRegistry';
+import { fetchPoolSnapshots } from './solana/poolSnapshot';
+import { getSmallestShardsLocally } from './solana/shardSelection';
+
+/**
+ * Error with the HTTP status the route handler should respond with
+ */
+export class SammRouterError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'SammRouterError';
+  }
+}
+
+/**
+ * Body of the health endpoint
+ */
+export interface HealthResponse {
+  /** 'ok' when the RPC node answers */
+  status: 'ok' | 'error';
+  /** Latest slot seen by the RPC node */
+  slot?: number;
+  /** Number of known pools */
+  pools: number;
+  /** Error message (present when status is 'error') */
+  error?: string;
+  /** ISO timestamp of the check */
+  timestamp: string;
+}
+
+let serverConnection: Connection | null = null;
+
+/**
+ * Connection used by the route handlers
+ *
+ * Reads from SOLANA_RPC_URL when set, so the server can use a private RPC
+ * endpoint that is not exposed to browsers, and falls back to the app's RPC.
+ */
+export function getServerConnection(): Connection {
+  if (!serverConnection) {
+    serverConnection = new Connection(process.env.SOLANA_RPC_URL || dexConfig.rpcUrl, 'confirmed');
+  }
+  return serverConnection;
+}
+
+/**
+ * Parse a base-58 mint address
+ *
+ * @throws SammRouterError (400) if the address is invalid
+ */
+function parseMint(value: unknown, field: string): string {
+  try {
+    return new PublicKey(value as string).toBase58();
+  } catch {
+    throw new SammRouterError(`Invalid ${field}: ${String(value)}`, 400);
+  }
+}
+
+/**
+ * Shards trading a mint pair, in either token order
+ */
+async function findPairPools(connection: Connection, tokenA: string, tokenB: string): Promise<PoolConfigEntry[]> {
+  const pools = (await discoverPools(connection)).filter(pool =>
+    (pool.tokenA === tokenA && pool.tokenB === tokenB) ||
+    (pool.tokenA === tokenB && pool.tokenB === tokenA)
+  );
+
+  if (pools.length === 0) {
+    throw new SammRouterError(`No pools found for ${tokenA}/${tokenB}`, 404);
+  }
+
+  return pools;
+}
+
+/**
+ * Pick the shard for a swap
+ *
+ * Quotes the full input on every shard of the pair against live reserves and
+ * picks the one with the highest output (the lowest price impact after fees).
+ *
+ * @param connection - Solana connection instance
+ * @param request - Route request (same contract as the external router)
+ * @returns Promise resolving to the route response
+ * @throws SammRouterError if the request is invalid or no shard can fill it
+ */
+export async function routeSwap(connection: Connection, request: Partial<RouteRequest>): Promise<RouteResponse> {
+  const tokenA = parseMint(request.tokenA, 'tokenA');
+  const tokenB = parseMint(request.tokenB, 'tokenB');
+  const inputToken = parseMint(request.inputToken, 'inputToken');
+  if (inputToken !== tokenA && inputToken !== tokenB) {
+    throw new SammRouterError('inputToken must be tokenA or tokenB', 400);
+  }
+  if (typeof request.inputAmount !== 'string' || !/^\d+$/.test(request.inputAmount) || BigInt(request.inputAmount) === 0n) {
+    throw new SammRouterError('inputAmount must be a positive integer string in base units', 400);
+  }
+  const inputAmount = BigInt(request.inputAmount);
+
+  const pools = await findPairPools(connection, tokenA, tokenB);
+  const snapshots = await fetchPoolSnapshots(connection, pools.map(pool => ({
+    poolAddress: new PublicKey(pool.poolAddress),
+    tokenAAccount: new PublicKey(pool.tokenAccountA),
+    tokenBAccount: new PublicKey(pool.tokenAccountB),
+    lpTokenMint: new PublicKey(pool.poolTokenMint),
+  })));
+
+  let best: { pool: PoolConfigEntry; reserveA: bigint; reserveB: bigint; reserveIn: bigint; reserveOut: bigint; output: bigint } | null = null;
+
+  for (let i = 0; i < pools.length; i++) {
+    const pool = pools[i];
+    const snapshot = snapshots[i];
+    if (!snapshot) {
+      continue;
+    }
+
+    const isForward = pool.tokenA === inputToken;
+    const reserveIn = isForward ? snapshot.reserveA : snapshot.reserveB;
+    const reserveOut = isForward ? snapshot.reserveB : snapshot.reserveA;
+    if (reserveIn === 0n || reserveOut === 0n) {
+      continue;
+    }
+
+    const output = getAmountOut(inputAmount, {
+      reserveIn,
+      reserveOut,
+      feeNumerator: snapshot.feeNumerator,
+      feeDenominator: snapshot.feeDenominator,
+    });
+
+    if (output > 0n && (!best || output > best.output)) {
+      best = { pool, reserveA: snapshot.reserveA, reserveB: snapshot.reserveB, reserveIn, reserveOut, output };
+    }
+  }
+
+  if (!best) {
+    throw new SammRouterError('No shard has enough liquidity for this swap', 422);
+  }
+
+  const { pool, reserveA, reserveB, reserveIn, reserveOut, output } = best;
+  const spotPrice = Number(reserveOut) / Number(reserveIn);
+  const executionPrice = Number(output) / Number(inputAmount);
+
+  return {
+    success: true,
+    data: {
+      shard: {
+        id: `${pool.tokenASymbol}-${pool.tokenBSymbol}-${pool.shardNumber}`,
+        address: pool.poolAddress,
+        tokenPair: { tokenA: pool.tokenA, tokenB: pool.tokenB },
+        reserves: { tokenA: reserveA.toString(), tokenB: reserveB.toString() },
+      },
+      expectedOutput: output.toString(),
+      priceImpact: Math.abs((executionPrice - spotPrice) / spotPrice),
+      reason: `Shard ${pool.shardNumber} gives the highest output across ${pools.length} shard(s)`,
+    },
+  };
+}
+
+/**
+ * List a pair's shards for liquidity routing, smallest first
+ *
+ * @param connection - Solana connection instance
+ * @param tokenA - Token A mint address
+ * @param tokenB - Token B mint address
+ * @param inputToken - Mint whose reserve measures shard size
+ * @returns Promise resolving to the smallest shards response
+ * @throws SammRouterError if the request is invalid or the pair has no pools
+ */
+export async function getSmallestShards(
+  connection: Connection,
+  tokenA: string,
+  tokenB: string,
+  inputToken: string
+): Promise<SmallestShardsResponse> {
+  const mintA = parseMint(tokenA, 'tokenA');
+  const mintB = parseMint(tokenB, 'tokenB');
+  const inputMint = parseMint(inputToken, 'inputToken');
+  if (inputMint !== mintA && inputMint !== mintB) {
+    throw new SammRouterError('inputToken must be tokenA or tokenB', 400);
+  }
+
+  await findPairPools(connection, mintA, mintB);
+  const shards = await getSmallestShardsLocally(connection, mintA, mintB, inputMint);
+
+  const data: LiquidityShardData[] = shards.map(shard => ({
+    id: shard.poolAddress,
+    address: shard.poolAddress,
+    reserves: shard.reserves,
+  }));
+
+  return {
+    success: true,
+    data: {
+      tokenPair: { tokenA: mintA, tokenB: mintB },
+      inputToken: inputMint,
+      shards: data,
+      count: data.length,
+    },
+  };
+}
+
+/**
+ * Check that the router can serve requests
+ *
+ * @param connection - Solana connection instance
+ * @returns Promise resolving to the health report (status 'error' if the RPC node is unreachable)
+ */
+export async function checkHealth(connection: Connection): Promise<HealthResponse> {
+  const timestamp = new Date().toISOString();
+
+  try {
+    const slot = await connection.getSlot();
+    const pools = await discoverPools(connection);
+    return { status: 'ok', slot, pools: pools.length, timestamp };
+  } catch (error) {
+    return {
+      status: 'error',
+      pools: 0,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp,
+    };
+  }
+}
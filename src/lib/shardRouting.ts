@@ -0,0 +1,271 @@
+/**
+ * Shard Routing Math
+ *
+ * Pure constant-product helpers used by the local router to split a single
+ * order across several shards of the same pair, and to find multi-hop paths
+ * through intermediate tokens when no direct pool exists.
+ *
+ * Split strategy (marginal-price equalisation):
+ * For a constant product pool with fee factor γ, the marginal output of the
+ * next unit of input after x has been traded is γ·Rin·Rout / (Rin + γ·x)².
+ * The output-maximising split is the one where every shard that receives
+ * input ends at the same marginal price λ, which gives
+ *
+ *   x_i = sqrt(Rin_i·Rout_i / γ_i) / sqrt(λ) − Rin_i / γ_i
+ *
+ * Summing over the active shards and solving for 1/sqrt(λ) yields a closed
+ * form, so no iterative search is needed. Shards whose allocation would be
+ * negative (their spot price is already worse than λ) are dropped and the
+ * allocation is recomputed over the remaining set.
+ *
+ * @module shardRouting
+ */
+
+/**
+ * Reserves and fee of one shard, oriented in the swap direction
+ */
+export interface ShardLiquidity {
+  /** Reserve of the input token in base units */
+  reserveIn: bigint;
+  /** Reserve of the output token in base units */
+  reserveOut: bigint;
+  /** Fee numerator (e.g., 3 for 0.3%) */
+  feeNumerator: bigint;
+  /** Fee denominator (e.g., 1000) */
+  feeDenominator: bigint;
+}
+
+/**
+ * Options controlling how an order is split
+ */
+export interface SplitOptions {
+  /** Maximum number of shards a single order may be split across (default: 4) */
+  maxLegs?: number;
+  /** Legs smaller than this fraction of the order are folded into the others (default: 0.01) */
+  minLegFraction?: number;
+}
+
+const DEFAULT_MAX_LEGS = 4;
+const DEFAULT_MIN_LEG_FRACTION = 0.01;
+
+/**
+ * Calculate output amount for a constant product swap
+ *
+ * amountOut = (amountIn * (den - num) * reserveOut) / (reserveIn * den + amountIn * (den - num))
+ *
+ * @param amountIn - Input amount in base units
+ * @param shard - Shard reserves and fee, oriented in the swap direction
+ * @returns Output amount in base units (rounded down, as on-chain)
+ */
+export function getAmountOut(amountIn: bigint, shard: ShardLiquidity): bigint {
+  if (amountIn <= 0n || shard.reserveIn <= 0n || shard.reserveOut <= 0n) {
+    return 0n;
+  }
+
+  const amountInWithFee = amountIn * (shard.feeDenominator - shard.feeNumerator);
+  const numerator = amountInWithFee * shard.reserveOut;
+  const denominator = shard.reserveIn * shard.feeDenominator + amountInWithFee;
+
+  return numerator / denominator;
+}
+
+/**
+ * Calculate the input required to receive an exact output amount
+ *
+ * Inverse of getAmountOut:
+ * amountIn = (reserveIn * amountOut * den) / ((reserveOut - amountOut) * (den - num)) + 1
+ *
+ * The +1 rounds up so that getAmountOut(getAmountIn(x)) >= x despite the
+ * on-chain floor division.
+ *
+ * @param amountOut - Desired output amount in base units
+ * @param shard - Shard reserves and fee, oriented in the swap direction
+ * @returns Required input amount in base units
+ * @throws Error if the shard cannot provide the requested output
+ */
+export function getAmountIn(amountOut: bigint, shard: ShardLiquidity): bigint {
+  if (amountOut <= 0n) {
+    return 0n;
+  }
+  if (shard.reserveIn <= 0n || amountOut >= shard.reserveOut) {
+    throw new Error('Insufficient liquidity for requested output');
+  }
+
+  const numerator = shard.reserveIn * amountOut * shard.feeDenominator;
+  const denominator = (shard.reserveOut - amountOut) * (shard.feeDenominator - shard.feeNumerator);
+
+  return numerator / denominator + 1n;
+}
+
+/**
+ * Fee factor γ = 1 - fee as a float
+ */
+function feeFactor(shard: ShardLiquidity): number {
+  return Number(shard.feeDenominator - shard.feeNumerator) / Number(shard.feeDenominator);
+}
+
+/**
+ * Marginal price (output per unit input) of a shard before any trade
+ */
+function spotMarginalPrice(shard: ShardLiquidity): number {
+  return feeFactor(shard) * Number(shard.reserveOut) / Number(shard.reserveIn);
+}
+
+/**
+ * Closed-form marginal-price equalising allocation over a fixed active set
+ *
+ * @returns Float allocations keyed by shard index
+ */
+function equaliseMarginalPrices(
+  totalIn: number,
+  shards: ShardLiquidity[],
+  active: number[]
+): Map<number, number> {
+  let sumSqrt = 0;
+  let sumReserveOverFee = 0;
+
+  for (const i of active) {
+    const gamma = feeFactor(shards[i]);
+    sumSqrt += Math.sqrt(Number(shards[i].reserveIn) * Number(shards[i].reserveOut) / gamma);
+    sumReserveOverFee += Number(shards[i].reserveIn) / gamma;
+  }
+
+  const inverseSqrtLambda = (totalIn + sumReserveOverFee) / sumSqrt;
+  const allocation = new Map<number, number>();
+
+  for (const i of active) {
+    const gamma = feeFactor(shards[i]);
+    const reserveIn = Number(shards[i].reserveIn);
+    const reserveOut = Number(shards[i].reserveOut);
+    allocation.set(i, inverseSqrtLambda * Math.sqrt(reserveIn * reserveOut / gamma) - reserveIn / gamma);
+  }
+
+  return allocation;
+}
+
+/**
+ * Split an input amount across shards by marginal-price equalisation
+ *
+ * The returned array is aligned with `shards`; shards that receive no input
+ * get 0n. The allocations always sum to exactly `totalIn`.
+ *
+ * @param totalIn - Total input amount in base units
+ * @param shards - Candidate shards for the pair, oriented in the swap direction
+ * @param options - Leg count and minimum leg size limits
+ * @returns Per-shard input amounts in base units
+ */
+export function splitAmountAcrossShards(
+  totalIn: bigint,
+  shards: ShardLiquidity[],
+  options: SplitOptions = {}
+): bigint[] {
+  const maxLegs = options.maxLegs ?? DEFAULT_MAX_LEGS;
+  const minLegFraction = options.minLegFraction ?? DEFAULT_MIN_LEG_FRACTION;
+  const result = shards.map(() => 0n);
+
+  // Best shards first, so trimming always removes the worst-priced ones
+  let active = shards
+    .map((_, i) => i)
+    .filter(i => shards[i].reserveIn > 0n && shards[i].reserveOut > 0n)
+    .sort((a, b) => spotMarginalPrice(shards[b]) - spotMarginalPrice(shards[a]))
+    .slice(0, Math.max(1, maxLegs));
+
+  if (totalIn <= 0n || active.length === 0) {
+    return result;
+  }
+
+  const total = Number(totalIn);
+  let allocation = equaliseMarginalPrices(total, shards, active);
+
+  // Drop shards priced out of the split (or too small to be worth a leg) and re-solve
+  while (active.length > 1) {
+    const minLeg = total * minLegFraction;
+    const weakest = active[active.length - 1];
+
+    if ((allocation.get(weakest) ?? 0) <= 0) {
+      // Priced out: its spot price is already worse than the equalised marginal price
+      active = active.slice(0, -1);
+    } else {
+      const smallest = active.reduce((min, i) =>
+        (allocation.get(i) ?? 0) < (allocation.get(min) ?? 0) ? i : min
+      );
+      if ((allocation.get(smallest) ?? 0) >= minLeg) {
+        break;
+      }
+      active = active.filter(i => i !== smallest);
+    }
+
+    allocation = equaliseMarginalPrices(total, shards, active);
+  }
+
+  if (active.length === 1) {
+    result[active[0]] = totalIn;
+    return result;
+  }
+
+  // Round down each leg and hand the rounding remainder to the largest one
+  let assigned = 0n;
+  let largest = active[0];
+  for (const i of active) {
+    const amount = BigInt(Math.max(0, Math.floor(allocation.get(i) ?? 0)));
+    result[i] = amount;
+    assigned += amount;
+    if (amount > result[largest]) {
+      largest = i;
+    }
+  }
+  result[largest] += totalIn - assigned;
+
+  return result;
+}
+
+/**
+ * Find simple token paths between two tokens over a set of pool pairs
+ *
+ * Pools are treated as undirected edges between their two mints. Paths never
+ * revisit a token, and are returned shortest first.
+ *
+ * @param pairs - Token mint pairs, one per pool (duplicate shards are fine)
+ * @param from - Input token mint
+ * @param to - Output token mint
+ * @param maxHops - Maximum number of swaps in a path (default: 3)
+ * @returns Token mint paths from `from` to `to`, each including both endpoints
+ */
+export function findTokenPaths(
+  pairs: Array<[string, string]>,
+  from: string,
+  to: string,
+  maxHops: number = 3
+): string[][] {
+  const graph = new Map<string, Set<string>>();
+  for (const [a, b] of pairs) {
+    if (!graph.has(a)) graph.set(a, new Set());
+    if (!graph.has(b)) graph.set(b, new Set());
+    graph.get(a)!.add(b);
+    graph.get(b)!.add(a);
+  }
+
+  const paths: string[][] = [];
+
+  const visit = (path: string[]) => {
+    const current = path[path.length - 1];
+    if (current === to) {
+      paths.push(path);
+      return;
+    }
+    if (path.length > maxHops) {
+      return;
+    }
+    for (const next of Array.from(graph.get(current) ?? [])) {
+      if (!path.includes(next)) {
+        visit([...path, next]);
+      }
+    }
+  };
+
+  if (from !== to) {
+    visit([from]);
+  }
+
+  return paths.sort((a, b) => a.length - b.length);
+}
@@ -20,9 +20,23 @@
  * @module shardedDex
  */
 
-import { Connection, PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js';
+import { Connection, PublicKey, TransactionInstruction, VersionedTransaction } from '@solana/web3.js';
 import dexConfig from '../config/dex-config.json';
-import { SammRouterService } from '../services/sammRouterService';
+import { CircuitOpenError, RouterHealth, SammRouterService } from '../services/sammRouterService';
+import { JupiterSwapService } from '../services/jupiterSwapService';
+import type { JupiterQuote } from '../types';
+import { getAmountIn, getAmountOut, splitAmountAcrossShards, findTokenPaths, ShardLiquidity } from './shardRouting';
+import type { SwapHop, SwapLeg } from './swapInstructions';
+import { feeToPercent, DEFAULT_SWAP_FEE } from './solana/poolAccountDecoder';
+import { fetchPoolSnapshot } from './solana/poolSnapshot';
+import { discoverPools, findPoolConfig, getPoolConfigs } from './solana/poolRegistry';
+import { getPoolSubscriptionManager, PoolReserveUpdate } from './solana/poolSubscriptions';
+import { computePairStats, getShardStats, PairStats, ShardStats, syncPoolIndex } from './solana/poolIndexer';
+import type { BuiltTransaction } from './solana/transactionBuilder';
+import { DEFAULT_PRIORITY_FEE_SETTINGS, PriorityFeeSettings } from './solana/priorityFees';
+import { getConfirmedTransactionError, simulateDexTransaction } from './solana/simulation';
+import { DexTransactionError } from '../utils/solanaErrors';
+import { getAssociatedTokenAddressSync, NATIVE_MINT } from '@solana/spl-token';
 
 /**
  * Configuration for a sharded liquidity pool
@@ -78,7 +92,7 @@ export interface TokenConfig {
  * Contains all information needed to execute a swap, including:
  * - Input/output amounts
  * - Price impact
- * - Selected route (pool shard)
+ * - Selected route (one or more pool shards)
  * - Routing method (backend or local)
  * - Backend selection reason (if applicable)
  */
@@ -93,14 +107,35 @@ export interface SwapQuote {
   estimatedOutput: number;
   /** Price impact as percentage (e.g., 0.5 for 0.5%) */
   priceImpact: number;
-  /** Route information (currently single-shard) */
+  /** Route legs, one per shard the order is split across */
   route: ShardRoute[];
   /** Total fee amount (human-readable) */
   totalFee: number;
-  /** Routing method used to generate this quote */
-  routingMethod: 'backend' | 'local';
-  /** Explanation from backend API (only present for backend routing) */
+  /**
+   * Routing method used to generate this quote
+   * - 'backend': SAMM router backend picked the shard
+   * - 'local': local AMM math picked the shard(s)
+   * - 'jupiter': Jupiter aggregator route (source 'jupiter')
+   */
+  routingMethod: 'backend' | 'local' | 'jupiter';
+  /** Explanation from backend API, or the Jupiter route description (absent for local routing) */
   backendReason?: string;
+  /** Token mint path for multi-hop routes (e.g., USDT → USDC → SOL → ETH); absent for direct swaps */
+  path?: string[];
+  /**
+   * Quote mode (default: 'exactIn')
+   * - 'exactIn': inputAmount is fixed, estimatedOutput is the expected output
+   * - 'exactOut': estimatedOutput is fixed, inputAmount is the required input
+   */
+  quoteMode?: 'exactIn' | 'exactOut';
+  /**
+   * Venue that executes the swap (default: 'sharded')
+   * - 'sharded': SAMM shards via the program in this repo
+   * - 'jupiter': Jupiter aggregator; `route` is empty and `jupiterQuote` holds the route
+   */
+  source?: 'sharded' | 'jupiter';
+  /** Raw Jupiter quote (only present when source is 'jupiter') */
+  jupiterQuote?: JupiterQuote;
 }
 
 /**
@@ -113,10 +148,30 @@ export interface ShardRoute {
   shardNumber: number;
   /** Input amount for this segment */
   inputAmount: number;
+  /** Exact input amount for this segment in base units (only present on split routes) */
+  inputAmountBase?: bigint;
   /** Output amount for this segment */
   outputAmount: number;
   /** Execution price for this segment */
   price: number;
+  /** Input token mint for this segment (only present on multi-hop routes) */
+  inputToken?: string;
+  /** Output token mint for this segment (only present on multi-hop routes) */
+  outputToken?: string;
+}
+
+/**
+ * Result of simulating a swap before it is signed
+ */
+export interface SwapSimulation {
+  /** Output the simulation credited to the user (human-readable); absent when it cannot be observed */
+  outputAmount?: number;
+  /** Compute units consumed */
+  unitsConsumed: number;
+  /** Priority fee the transaction pays, in lamports */
+  priorityFeeLamports: number;
+  /** Program logs */
+  logs: string[];
 }
 
 /**
@@ -138,6 +193,18 @@ export interface PoolState {
   feeDenominator: bigint;
   /** Timestamp of fetch (0 indicates stale/config data) */
   lastUpdated: number;
+  /** Slot the reserves were read at (undefined for config data) */
+  slot?: number;
+}
+
+/**
+ * Effective swap fee of a pool (trade fee + owner trade fee)
+ */
+export interface PoolFee {
+  /** Fee numerator (e.g., 3 for 0.3%) */
+  feeNumerator: bigint;
+  /** Fee denominator (e.g., 1000) */
+  feeDenominator: bigint;
 }
 
 /**
@@ -176,10 +243,51 @@ interface PerformanceMetrics {
   totalLocalCalculationTime: number;
   /** Cumulative total quote generation time in milliseconds */
   totalQuoteGenerationTime: number;
+  /** Backend quotes checked against local AMM math */
+  backendQuotesVerified: number;
+  /** Backend quotes rejected for diverging beyond tolerance */
+  backendQuotesRejected: number;
+  /** Largest output divergence seen, as a percentage */
+  maxQuoteDivergence: number;
+  /** Most recent backend quotes whose output differed from the local calculation */
+  quoteDiscrepancies: QuoteDiscrepancy[];
   /** Timestamp when metrics were last reset */
   lastResetTime: number;
 }
 
+/**
+ * Backend quote whose output differed from the locally recomputed output
+ */
+export interface QuoteDiscrepancy {
+  /** When the quote was checked */
+  timestamp: number;
+  /** Shard the backend recommended */
+  poolAddress: string;
+  /** Input amount in base units */
+  inputAmount: string;
+  /** Output claimed by the backend, in base units */
+  backendOutput: string;
+  /** Output recomputed on the shard's reserves, in base units */
+  localOutput: string;
+  /** Relative difference as a percentage of the local output */
+  divergence: number;
+  /** Whether the quote was rejected */
+  rejected: boolean;
+}
+
+/**
+ * Default quote divergence tolerance, in percent
+ * 
+ * Read from NEXT_PUBLIC_ROUTER_QUOTE_TOLERANCE; an explicit 0 requires backend
+ * quotes to match the local calculation exactly. Unset or invalid values fall
+ * back to 1%.
+ */
+function getDefaultQuoteDivergenceTolerance(): number {
+  const configured = process.env.NEXT_PUBLIC_ROUTER_QUOTE_TOLERANCE?.trim() || undefined;
+  const tolerance = Number(configured ?? 1);
+  return Number.isNaN(tolerance) || tolerance < 0 ? 1 : tolerance;
+}
+
 /**
  * Service for interacting with the sharded DEX
  * 
@@ -196,8 +304,14 @@ class ShardedDexService {
   private connection: Connection;
   private programId: PublicKey;
   private poolStateCache: PoolStateCache = {};
+  private poolFeeCache: { [poolAddress: string]: PoolFee } = {}; // Fee tiers are fixed at pool creation
   private readonly CACHE_TTL_MS = 30000; // 30 seconds - longer cache to reduce RPC calls
+  private readonly MAX_SPLIT_LEGS = 4; // Upper bound on swap instructions per transaction
+  private readonly MAX_ROUTE_HOPS = 3; // Longest token path the local router will consider
+  private readonly MAX_RECORDED_DISCREPANCIES = 50; // Discrepancies kept in the performance metrics
+  private quoteDivergenceTolerance = getDefaultQuoteDivergenceTolerance(); // Percent
   private sammRouter: SammRouterService;
+  private jupiter: JupiterSwapService | null;
 
   // Cache statistics for debugging
   private cacheStats = {
@@ -216,6 +330,10 @@ class ShardedDexService {
     totalBackendResponseTime: 0,
     totalLocalCalculationTime: 0,
     totalQuoteGenerationTime: 0,
+    backendQuotesVerified: 0,
+    backendQuotesRejected: 0,
+    maxQuoteDivergence: 0,
+    quoteDiscrepancies: [],
     lastResetTime: Date.now()
   };
 
@@ -226,11 +344,28 @@ class ShardedDexService {
    * - Solana connection to configured RPC endpoint
    * - DEX program ID from configuration
    * - SAMM Router service for backend API calls
+   * - Jupiter service for aggregated quotes, only when NEXT_PUBLIC_JUPITER_API_URL
+   *   is set or the configured cluster is mainnet (Jupiter routes mainnet mints only)
    */
   constructor() {
     this.connection = new Connection(dexConfig.rpcUrl, 'confirmed');
     this.programId = new PublicKey(dexConfig.programId);
     this.sammRouter = new SammRouterService();
+    const jupiterEnabled = !!process.env.NEXT_PUBLIC_JUPITER_API_URL ||
+      dexConfig.network === 'mainnet-beta' ||
+      dexConfig.rpcUrl.includes('mainnet');
+    this.jupiter = jupiterEnabled ? new JupiterSwapService(this.connection) : null;
+  }
+
+  /**
+   * Replace the Jupiter service used for aggregated quotes
+   * 
+   * Lets tests point the aggregator at a local mock API, or disable it entirely.
+   * 
+   * @param jupiter - Jupiter service, or null to quote SAMM shards only
+   */
+  setJupiterService(jupiter: JupiterSwapService | null): void {
+    this.jupiter = jupiter;
   }
 
   /**
@@ -330,6 +465,43 @@ class ShardedDexService {
     };
   }
 
+  /**
+   * Set how far a backend quote's output may diverge from the local calculation
+   * 
+   * Backend quotes outside the tolerance are rejected and replaced by the local
+   * route. Defaults to NEXT_PUBLIC_ROUTER_QUOTE_TOLERANCE, or 1%.
+   * 
+   * @param tolerance - Maximum divergence as a percentage (e.g., 1 for 1%)
+   * @throws Error if the tolerance is negative or not a number
+   */
+  setQuoteDivergenceTolerance(tolerance: number) {
+    if (!Number.isFinite(tolerance) || tolerance < 0) {
+      throw new Error(`Invalid quote divergence tolerance: ${tolerance}`);
+    }
+    this.quoteDivergenceTolerance = tolerance;
+  }
+
+  /**
+   * Get SAMM Router backend health
+   * 
+   * While the circuit is open, quotes are routed locally without calling the backend.
+   * 
+   * @returns Circuit state and failure tracking
+   */
+  getRouterHealth(): RouterHealth {
+    return this.sammRouter.getHealth();
+  }
+
+  /**
+   * Subscribe to SAMM Router circuit state changes
+   * 
+   * @param listener - Called with the new health whenever the circuit state changes
+   * @returns Unsubscribe function
+   */
+  onRouterStateChange(listener: (health: RouterHealth) => void): () => void {
+    return this.sammRouter.onStateChange(listener);
+  }
+
   /**
    * Reset performance metrics
    * 
@@ -345,6 +517,10 @@ class ShardedDexService {
       totalBackendResponseTime: 0,
       totalLocalCalculationTime: 0,
       totalQuoteGenerationTime: 0,
+      backendQuotesVerified: 0,
+      backendQuotesRejected: 0,
+      maxQuoteDivergence: 0,
+      quoteDiscrepancies: [],
       lastResetTime: Date.now()
     };
     console.log('[ShardedDexService] Performance metrics reset');
@@ -372,16 +548,21 @@ class ShardedDexService {
     console.log('\nLocal Routing:');
     console.log(`  Fallback Count: ${metrics.fallbackCount}`);
     console.log(`  Avg Calculation Time: ${metrics.avgLocalCalculationTime}`);
+    console.log('\nBackend Quote Verification:');
+    console.log(`  Verified: ${metrics.backendQuotesVerified}`);
+    console.log(`  Rejected: ${metrics.backendQuotesRejected}`);
+    console.log(`  Max Divergence: ${metrics.maxQuoteDivergence.toFixed(4)}% (tolerance ${this.quoteDivergenceTolerance}%)`);
     console.log('\nOverall:');
     console.log(`  Avg Quote Generation Time: ${metrics.avgQuoteGenerationTime}`);
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
   }
 
   /**
-   * Fetch current pool state from on-chain token accounts
+   * Fetch current pool state from on-chain accounts
    * 
-   * Fetches real-time reserve balances directly from the pool's token accounts.
-   * This provides the most accurate data for swap calculations.
+   * Loads the pool state account and both token accounts in a single RPC call
+   * (see poolSnapshot), so reserves and the decoded fee tier are read at the same
+   * slot. This provides the most accurate data for swap calculations.
    * 
    * @param pool - Pool configuration
    * @returns Promise resolving to current pool state
@@ -397,16 +578,21 @@ class ShardedDexService {
     console.log(`   Token Account B: ${pool.tokenAccountB}`);
 
     try {
-      // Fetch token account balances directly
+      // Fetch pool, vault and LP mint accounts in one call
       const rpcStartTime = performance.now();
-      const [tokenAccountAInfo, tokenAccountBInfo] = await Promise.all([
-        this.connection.getTokenAccountBalance(new PublicKey(pool.tokenAccountA)),
-        this.connection.getTokenAccountBalance(new PublicKey(pool.tokenAccountB))
-      ]);
+      const snapshot = await fetchPoolSnapshot(this.connection, {
+        poolAddress: new PublicKey(pool.poolAddress),
+        tokenAAccount: new PublicKey(pool.tokenAccountA),
+        tokenBAccount: new PublicKey(pool.tokenAccountB),
+        lpTokenMint: new PublicKey(pool.poolTokenMint)
+      });
       const rpcDuration = performance.now() - rpcStartTime;
 
-      const reserveA = BigInt(tokenAccountAInfo.value.amount);
-      const reserveB = BigInt(tokenAccountBInfo.value.amount);
+      const { reserveA, reserveB } = snapshot;
+      const fee = { feeNumerator: snapshot.feeNumerator, feeDenominator: snapshot.feeDenominator };
+      if (snapshot.pool) {
+        this.poolFeeCache[pool.poolAddress] = fee;
+      }
 
       // Get token configs for human-readable logging
       const tokenA = dexConfig.tokens.find(t => t.mint === pool.tokenA);
@@ -421,6 +607,8 @@ class ShardedDexService {
       console.log(`     - Base units: ${reserveB.toString()}`);
       console.log(`     - Human readable: ${tokenB ? (Number(reserveB) / Math.pow(10, tokenB.decimals)).toFixed(6) : 'N/A'}`);
       console.log(`     - Decimals: ${tokenB?.decimals || 'N/A'}`);
+      console.log(`   Fee: ${snapshot.feeRate.toFixed(4)}% (${fee.feeNumerator}/${fee.feeDenominator})`);
+      console.log(`   Slot: ${snapshot.slot}`);
       console.log(`   RPC call duration: ${rpcDuration.toFixed(2)}ms`);
       console.log(`   Total fetch duration: ${(performance.now() - startTime).toFixed(2)}ms`);
 
@@ -429,9 +617,10 @@ class ShardedDexService {
       return {
         reserveA,
         reserveB,
-        feeNumerator: 3n,      // 0.3% fee
-        feeDenominator: 1000n,
-        lastUpdated: Date.now()
+        feeNumerator: fee.feeNumerator,
+        feeDenominator: fee.feeDenominator,
+        lastUpdated: Date.now(),
+        slot: snapshot.slot
       };
     } catch (error) {
       this.cacheStats.errors++;
@@ -476,6 +665,8 @@ class ShardedDexService {
    * Fallback: Convert config reserves to PoolState
    * 
    * Uses static liquidity values from configuration when on-chain fetch fails.
+   * The fee comes from a previously decoded pool account when available, otherwise
+   * the default 0.3% is assumed.
    * Returns PoolState with lastUpdated = 0 to indicate stale data.
    * 
    * WARNING: This data may be outdated and cause slippage errors.
@@ -505,11 +696,13 @@ class ShardedDexService {
     console.log(`   Converted Reserve B: ${reserveB.toString()} (${tokenB.decimals} decimals)`);
     console.log(`   ⚠️  WARNING: This data may be stale and cause slippage errors`);
 
+    const fee = this.poolFeeCache[pool.poolAddress] ?? DEFAULT_SWAP_FEE;
+
     return {
       reserveA,
       reserveB,
-      feeNumerator: 3n,
-      feeDenominator: 1000n,
+      feeNumerator: fee.feeNumerator,
+      feeDenominator: fee.feeDenominator,
       lastUpdated: 0 // Indicates stale data
     };
   }
@@ -586,12 +779,29 @@ class ShardedDexService {
    * @returns Array of pools for the pair, sorted by shard number
    */
   getPoolsForPair(tokenA: string, tokenB: string): ShardedPool[] {
-    return dexConfig.pools.filter(pool =>
+    return getPoolConfigs().filter(pool =>
       (pool.tokenA === tokenA && pool.tokenB === tokenB) ||
       (pool.tokenA === tokenB && pool.tokenB === tokenA)
     ).sort((a, b) => a.shardNumber - b.shardNumber);
   }
 
+  /**
+   * Find token paths between two tokens through the configured pools
+   * 
+   * Treats every configured pool as an edge between its two mints and returns
+   * every simple path up to `maxHops` swaps, shortest first. A direct pair is
+   * returned as a two-element path.
+   * 
+   * @param inputMint - Input token mint address
+   * @param outputMint - Output token mint address
+   * @param maxHops - Maximum number of swaps in a path (default: 3)
+   * @returns Token mint paths including both endpoints
+   */
+  findSwapPaths(inputMint: string, outputMint: string, maxHops: number = this.MAX_ROUTE_HOPS): string[][] {
+    const pairs = getPoolConfigs().map(pool => [pool.tokenA, pool.tokenB] as [string, string]);
+    return findTokenPaths(pairs, inputMint, outputMint, maxHops);
+  }
+
   /**
    * Get all shards for a trading pair by symbols (static config data)
    *
@@ -600,12 +810,91 @@ class ShardedDexService {
    * @returns Array of pools for the pair with static liquidity from config, sorted by shard number
    */
   getShardsBySymbol(symbolA: string, symbolB: string): ShardedPool[] {
-    return dexConfig.pools.filter(pool =>
+    return getPoolConfigs().filter(pool =>
       (pool.tokenASymbol === symbolA && pool.tokenBSymbol === symbolB) ||
       (pool.tokenASymbol === symbolB && pool.tokenBSymbol === symbolA)
     ).sort((a, b) => a.shardNumber - b.shardNumber);
   }
 
+  /**
+   * Subscribe to live reserve updates for every shard of a trading pair
+   * 
+   * Opens websocket subscriptions on each shard's vaults (see poolSubscriptions).
+   * Every update is written straight into the pool state cache, and cached entries
+   * for subscribed shards never expire while the subscription is open, so quotes
+   * stop polling and always use the latest reserves.
+   * 
+   * @param symbolA - Token A symbol (e.g., 'USDC')
+   * @param symbolB - Token B symbol (e.g., 'SOL')
+   * @param onUpdate - Optional callback invoked after each reserve change
+   * @returns Function that closes the subscriptions
+   */
+  subscribeToPair(
+    symbolA: string,
+    symbolB: string,
+    onUpdate?: (update: PoolReserveUpdate) => void
+  ): () => void {
+    const shards = this.getShardsBySymbol(symbolA, symbolB);
+    const manager = getPoolSubscriptionManager(this.connection);
+
+    console.log(`📡 Subscribing to ${shards.length} shards (${symbolA}/${symbolB})`);
+
+    const unsubscribes = shards.map(pool =>
+      manager.subscribe(
+        {
+          poolAddress: new PublicKey(pool.poolAddress),
+          tokenAAccount: new PublicKey(pool.tokenAccountA),
+          tokenBAccount: new PublicKey(pool.tokenAccountB),
+          lpTokenMint: new PublicKey(pool.poolTokenMint)
+        },
+        update => {
+          this.applyReserveUpdate(pool, update);
+          onUpdate?.(update);
+        }
+      )
+    );
+
+    return () => {
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+
+      // Hand shards that nobody is watching any more back to normal cache expiry
+      const now = Date.now();
+      shards.forEach(pool => {
+        const cached = this.poolStateCache[pool.poolAddress];
+        if (cached && !manager.isSubscribed(pool.poolAddress)) {
+          cached.expiresAt = Math.min(cached.expiresAt, now + this.CACHE_TTL_MS);
+        }
+      });
+    };
+  }
+
+  /**
+   * Write a live reserve update into the pool state cache
+   * 
+   * @param pool - Pool configuration
+   * @param update - Reserve update from the subscription manager
+   * @private
+   */
+  private applyReserveUpdate(pool: ShardedPool, update: PoolReserveUpdate): void {
+    console.log(`📡 Live reserves for Shard ${pool.shardNumber} (${pool.tokenASymbol}/${pool.tokenBSymbol}) via ${update.source}`);
+    console.log(`   Reserve A: ${update.reserveA.toString()}`);
+    console.log(`   Reserve B: ${update.reserveB.toString()}`);
+    console.log(`   Slot: ${update.slot}`);
+
+    this.poolStateCache[pool.poolAddress] = {
+      state: {
+        reserveA: update.reserveA,
+        reserveB: update.reserveB,
+        feeNumerator: update.feeNumerator,
+        feeDenominator: update.feeDenominator,
+        lastUpdated: update.receivedAt,
+        slot: update.slot
+      },
+      // Kept fresh by the subscription until it is closed
+      expiresAt: Number.POSITIVE_INFINITY
+    };
+  }
+
   /**
    * Get all shards for a trading pair with real-time blockchain data
    *
@@ -621,6 +910,7 @@ class ShardedDexService {
     realTimeReserveB?: string;
     dataSource: 'blockchain' | 'config';
   }>> {
+    await discoverPools(this.connection);
     const pools = this.getShardsBySymbol(symbolA, symbolB);
 
     console.log(`🔄 Fetching real-time data for ${pools.length} shards (${symbolA}/${symbolB})`);
@@ -687,37 +977,41 @@ class ShardedDexService {
   }
 
   /**
-   * Calculate output amount using x*y=k formula with 0.3% fee
+   * Calculate output amount using x*y=k formula with the pool's fee
    * 
    * Implements the constant product AMM formula with fee:
-   * amountOut = (amountIn * 997 * reserveOut) / (reserveIn * 1000 + amountIn * 997)
+   * amountOut = (amountIn * (den - num) * reserveOut) / (reserveIn * den + amountIn * (den - num))
    * 
-   * The 997/1000 factor represents a 0.3% fee (3/1000).
+   * For the default 0.3% fee (3/1000) this is the familiar 997/1000 factor.
    * 
    * @param amountIn - Input amount in base units
    * @param reserveIn - Input token reserve in base units
    * @param reserveOut - Output token reserve in base units
+   * @param feeNumerator - Pool fee numerator
+   * @param feeDenominator - Pool fee denominator
    * @returns Output amount in base units
    * @private
    */
   private calculateSwapOutput(
     amountIn: bigint,
     reserveIn: bigint,
-    reserveOut: bigint
+    reserveOut: bigint,
+    feeNumerator: bigint,
+    feeDenominator: bigint
   ): bigint {
     console.log(`🧮 Calculating swap output using AMM formula:`);
     console.log(`   Input amount: ${amountIn.toString()}`);
     console.log(`   Reserve in: ${reserveIn.toString()}`);
     console.log(`   Reserve out: ${reserveOut.toString()}`);
 
-    const amountInWithFee = amountIn * 997n;
-    console.log(`   Amount in with fee (0.3%): ${amountInWithFee.toString()}`);
+    const amountInWithFee = amountIn * (feeDenominator - feeNumerator);
+    console.log(`   Amount in with fee (${feeToPercent(feeNumerator, feeDenominator)}%): ${amountInWithFee.toString()}`);
 
     const numerator = amountInWithFee * reserveOut;
     console.log(`   Numerator (amountInWithFee * reserveOut): ${numerator.toString()}`);
 
-    const denominator = reserveIn * 1000n + amountInWithFee;
-    console.log(`   Denominator (reserveIn * 1000 + amountInWithFee): ${denominator.toString()}`);
+    const denominator = reserveIn * feeDenominator + amountInWithFee;
+    console.log(`   Denominator (reserveIn * feeDenominator + amountInWithFee): ${denominator.toString()}`);
 
     const output = numerator / denominator;
     console.log(`   Output amount: ${output.toString()}`);
@@ -764,6 +1058,102 @@ class ShardedDexService {
     return priceImpact;
   }
 
+  /**
+   * Calculate a multi-shard split route for an order
+   * 
+   * Splits the input across the pair's shards by marginal-price equalisation
+   * (see shardRouting) and quotes each leg against its own pool state.
+   * 
+   * @param shards - All shards for the pair
+   * @param poolStates - Pool states aligned with `shards`
+   * @param inputMint - Mint of the token being sold (each shard is oriented by its own token order)
+   * @param inputAmountBase - Total input amount in base units
+   * @param inputDecimals - Input token decimals
+   * @param outputDecimals - Output token decimals
+   * @returns Route legs and total output in base units, or null if the order stays on one shard
+   * @private
+   */
+  private calculateSplitRoute(
+    shards: ShardedPool[],
+    poolStates: PoolState[],
+    inputMint: string,
+    inputAmountBase: bigint,
+    inputDecimals: number,
+    outputDecimals: number
+  ): { legs: ShardRoute[]; totalOutput: bigint } | null {
+    if (shards.length < 2) {
+      return null;
+    }
+
+    const liquidity: ShardLiquidity[] = shards.map((shard, i) =>
+      this.toShardLiquidity(shard, poolStates[i], inputMint)
+    );
+
+    const allocation = splitAmountAcrossShards(inputAmountBase, liquidity, {
+      maxLegs: this.MAX_SPLIT_LEGS
+    });
+
+    const legs: ShardRoute[] = [];
+    let totalOutput = 0n;
+
+    allocation.forEach((amountIn, i) => {
+      if (amountIn === 0n) {
+        return;
+      }
+
+      const amountOut = getAmountOut(amountIn, liquidity[i]);
+      totalOutput += amountOut;
+
+      console.log(`   Split leg → Shard ${shards[i].shardNumber}: ${amountIn.toString()} in, ${amountOut.toString()} out`);
+
+      legs.push({
+        poolAddress: shards[i].poolAddress,
+        shardNumber: shards[i].shardNumber,
+        inputAmount: Number(amountIn) / Math.pow(10, inputDecimals),
+        inputAmountBase: amountIn,
+        outputAmount: Number(amountOut) / Math.pow(10, outputDecimals),
+        price: Number(amountOut) / Number(amountIn)
+      });
+    });
+
+    if (legs.length < 2) {
+      return null;
+    }
+
+    return { legs, totalOutput };
+  }
+
+  /**
+   * Input amount of each route leg in base units
+   * 
+   * Split legs carry the exact allocation from splitAmountAcrossShards, which
+   * always sums to the quoted input.
+   * 
+   * @param route - Route legs from the quote
+   * @param totalAmountIn - Total input amount in base units
+   * @returns Input amount per leg in base units
+   * @throws Error if a split leg has no base unit amount or the legs do not sum to the input
+   * @private
+   */
+  private getLegInputAmounts(route: ShardRoute[], totalAmountIn: bigint): bigint[] {
+    if (route.length === 1) {
+      return [totalAmountIn];
+    }
+
+    const amounts = route.map(leg => {
+      if (leg.inputAmountBase === undefined) {
+        throw new Error(`Route leg for shard ${leg.shardNumber} has no base unit input amount`);
+      }
+      return leg.inputAmountBase;
+    });
+
+    if (amounts.reduce((sum, amount) => sum + amount, 0n) !== totalAmountIn) {
+      throw new Error('Route leg amounts do not sum to the quoted input amount');
+    }
+
+    return amounts;
+  }
+
   /**
    * Get quote from backend API routing service
    * 
@@ -782,7 +1172,9 @@ class ShardedDexService {
    * 
    * Response Processing:
    * - Validates backend response
-   * - Checks that recommended pool exists in local config
+   * - Checks that recommended pool exists in local config and trades the pair
+   * - Recomputes the output on the shard's reserves and rejects the quote if it
+   *   diverges beyond the configured tolerance
    * - Converts amounts from base units to human-readable
    * - Builds SwapQuote with routing method 'backend'
    * 
@@ -791,7 +1183,7 @@ class ShardedDexService {
    * @param inputAmount - Input amount (human-readable)
    * @param walletAdapter - Optional wallet adapter for trader address
    * @returns Promise resolving to swap quote with backend routing
-   * @throws Error if backend API fails or returns invalid data
+   * @throws Error if backend API fails, returns invalid data, or its output cannot be verified against live reserves
    * @private
    */
   private async getQuoteFromBackend(
@@ -896,25 +1288,44 @@ class ShardedDexService {
     console.log(`   Price Impact (decimal): ${priceImpact}`);
     console.log(`   Selection Reason: ${reason}`);
 
-    // Validate that shard exists in local configuration
-    const localPool = dexConfig.pools.find(p => p.poolAddress === shard.address);
+    // Validate that shard exists in local configuration and trades this pair
+    const localPool = findPoolConfig(shard.address);
     if (!localPool) {
       throw new Error(`Backend recommended pool ${shard.address} not found in local configuration`);
     }
+    const poolMints = [localPool.tokenA, localPool.tokenB];
+    if (!poolMints.includes(inputTokenMint) || !poolMints.includes(outputTokenMint)) {
+      throw new Error(`Backend recommended pool ${shard.address} failed validation: it does not trade ${inputTokenSymbol}/${outputTokenSymbol}`);
+    }
 
     console.log(`   ✅ Pool validated in local config (Shard ${localPool.shardNumber})`);
 
+    // Recompute the output on the shard's own reserves; the backend is not trusted blindly
+    const poolState = await this.getPoolState(localPool);
+    // Config reserves say nothing about the pool's current state, so they cannot verify the quote
+    if (poolState.lastUpdated === 0) {
+      throw new Error(`Cannot verify backend quote for pool ${shard.address}: live reserves are unavailable`);
+    }
+    const liquidity = this.toShardLiquidity(localPool, poolState, inputTokenMint);
+    const localOutput = getAmountOut(inputAmountBase, liquidity);
+    this.verifyBackendOutput(shard.address, inputAmountBase, BigInt(expectedOutput), localOutput);
+
+    // Quote the lower of the two outputs: a backend output within tolerance but
+    // above the local calculation would otherwise raise the minimum output
+    const quotedOutput = BigInt(expectedOutput) < localOutput ? BigInt(expectedOutput) : localOutput;
+
     // Convert expected output from base units to human-readable format
-    const expectedOutputHuman = Number(expectedOutput) / Math.pow(10, outputToken.decimals);
+    const expectedOutputHuman = Number(quotedOutput) / Math.pow(10, outputToken.decimals);
 
-    // Convert price impact from decimal to percentage
-    const priceImpactPercent = priceImpact * 100;
+    // Price impact comes from the local calculation, not the backend
+    const priceImpactPercent = this.calculatePriceImpact(inputAmountBase, localOutput, liquidity.reserveIn, liquidity.reserveOut);
 
     console.log(`   Expected Output (human readable): ${expectedOutputHuman.toFixed(6)} ${outputToken.symbol}`);
-    console.log(`   Price Impact: ${priceImpactPercent.toFixed(4)}%`);
+    console.log(`   Price Impact: ${priceImpactPercent.toFixed(4)}% (backend reported ${(priceImpact * 100).toFixed(4)}%)`);
 
-    // Calculate total fee
-    const totalFee = inputAmount * 0.003;
+    // Calculate total fee from the recommended shard's fee tier
+    const { feeNumerator, feeDenominator } = poolState;
+    const totalFee = inputAmount * feeToPercent(feeNumerator, feeDenominator) / 100;
 
     // Build SwapQuote object
     const quote: SwapQuote = {
@@ -952,6 +1363,62 @@ class ShardedDexService {
     return quote;
   }
 
+  /**
+   * Check a backend quote's output against the locally recomputed output
+   * 
+   * Records every discrepancy in the performance metrics.
+   * 
+   * @param poolAddress - Shard the backend recommended
+   * @param inputAmount - Input amount in base units
+   * @param backendOutput - Output claimed by the backend, in base units
+   * @param localOutput - Output recomputed on the shard's reserves, in base units
+   * @throws Error if the outputs diverge beyond the tolerance
+   * @private
+   */
+  private verifyBackendOutput(
+    poolAddress: string,
+    inputAmount: bigint,
+    backendOutput: bigint,
+    localOutput: bigint
+  ) {
+    const metrics = this.performanceMetrics;
+    metrics.backendQuotesVerified++;
+
+    if (backendOutput === localOutput) {
+      console.log(`   ✅ Backend output matches local calculation`);
+      return;
+    }
+
+    const difference = backendOutput > localOutput ? backendOutput - localOutput : localOutput - backendOutput;
+    const divergence = localOutput > 0n ? Number(difference) * 100 / Number(localOutput) : Infinity;
+    const rejected = divergence > this.quoteDivergenceTolerance;
+
+    metrics.maxQuoteDivergence = Math.max(metrics.maxQuoteDivergence, divergence);
+    metrics.quoteDiscrepancies.push({
+      timestamp: Date.now(),
+      poolAddress,
+      inputAmount: inputAmount.toString(),
+      backendOutput: backendOutput.toString(),
+      localOutput: localOutput.toString(),
+      divergence,
+      rejected
+    });
+    if (metrics.quoteDiscrepancies.length > this.MAX_RECORDED_DISCREPANCIES) {
+      metrics.quoteDiscrepancies.shift();
+    }
+
+    console.log(`   Local Output (base units): ${localOutput.toString()}`);
+    console.log(`   Divergence: ${divergence.toFixed(4)}% (tolerance ${this.quoteDivergenceTolerance}%)`);
+
+    if (rejected) {
+      metrics.backendQuotesRejected++;
+      throw new Error(
+        `Backend quote diverges from local calculation by ${divergence.toFixed(4)}% ` +
+        `(backend ${backendOutput.toString()}, local ${localOutput.toString()}, tolerance ${this.quoteDivergenceTolerance}%)`
+      );
+    }
+  }
+
   /**
    * Get optimal quote across all shards using smart routing
    * 
@@ -964,6 +1431,7 @@ class ShardedDexService {
    * 
    * 2. **Fallback**: Use local calculation on error
    *    - Triggered by network errors, timeouts, or API failures
+   *    - Used directly, without calling the backend, while the router circuit is open
    *    - Calculates locally using cached/fresh pool states
    *    - Returns quote with routing method 'local'
    *    - Logs comprehensive error details for debugging
@@ -994,6 +1462,26 @@ class ShardedDexService {
   ): Promise<SwapQuote> {
     const quoteStartTime = performance.now();
 
+    // Pick up pools created since the last discovery (cached, so usually free)
+    await discoverPools(this.connection);
+
+    // The backend only routes direct pairs, so multi-hop quotes go straight to the local router
+    if (this.getShardsBySymbol(inputTokenSymbol, outputTokenSymbol).length === 0) {
+      console.log(`\n🧭 No direct pool for ${inputTokenSymbol}/${outputTokenSymbol}, using local multi-hop routing`);
+      const multiHopQuote = await this.getQuoteLocal(inputTokenSymbol, outputTokenSymbol, inputAmount);
+      this.performanceMetrics.totalQuoteGenerationTime += performance.now() - quoteStartTime;
+      return multiHopQuote;
+    }
+
+    // Skip the backend entirely while its circuit is open instead of waiting out the timeout
+    if (this.sammRouter.isCircuitOpen()) {
+      const { retryAt } = this.sammRouter.getHealth();
+      console.log(`\n⏭️  Router circuit open, using local routing until ${new Date(retryAt!).toISOString()}`);
+      const localQuote = await this.getQuoteLocal(inputTokenSymbol, outputTokenSymbol, inputAmount);
+      this.performanceMetrics.totalQuoteGenerationTime += performance.now() - quoteStartTime;
+      return localQuote;
+    }
+
     // Try backend routing first
     try {
       console.log(`\n🎯 Attempting backend routing...`);
@@ -1025,7 +1513,13 @@ class ShardedDexService {
       const errorMessage = error instanceof Error ? error.message : String(error);
       let errorType = 'unknown';
 
-      if (errorMessage.includes('timeout') || errorMessage.includes('timed out')) {
+      if (error instanceof CircuitOpenError) {
+        errorType = 'circuit-open';
+      } else if (errorMessage.includes('diverges from local calculation')) {
+        errorType = 'quote-divergence';
+      } else if (errorMessage.includes('Cannot verify backend quote')) {
+        errorType = 'quote-unverified';
+      } else if (errorMessage.includes('timeout') || errorMessage.includes('timed out')) {
         errorType = 'network-timeout';
       } else if (errorMessage.includes('Network error') || errorMessage.includes('fetch')) {
         errorType = 'network';
@@ -1068,6 +1562,238 @@ class ShardedDexService {
     }
   }
 
+  /**
+   * Get the best quote across SAMM shards and Jupiter
+   * 
+   * Asks the sharded router (getQuote) and the Jupiter aggregator in parallel and
+   * keeps whichever delivers more output net of fees. Both venues already quote
+   * output after their pool fees; Jupiter's platform fee, if any, is subtracted.
+   * The winning quote is tagged with its `source`, which executeSwap uses to pick
+   * the venue.
+   * 
+   * If either venue fails, the other's quote is returned; if both fail, the
+   * sharded router's error is thrown.
+   * 
+   * @param inputTokenSymbol - Input token symbol (e.g., 'USDC')
+   * @param outputTokenSymbol - Output token symbol (e.g., 'SOL')
+   * @param inputAmount - Input amount (human-readable)
+   * @param walletAdapter - Optional wallet adapter for trader address
+   * @param slippageTolerance - Slippage tolerance percentage passed to Jupiter (default: 0.5)
+   * @returns Promise resolving to the best quote
+   */
+  async getAggregatedQuote(
+    inputTokenSymbol: string,
+    outputTokenSymbol: string,
+    inputAmount: number,
+    walletAdapter?: any,
+    slippageTolerance: number = 0.5
+  ): Promise<SwapQuote> {
+    const [shardedResult, jupiterResult] = await Promise.allSettled([
+      this.getQuote(inputTokenSymbol, outputTokenSymbol, inputAmount, walletAdapter),
+      this.getJupiterQuote(inputTokenSymbol, outputTokenSymbol, inputAmount, slippageTolerance)
+    ]);
+
+    const shardedQuote = shardedResult.status === 'fulfilled'
+      ? { ...shardedResult.value, source: 'sharded' as const }
+      : null;
+    const jupiterQuote = jupiterResult.status === 'fulfilled' ? jupiterResult.value : null;
+
+    if (jupiterResult.status === 'rejected') {
+      console.warn('⚠️  Jupiter quote failed:', jupiterResult.reason);
+    }
+
+    if (!shardedQuote) {
+      if (jupiterQuote) {
+        console.log(`🪐 Using Jupiter route (sharded router unavailable)`);
+        return jupiterQuote;
+      }
+      throw shardedResult.status === 'rejected' ? shardedResult.reason : new Error('Unable to calculate route');
+    }
+
+    if (!jupiterQuote) {
+      return shardedQuote;
+    }
+
+    console.log(`⚖️  Venue comparison for ${inputAmount} ${inputTokenSymbol} → ${outputTokenSymbol}:`);
+    console.log(`   SAMM shards: ${shardedQuote.estimatedOutput.toFixed(6)} ${outputTokenSymbol}`);
+    console.log(`   Jupiter: ${jupiterQuote.estimatedOutput.toFixed(6)} ${outputTokenSymbol}`);
+
+    const winner = jupiterQuote.estimatedOutput > shardedQuote.estimatedOutput ? jupiterQuote : shardedQuote;
+    console.log(`   ✅ Best venue: ${winner.source === 'jupiter' ? 'Jupiter' : 'SAMM shards'}`);
+
+    return winner;
+  }
+
+  /**
+   * Get a quote from the Jupiter aggregator
+   * 
+   * @param inputTokenSymbol - Input token symbol
+   * @param outputTokenSymbol - Output token symbol
+   * @param inputAmount - Input amount (human-readable)
+   * @param slippageTolerance - Slippage tolerance percentage
+   * @returns Promise resolving to a quote tagged with source 'jupiter', or null if
+   *          Jupiter is disabled or has no route
+   * @private
+   */
+  private async getJupiterQuote(
+    inputTokenSymbol: string,
+    outputTokenSymbol: string,
+    inputAmount: number,
+    slippageTolerance: number
+  ): Promise<SwapQuote | null> {
+    if (!this.jupiter) {
+      return null;
+    }
+
+    const inputToken = dexConfig.tokens.find(t => t.symbol === inputTokenSymbol);
+    const outputToken = dexConfig.tokens.find(t => t.symbol === outputTokenSymbol);
+
+    if (!inputToken || !outputToken) {
+      throw new Error('Token configuration not found');
+    }
+
+    const amountBase = BigInt(Math.floor(inputAmount * Math.pow(10, inputToken.decimals)));
+    const jupiterQuote = await this.jupiter.getOptimizedQuote(
+      inputToken.mint,
+      outputToken.mint,
+      amountBase.toString(),
+      { slippageTolerance, deadline: 20 }
+    );
+
+    if (!jupiterQuote) {
+      return null;
+    }
+
+    return this.toJupiterSwapQuote(jupiterQuote, inputAmount, inputToken.decimals, outputToken.decimals);
+  }
+
+  /**
+   * Convert a raw Jupiter quote into a SwapQuote
+   * 
+   * @param jupiterQuote - Quote from the Jupiter API
+   * @param inputAmount - Input amount (human-readable)
+   * @param inputDecimals - Input token decimals
+   * @param outputDecimals - Output token decimals
+   * @returns Swap quote with the output net of Jupiter's platform fee
+   * @private
+   */
+  private toJupiterSwapQuote(
+    jupiterQuote: JupiterQuote,
+    inputAmount: number,
+    inputDecimals: number,
+    outputDecimals: number
+  ): SwapQuote {
+    const platformFee = BigInt(jupiterQuote.platformFee?.amount ?? '0');
+    const netOutput = BigInt(jupiterQuote.outAmount) - platformFee;
+
+    // Only fees charged in the input token can be expressed in input units
+    const inputFee = jupiterQuote.routePlan
+      .filter(step => step.swapInfo.feeMint === jupiterQuote.inputMint)
+      .reduce((sum, step) => sum + BigInt(step.swapInfo.feeAmount), 0n);
+
+    return {
+      inputToken: jupiterQuote.inputMint,
+      outputToken: jupiterQuote.outputMint,
+      inputAmount,
+      estimatedOutput: Number(netOutput) / Math.pow(10, outputDecimals),
+      priceImpact: parseFloat(jupiterQuote.priceImpactPct) * 100,
+      route: [],
+      totalFee: Number(inputFee) / Math.pow(10, inputDecimals),
+      routingMethod: 'jupiter',
+      backendReason: `Jupiter route via ${jupiterQuote.routePlan.map(step => step.swapInfo.label).join(' → ')}`,
+      source: 'jupiter',
+      jupiterQuote
+    };
+  }
+
+  /**
+   * Get an exact-output quote
+   * 
+   * Quotes the input required to receive exactly `outputAmount`, using the
+   * inverse constant product formula on every shard of the pair and picking
+   * the shard that needs the least input. Always routed locally, since the
+   * backend router only quotes exact-input swaps.
+   * 
+   * The returned quote has `quoteMode: 'exactOut'`. executeSwap recomputes
+   * the required input against fresh reserves and sends exactly that input
+   * with the requested output as the on-chain minimum, so the swap reverts if
+   * reserves move against it before it lands. The slippage tolerance only
+   * limits how far the fresh input may drift from the quoted one at build time.
+   * 
+   * @param inputTokenSymbol - Input token symbol (e.g., 'SOL')
+   * @param outputTokenSymbol - Output token symbol (e.g., 'USDC')
+   * @param outputAmount - Exact output amount wanted (human-readable)
+   * @returns Promise resolving to exact-output swap quote
+   * @throws Error if no direct pool exists or no shard can provide the output
+   */
+  async getQuoteExactOut(
+    inputTokenSymbol: string,
+    outputTokenSymbol: string,
+    outputAmount: number
+  ): Promise<SwapQuote> {
+    console.log(`\n🎯 Getting EXACT-OUT quote: ${inputTokenSymbol} → ${outputAmount} ${outputTokenSymbol}`);
+
+    const shards = this.getShardsBySymbol(inputTokenSymbol, outputTokenSymbol);
+    if (shards.length === 0) {
+      throw new Error(`No pools found for ${inputTokenSymbol}/${outputTokenSymbol}. Exact-output swaps require a direct pool.`);
+    }
+
+    const inputToken = dexConfig.tokens.find(t => t.symbol === inputTokenSymbol);
+    const outputToken = dexConfig.tokens.find(t => t.symbol === outputTokenSymbol);
+
+    if (!inputToken || !outputToken) {
+      throw new Error('Token configuration not found');
+    }
+
+    const outputAmountBase = BigInt(Math.floor(outputAmount * Math.pow(10, outputToken.decimals)));
+    const poolStates = await Promise.all(shards.map(shard => this.getPoolState(shard)));
+
+    let best: { shard: ShardedPool; liquidity: ShardLiquidity; amountIn: bigint } | null = null;
+
+    for (let i = 0; i < shards.length; i++) {
+      const liquidity = this.toShardLiquidity(shards[i], poolStates[i], inputToken.mint);
+      try {
+        const amountIn = getAmountIn(outputAmountBase, liquidity);
+        console.log(`   Shard ${shards[i].shardNumber}: requires ${amountIn.toString()} base units`);
+        if (!best || amountIn < best.amountIn) {
+          best = { shard: shards[i], liquidity, amountIn };
+        }
+      } catch (error) {
+        console.log(`   Shard ${shards[i].shardNumber}: cannot provide ${outputAmountBase.toString()} base units`);
+      }
+    }
+
+    if (!best) {
+      throw new Error(`Insufficient liquidity: no ${inputTokenSymbol}/${outputTokenSymbol} shard can provide ${outputAmount} ${outputTokenSymbol}`);
+    }
+
+    const { shard, liquidity, amountIn } = best;
+    const inputAmount = Number(amountIn) / Math.pow(10, inputToken.decimals);
+    const priceImpact = this.calculatePriceImpact(amountIn, outputAmountBase, liquidity.reserveIn, liquidity.reserveOut);
+    const feeRate = Number(liquidity.feeNumerator) / Number(liquidity.feeDenominator);
+
+    console.log(`✅ Exact-out quote: ${inputAmount.toFixed(6)} ${inputTokenSymbol} via Shard ${shard.shardNumber}`);
+
+    return {
+      inputToken: inputToken.mint,
+      outputToken: outputToken.mint,
+      inputAmount,
+      estimatedOutput: outputAmount,
+      priceImpact,
+      route: [{
+        poolAddress: shard.poolAddress,
+        shardNumber: shard.shardNumber,
+        inputAmount,
+        outputAmount,
+        price: Number(outputAmountBase) / Number(amountIn)
+      }],
+      totalFee: inputAmount * feeRate,
+      routingMethod: 'local',
+      backendReason: undefined,
+      quoteMode: 'exactOut'
+    };
+  }
+
   /**
    * Get optimal quote across all shards using local calculation
    * 
@@ -1079,6 +1805,10 @@ class ShardedDexService {
    * 3. Calculate output for each shard using AMM formula
    * 4. Calculate price impact for each route
    * 5. Select shard with best output and lowest price impact
+   * 6. Split the order across shards when that yields more output
+   * 
+   * When no direct pool exists the quote is routed through intermediate
+   * tokens instead (see getQuoteMultiHop).
    * 
    * Features:
    * - Uses real-time on-chain data when available
@@ -1111,15 +1841,12 @@ class ShardedDexService {
     const shards = this.getShardsBySymbol(inputTokenSymbol, outputTokenSymbol);
 
     if (shards.length === 0) {
-      throw new Error(`No pools found for ${inputTokenSymbol}/${outputTokenSymbol}`);
+      console.log(`📋 No direct pool for ${inputTokenSymbol}/${outputTokenSymbol}, trying multi-hop routes`);
+      return this.getQuoteMultiHop(inputTokenSymbol, outputTokenSymbol, inputAmount, localCalcStartTime);
     }
 
     console.log(`📋 Found ${shards.length} shard(s) for this pair`);
 
-    // Determine if we're swapping A->B or B->A
-    const isForward = shards[0].tokenASymbol === inputTokenSymbol;
-    console.log(`   Swap direction: ${isForward ? 'Forward (A→B)' : 'Reverse (B→A)'}`);
-
     // Get token decimals
     const inputToken = dexConfig.tokens.find(t => t.symbol === inputTokenSymbol);
     const outputToken = dexConfig.tokens.find(t => t.symbol === outputTokenSymbol);
@@ -1152,8 +1879,10 @@ class ShardedDexService {
     const fetchDuration = performance.now() - fetchStartTime;
     console.log(`✅ All pool states fetched in ${fetchDuration.toFixed(2)}ms`);
 
-    // Simple strategy: Try each shard and pick the best single-shard route
-    // TODO: Implement multi-shard split routing for larger trades
+    // Orient every shard by its own token order; shards of a pair may list it either way round
+    const liquidity = shards.map((shard, i) => this.toShardLiquidity(shard, poolStates[i], inputToken.mint));
+
+    // First pass: evaluate every shard as a single-shard route
     console.log(`\n🎯 Evaluating routes across ${shards.length} shard(s)...\n`);
 
     let bestRoute: ShardRoute | null = null;
@@ -1167,13 +1896,16 @@ class ShardedDexService {
       console.log(`\n━━━ Shard ${shard.shardNumber} Evaluation ━━━`);
 
       // Log pool state information
+      const [decimalsA, decimalsB] = shard.tokenA === inputToken.mint
+        ? [inputToken.decimals, outputToken.decimals]
+        : [outputToken.decimals, inputToken.decimals];
       console.log(`📊 Pool State:`);
       console.log(`   Reserve A (${shard.tokenASymbol}):`);
       console.log(`     - Base units: ${poolState.reserveA.toString()}`);
-      console.log(`     - Human readable: ${(Number(poolState.reserveA) / Math.pow(10, inputToken.decimals)).toFixed(6)}`);
+      console.log(`     - Human readable: ${(Number(poolState.reserveA) / Math.pow(10, decimalsA)).toFixed(6)}`);
       console.log(`   Reserve B (${shard.tokenBSymbol}):`);
       console.log(`     - Base units: ${poolState.reserveB.toString()}`);
-      console.log(`     - Human readable: ${(Number(poolState.reserveB) / Math.pow(10, outputToken.decimals)).toFixed(6)}`);
+      console.log(`     - Human readable: ${(Number(poolState.reserveB) / Math.pow(10, decimalsB)).toFixed(6)}`);
 
       // Log data age
       const now = Date.now();
@@ -1186,17 +1918,18 @@ class ShardedDexService {
       }
 
       // Use live pool state reserves instead of config values
-      const reserveInBase = isForward ? poolState.reserveA : poolState.reserveB;
-      const reserveOutBase = isForward ? poolState.reserveB : poolState.reserveA;
+      const { reserveIn: reserveInBase, reserveOut: reserveOutBase } = liquidity[i];
 
-      console.log(`\n   Selected Reserves for ${isForward ? 'A→B' : 'B→A'} swap:`);
+      console.log(`\n   Selected Reserves for ${shard.tokenA === inputToken.mint ? 'A→B' : 'B→A'} swap:`);
       console.log(`     Reserve In: ${reserveInBase.toString()}`);
       console.log(`     Reserve Out: ${reserveOutBase.toString()}`);
 
       const outputAmount = this.calculateSwapOutput(
         inputAmountBase,
         reserveInBase,
-        reserveOutBase
+        reserveOutBase,
+        poolState.feeNumerator,
+        poolState.feeDenominator
       );
 
       const priceImpact = this.calculatePriceImpact(
@@ -1232,6 +1965,41 @@ class ShardedDexService {
       throw new Error('Unable to calculate route');
     }
 
+    // Second pass: split the order across shards when that beats the best single shard
+    let route: ShardRoute[] = [bestRoute];
+    const splitRoute = this.calculateSplitRoute(
+      shards,
+      poolStates,
+      inputToken.mint,
+      inputAmountBase,
+      inputToken.decimals,
+      outputToken.decimals
+    );
+
+    if (splitRoute && splitRoute.totalOutput > bestOutput) {
+      console.log(`\n🔀 Split route beats best single shard:`);
+      console.log(`   Single shard output: ${bestOutput.toString()}`);
+      console.log(`   Split output: ${splitRoute.totalOutput.toString()} across ${splitRoute.legs.length} shards`);
+
+      // Measure impact against the best spot price available across the pair
+      const bestSpotPrice = Math.max(...liquidity.map(({ reserveIn, reserveOut }) =>
+        reserveIn > 0n ? this.calculateAmmPrice(reserveIn, reserveOut) : 0
+      ));
+      const executionPrice = Number(splitRoute.totalOutput) / Number(inputAmountBase);
+
+      route = splitRoute.legs;
+      bestOutput = splitRoute.totalOutput;
+      bestPriceImpact = Math.abs((executionPrice - bestSpotPrice) / bestSpotPrice) * 100;
+    }
+
+    const estimatedOutput = Number(bestOutput) / Math.pow(10, outputToken.decimals);
+
+    // Each leg pays its own shard's fee on the input it receives
+    const totalFee = route.reduce((sum, leg) => {
+      const state = poolStates[shards.findIndex(s => s.poolAddress === leg.poolAddress)];
+      return sum + leg.inputAmount * feeToPercent(state.feeNumerator, state.feeDenominator) / 100;
+    }, 0);
+
     // Track local calculation time
     const localCalcDuration = performance.now() - localCalcStartTime;
     this.performanceMetrics.totalLocalCalculationTime += localCalcDuration;
@@ -1240,11 +2008,11 @@ class ShardedDexService {
     console.log(`✅ Quote Calculation Complete`);
     console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
     console.log(`📊 Final Quote Summary:`);
-    console.log(`   Best Shard: ${bestRoute.shardNumber}`);
+    console.log(`   Shard(s): ${route.map(r => r.shardNumber).join(', ')}`);
     console.log(`   Input: ${inputAmount} ${inputTokenSymbol}`);
-    console.log(`   Output: ${bestRoute.outputAmount.toFixed(6)} ${outputTokenSymbol}`);
+    console.log(`   Output: ${estimatedOutput.toFixed(6)} ${outputTokenSymbol}`);
     console.log(`   Price Impact: ${bestPriceImpact.toFixed(4)}%`);
-    console.log(`   Fee: ${(inputAmount * 0.003).toFixed(6)} ${inputTokenSymbol} (0.3%)`);
+    console.log(`   Fee: ${totalFee.toFixed(6)} ${inputTokenSymbol} (${(totalFee / inputAmount * 100).toFixed(4)}%)`);
     console.log(`   Local Calculation Time: ${localCalcDuration.toFixed(2)}ms`);
     console.log(`\n📈 Cache Performance:`);
     const stats = this.getCacheStats();
@@ -1259,69 +2027,224 @@ class ShardedDexService {
       inputToken: inputToken.mint,
       outputToken: outputToken.mint,
       inputAmount,
-      estimatedOutput: bestRoute.outputAmount,
+      estimatedOutput,
       priceImpact: bestPriceImpact,
-      route: [bestRoute],
-      totalFee: inputAmount * 0.003, // 0.3% fee
+      route,
+      totalFee,
       routingMethod: 'local',
       backendReason: undefined
     };
   }
 
   /**
-   * Execute swap on the sharded DEX
+   * Get a quote routed through intermediate tokens
    * 
-   * Executes a swap transaction using the provided quote:
+   * Used when no direct pool exists for the pair. Every 2- and 3-hop path
+   * through the configured pools is quoted hop by hop against live pool state,
+   * picking the best shard for each hop and feeding its output into the next.
+   * The path with the highest final output wins.
    * 
-   * Process:
-   * 1. Validate pool exists in configuration
-   * 2. Force fresh pool state fetch (clears cache)
-   * 3. Recalculate output with fresh reserves
-   * 4. Calculate minimum output with slippage tolerance
-   * 5. Build swap transaction instruction
-   * 6. Sign transaction with wallet
-   * 7. Send and confirm transaction
+   * @param inputTokenSymbol - Input token symbol (e.g., 'USDT')
+   * @param outputTokenSymbol - Output token symbol (e.g., 'ETH')
+   * @param inputAmount - Input amount (human-readable)
+   * @param localCalcStartTime - Start time of the enclosing local calculation
+   * @returns Promise resolving to swap quote with one route entry per hop
+   * @throws Error if no path exists or no path yields any output
+   * @private
+   */
+  private async getQuoteMultiHop(
+    inputTokenSymbol: string,
+    outputTokenSymbol: string,
+    inputAmount: number,
+    localCalcStartTime: number
+  ): Promise<SwapQuote> {
+    const inputToken = dexConfig.tokens.find(t => t.symbol === inputTokenSymbol);
+    const outputToken = dexConfig.tokens.find(t => t.symbol === outputTokenSymbol);
+
+    if (!inputToken || !outputToken) {
+      throw new Error('Token configuration not found');
+    }
+
+    const paths = this.findSwapPaths(inputToken.mint, outputToken.mint).filter(path => path.length > 2);
+
+    if (paths.length === 0) {
+      throw new Error(`No pools found for ${inputTokenSymbol}/${outputTokenSymbol}`);
+    }
+
+    const inputAmountBase = BigInt(Math.floor(inputAmount * Math.pow(10, inputToken.decimals)));
+    console.log(`🧭 Evaluating ${paths.length} multi-hop path(s) for ${inputAmountBase.toString()} base units`);
+
+    let best: Awaited<ReturnType<ShardedDexService['quotePath']>> | null = null;
+    let bestPath: string[] = [];
+
+    for (const path of paths) {
+      const label = path.map(mint => this.getTokenSymbolByMint(mint)).join(' → ');
+      try {
+        const result = await this.quotePath(path, inputAmountBase);
+        console.log(`   ${label}: ${result.output.toString()} out`);
+        if (!best || result.output > best.output) {
+          best = result;
+          bestPath = path;
+        }
+      } catch (error) {
+        console.warn(`   ${label}: failed to quote`, error);
+      }
+    }
+
+    if (!best || best.output === 0n) {
+      throw new Error('Unable to calculate route');
+    }
+
+    const estimatedOutput = Number(best.output) / Math.pow(10, outputToken.decimals);
+    const executionPrice = Number(best.output) / Number(inputAmountBase);
+    const priceImpact = Math.abs((executionPrice - best.spotPrice) / best.spotPrice) * 100;
+    const totalFee = inputAmount * (1 - best.feeRetained);
+
+    const localCalcDuration = performance.now() - localCalcStartTime;
+    this.performanceMetrics.totalLocalCalculationTime += localCalcDuration;
+
+    console.log(`✅ Multi-hop route: ${bestPath.map(mint => this.getTokenSymbolByMint(mint)).join(' → ')}`);
+    console.log(`   Shards: ${best.hops.map(hop => hop.shardNumber).join(' → ')}`);
+    console.log(`   Output: ${estimatedOutput.toFixed(6)} ${outputTokenSymbol}`);
+    console.log(`   Price Impact: ${priceImpact.toFixed(4)}%`);
+    console.log(`   Local Calculation Time: ${localCalcDuration.toFixed(2)}ms\n`);
+
+    return {
+      inputToken: inputToken.mint,
+      outputToken: outputToken.mint,
+      inputAmount,
+      estimatedOutput,
+      priceImpact,
+      route: best.hops,
+      totalFee,
+      routingMethod: 'local',
+      backendReason: undefined,
+      path: bestPath
+    };
+  }
+
+  /**
+   * Quote a token path hop by hop against live pool state
    * 
-   * Safety Features:
-   * - Fresh pool state to avoid stale data
-   * - Slippage protection with minimum output
-   * - Comprehensive error handling
-   * - Detailed logging for debugging
+   * @param path - Token mint path including both endpoints
+   * @param amountInBase - Input amount for the first hop in base units
+   * @returns Hop routes, final output in base units, fee-free spot price of the
+   *          whole path (base units) and the fraction of input retained after fees
+   * @throws Error if a hop has no pool
+   * @private
+   */
+  private async quotePath(
+    path: string[],
+    amountInBase: bigint
+  ): Promise<{ hops: ShardRoute[]; output: bigint; spotPrice: number; feeRetained: number }> {
+    const hops: ShardRoute[] = [];
+    let amount = amountInBase;
+    let spotPrice = 1;
+    let feeRetained = 1;
+
+    for (let i = 0; i < path.length - 1; i++) {
+      const tokenIn = path[i];
+      const tokenOut = path[i + 1];
+      const shards = this.getPoolsForPair(tokenIn, tokenOut);
+
+      if (shards.length === 0) {
+        throw new Error(`No pools found for hop ${tokenIn} → ${tokenOut}`);
+      }
+
+      const states = await Promise.all(shards.map(shard => this.getPoolState(shard)));
+
+      let bestIndex = 0;
+      let bestOut = -1n;
+      shards.forEach((shard, j) => {
+        const out = getAmountOut(amount, this.toShardLiquidity(shard, states[j], tokenIn));
+        if (out > bestOut) {
+          bestOut = out;
+          bestIndex = j;
+        }
+      });
+
+      const shard = shards[bestIndex];
+      const liquidity = this.toShardLiquidity(shard, states[bestIndex], tokenIn);
+      const decimalsIn = dexConfig.tokens.find(t => t.mint === tokenIn)?.decimals ?? 0;
+      const decimalsOut = dexConfig.tokens.find(t => t.mint === tokenOut)?.decimals ?? 0;
+
+      spotPrice *= this.calculateAmmPrice(liquidity.reserveIn, liquidity.reserveOut);
+      feeRetained *= Number(liquidity.feeDenominator - liquidity.feeNumerator) / Number(liquidity.feeDenominator);
+
+      hops.push({
+        poolAddress: shard.poolAddress,
+        shardNumber: shard.shardNumber,
+        inputAmount: Number(amount) / Math.pow(10, decimalsIn),
+        outputAmount: Number(bestOut) / Math.pow(10, decimalsOut),
+        price: amount > 0n ? Number(bestOut) / Number(amount) : 0,
+        inputToken: tokenIn,
+        outputToken: tokenOut
+      });
+
+      amount = bestOut;
+    }
+
+    return { hops, output: amount, spotPrice, feeRetained };
+  }
+
+  /**
+   * Orient a pool's reserves in the direction of a swap
    * 
-   * Error Handling:
-   * - User rejection
-   * - Insufficient funds
-   * - Token account errors
-   * - Slippage errors
-   * - Transaction simulation failures
+   * @param pool - Pool configuration
+   * @param state - Current pool state
+   * @param inputMint - Mint of the token being sold into the pool
+   * @returns Reserves and fee with `reserveIn` on the input side
+   * @private
+   */
+  private toShardLiquidity(pool: ShardedPool, state: PoolState, inputMint: string): ShardLiquidity {
+    const isForward = pool.tokenA === inputMint;
+    return {
+      reserveIn: isForward ? state.reserveA : state.reserveB,
+      reserveOut: isForward ? state.reserveB : state.reserveA,
+      feeNumerator: state.feeNumerator,
+      feeDenominator: state.feeDenominator
+    };
+  }
+
+  /**
+   * Get token symbol by mint address, falling back to the mint itself
+   * @private
+   */
+  private getTokenSymbolByMint(mint: string): string {
+    return dexConfig.tokens.find(t => t.mint === mint)?.symbol ?? mint;
+  }
+
+  /**
+   * Build the transaction for a direct route split across one or more shards
    * 
-   * @param walletAdapter - Wallet adapter with signTransaction method
+   * Validates every leg's pool, refetches fresh reserves, and recomputes each
+   * leg's minimum output with the slippage tolerance.
+   * 
+   * @param wallet - User wallet public key
    * @param quote - Swap quote from getQuote()
-   * @param slippageTolerance - Slippage tolerance percentage (default: 0.5%)
-   * @returns Promise resolving to transaction signature
-   * @throws Error if validation fails, transaction fails, or user rejects
+   * @param slippageTolerance - Slippage tolerance percentage
+   * @param feeSettings - Priority fee preferences
+   * @returns v0 transaction and a description of the pool state age for error logging
+   * @private
    */
-  async executeSwap(
-    walletAdapter: any, // Wallet adapter with signTransaction
+  private async buildSplitSwapTransaction(
+    wallet: PublicKey,
     quote: SwapQuote,
-    slippageTolerance: number = 0.5
-  ): Promise<string> {
-    // Store pool state data age for error logging
-    let poolStateDataAge: string = 'unknown';
+    slippageTolerance: number,
+    feeSettings?: PriorityFeeSettings
+  ): Promise<BuiltTransaction & { poolStateDataAge: string }> {
+    let poolStateDataAge = 'unknown';
 
-    try {
-      const wallet = walletAdapter.publicKey;
-
-      // Get pool information with enhanced validation
-      const requestedPoolAddress = quote.route[0].poolAddress;
-      const pool = dexConfig.pools.find(p => p.poolAddress === requestedPoolAddress);
+    // Get pool information for every route leg with enhanced validation
+    const legPools = quote.route.map(leg => {
+      const pool = findPoolConfig(leg.poolAddress);
 
       if (!pool) {
         // Log detailed information for debugging
         console.error('❌ Pool Validation Failed');
-        console.error(`   Requested Pool Address: ${requestedPoolAddress}`);
-        console.error(`   Available Pools (${dexConfig.pools.length}):`);
-        dexConfig.pools.forEach((p, idx) => {
+        console.error(`   Requested Pool Address: ${leg.poolAddress}`);
+        console.error(`   Available Pools (${getPoolConfigs().length}):`);
+        getPoolConfigs().forEach((p, idx) => {
           console.error(`     ${idx + 1}. ${p.poolAddress} (${p.tokenASymbol}/${p.tokenBSymbol} - Shard ${p.shardNumber})`);
         });
         console.error(`   Routing Method: ${quote.routingMethod}`);
@@ -1331,114 +2254,594 @@ class ShardedDexService {
         throw new Error('Selected pool not found in configuration');
       }
 
-      // Get token information
-      const inputTokenConfig = dexConfig.tokens.find(t => t.mint === quote.inputToken);
-      const outputTokenConfig = dexConfig.tokens.find(t => t.mint === quote.outputToken);
+      return pool;
+    });
 
-      if (!inputTokenConfig || !outputTokenConfig) {
-        throw new Error('Token configuration not found');
-      }
+    // Get token information
+    const inputTokenConfig = dexConfig.tokens.find(t => t.mint === quote.inputToken);
+    const outputTokenConfig = dexConfig.tokens.find(t => t.mint === quote.outputToken);
 
-      // CRITICAL: Force fresh pool state fetch before swap to avoid stale data
-      // Clear cache for this pool to ensure we get the latest reserves
-      console.log('🔄 Forcing fresh pool state fetch for swap execution...');
-      delete this.poolStateCache[pool.poolAddress];
+    if (!inputTokenConfig || !outputTokenConfig) {
+      throw new Error('Token configuration not found');
+    }
 
-      // Fetch fresh pool state
-      const poolState = await this.getPoolState(pool);
-      const now = Date.now();
-      if (poolState.lastUpdated === 0) {
-        poolStateDataAge = 'STALE (from config)';
-      } else {
-        const age = now - poolState.lastUpdated;
-        poolStateDataAge = `${age}ms (FRESH - just fetched for swap)`;
-      }
+    // CRITICAL: Force fresh pool state fetch before swap to avoid stale data
+    // Clear cache for every leg's pool to ensure we get the latest reserves
+    console.log(`🔄 Forcing fresh pool state fetch for ${legPools.length} route leg(s)...`);
+    legPools.forEach(pool => delete this.poolStateCache[pool.poolAddress]);
+
+    // Fetch fresh pool states
+    const poolStates = await Promise.all(legPools.map(pool => this.getPoolState(pool)));
+    const now = Date.now();
+    if (poolStates.some(state => state.lastUpdated === 0)) {
+      poolStateDataAge = 'STALE (from config)';
+    } else {
+      const age = Math.max(...poolStates.map(state => now - state.lastUpdated));
+      poolStateDataAge = `${age}ms (FRESH - just fetched for swap)`;
+    }
+
+    // Convert amounts to base units (lamports/smallest unit)
+    const amountIn = BigInt(Math.floor(quote.inputAmount * Math.pow(10, inputTokenConfig.decimals)));
+    const legAmountsIn = this.getLegInputAmounts(quote.route, amountIn);
+
+    // Recalculate every leg's output with fresh reserves to ensure accuracy
+    console.log('🔄 Recalculating swap output with fresh reserves...');
+    const legs: SwapLeg[] = [];
+    let freshOutputHumanReadable = 0;
+    let minOutput = 0;
 
-      // Recalculate the swap output with fresh reserves to ensure accuracy
-      console.log('🔄 Recalculating swap output with fresh reserves...');
+    for (let i = 0; i < legPools.length; i++) {
+      const pool = legPools[i];
+      const poolState = poolStates[i];
       const isForward = pool.tokenA === inputTokenConfig.mint;
-      const inputAmountBase = BigInt(Math.floor(quote.inputAmount * Math.pow(10, inputTokenConfig.decimals)));
       const reserveInBase = isForward ? poolState.reserveA : poolState.reserveB;
       const reserveOutBase = isForward ? poolState.reserveB : poolState.reserveA;
 
-      // Recalculate output with fresh reserves
-      const freshOutputAmount = this.calculateSwapOutput(
-        inputAmountBase,
+      const freshLegOutput = this.calculateSwapOutput(
+        legAmountsIn[i],
         reserveInBase,
-        reserveOutBase
+        reserveOutBase,
+        poolState.feeNumerator,
+        poolState.feeDenominator
       );
+      const freshLegOutputHuman = Number(freshLegOutput) / Math.pow(10, outputTokenConfig.decimals);
 
-      const freshOutputHumanReadable = Number(freshOutputAmount) / Math.pow(10, outputTokenConfig.decimals);
+      // Use the fresh output for minimum calculation
+      const minLegOutput = freshLegOutputHuman * (1 - slippageTolerance / 100);
+      const minimumLegAmountOut = BigInt(Math.floor(minLegOutput * Math.pow(10, outputTokenConfig.decimals)));
+
+      freshOutputHumanReadable += freshLegOutputHuman;
+      minOutput += minLegOutput;
+
+      console.log(`   Leg ${i + 1}/${legPools.length} (Shard ${pool.shardNumber}, ${pool.tokenASymbol}/${pool.tokenBSymbol}, ${isForward ? 'A→B' : 'B→A'}):`);
+      console.log(`     Input (base units): ${legAmountsIn[i].toString()}`);
+      console.log(`     Fresh output: ${freshLegOutputHuman.toFixed(6)} ${outputTokenConfig.symbol}`);
+      console.log(`     Minimum output (base units): ${minimumLegAmountOut.toString()}`);
+
+      legs.push({
+        poolAddress: new PublicKey(pool.poolAddress),
+        poolAuthority: new PublicKey(pool.authority),
+        poolTokenAccountA: new PublicKey(pool.tokenAccountA),
+        poolTokenAccountB: new PublicKey(pool.tokenAccountB),
+        poolTokenMint: new PublicKey(pool.poolTokenMint),
+        feeAccount: new PublicKey(pool.feeAccount),
+        tokenAMint: new PublicKey(pool.tokenA),
+        tokenBMint: new PublicKey(pool.tokenB),
+        amountIn: legAmountsIn[i],
+        minimumAmountOut: minimumLegAmountOut
+      });
+    }
 
-      console.log(`📊 Fresh calculation results:`);
-      console.log(`   Original quote output: ${quote.estimatedOutput.toFixed(6)} ${outputTokenConfig.symbol}`);
-      console.log(`   Fresh output: ${freshOutputHumanReadable.toFixed(6)} ${outputTokenConfig.symbol}`);
-      console.log(`   Difference: ${((freshOutputHumanReadable - quote.estimatedOutput) / quote.estimatedOutput * 100).toFixed(4)}%`);
+    console.log(`📊 Fresh calculation results:`);
+    console.log(`   Original quote output: ${quote.estimatedOutput.toFixed(6)} ${outputTokenConfig.symbol}`);
+    console.log(`   Fresh output: ${freshOutputHumanReadable.toFixed(6)} ${outputTokenConfig.symbol}`);
+    console.log(`   Difference: ${((freshOutputHumanReadable - quote.estimatedOutput) / quote.estimatedOutput * 100).toFixed(4)}%`);
+
+    console.log(`\n🔄 Building Swap Transaction...`);
+    console.log(`  Shard(s): ${legPools.map(p => p.shardNumber).join(', ')}`);
+    console.log(`  Input: ${quote.inputAmount} ${inputTokenConfig.symbol}`);
+    console.log(`  Original Quote Output: ${quote.estimatedOutput.toFixed(6)} ${outputTokenConfig.symbol}`);
+    console.log(`  Fresh Calculated Output: ${freshOutputHumanReadable.toFixed(6)} ${outputTokenConfig.symbol}`);
+    console.log(`  Min Output (${slippageTolerance}% slippage): ${minOutput.toFixed(6)} ${outputTokenConfig.symbol}`);
+    console.log(`  Price Impact: ${quote.priceImpact.toFixed(2)}%`);
+    console.log(`  Pool state data age: ${poolStateDataAge}`);
+
+    // Optional: Check user's token balance before attempting swap
+    // Commented out for now to see actual transaction errors
+    console.log(`  Skipping balance check - will validate during transaction`);
+    console.log(`  Swap amount: ${quote.inputAmount} ${inputTokenConfig.symbol}`);
+    console.log(`  Swap direction: ${inputTokenConfig.symbol} → ${outputTokenConfig.symbol}`);
+
+    // Log transaction simulation details
+    console.log('📋 Transaction Simulation Details:');
+    console.log(`   Input Amount (base units): ${amountIn.toString()}`);
+    console.log(`   Input Token Decimals: ${inputTokenConfig.decimals}`);
+    console.log(`   Output Token Decimals: ${outputTokenConfig.decimals}`);
+
+    // Import swap instruction builder
+    const { buildMultiShardSwapTransaction } = await import('./swapInstructions');
+
+    // Build the transaction with one swap instruction per route leg
+    const built = await buildMultiShardSwapTransaction(
+      this.connection,
+      this.programId,
+      wallet,
+      new PublicKey(inputTokenConfig.mint),
+      new PublicKey(outputTokenConfig.mint),
+      legs,
+      feeSettings
+    );
 
-      // Use the fresh output for minimum calculation
-      const minOutput = freshOutputHumanReadable * (1 - slippageTolerance / 100);
-
-      console.log(`\n🔄 Building Swap Transaction...`);
-      console.log(`  Pool: ${pool.poolAddress}`);
-      console.log(`  Shard: ${pool.shardNumber}`);
-      console.log(`  Input: ${quote.inputAmount} ${inputTokenConfig.symbol}`);
-      console.log(`  Original Quote Output: ${quote.estimatedOutput.toFixed(6)} ${outputTokenConfig.symbol}`);
-      console.log(`  Fresh Calculated Output: ${freshOutputHumanReadable.toFixed(6)} ${outputTokenConfig.symbol}`);
-      console.log(`  Min Output (${slippageTolerance}% slippage): ${minOutput.toFixed(6)} ${outputTokenConfig.symbol}`);
-      console.log(`  Price Impact: ${quote.priceImpact.toFixed(2)}%`);
-      console.log(`  Pool state data age: ${poolStateDataAge}`);
-
-      // Convert amounts to base units (lamports/smallest unit)
-      const amountIn = BigInt(Math.floor(quote.inputAmount * Math.pow(10, inputTokenConfig.decimals)));
-      const minimumAmountOut = BigInt(Math.floor(minOutput * Math.pow(10, outputTokenConfig.decimals)));
-
-      // Optional: Check user's token balance before attempting swap
-      // Commented out for now to see actual transaction errors
-      console.log(`  Skipping balance check - will validate during transaction`);
-      console.log(`  Swap amount: ${quote.inputAmount} ${inputTokenConfig.symbol}`);
-
-      // Import swap instruction builder
-      const { buildSimpleSwapTransaction } = await import('./swapInstructions');
-
-      // Determine which token is A and which is B based on pool configuration
-      const isInputTokenA = pool.tokenA === inputTokenConfig.mint;
-
-      console.log(`  Swap direction: ${inputTokenConfig.symbol} → ${outputTokenConfig.symbol}`);
-      console.log(`  Pool tokens: ${pool.tokenASymbol} (A) / ${pool.tokenBSymbol} (B)`);
-      console.log(`  Is forward swap (A→B): ${isInputTokenA}`);
-
-      // Log transaction simulation details
-      console.log('📋 Transaction Simulation Details:');
-      console.log(`   Input Amount (base units): ${amountIn.toString()}`);
-      console.log(`   Minimum Output (base units): ${minimumAmountOut.toString()}`);
-      console.log(`   Input Token Decimals: ${inputTokenConfig.decimals}`);
-      console.log(`   Output Token Decimals: ${outputTokenConfig.decimals}`);
-
-      // Build the transaction with all required accounts
-      const transaction = await buildSimpleSwapTransaction(
-        this.connection,
-        this.programId,
-        wallet,
-        new PublicKey(pool.poolAddress),
-        new PublicKey(pool.authority),
-        new PublicKey(inputTokenConfig.mint),
-        new PublicKey(outputTokenConfig.mint),
-        new PublicKey(pool.tokenAccountA),
-        new PublicKey(pool.tokenAccountB),
-        new PublicKey(pool.poolTokenMint),
-        new PublicKey(pool.feeAccount),
-        new PublicKey(pool.tokenA),
-        new PublicKey(pool.tokenB),
+    return { ...built, poolStateDataAge };
+  }
+
+  /**
+   * Build the transaction for a multi-hop route
+   * 
+   * Refetches fresh reserves for every hop and chains the hops so each one
+   * spends the previous hop's full expected output, leaving no intermediate
+   * tokens in the wallet. Intermediate hops therefore require their expected
+   * output exactly, and the slippage tolerance bounds the final output only.
+   * 
+   * @param wallet - User wallet public key
+   * @param quote - Multi-hop swap quote from getQuote()
+   * @param slippageTolerance - Slippage tolerance percentage for the whole path
+   * @param feeSettings - Priority fee preferences
+   * @returns v0 transaction and a description of the pool state age for error logging
+   * @private
+   */
+  private async buildMultiHopSwapTransaction(
+    wallet: PublicKey,
+    quote: SwapQuote,
+    slippageTolerance: number,
+    feeSettings?: PriorityFeeSettings
+  ): Promise<BuiltTransaction & { poolStateDataAge: string }> {
+    const inputTokenConfig = dexConfig.tokens.find(t => t.mint === quote.inputToken);
+
+    if (!inputTokenConfig) {
+      throw new Error('Token configuration not found');
+    }
+
+    const slippageBps = BigInt(Math.floor(slippageTolerance * 100));
+    let amountIn = BigInt(Math.floor(quote.inputAmount * Math.pow(10, inputTokenConfig.decimals)));
+    let oldestUpdate = Date.now();
+    let hasStaleState = false;
+    const hops: SwapHop[] = [];
+
+    console.log(`\n🔄 Building Multi-Hop Swap Transaction (${quote.route.length} hops)...`);
+
+    for (const [index, hop] of Array.from(quote.route.entries())) {
+      const pool = findPoolConfig(hop.poolAddress);
+
+      if (!pool || !hop.inputToken || !hop.outputToken) {
+        console.error(`❌ Hop ${index + 1} pool ${hop.poolAddress} not found in configuration`);
+        throw new Error('Selected pool not found in configuration');
+      }
+
+      // CRITICAL: Force fresh pool state fetch before swap to avoid stale data
+      delete this.poolStateCache[pool.poolAddress];
+      const poolState = await this.getPoolState(pool);
+      hasStaleState = hasStaleState || poolState.lastUpdated === 0;
+      oldestUpdate = Math.min(oldestUpdate, poolState.lastUpdated || oldestUpdate);
+
+      const freshOutput = getAmountOut(amountIn, this.toShardLiquidity(pool, poolState, hop.inputToken));
+      // Intermediate hops must deliver everything the next hop spends; the
+      // user's slippage bound applies to the final output only
+      const isFinalHop = index === quote.route.length - 1;
+      const minimumAmountOut = isFinalHop ? freshOutput * (10000n - slippageBps) / 10000n : freshOutput;
+
+      console.log(`   Hop ${index + 1}: ${this.getTokenSymbolByMint(hop.inputToken)} → ${this.getTokenSymbolByMint(hop.outputToken)} via Shard ${pool.shardNumber}`);
+      console.log(`     Input (base units): ${amountIn.toString()}`);
+      console.log(`     Fresh output (base units): ${freshOutput.toString()}`);
+      console.log(`     Minimum output (base units): ${minimumAmountOut.toString()}`);
+
+      hops.push({
+        poolAddress: new PublicKey(pool.poolAddress),
+        poolAuthority: new PublicKey(pool.authority),
+        poolTokenAccountA: new PublicKey(pool.tokenAccountA),
+        poolTokenAccountB: new PublicKey(pool.tokenAccountB),
+        poolTokenMint: new PublicKey(pool.poolTokenMint),
+        feeAccount: new PublicKey(pool.feeAccount),
+        tokenAMint: new PublicKey(pool.tokenA),
+        tokenBMint: new PublicKey(pool.tokenB),
+        inputMint: new PublicKey(hop.inputToken),
+        outputMint: new PublicKey(hop.outputToken),
         amountIn,
         minimumAmountOut
+      });
+
+      // The next hop spends this hop's full expected output, so nothing is
+      // left behind in the intermediate token
+      amountIn = freshOutput;
+    }
+
+    const poolStateDataAge = hasStaleState
+      ? 'STALE (from config)'
+      : `${Date.now() - oldestUpdate}ms (FRESH - just fetched for swap)`;
+
+    const { buildMultiHopSwapTransaction } = await import('./swapInstructions');
+    const built = await buildMultiHopSwapTransaction(
+      this.connection,
+      this.programId,
+      wallet,
+      hops,
+      feeSettings
+    );
+
+    return { ...built, poolStateDataAge };
+  }
+
+  /**
+   * Build the transaction for an exact-output swap
+   * 
+   * Re-quotes the required input against reserves read at build time and
+   * rejects the swap if it drifted above the quoted input by more than the
+   * slippage tolerance, or if the live reserves cannot be read. The swap
+   * instruction then spends exactly that input and requires at least the
+   * requested output.
+   * 
+   * The exact-output guarantee holds on the output side only: on-chain, the
+   * program enforces the minimum output but has no maximum input. The input
+   * bound is a build-time check, so if reserves move against the swap between
+   * build and landing it fails with ExceededSlippage rather than spending more.
+   * 
+   * @param wallet - User wallet public key
+   * @param quote - Exact-output swap quote from getQuoteExactOut()
+   * @param slippageTolerance - Allowed drift of the fresh input above the quoted input, as a percentage
+   * @param feeSettings - Priority fee preferences
+   * @returns v0 transaction and a description of the pool state age for error logging
+   * @throws Error if the live reserves cannot be read or the fresh required input exceeds the maximum input
+   * @private
+   */
+  private async buildExactOutSwapTransaction(
+    wallet: PublicKey,
+    quote: SwapQuote,
+    slippageTolerance: number,
+    feeSettings?: PriorityFeeSettings
+  ): Promise<BuiltTransaction & { poolStateDataAge: string }> {
+    const pool = findPoolConfig(quote.route[0].poolAddress);
+    const inputTokenConfig = dexConfig.tokens.find(t => t.mint === quote.inputToken);
+    const outputTokenConfig = dexConfig.tokens.find(t => t.mint === quote.outputToken);
+
+    if (!pool) {
+      throw new Error('Selected pool not found in configuration');
+    }
+    if (!inputTokenConfig || !outputTokenConfig) {
+      throw new Error('Token configuration not found');
+    }
+
+    // CRITICAL: Force fresh pool state fetch before swap to avoid stale data
+    delete this.poolStateCache[pool.poolAddress];
+    const poolState = await this.getPoolState(pool);
+    // Config reserves would make the input check below meaningless
+    if (poolState.lastUpdated === 0) {
+      throw new Error(`Could not read the current reserves of shard ${pool.shardNumber}. Refresh the quote and try again.`);
+    }
+    const poolStateDataAge = `${Date.now() - poolState.lastUpdated}ms (FRESH - just fetched for swap)`;
+
+    const amountOut = BigInt(Math.floor(quote.estimatedOutput * Math.pow(10, outputTokenConfig.decimals)));
+    const quotedAmountIn = BigInt(Math.floor(quote.inputAmount * Math.pow(10, inputTokenConfig.decimals)));
+    const slippageBps = BigInt(Math.floor(slippageTolerance * 100));
+    // Build-time check only: the instruction sends exactly requiredAmountIn
+    const maximumAmountIn = quotedAmountIn * (10000n + slippageBps) / 10000n;
+    const requiredAmountIn = getAmountIn(amountOut, this.toShardLiquidity(pool, poolState, inputTokenConfig.mint));
+
+    console.log(`\n🔄 Building Exact-Out Swap Transaction...`);
+    console.log(`  Pool: ${pool.poolAddress} (Shard ${pool.shardNumber})`);
+    console.log(`  Exact Output (base units): ${amountOut.toString()}`);
+    console.log(`  Quoted Input (base units): ${quotedAmountIn.toString()}`);
+    console.log(`  Fresh Required Input (base units): ${requiredAmountIn.toString()}`);
+    console.log(`  Allowed Input Drift (${slippageTolerance}%): up to ${maximumAmountIn.toString()}`);
+    console.log(`  Pool state data age: ${poolStateDataAge}`);
+
+    if (requiredAmountIn > maximumAmountIn) {
+      const required = Number(requiredAmountIn) / Math.pow(10, inputTokenConfig.decimals);
+      const maximum = Number(maximumAmountIn) / Math.pow(10, inputTokenConfig.decimals);
+      throw new Error(`Slippage error: Receiving ${quote.estimatedOutput} ${outputTokenConfig.symbol} now requires ${required.toFixed(6)} ${inputTokenConfig.symbol}, above the allowed ${maximum.toFixed(6)}. Try increasing slippage tolerance or refreshing the quote.`);
+    }
+
+    const { buildMultiShardSwapTransaction } = await import('./swapInstructions');
+    const built = await buildMultiShardSwapTransaction(
+      this.connection,
+      this.programId,
+      wallet,
+      new PublicKey(inputTokenConfig.mint),
+      new PublicKey(outputTokenConfig.mint),
+      [{
+        poolAddress: new PublicKey(pool.poolAddress),
+        poolAuthority: new PublicKey(pool.authority),
+        poolTokenAccountA: new PublicKey(pool.tokenAccountA),
+        poolTokenAccountB: new PublicKey(pool.tokenAccountB),
+        poolTokenMint: new PublicKey(pool.poolTokenMint),
+        feeAccount: new PublicKey(pool.feeAccount),
+        tokenAMint: new PublicKey(pool.tokenA),
+        tokenBMint: new PublicKey(pool.tokenB),
+        amountIn: requiredAmountIn,
+        minimumAmountOut: amountOut
+      }],
+      feeSettings
+    );
+
+    return { ...built, poolStateDataAge };
+  }
+
+  /**
+   * Build the Jupiter transaction for a Jupiter-sourced quote
+   * 
+   * Requests the swap transaction for the quoted route from the Jupiter API.
+   * If the slippage tolerance changed since the quote was taken, the route is
+   * re-quoted first so the on-chain minimum output matches the user's setting.
+   * 
+   * @param wallet - User wallet public key
+   * @param quote - Quote with source 'jupiter'
+   * @param slippageTolerance - Slippage tolerance percentage
+   * @param feeSettings - Priority fee preferences
+   * @returns Unsigned transaction and the block height its blockhash expires at
+   * @throws Error if Jupiter is disabled or has no route
+   * @private
+   */
+  private async buildJupiterSwapTransaction(
+    wallet: PublicKey,
+    quote: SwapQuote,
+    slippageTolerance: number,
+    feeSettings?: PriorityFeeSettings
+  ): Promise<{ transaction: VersionedTransaction; lastValidBlockHeight: number }> {
+    if (!this.jupiter || !quote.jupiterQuote) {
+      throw new Error('Jupiter quote not available');
+    }
+
+    let jupiterQuote = quote.jupiterQuote;
+    if (jupiterQuote.slippageBps !== Math.floor(slippageTolerance * 100)) {
+      console.log(`🔄 Slippage changed to ${slippageTolerance}%, re-quoting Jupiter route...`);
+      const refreshed = await this.jupiter.getOptimizedQuote(
+        jupiterQuote.inputMint,
+        jupiterQuote.outputMint,
+        jupiterQuote.inAmount,
+        { slippageTolerance, deadline: 20 }
       );
+      if (!refreshed) {
+        throw new Error('Jupiter route is no longer available. Please refresh the quote.');
+      }
+      jupiterQuote = refreshed;
+    }
+
+    console.log('🪐 Building Jupiter swap');
+    console.log(`   Route: ${jupiterQuote.routePlan.map(step => step.swapInfo.label).join(' → ')}`);
+    console.log(`   Minimum Output (base units): ${jupiterQuote.otherAmountThreshold}`);
+
+    // Jupiter sets its own compute budget; pass the fee the user asked for
+    const { priorityFee, autoOptimizeFees } = feeSettings ?? DEFAULT_PRIORITY_FEE_SETTINGS;
+    const { swapTransaction, lastValidBlockHeight } = await this.jupiter.getSwapTransaction(
+      jupiterQuote,
+      wallet,
+      {
+        slippageTolerance,
+        deadline: 20,
+        priorityFee: priorityFee > 0 ? priorityFee : undefined,
+        computeUnitPriceMicroLamports: priorityFee <= 0 && autoOptimizeFees
+          ? await this.jupiter.getOptimalComputeUnitPrice()
+          : undefined
+      }
+    );
+
+    return {
+      transaction: VersionedTransaction.deserialize(Buffer.from(swapTransaction, 'base64')),
+      lastValidBlockHeight,
+    };
+  }
+
+  /**
+   * Execute a swap through Jupiter
+   * 
+   * Builds the Jupiter transaction, simulates it, then signs, sends and
+   * confirms it on our connection.
+   * 
+   * @param walletAdapter - Wallet adapter with signTransaction
+   * @param quote - Quote with source 'jupiter'
+   * @param slippageTolerance - Slippage tolerance percentage
+   * @param feeSettings - Priority fee preferences
+   * @returns Promise resolving to transaction signature
+   * @throws DexTransactionError if the simulation or transaction fails
+   * @throws Error if Jupiter is disabled or has no route
+   * @private
+   */
+  private async executeJupiterSwap(
+    walletAdapter: any,
+    quote: SwapQuote,
+    slippageTolerance: number,
+    feeSettings?: PriorityFeeSettings
+  ): Promise<string> {
+    const { transaction, lastValidBlockHeight } = await this.buildJupiterSwapTransaction(
+      walletAdapter.publicKey,
+      quote,
+      slippageTolerance,
+      feeSettings
+    );
+
+    await simulateDexTransaction(this.connection, transaction);
+
+    console.log('🔐 Requesting wallet signature...');
+    const signedTransaction = await walletAdapter.signTransaction(transaction);
+
+    // Already simulated above, so skip the RPC's duplicate preflight
+    const signature = await this.connection.sendRawTransaction(
+      signedTransaction.serialize(),
+      {
+        skipPreflight: true,
+        maxRetries: 3,
+      }
+    );
+
+    console.log('⏳ Confirming Jupiter swap...');
+    console.log(`   Signature: ${signature}`);
+
+    const confirmation = await this.connection.confirmTransaction(
+      {
+        signature,
+        blockhash: transaction.message.recentBlockhash,
+        lastValidBlockHeight,
+      },
+      'confirmed'
+    );
+
+    if (confirmation.value.err) {
+      throw await getConfirmedTransactionError(this.connection, signature, confirmation.value.err);
+    }
+
+    console.log('✅ Jupiter swap completed successfully!');
+    return signature;
+  }
+
+  /**
+   * Build the transaction for a SAMM quote
+   * 
+   * Dispatches to the exact-output, multi-hop or direct (optionally split)
+   * builder according to the quote.
+   * 
+   * @private
+   */
+  private buildSwapTransaction(
+    wallet: PublicKey,
+    quote: SwapQuote,
+    slippageTolerance: number,
+    feeSettings?: PriorityFeeSettings
+  ): Promise<BuiltTransaction & { poolStateDataAge: string }> {
+    if (quote.quoteMode === 'exactOut') {
+      return this.buildExactOutSwapTransaction(wallet, quote, slippageTolerance, feeSettings);
+    }
+    if (quote.path && quote.path.length > 2) {
+      return this.buildMultiHopSwapTransaction(wallet, quote, slippageTolerance, feeSettings);
+    }
+    return this.buildSplitSwapTransaction(wallet, quote, slippageTolerance, feeSettings);
+  }
+
+  /**
+   * Simulate a swap without signing it
+   * 
+   * Builds the same transaction executeSwap would send (with fresh reserves and
+   * the same slippage bounds) and simulates it. The output is read from the
+   * user's output token account, so it reflects the actual on-chain math
+   * rather than the quote's estimate. Used to show the expected output before
+   * the user signs.
+   * 
+   * @param wallet - User wallet public key
+   * @param quote - Swap quote from getQuote()
+   * @param slippageTolerance - Slippage tolerance percentage (default: 0.5%)
+   * @param feeSettings - Priority fee preferences (default: auto-optimized priority fee)
+   * @returns Promise resolving to the simulated output and compute usage
+   * @throws DexTransactionError with the decoded program error if the swap would fail
+   */
+  async simulateSwap(
+    wallet: PublicKey,
+    quote: SwapQuote,
+    slippageTolerance: number = 0.5,
+    feeSettings?: PriorityFeeSettings
+  ): Promise<SwapSimulation> {
+    const outputTokenConfig = dexConfig.tokens.find(t => t.mint === quote.outputToken);
+    const outputMint = new PublicKey(quote.outputToken);
+
+    let transaction: VersionedTransaction;
+    let priorityFeeLamports = 0;
+    if (quote.source === 'jupiter') {
+      ({ transaction } = await this.buildJupiterSwapTransaction(wallet, quote, slippageTolerance, feeSettings));
+    } else {
+      const built = await this.buildSwapTransaction(wallet, quote, slippageTolerance, feeSettings);
+      transaction = built.transaction;
+      priorityFeeLamports = built.computeBudget?.priorityFeeLamports ?? 0;
+    }
+
+    // Jupiter unwraps native SOL output, so the wrapped SOL account shows no change
+    const canObserveOutput = !(quote.source === 'jupiter' && outputMint.equals(NATIVE_MINT));
+
+    const simulation = await simulateDexTransaction(this.connection, transaction, {
+      outputTokenAccount: canObserveOutput ? getAssociatedTokenAddressSync(outputMint, wallet) : undefined,
+    });
+
+    return {
+      outputAmount: simulation.outputAmount !== undefined && outputTokenConfig
+        ? Number(simulation.outputAmount) / Math.pow(10, outputTokenConfig.decimals)
+        : undefined,
+      unitsConsumed: simulation.unitsConsumed,
+      priorityFeeLamports,
+      logs: simulation.logs,
+    };
+  }
+
+  /**
+   * Execute swap on the sharded DEX
+   * 
+   * Executes a swap transaction using the provided quote:
+   * 
+   * Process:
+   * 1. Validate every route leg's pool exists in configuration
+   * 2. Force fresh pool state fetch (clears cache)
+   * 3. Recalculate each leg's output with fresh reserves
+   * 4. Calculate per-leg minimum output with slippage tolerance
+   * 5. Build one transaction with a swap instruction per leg (split shards
+   *    or chained hops for multi-hop routes)
+   * 6. Simulate the transaction; a failure is decoded from the program logs
+   *    and thrown before the wallet is asked to sign
+   * 7. Sign transaction with wallet
+   * 8. Send and confirm transaction
+   * 
+   * Safety Features:
+   * - Fresh pool state to avoid stale data
+   * - Slippage protection with minimum output
+   * - Comprehensive error handling
+   * - Detailed logging for debugging
+   * 
+   * Error Handling:
+   * - Program errors (slippage, insufficient balance, ...) are thrown as
+   *   DexTransactionError with a decoded SolanaError
+   * - User rejection
+   * - Insufficient funds
+   * - Token account errors
+   * 
+   * @param walletAdapter - Wallet adapter with signTransaction method
+   * @param quote - Swap quote from getQuote()
+   * @param slippageTolerance - Slippage tolerance percentage (default: 0.5%); for
+   *        exact-output quotes this bounds the extra input instead of the output
+   * @param feeSettings - Priority fee preferences (default: auto-optimized priority fee)
+   * @returns Promise resolving to transaction signature
+   * @throws DexTransactionError if the simulation or transaction fails
+   * @throws Error if validation fails or user rejects
+   */
+  async executeSwap(
+    walletAdapter: any, // Wallet adapter with signTransaction
+    quote: SwapQuote,
+    slippageTolerance: number = 0.5,
+    feeSettings?: PriorityFeeSettings
+  ): Promise<string> {
+    if (quote.source === 'jupiter') {
+      return this.executeJupiterSwap(walletAdapter, quote, slippageTolerance, feeSettings);
+    }
+
+    // Store pool state data age for error logging
+    let poolStateDataAge: string = 'unknown';
+
+    try {
+      const wallet = walletAdapter.publicKey;
+
+      // Build the transaction for an exact-output, multi-hop or direct (optionally split) route
+      const built = await this.buildSwapTransaction(wallet, quote, slippageTolerance, feeSettings);
+      const transaction = built.transaction;
+      poolStateDataAge = built.poolStateDataAge;
 
       console.log('📝 Transaction built successfully');
       console.log('   Transaction details:', {
-        instructions: transaction.instructions.length,
-        feePayer: transaction.feePayer?.toBase58(),
-        recentBlockhash: transaction.recentBlockhash
+        version: transaction.version,
+        instructions: built.instructions.length,
+        lookupTables: transaction.message.addressTableLookups.length,
+        size: transaction.serialize().length,
+        feePayer: wallet.toBase58(),
+        recentBlockhash: built.blockhash,
+        computeUnitLimit: built.computeBudget?.computeUnitLimit,
+        priorityFeeLamports: built.computeBudget?.priorityFeeLamports
       });
+
+      // Simulate before signing; throws a decoded DexTransactionError on failure
+      await simulateDexTransaction(this.connection, transaction);
+
       console.log('🔐 Requesting wallet signature...');
 
       // Sign the transaction with wallet
@@ -1446,14 +2849,12 @@ class ShardedDexService {
 
       console.log('✅ Transaction signed');
       console.log('📤 Sending transaction to Solana...');
-      console.log('   Preflight checks enabled');
 
-      // Send the signed transaction
+      // Send the signed transaction (already simulated, so skip the RPC's duplicate preflight)
       const signature = await this.connection.sendRawTransaction(
         signedTransaction.serialize(),
         {
-          skipPreflight: false,
-          preflightCommitment: 'confirmed',
+          skipPreflight: true,
           maxRetries: 3,
         }
       );
@@ -1467,14 +2868,14 @@ class ShardedDexService {
       const confirmation = await this.connection.confirmTransaction(
         {
           signature,
-          blockhash: transaction.recentBlockhash!,
-          lastValidBlockHeight: transaction.lastValidBlockHeight!,
+          blockhash: built.blockhash,
+          lastValidBlockHeight: built.lastValidBlockHeight,
         },
         'confirmed'
       );
 
       if (confirmation.value.err) {
-        throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+        throw await getConfirmedTransactionError(this.connection, signature, confirmation.value.err);
       }
 
       console.log('✅ Swap completed successfully!');
@@ -1490,7 +2891,7 @@ class ShardedDexService {
       console.error(`   Original Quote Output: ${quote.estimatedOutput.toFixed(6)} ${dexConfig.tokens.find(t => t.mint === quote.outputToken)?.symbol || 'tokens'}`);
 
       // Try to get fresh output if available
-      const pool = dexConfig.pools.find(p => p.poolAddress === quote.route[0].poolAddress);
+      const pool = findPoolConfig(quote.route[0].poolAddress);
       const inputTokenConfig = dexConfig.tokens.find(t => t.mint === quote.inputToken);
       const outputTokenConfig = dexConfig.tokens.find(t => t.mint === quote.outputToken);
 
@@ -1502,7 +2903,13 @@ class ShardedDexService {
             const inputAmountBase = BigInt(Math.floor(quote.inputAmount * Math.pow(10, inputTokenConfig.decimals)));
             const reserveInBase = isForward ? poolState.reserveA : poolState.reserveB;
             const reserveOutBase = isForward ? poolState.reserveB : poolState.reserveA;
-            const freshOutput = this.calculateSwapOutput(inputAmountBase, reserveInBase, reserveOutBase);
+            const freshOutput = this.calculateSwapOutput(
+              inputAmountBase,
+              reserveInBase,
+              reserveOutBase,
+              poolState.feeNumerator,
+              poolState.feeDenominator
+            );
             const freshOutputHuman = Number(freshOutput) / Math.pow(10, outputTokenConfig.decimals);
             console.error(`   Fresh Calculated Output: ${freshOutputHuman.toFixed(6)} ${outputTokenConfig.symbol}`);
           }
@@ -1530,14 +2937,11 @@ class ShardedDexService {
         message: error instanceof Error ? error.message : String(error),
       });
 
-      // Log transaction simulation logs if available
-      if (error instanceof Error && error.message.includes('simulation')) {
-        console.error('⚠️  Transaction Simulation Failed');
-        console.error('   This usually indicates:');
-        console.error('   - Insufficient token balance');
-        console.error('   - Slippage tolerance too low for current market conditions');
-        console.error('   - Pool reserves changed significantly since quote was generated');
-        console.error(`   - Pool state was ${poolStateDataAge}`);
+      // Program errors are already decoded from the logs
+      if (error instanceof DexTransactionError) {
+        console.error(`⚠️  Decoded error: ${error.solanaError.code}`);
+        console.error('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+        throw error;
       }
 
       console.error('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
@@ -1554,10 +2958,6 @@ class ShardedDexService {
           throw new Error('Insufficient token balance or token account not found. Please ensure you have enough balance.');
         } else if (message.includes('tokenaccountnotfound') || message.includes('token account not found')) {
           throw new Error('Token account not found. Please ensure you have the input token.');
-        } else if (message.includes('simulation failed')) {
-          throw new Error(`Transaction simulation failed. Pool state age: ${poolStateDataAge}. Please refresh the quote and try again with higher slippage tolerance.`);
-        } else if (message.includes('slippage') || message.includes('minimum')) {
-          throw new Error(`Slippage error: Expected ${quote.estimatedOutput.toFixed(6)}, minimum ${(quote.estimatedOutput * (1 - slippageTolerance / 100)).toFixed(6)}. Pool state: ${poolStateDataAge}. Try increasing slippage tolerance or refreshing the quote.`);
         }
       }
 
@@ -1569,40 +2969,103 @@ class ShardedDexService {
   /**
    * Get pool statistics
    * 
-   * TODO: Implement actual on-chain data fetching and calculations
+   * Indexes the pool's new transactions (see poolIndexer), then computes rolling
+   * figures from the stored swap events. Amounts are in token A (human-readable).
    * 
    * @param poolAddress - Pool address to get statistics for
-   * @returns Promise resolving to pool statistics
+   * @returns Promise resolving to pool statistics (apy is the fee APR as a percentage)
+   * @throws Error if the pool is unknown
    */
   async getPoolStats(poolAddress: string): Promise<{
     tvl: number;
     volume24h: number;
+    volume7d: number;
     fees24h: number;
+    fees7d: number;
     apy: number;
   }> {
-    // TODO: Fetch on-chain data and calculate stats
-    const pool = dexConfig.pools.find(p => p.poolAddress === poolAddress);
+    const pool = findPoolConfig(poolAddress);
 
     if (!pool) {
       throw new Error('Pool not found');
     }
 
-    // Placeholder - implement actual on-chain data fetching
+    const stats = await this.getShardStats(pool);
+    const tokenA = dexConfig.tokens.find(t => t.mint === pool.tokenA);
+    const scale = Math.pow(10, tokenA?.decimals ?? 9);
+
     return {
-      tvl: parseFloat(pool.liquidityA) * 2, // Rough estimate
-      volume24h: 0,
-      fees24h: 0,
-      apy: 0
+      tvl: Number(stats.tvl) / scale,
+      volume24h: Number(stats.volume24h) / scale,
+      volume7d: Number(stats.volume7d) / scale,
+      fees24h: Number(stats.fees24h) / scale,
+      fees7d: Number(stats.fees7d) / scale,
+      apy: stats.feeApr * 100
     };
   }
 
+  /**
+   * Get rolling statistics of every shard of a trading pair
+   * 
+   * Amounts are in token A base units of the pair's first shard; shards stored
+   * in the opposite token order are left out since their amounts are in the
+   * other token.
+   * 
+   * @param symbolA - Token A symbol (e.g., 'USDC')
+   * @param symbolB - Token B symbol (e.g., 'SOL')
+   * @returns Promise resolving to pair statistics with per-shard breakdown
+   * @throws Error if the pair has no shards
+   */
+  async getPairStats(symbolA: string, symbolB: string): Promise<PairStats> {
+    const shards = this.getShardsBySymbol(symbolA, symbolB);
+
+    if (shards.length === 0) {
+      throw new Error(`No pools found for ${symbolA}/${symbolB}`);
+    }
+
+    const sameOrder = shards.filter(shard => shard.tokenA === shards[0].tokenA);
+    if (sameOrder.length < shards.length) {
+      console.warn(`⚠️  ${shards.length - sameOrder.length} shard(s) of ${symbolA}/${symbolB} use the opposite token order and are left out of pair stats`);
+    }
+
+    const stats = await Promise.all(sameOrder.map(shard => this.getShardStats(shard)));
+    return computePairStats(stats);
+  }
+
+  /**
+   * Index a shard's new transactions and compute its rolling stats
+   * 
+   * @param pool - Pool configuration
+   * @returns Promise resolving to shard stats in token A base units
+   * @private
+   */
+  private async getShardStats(pool: ShardedPool): Promise<ShardStats> {
+    const [state] = await Promise.all([
+      this.getPoolState(pool),
+      syncPoolIndex(this.connection, [pool])
+    ]);
+
+    return getShardStats({
+      poolAddress: pool.poolAddress,
+      shardNumber: pool.shardNumber,
+      reserveA: state.reserveA,
+      feeNumerator: state.feeNumerator,
+      feeDenominator: state.feeDenominator
+    });
+  }
+
   /**
    * Get all trading pairs
    * 
+   * Shard counts include shards registered at runtime.
+   * 
    * @returns Array of trading pairs with shard counts
    */
   getTradingPairs(): Array<{ pair: string; shards: number }> {
-    return dexConfig.summary.pairs;
+    return dexConfig.summary.pairs.map(({ pair }) => {
+      const [symbolA, symbolB] = pair.split('/');
+      return { pair, shards: this.getShardsBySymbol(symbolA, symbolB).length };
+    });
   }
 
   /**
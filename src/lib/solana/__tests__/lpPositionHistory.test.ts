@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { computePositionPnl, LiquidityEvent } from '../lpPositionHistory';
+
+function event(
+  lpAmount: bigint,
+  amountA: bigint,
+  amountB: bigint,
+  reserveA: bigint,
+  reserveB: bigint,
+  slot: number = 1
+): LiquidityEvent {
+  return {
+    signature: `sig${slot}`,
+    slot,
+    blockTime: slot,
+    poolAddress: 'pool',
+    type: lpAmount > 0n ? 'addLiquidity' : 'removeLiquidity',
+    amountA,
+    amountB,
+    lpAmount,
+    reserveA,
+    reserveB,
+  };
+}
+
+// 1000 A + 1000 B for 10% of a 10000/10000 pool (1 B = 1 A)
+const deposit = event(100n, 1000n, 1000n, 10000n, 10000n);
+
+describe('computePositionPnl', () => {
+  it('reports impermanent loss after a price move without fees', () => {
+    // Same invariant (1e8), price of B moved from 1 to 4 A
+    const pnl = computePositionPnl([deposit], { lpBalance: 100n, lpSupply: 1000n, reserveA: 20000n, reserveB: 5000n })!;
+
+    expect(pnl.costBasis).toBe(2000n);
+    expect(pnl.holdValue).toBe(5000n);
+    expect(pnl.lpValue).toBe(4000n);
+    expect(pnl.feesEarned).toBe(0n);
+    // 2 × sqrt(4) / (1 + 4) - 1
+    expect(pnl.impermanentLoss).toBeCloseTo(-0.2);
+    expect(pnl.netPnl).toBe(2000n);
+    expect(pnl.historyComplete).toBe(true);
+  });
+
+  it('attributes invariant growth to fees', () => {
+    // Invariant per LP grew 10% at the same price
+    const pnl = computePositionPnl([deposit], { lpBalance: 100n, lpSupply: 1000n, reserveA: 11000n, reserveB: 11000n })!;
+
+    expect(pnl.lpValue).toBe(2200n);
+    expect(pnl.holdValue).toBe(2000n);
+    expect(pnl.feesEarned).toBe(200n);
+    expect(pnl.impermanentLoss).toBeCloseTo(0);
+    expect(pnl.netPnl).toBe(200n);
+  });
+
+  it('realizes P&L on withdrawals at average cost', () => {
+    // Withdraw half the position after B doubled in price
+    const withdrawal = event(-50n, -707n, -353n, 14142n, 7071n, 2);
+    const pnl = computePositionPnl([deposit, withdrawal], {
+      lpBalance: 50n,
+      lpSupply: 1000n,
+      reserveA: 14142n,
+      reserveB: 7071n,
+    })!;
+
+    expect(pnl.costBasis).toBe(1000n);
+    expect(pnl.depositedA).toBe(500n);
+    expect(pnl.depositedB).toBe(500n);
+    // 707 + 353 × 2 - 1000
+    expect(pnl.realizedPnl).toBe(413n);
+    expect(pnl.netPnl).toBe(pnl.realizedPnl + pnl.lpValue - 1000n);
+  });
+
+  it('scales the history to the balance when LP tokens were transferred in', () => {
+    const pnl = computePositionPnl([deposit], { lpBalance: 200n, lpSupply: 1000n, reserveA: 10000n, reserveB: 10000n })!;
+
+    expect(pnl.historyComplete).toBe(false);
+    expect(pnl.costBasis).toBe(4000n);
+    expect(pnl.lpValue).toBe(4000n);
+  });
+
+  it('leaves single-sided deposits out of the fee estimate', () => {
+    // 2100 A only, minting another 100 LP once the pool has grown to 12100/10000
+    const single = { ...event(100n, 2100n, 0n, 12100n, 10000n, 2), type: 'addSingle' as const };
+    // Invariant per LP grew 10% since both deposits
+    const pnl = computePositionPnl([deposit, single], { lpBalance: 200n, lpSupply: 1100n, reserveA: 13310n, reserveB: 11000n })!;
+
+    expect(pnl.feesComplete).toBe(false);
+    expect(pnl.costBasis).toBe(4100n);
+    expect(pnl.lpValue).toBe(4840n);
+    // Balanced half (2420) grew from an invariant of 1000 to 12100 × 100 / 1100 = 1100
+    expect(pnl.feesEarned).toBe(220n);
+    expect(computePositionPnl([deposit], { lpBalance: 100n, lpSupply: 1000n, reserveA: 11000n, reserveB: 11000n })!.feesComplete).toBe(true);
+  });
+
+  it('returns null without a deposit', () => {
+    expect(computePositionPnl([], { lpBalance: 100n, lpSupply: 1000n, reserveA: 1n, reserveB: 1n })).toBeNull();
+  });
+});
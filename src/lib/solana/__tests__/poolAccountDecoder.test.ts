@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import {
+  decodePoolAccount,
+  getSwapFee,
+  feeToPercent,
+  CurveType,
+  POOL_ACCOUNT_SIZE,
+  PoolFees,
+} from '../poolAccountDecoder';
+
+const key = (seed: number) => new PublicKey(new Uint8Array(32).fill(seed));
+
+function encodePoolAccount(fees: bigint[], curveType: number, isInitialized = 1): Buffer {
+  const data = Buffer.alloc(POOL_ACCOUNT_SIZE);
+  data.writeUInt8(1, 0);
+  data.writeUInt8(isInitialized, 1);
+  data.writeUInt8(254, 2);
+  for (let i = 0; i < 7; i++) {
+    key(i + 1).toBuffer().copy(data, 3 + i * 32);
+  }
+  fees.forEach((fee, i) => data.writeBigUInt64LE(fee, 227 + i * 8));
+  data.writeUInt8(curveType, 291);
+  data.fill(7, 292, 324);
+  return data;
+}
+
+const fees = (tradeNum: bigint, tradeDen: bigint, ownerNum: bigint, ownerDen: bigint): PoolFees => ({
+  tradeFeeNumerator: tradeNum,
+  tradeFeeDenominator: tradeDen,
+  ownerTradeFeeNumerator: ownerNum,
+  ownerTradeFeeDenominator: ownerDen,
+  ownerWithdrawFeeNumerator: 0n,
+  ownerWithdrawFeeDenominator: 0n,
+  hostFeeNumerator: 0n,
+  hostFeeDenominator: 0n,
+});
+
+describe('poolAccountDecoder', () => {
+  describe('decodePoolAccount', () => {
+    it('decodes accounts, fees and curve from the pool layout', () => {
+      const data = encodePoolAccount([25n, 10000n, 5n, 10000n, 0n, 0n, 20n, 100n], CurveType.ConstantProduct);
+
+      const decoded = decodePoolAccount(data);
+
+      expect(decoded.version).toBe(1);
+      expect(decoded.isInitialized).toBe(true);
+      expect(decoded.bumpSeed).toBe(254);
+      expect(decoded.tokenAccountA.equals(key(2))).toBe(true);
+      expect(decoded.poolMint.equals(key(4))).toBe(true);
+      expect(decoded.feeAccount.equals(key(7))).toBe(true);
+      expect(decoded.fees.tradeFeeNumerator).toBe(25n);
+      expect(decoded.fees.tradeFeeDenominator).toBe(10000n);
+      expect(decoded.fees.ownerTradeFeeNumerator).toBe(5n);
+      expect(decoded.fees.hostFeeDenominator).toBe(100n);
+      expect(decoded.curve.curveType).toBe(CurveType.ConstantProduct);
+      expect(decoded.curve.parameters).toHaveLength(32);
+    });
+
+    it('rejects short or uninitialized accounts', () => {
+      expect(() => decodePoolAccount(Buffer.alloc(100))).toThrow('expected 324 bytes');
+      expect(() => decodePoolAccount(encodePoolAccount([], 0, 0))).toThrow('not initialized');
+    });
+  });
+
+  describe('getSwapFee', () => {
+    it('adds the trade and owner trade fees', () => {
+      const fee = getSwapFee(fees(25n, 10000n, 5n, 10000n));
+
+      expect(feeToPercent(fee.feeNumerator, fee.feeDenominator)).toBeCloseTo(0.3, 10);
+    });
+
+    it('ignores fees with a zero denominator', () => {
+      expect(getSwapFee(fees(1n, 100n, 0n, 0n))).toEqual({ feeNumerator: 1n, feeDenominator: 100n });
+      expect(getSwapFee(fees(0n, 0n, 0n, 0n))).toEqual({ feeNumerator: 0n, feeDenominator: 1n });
+    });
+  });
+});
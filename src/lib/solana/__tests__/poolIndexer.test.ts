@@ -0,0 +1,213 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransactionResponse,
+} from '@solana/web3.js';
+import dexConfig from '@/config/dex-config.json';
+import { decodeSammInstructionData, decodeSammTransaction } from '../instructionDecoder';
+import { computePairStats, computeShardStats, extractPoolEvents, indexPool } from '../poolIndexer';
+import { MemoryPoolEventStore, PoolEvent } from '../poolEventStore';
+
+const pool = dexConfig.pools[0];
+const programId = new PublicKey(dexConfig.programId);
+const user = Keypair.generate().publicKey;
+
+function u64(value: bigint): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(value);
+  return buffer;
+}
+
+/**
+ * Confirmed swap of 1000 token A for 480 token B, with the user listed before the pool
+ */
+function swapTransaction(): VersionedTransactionResponse {
+  const message = new TransactionMessage({
+    payerKey: user,
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions: [
+      new TransactionInstruction({
+        programId,
+        keys: [
+          { pubkey: user, isSigner: true, isWritable: true },
+          { pubkey: new PublicKey(pool.poolAddress), isSigner: false, isWritable: true },
+          { pubkey: new PublicKey(pool.tokenAccountA), isSigner: false, isWritable: true },
+          { pubkey: new PublicKey(pool.tokenAccountB), isSigner: false, isWritable: true },
+        ],
+        data: Buffer.concat([Buffer.from([1]), u64(1000n), u64(470n)]),
+      }),
+    ],
+  }).compileToLegacyMessage();
+
+  const indexOf = (address: string) =>
+    message.accountKeys.findIndex(key => key.toBase58() === address);
+  const balance = (address: string, mint: string, amount: string) => ({
+    accountIndex: indexOf(address),
+    mint,
+    owner: 'authority',
+    uiTokenAmount: { amount, decimals: 6, uiAmount: null, uiAmountString: '' },
+  });
+
+  return {
+    slot: 100,
+    blockTime: 1_700_000_000,
+    transaction: { message, signatures: ['sig'] },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [],
+      postBalances: [],
+      preTokenBalances: [
+        balance(pool.tokenAccountA, pool.tokenA, '50000'),
+        balance(pool.tokenAccountB, pool.tokenB, '25000'),
+      ],
+      postTokenBalances: [
+        balance(pool.tokenAccountA, pool.tokenA, '51000'),
+        balance(pool.tokenAccountB, pool.tokenB, '24520'),
+      ],
+    },
+  } as unknown as VersionedTransactionResponse;
+}
+
+function swapEvent(blockTime: number, deltaA: string, deltaB: string): PoolEvent {
+  return {
+    id: `sig${blockTime}:0`,
+    signature: `sig${blockTime}`,
+    slot: blockTime,
+    blockTime,
+    poolAddress: 'pool1',
+    shardNumber: 1,
+    type: 'swap',
+    deltaA,
+    deltaB,
+  };
+}
+
+/**
+ * Connection serving a pool's signature history (newest first) in pages
+ */
+function historyConnection(history: string[]): Connection {
+  const blockTime = Math.floor(Date.now() / 1000);
+  return {
+    getSignaturesForAddress: async (_address: PublicKey, options: { before?: string; until?: string; limit: number }) => {
+      const start = options.before ? history.indexOf(options.before) + 1 : 0;
+      const end = options.until ? history.indexOf(options.until) : history.length;
+      return history.slice(start, end).slice(0, options.limit).map(signature => ({ signature, blockTime, err: null }));
+    },
+    getTransactions: async (signatures: string[]) => signatures.map(() => null),
+  } as unknown as Connection;
+}
+
+describe('decodeSammInstructionData', () => {
+  it('decodes instruction arguments by discriminator', () => {
+    const data = Buffer.concat([Buffer.from([2]), u64(10n), u64(20n), u64(30n)]);
+
+    expect(decodeSammInstructionData(data)).toEqual({
+      type: 'addLiquidity',
+      poolTokenAmount: 10n,
+      maximumTokenA: 20n,
+      maximumTokenB: 30n,
+    });
+  });
+
+  it('rejects unknown discriminators and truncated data', () => {
+    expect(decodeSammInstructionData(Buffer.from([9]))).toBeNull();
+    expect(decodeSammInstructionData(Buffer.from([1, 0, 0]))).toBeNull();
+  });
+});
+
+describe('decodeSammTransaction', () => {
+  it('resolves the pool and shard wherever the pool account is listed', () => {
+    const [instruction] = decodeSammTransaction(swapTransaction());
+
+    expect(instruction.args).toEqual({ type: 'swap', amountIn: 1000n, minimumAmountOut: 470n });
+    expect(instruction.poolAddress).toBe(pool.poolAddress);
+    expect(instruction.shardNumber).toBe(pool.shardNumber);
+  });
+});
+
+describe('extractPoolEvents', () => {
+  it('records exact vault changes of the pool', () => {
+    const events = extractPoolEvents(swapTransaction(), 'sig', pool);
+
+    expect(events).toEqual([expect.objectContaining({
+      id: 'sig:0',
+      type: 'swap',
+      blockTime: 1_700_000_000,
+      deltaA: '1000',
+      deltaB: '-480',
+    })]);
+  });
+
+  it('skips failed transactions', () => {
+    const tx = swapTransaction();
+    tx.meta!.err = { InstructionError: [0, 'Custom'] } as any;
+
+    expect(extractPoolEvents(tx, 'sig', pool)).toEqual([]);
+  });
+});
+
+describe('computeShardStats', () => {
+  const now = 10 * 24 * 60 * 60;
+  const shard = { poolAddress: 'pool1', shardNumber: 1, reserveA: 500_000n, feeNumerator: 3n, feeDenominator: 1000n };
+
+  it('sums the token A side of swaps over rolling windows', () => {
+    const stats = computeShardStats([
+      swapEvent(now - 60, '1000', '-480'), // A in
+      swapEvent(now - 120, '-2000', '1010'), // A out
+      swapEvent(now - 3 * 24 * 60 * 60, '4000', '-1900'), // within 7 days
+      swapEvent(now - 8 * 24 * 60 * 60, '9000', '-4000'), // too old
+    ], shard, now);
+
+    expect(stats.volume24h).toBe(3000n);
+    expect(stats.volume7d).toBe(7000n);
+    expect(stats.fees24h).toBe(9n);
+    expect(stats.fees7d).toBe(21n);
+    expect(stats.swaps24h).toBe(2);
+    expect(stats.tvl).toBe(1_000_000n);
+    expect(stats.feeApr).toBeCloseTo((21 / 7) * 365 / 1_000_000);
+  });
+
+  it('sums shards into pair stats', () => {
+    const a = computeShardStats([swapEvent(now - 60, '1000', '-480')], shard, now);
+    const b = computeShardStats([], { ...shard, shardNumber: 2 }, now);
+    const pair = computePairStats([a, b]);
+
+    expect(pair.volume24h).toBe(1000n);
+    expect(pair.tvl).toBe(2_000_000n);
+    expect(pair.feeApr).toBeCloseTo((3 / 7) * 365 / 2_000_000);
+  });
+});
+
+describe('indexPool', () => {
+  it('resumes a walk cut short by the page limit instead of skipping older signatures', async () => {
+    const history = Array.from({ length: 2500 }, (_, i) => `sig${i}`);
+    const store = new MemoryPoolEventStore();
+    const options = { maxPages: 1, batchSize: 1000 };
+
+    const first = await indexPool(historyConnection(history), pool, store, options);
+    expect(first.signatures).toBe(1000);
+    expect(await store.getCursor(pool.poolAddress)).toBe('sig0');
+    expect(await store.getResumePoint(pool.poolAddress)).toEqual({ before: 'sig999', until: null });
+
+    // New signatures arrive while the backfill is still running
+    history.unshift('new1', 'new0');
+
+    const second = await indexPool(historyConnection(history), pool, store, options);
+    expect(second.signatures).toBe(1000);
+    expect(await store.getCursor(pool.poolAddress)).toBe('sig0');
+
+    const third = await indexPool(historyConnection(history), pool, store, options);
+    expect(third.signatures).toBe(500);
+    expect(await store.getResumePoint(pool.poolAddress)).toBeNull();
+
+    const fourth = await indexPool(historyConnection(history), pool, store, options);
+    expect(fourth.signatures).toBe(2);
+    expect(await store.getCursor(pool.poolAddress)).toBe('new1');
+  });
+});
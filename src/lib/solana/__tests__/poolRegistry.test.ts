@@ -0,0 +1,158 @@
+// web3.js PDA derivation rejects Node Buffers under jsdom (cross-realm Uint8Array)
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import dexConfig from '@/config/dex-config.json';
+import { CurveType, POOL_ACCOUNT_SIZE } from '../poolAccountDecoder';
+import { buildInitializeInstructionData, findPoolAuthorityAddress } from '../poolInstructions';
+import { poolFeesFromRate } from '../poolInitialization';
+import {
+  clearDiscoveredPools,
+  discoverPools,
+  findPoolConfig,
+  getPoolConfigs,
+  registerPool,
+  PoolConfigEntry,
+} from '../poolRegistry';
+
+const newPool: PoolConfigEntry = {
+  ...dexConfig.pools[0],
+  poolAddress: 'RegisteredPoo1111111111111111111111111111111',
+  shardNumber: 99,
+};
+
+describe('poolRegistry', () => {
+  it('makes registered pools visible alongside configured pools', () => {
+    registerPool(newPool);
+    registerPool({ ...newPool, liquidityA: '1' });
+
+    expect(getPoolConfigs()).toHaveLength(dexConfig.pools.length + 1);
+    expect(findPoolConfig(newPool.poolAddress)?.liquidityA).toBe('1');
+    expect(findPoolConfig(dexConfig.pools[0].poolAddress)).toEqual(dexConfig.pools[0]);
+  });
+
+  it('refuses to override a configured pool', () => {
+    expect(() => registerPool(dexConfig.pools[0])).toThrow('already configured');
+  });
+});
+
+const programId = new PublicKey(dexConfig.programId);
+const seed = dexConfig.pools[0];
+
+function poolAccount(
+  address: PublicKey,
+  tokenAMint: string,
+  tokenBMint: string,
+  { curveType = CurveType.ConstantProduct, tokenProgramId = TOKEN_PROGRAM_ID } = {}
+) {
+  const data = Buffer.alloc(POOL_ACCOUNT_SIZE);
+  data.writeUInt8(1, 0);
+  data.writeUInt8(1, 1);
+  data.writeUInt8(findPoolAuthorityAddress(programId, address)[1], 2);
+  data.writeUInt8(curveType, 291);
+  const keys = [
+    tokenProgramId,
+    Keypair.generate().publicKey,
+    Keypair.generate().publicKey,
+    Keypair.generate().publicKey,
+    new PublicKey(tokenAMint),
+    new PublicKey(tokenBMint),
+    Keypair.generate().publicKey,
+  ];
+  keys.forEach((key, i) => key.toBuffer().copy(data, 3 + i * 32));
+  return { pubkey: address, account: { data } };
+}
+
+describe('discoverPools', () => {
+  afterEach(() => clearDiscoveredPools());
+
+  it('replaces the seed with on-chain pools and numbers new shards per pair', async () => {
+    const unlisted = Keypair.generate().publicKey;
+    const connection = {
+      getProgramAccounts: vi.fn().mockResolvedValue([
+        poolAccount(new PublicKey(seed.poolAddress), seed.tokenA, seed.tokenB),
+        poolAccount(unlisted, seed.tokenB, seed.tokenA),
+        poolAccount(Keypair.generate().publicKey, seed.tokenA, Keypair.generate().publicKey.toBase58()),
+      ]),
+    };
+
+    await discoverPools(connection as any);
+
+    const seeded = findPoolConfig(seed.poolAddress);
+    const discovered = findPoolConfig(unlisted.toBase58());
+
+    expect(seeded?.shardNumber).toBe(seed.shardNumber);
+    expect(seeded?.authority).toBe(findPoolAuthorityAddress(programId, new PublicKey(seed.poolAddress))[0].toBase58());
+    expect(discovered?.shardNumber).toBe(seed.shardNumber + 1);
+    expect(discovered?.tokenASymbol).toBe(seed.tokenBSymbol);
+    expect(findPoolConfig(dexConfig.pools[1].poolAddress)).toBeUndefined();
+
+    // Served from the cache until it expires
+    await discoverPools(connection as any);
+    expect(connection.getProgramAccounts).toHaveBeenCalledTimes(1);
+  });
+
+  it('only accepts configured pools in allowlist mode', async () => {
+    const unlisted = Keypair.generate().publicKey;
+    const connection = {
+      getProgramAccounts: vi.fn().mockResolvedValue([
+        poolAccount(new PublicKey(seed.poolAddress), seed.tokenA, seed.tokenB),
+        poolAccount(unlisted, seed.tokenA, seed.tokenB),
+      ]),
+    };
+
+    await discoverPools(connection as any, { allowlistOnly: true });
+
+    expect(connection.getProgramAccounts.mock.calls[0][0].toBase58()).toBe(dexConfig.programId);
+    expect(findPoolConfig(seed.poolAddress)).toBeDefined();
+    expect(findPoolConfig(unlisted.toBase58())).toBeUndefined();
+  });
+
+  it('skips pools on other curves or token programs', async () => {
+    const stable = Keypair.generate().publicKey;
+    const token2022 = Keypair.generate().publicKey;
+    const connection = {
+      getProgramAccounts: vi.fn().mockResolvedValue([
+        poolAccount(new PublicKey(seed.poolAddress), seed.tokenA, seed.tokenB),
+        poolAccount(stable, seed.tokenA, seed.tokenB, { curveType: CurveType.Stable }),
+        poolAccount(token2022, seed.tokenA, seed.tokenB, { tokenProgramId: TOKEN_2022_PROGRAM_ID }),
+      ]),
+    };
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await discoverPools(connection as any);
+
+    expect(findPoolConfig(seed.poolAddress)).toBeDefined();
+    expect(findPoolConfig(stable.toBase58())).toBeUndefined();
+    expect(findPoolConfig(token2022.toBase58())).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining(`${stable.toBase58()} with unsupported curve type Stable`));
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining(`${token2022.toBase58()} with unsupported token program`));
+    warn.mockRestore();
+  });
+
+  it('keeps serving the seed when discovery fails', async () => {
+    const connection = { getProgramAccounts: vi.fn().mockRejectedValue(new Error('rpc down')) };
+
+    await discoverPools(connection as any);
+
+    expect(findPoolConfig(dexConfig.pools[1].poolAddress)).toEqual(dexConfig.pools[1]);
+  });
+});
+
+describe('buildInitializeInstructionData', () => {
+  it('encodes fees and curve type in pool account order', () => {
+    const data = buildInitializeInstructionData(poolFeesFromRate(0.25));
+
+    expect(data).toHaveLength(98);
+    expect(data.readUInt8(0)).toBe(0);
+    expect(data.readBigUInt64LE(1)).toBe(BigInt(25));
+    expect(data.readBigUInt64LE(9)).toBe(BigInt(10000));
+    expect(data.readBigUInt64LE(17)).toBe(BigInt(0));
+    expect(data.readUInt8(65)).toBe(CurveType.ConstantProduct);
+  });
+
+  it('rejects fees of 100% or more', () => {
+    expect(() => buildInitializeInstructionData(poolFeesFromRate(100))).toThrow('less than its denominator');
+  });
+});
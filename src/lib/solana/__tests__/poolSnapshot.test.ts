@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AccountInfo, Keypair } from '@solana/web3.js';
+import { ACCOUNT_SIZE, MINT_SIZE, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { POOL_ACCOUNT_SIZE } from '../poolAccountDecoder';
+import { parsePoolSnapshot, fetchPoolSnapshots, PoolSnapshotAccounts } from '../poolSnapshot';
+
+const accountInfo = (data: Buffer): AccountInfo<Buffer> => ({
+  data,
+  executable: false,
+  lamports: 1_000_000,
+  owner: TOKEN_PROGRAM_ID,
+});
+
+function poolAccount(tradeFee: [bigint, bigint], ownerFee: [bigint, bigint]): AccountInfo<Buffer> {
+  const data = Buffer.alloc(POOL_ACCOUNT_SIZE);
+  data.writeUInt8(1, 0);
+  data.writeUInt8(1, 1);
+  data.writeBigUInt64LE(tradeFee[0], 227);
+  data.writeBigUInt64LE(tradeFee[1], 235);
+  data.writeBigUInt64LE(ownerFee[0], 243);
+  data.writeBigUInt64LE(ownerFee[1], 251);
+  return accountInfo(data);
+}
+
+// SPL Token account: mint (0), owner (32), amount (64), ..., state (108)
+function tokenAccount(amount: bigint): AccountInfo<Buffer> {
+  const data = Buffer.alloc(ACCOUNT_SIZE);
+  Keypair.generate().publicKey.toBuffer().copy(data, 0);
+  Keypair.generate().publicKey.toBuffer().copy(data, 32);
+  data.writeBigUInt64LE(amount, 64);
+  data.writeUInt8(1, 108);
+  return accountInfo(data);
+}
+
+// SPL Token mint: mint authority option (0), mint authority (4), supply (36), decimals (44), is_initialized (45)
+function mintAccount(supply: bigint, decimals: number): AccountInfo<Buffer> {
+  const data = Buffer.alloc(MINT_SIZE);
+  data.writeUInt32LE(1, 0);
+  Keypair.generate().publicKey.toBuffer().copy(data, 4);
+  data.writeBigUInt64LE(supply, 36);
+  data.writeUInt8(decimals, 44);
+  data.writeUInt8(1, 45);
+  return accountInfo(data);
+}
+
+const poolAccounts = (): PoolSnapshotAccounts => ({
+  poolAddress: Keypair.generate().publicKey,
+  tokenAAccount: Keypair.generate().publicKey,
+  tokenBAccount: Keypair.generate().publicKey,
+  lpTokenMint: Keypair.generate().publicKey,
+});
+
+describe('poolSnapshot', () => {
+  describe('parsePoolSnapshot', () => {
+    it('combines reserves, LP supply and decoded fees at one slot', () => {
+      const accounts = poolAccounts();
+
+      const snapshot = parsePoolSnapshot(
+        accounts,
+        [
+          poolAccount([20n, 10000n], [5n, 10000n]),
+          tokenAccount(1_000_000n),
+          tokenAccount(2_000_000n),
+          mintAccount(1_414_213n, 9),
+        ],
+        12345
+      );
+
+      expect(snapshot.poolAddress).toBe(accounts.poolAddress.toBase58());
+      expect(snapshot.slot).toBe(12345);
+      expect(snapshot.reserveA).toBe(1_000_000n);
+      expect(snapshot.reserveB).toBe(2_000_000n);
+      expect(snapshot.lpTokenSupply).toBe(1_414_213n);
+      expect(snapshot.lpDecimals).toBe(9);
+      expect(snapshot.feeRate).toBeCloseTo(0.25, 10);
+      expect(snapshot.pool).not.toBeNull();
+    });
+
+    it('falls back to the default fee when the pool account is missing', () => {
+      const snapshot = parsePoolSnapshot(
+        poolAccounts(),
+        [null, tokenAccount(1n), tokenAccount(2n), mintAccount(3n, 6)],
+        1
+      );
+
+      expect(snapshot.pool).toBeNull();
+      expect(snapshot.feeNumerator).toBe(3n);
+      expect(snapshot.feeDenominator).toBe(1000n);
+    });
+
+    it('throws when a vault is missing', () => {
+      expect(() =>
+        parsePoolSnapshot(poolAccounts(), [null, null, tokenAccount(2n), mintAccount(3n, 6)], 1)
+      ).toThrow('Could not find account');
+    });
+  });
+
+  describe('fetchPoolSnapshots', () => {
+    it('loads several pools with a single RPC call', async () => {
+      const connection = {
+        getMultipleAccountsInfoAndContext: vi.fn().mockResolvedValue({
+          context: { slot: 99 },
+          value: [
+            poolAccount([3n, 1000n], [0n, 0n]), tokenAccount(10n), tokenAccount(20n), mintAccount(30n, 9),
+            null, null, null, null,
+          ],
+        }),
+      };
+
+      const snapshots = await fetchPoolSnapshots(connection as any, [poolAccounts(), poolAccounts()]);
+
+      expect(connection.getMultipleAccountsInfoAndContext).toHaveBeenCalledTimes(1);
+      expect(connection.getMultipleAccountsInfoAndContext.mock.calls[0][0]).toHaveLength(8);
+      expect(snapshots[0]?.reserveB).toBe(20n);
+      expect(snapshots[0]?.slot).toBe(99);
+      expect(snapshots[1]).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AccountInfo, Keypair } from '@solana/web3.js';
+import { ACCOUNT_SIZE, MINT_SIZE, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { POOL_ACCOUNT_SIZE } from '../poolAccountDecoder';
+import { PoolSubscriptionManager, PoolReserveUpdate } from '../poolSubscriptions';
+import { PoolSnapshotAccounts } from '../poolSnapshot';
+
+const accountInfo = (data: Buffer): AccountInfo<Buffer> => ({
+  data,
+  executable: false,
+  lamports: 1_000_000,
+  owner: TOKEN_PROGRAM_ID,
+});
+
+function poolAccount(): AccountInfo<Buffer> {
+  const data = Buffer.alloc(POOL_ACCOUNT_SIZE);
+  data.writeUInt8(1, 0);
+  data.writeUInt8(1, 1);
+  data.writeBigUInt64LE(3n, 227);
+  data.writeBigUInt64LE(1000n, 235);
+  return accountInfo(data);
+}
+
+function tokenAccount(amount: bigint): AccountInfo<Buffer> {
+  const data = Buffer.alloc(ACCOUNT_SIZE);
+  data.writeBigUInt64LE(amount, 64);
+  data.writeUInt8(1, 108);
+  return accountInfo(data);
+}
+
+function mintAccount(): AccountInfo<Buffer> {
+  const data = Buffer.alloc(MINT_SIZE);
+  data.writeBigUInt64LE(1000n, 36);
+  data.writeUInt8(9, 44);
+  data.writeUInt8(1, 45);
+  return accountInfo(data);
+}
+
+const poolAccounts = (): PoolSnapshotAccounts => ({
+  poolAddress: Keypair.generate().publicKey,
+  tokenAAccount: Keypair.generate().publicKey,
+  tokenBAccount: Keypair.generate().publicKey,
+  lpTokenMint: Keypair.generate().publicKey,
+});
+
+function createMockConnection(reserveA: bigint, reserveB: bigint, slot: number) {
+  const vaultListeners: Array<(info: AccountInfo<Buffer>, context: { slot: number }) => void> = [];
+  const wsListeners: Record<string, () => void> = {};
+
+  const connection = {
+    onAccountChange: vi.fn((_key, callback) => {
+      vaultListeners.push(callback);
+      return vaultListeners.length;
+    }),
+    removeAccountChangeListener: vi.fn().mockResolvedValue(undefined),
+    getMultipleAccountsInfoAndContext: vi.fn().mockResolvedValue({
+      context: { slot },
+      value: [poolAccount(), tokenAccount(reserveA), tokenAccount(reserveB), mintAccount()],
+    }),
+    _rpcWebSocket: {
+      on: (event: string, listener: () => void) => {
+        wsListeners[event] = listener;
+      },
+    },
+  };
+
+  return { connection, vaultListeners, wsListeners };
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('PoolSubscriptionManager', () => {
+  it('seeds reserves from a snapshot and pushes vault changes', async () => {
+    const { connection, vaultListeners } = createMockConnection(1000n, 2000n, 10);
+    const manager = new PoolSubscriptionManager(connection as any);
+    const updates: PoolReserveUpdate[] = [];
+    const accounts = poolAccounts();
+
+    manager.subscribe(accounts, update => updates.push(update));
+    await flush();
+
+    expect(connection.onAccountChange).toHaveBeenCalledTimes(2);
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ reserveA: 1000n, reserveB: 2000n, feeNumerator: 3n, slot: 10 });
+
+    vaultListeners[1](tokenAccount(1500n), { slot: 11 });
+
+    expect(updates).toHaveLength(2);
+    expect(updates[1]).toMatchObject({ reserveA: 1000n, reserveB: 1500n, slot: 11, source: 'websocket' });
+    expect(manager.getLatest(accounts.poolAddress.toBase58())?.source).toBe('websocket');
+  });
+
+  it('ignores vault changes older than the applied slot', async () => {
+    const { connection, vaultListeners } = createMockConnection(1000n, 2000n, 10);
+    const manager = new PoolSubscriptionManager(connection as any);
+    const listener = vi.fn();
+
+    manager.subscribe(poolAccounts(), listener);
+    await flush();
+    vaultListeners[0](tokenAccount(900n), { slot: 9 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares one subscription per pool and closes it with the last listener', async () => {
+    const { connection } = createMockConnection(1000n, 2000n, 10);
+    const manager = new PoolSubscriptionManager(connection as any);
+    const accounts = poolAccounts();
+
+    const unsubscribeFirst = manager.subscribe(accounts, vi.fn());
+    await flush();
+    const second = vi.fn();
+    const unsubscribeSecond = manager.subscribe(accounts, second);
+
+    // Late subscribers get the latest reserves straight away
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledWith(expect.objectContaining({ reserveA: 1000n, source: 'poll' }));
+    expect(connection.onAccountChange).toHaveBeenCalledTimes(2);
+
+    unsubscribeFirst();
+    expect(connection.removeAccountChangeListener).not.toHaveBeenCalled();
+    unsubscribeSecond();
+    expect(connection.removeAccountChangeListener).toHaveBeenCalledTimes(2);
+    expect(manager.isSubscribed(accounts.poolAddress.toBase58())).toBe(false);
+  });
+
+  describe('websocket fallback', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('polls while the websocket is down and stops when it reconnects', async () => {
+      const { connection, wsListeners } = createMockConnection(1000n, 2000n, 10);
+      const manager = new PoolSubscriptionManager(connection as any, { pollIntervalMs: 5000 });
+      const listener = vi.fn();
+
+      const accounts = poolAccounts();
+
+      manager.subscribe(accounts, listener);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(connection.getMultipleAccountsInfoAndContext).toHaveBeenCalledTimes(1);
+
+      wsListeners.close();
+      expect(manager.isPolling()).toBe(true);
+
+      connection.getMultipleAccountsInfoAndContext.mockResolvedValue({
+        context: { slot: 20 },
+        value: [poolAccount(), tokenAccount(1100n), tokenAccount(1900n), mintAccount()],
+      });
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(connection.getMultipleAccountsInfoAndContext).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ reserveA: 1100n, source: 'poll' }));
+      expect(manager.getLatest(accounts.poolAddress.toBase58())?.source).toBe('poll');
+
+      wsListeners.open();
+      expect(manager.isPolling()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { buildCandles, getSwapPrice, invertPoolEvents } from '../priceCandles';
+import type { PoolEvent } from '../poolEventStore';
+
+/**
+ * Swap on a SOL (9 decimals) / USDC (6 decimals) shard
+ */
+function swap(blockTime: number, shardNumber: number, deltaSol: bigint, deltaUsdc: bigint): PoolEvent {
+  return {
+    id: `sig${blockTime}-${shardNumber}:0`,
+    signature: `sig${blockTime}-${shardNumber}`,
+    slot: blockTime,
+    blockTime,
+    poolAddress: `pool${shardNumber}`,
+    shardNumber,
+    type: 'swap',
+    deltaA: deltaSol.toString(),
+    deltaB: deltaUsdc.toString(),
+  };
+}
+
+const decimals = { baseDecimals: 9, quoteDecimals: 6 };
+
+describe('getSwapPrice', () => {
+  it('prices swaps in either direction as quote per base', () => {
+    // 1 SOL in for 100 USDC out, and 200 USDC in for 2 SOL out
+    expect(getSwapPrice(swap(0, 1, 1_000_000_000n, -100_000_000n), 9, 6)).toBeCloseTo(100);
+    expect(getSwapPrice(swap(0, 1, -2_000_000_000n, 200_000_000n), 9, 6)).toBeCloseTo(100);
+  });
+
+  it('prices events of a pool stored in the opposite token order', () => {
+    const [event] = invertPoolEvents([swap(0, 1, -50_000_000n, 500_000_000n)]);
+    expect(getSwapPrice(event, 9, 6)).toBeCloseTo(100);
+  });
+});
+
+describe('buildCandles', () => {
+  it('builds OHLCV across shards with volume split by shard', () => {
+    const candles = buildCandles([
+      swap(60, 1, 1_000_000_000n, -100_000_000n), // 100
+      swap(70, 2, 1_000_000_000n, -110_000_000n), // 110
+      swap(80, 1, -1_000_000_000n, 95_000_000n), // 95
+      swap(90, 2, 1_000_000_000n, -105_000_000n), // 105
+    ], '1m', decimals);
+
+    expect(candles).toHaveLength(1);
+    expect(candles[0]).toMatchObject({ time: 60, trades: 4, volume: 4_000_000_000n });
+    expect(candles[0].open).toBeCloseTo(100);
+    expect(candles[0].high).toBeCloseTo(110);
+    expect(candles[0].low).toBeCloseTo(95);
+    expect(candles[0].close).toBeCloseTo(105);
+    expect(candles[0].volumeByShard).toEqual({ 1: 2_000_000_000n, 2: 2_000_000_000n });
+  });
+
+  it('fills candles without swaps at the previous close', () => {
+    const candles = buildCandles([
+      swap(0, 1, 1_000_000_000n, -100_000_000n),
+      swap(180, 1, 1_000_000_000n, -90_000_000n),
+    ], '1m', decimals);
+
+    expect(candles.map(c => c.time)).toEqual([0, 60, 120, 180]);
+    expect(candles[1]).toMatchObject({ trades: 0, volume: 0n });
+    expect(candles[1].open).toBeCloseTo(100);
+    expect(candles[1].close).toBeCloseTo(100);
+  });
+
+  it('limits the series to the most recent candles', () => {
+    const candles = buildCandles([
+      swap(0, 1, 1_000_000_000n, -100_000_000n),
+      swap(3600, 1, 1_000_000_000n, -90_000_000n),
+    ], '15m', { ...decimals, limit: 2, now: 3600 });
+
+    expect(candles.map(c => c.time)).toEqual([2700, 3600]);
+    // The first visible candle opens at the close of the earlier swap
+    expect(candles[0].open).toBeCloseTo(100);
+  });
+
+  it('ignores liquidity events', () => {
+    const deposit = { ...swap(0, 1, 5_000_000_000n, 500_000_000n), type: 'addLiquidity' as const };
+    expect(buildCandles([deposit], '1h', decimals)).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+// web3.js instruction encoding rejects Node Buffers under jsdom (cross-realm Uint8Array)
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import { ComputeBudgetProgram, Keypair, TransactionInstruction } from '@solana/web3.js';
+import { createComputeBudgetInstructions, getComputeBudget } from '../priorityFees';
+
+const payer = Keypair.generate().publicKey;
+const pool = Keypair.generate().publicKey;
+const authority = Keypair.generate().publicKey;
+
+const swapInstruction = new TransactionInstruction({
+  programId: Keypair.generate().publicKey,
+  keys: [
+    { pubkey: pool, isSigner: false, isWritable: true },
+    { pubkey: authority, isSigner: false, isWritable: false },
+  ],
+  data: Buffer.alloc(17),
+});
+
+function createMockConnection(unitsConsumed: number | null, recentFees: number[]) {
+  return {
+    simulateTransaction: vi.fn().mockResolvedValue({
+      value: unitsConsumed === null
+        ? { err: { InstructionError: [2, { Custom: 1 }] }, unitsConsumed: 0 }
+        : { err: null, unitsConsumed },
+    }),
+    getRecentPrioritizationFees: vi.fn().mockResolvedValue(
+      recentFees.map((prioritizationFee, slot) => ({ slot, prioritizationFee }))
+    ),
+  };
+}
+
+describe('priorityFees', () => {
+  it('sizes the limit from simulation and prices from fees on the locked accounts', async () => {
+    const connection = createMockConnection(50_000, [0, 100, 200, 300, 400, 500, 600, 700]);
+
+    const budget = await getComputeBudget(connection as any, payer, [swapInstruction]);
+
+    expect(budget.simulated).toBe(true);
+    expect(budget.computeUnitLimit).toBe(55_000);
+    // 75th percentile of the recent fees
+    expect(budget.computeUnitPrice).toBe(600);
+    expect(budget.priorityFeeLamports).toBe(33);
+    expect(connection.getRecentPrioritizationFees).toHaveBeenCalledWith({ lockedWritableAccounts: [pool] });
+  });
+
+  it('spreads a fixed priority fee over the compute unit limit', async () => {
+    const connection = createMockConnection(50_000, [1_000_000]);
+
+    const budget = await getComputeBudget(connection as any, payer, [swapInstruction], {
+      priorityFee: 11_000,
+      autoOptimizeFees: true,
+    });
+
+    expect(connection.getRecentPrioritizationFees).not.toHaveBeenCalled();
+    expect(budget.computeUnitPrice).toBe(200_000);
+    expect(budget.priorityFeeLamports).toBe(11_000);
+  });
+
+  it('falls back to the default limit and skips the price when auto-optimize is off', async () => {
+    const connection = createMockConnection(null, [500]);
+
+    const budget = await getComputeBudget(connection as any, payer, [swapInstruction], {
+      priorityFee: 0,
+      autoOptimizeFees: false,
+    });
+    const instructions = createComputeBudgetInstructions(budget);
+
+    expect(budget.simulated).toBe(false);
+    expect(budget.computeUnitLimit).toBe(200_000);
+    expect(budget.computeUnitPrice).toBe(0);
+    expect(instructions).toHaveLength(1);
+    expect(instructions[0].programId.equals(ComputeBudgetProgram.programId)).toBe(true);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import dexConfig from '@/config/dex-config.json';
+import { registerPool } from '../poolRegistry';
+import { buildShardConfigUpdate, computeCrossShardPrice } from '../shardDeployment';
+
+describe('computeCrossShardPrice', () => {
+  it('prices the combined liquidity of all shards', () => {
+    const price = computeCrossShardPrice([
+      { liquidityA: '1000', liquidityB: '10' },
+      { liquidityA: '3000', liquidityB: '34' },
+    ]);
+
+    expect(price).toBeCloseTo(44 / 4000);
+  });
+
+  it('ignores empty shards and fails when none has liquidity', () => {
+    expect(computeCrossShardPrice([
+      { liquidityA: '0', liquidityB: '0' },
+      { liquidityA: '500', liquidityB: '5' },
+    ])).toBeCloseTo(0.01);
+    expect(() => computeCrossShardPrice([{ liquidityA: '0', liquidityB: '5' }])).toThrow('No shard with liquidity');
+  });
+});
+
+describe('buildShardConfigUpdate', () => {
+  it('counts the new shard in the summary', () => {
+    const reference = dexConfig.pools[0];
+    const pair = `${reference.tokenASymbol}/${reference.tokenBSymbol}`;
+    const shard = { ...reference, poolAddress: 'NewShard11111111111111111111111111111111111', shardNumber: 5 };
+
+    registerPool(shard);
+    const update = buildShardConfigUpdate(shard);
+
+    expect(update.pool).toBe(shard);
+    expect(update.summary.totalPools).toBe(dexConfig.pools.length + 1);
+    expect(update.summary.pairs.find(p => p.pair === pair)?.shards)
+      .toBe(dexConfig.summary.pairs.find(p => p.pair === pair)!.shards + 1);
+  });
+});
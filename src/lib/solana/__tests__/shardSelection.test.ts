@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { rankShardsForFillUp, ShardSize } from '../shardSelection';
+
+const USDC = 'USDCmint';
+const SOL = 'SOLmint';
+
+function shard(shardNumber: number, tokenAMint: string, tokenA: string, tokenB: string): ShardSize {
+  return { poolAddress: `pool${shardNumber}`, shardNumber, tokenAMint, reserves: { tokenA, tokenB } };
+}
+
+describe('rankShardsForFillUp', () => {
+  it('orders shards by their reserve of the input token, smallest first', () => {
+    const ranked = rankShardsForFillUp([
+      shard(1, USDC, '5000', '50'),
+      // Reversed pool orientation: the USDC reserve is token B
+      shard(2, SOL, '10', '1000'),
+      shard(3, USDC, '3000', '30'),
+    ], USDC);
+
+    expect(ranked.map(s => s.shardNumber)).toEqual([2, 3, 1]);
+  });
+
+  it('breaks ties by shard number', () => {
+    const ranked = rankShardsForFillUp([
+      shard(4, USDC, '1000', '10'),
+      shard(2, USDC, '1000', '20'),
+    ], USDC);
+
+    expect(ranked.map(s => s.shardNumber)).toEqual([2, 4]);
+  });
+});
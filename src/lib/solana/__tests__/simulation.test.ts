@@ -0,0 +1,86 @@
+// web3.js message encoding rejects Node Buffers under jsdom (cross-realm Uint8Array)
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import { Keypair, TransactionInstruction, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import { ACCOUNT_SIZE, AccountLayout } from '@solana/spl-token';
+import dexConfig from '@/config/dex-config.json';
+import { DexTransactionError, SammErrorCode } from '@/utils/solanaErrors';
+import { simulateDexTransaction } from '../simulation';
+
+const payer = Keypair.generate().publicKey;
+const outputTokenAccount = Keypair.generate().publicKey;
+
+const transaction = new VersionedTransaction(
+  new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    instructions: [
+      new TransactionInstruction({
+        programId: Keypair.generate().publicKey,
+        keys: [{ pubkey: outputTokenAccount, isSigner: false, isWritable: true }],
+        data: Buffer.alloc(17),
+      }),
+    ],
+  }).compileToV0Message()
+);
+
+function tokenAccountData(amount: bigint): Buffer {
+  const data = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode({
+    mint: Keypair.generate().publicKey,
+    owner: payer,
+    amount,
+    delegateOption: 0,
+    delegate: payer,
+    state: 1,
+    isNativeOption: 0,
+    isNative: BigInt(0),
+    delegatedAmount: BigInt(0),
+    closeAuthorityOption: 0,
+    closeAuthority: payer,
+  }, data);
+  return data;
+}
+
+describe('simulateDexTransaction', () => {
+  it('reports the output as the watched account balance change', async () => {
+    const connection = {
+      getAccountInfo: vi.fn().mockResolvedValue({ data: tokenAccountData(BigInt(1_000)) }),
+      simulateTransaction: vi.fn().mockResolvedValue({
+        value: {
+          err: null,
+          logs: ['Program log: swap'],
+          unitsConsumed: 42_000,
+          accounts: [{ data: [tokenAccountData(BigInt(251_000)).toString('base64'), 'base64'] }],
+        },
+      }),
+    };
+
+    const simulation = await simulateDexTransaction(connection as any, transaction, { outputTokenAccount });
+
+    expect(simulation.outputAmount).toBe(BigInt(250_000));
+    expect(simulation.unitsConsumed).toBe(42_000);
+    expect(connection.simulateTransaction.mock.calls[0][1].accounts.addresses).toEqual([outputTokenAccount.toBase58()]);
+  });
+
+  it('throws the decoded SAMM error when the simulation fails', async () => {
+    const connection = {
+      simulateTransaction: vi.fn().mockResolvedValue({
+        value: {
+          err: { InstructionError: [1, { Custom: 16 }] },
+          logs: [
+            `Program ${dexConfig.programId} invoke [1]`,
+            `Program ${dexConfig.programId} failed: custom program error: 0x10`,
+          ],
+          unitsConsumed: 9_000,
+        },
+      }),
+    };
+
+    const error = await simulateDexTransaction(connection as any, transaction).catch(e => e);
+
+    expect(error).toBeInstanceOf(DexTransactionError);
+    expect(error.solanaError.code).toBe(SammErrorCode.EXCEEDED_SLIPPAGE);
+    expect(error.logs).toHaveLength(2);
+  });
+});
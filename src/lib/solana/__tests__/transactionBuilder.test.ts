@@ -0,0 +1,88 @@
+// web3.js message encoding rejects Node Buffers under jsdom (cross-realm Uint8Array)
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import { AddressLookupTableAccount, Keypair, PublicKey } from '@solana/web3.js';
+import dexConfig from '@/config/dex-config.json';
+import { createSimpleSwapInstruction } from '../../swapInstructions';
+import { getDexLookupTableAddresses } from '../lookupTable';
+import { buildVersionedTransaction } from '../transactionBuilder';
+
+const connection = {
+  getLatestBlockhash: vi.fn().mockResolvedValue({
+    blockhash: Keypair.generate().publicKey.toBase58(),
+    lastValidBlockHeight: 1000,
+  }),
+};
+
+const user = Keypair.generate().publicKey;
+const userTokenAccountIn = Keypair.generate().publicKey;
+const userTokenAccountOut = Keypair.generate().publicKey;
+
+// One swap instruction per pool
+function swapInstructions(pools: typeof dexConfig.pools) {
+  return pools.map(pool =>
+    createSimpleSwapInstruction(
+      new PublicKey(dexConfig.programId),
+      user,
+      new PublicKey(pool.poolAddress),
+      new PublicKey(pool.authority),
+      userTokenAccountIn,
+      userTokenAccountOut,
+      new PublicKey(pool.tokenAccountA),
+      new PublicKey(pool.tokenAccountB),
+      new PublicKey(pool.poolTokenMint),
+      new PublicKey(pool.feeAccount),
+      new PublicKey(pool.tokenA),
+      new PublicKey(pool.tokenB),
+      1_000_000n,
+      1n
+    )
+  );
+}
+
+const dexLookupTable = () =>
+  new AddressLookupTableAccount({
+    key: Keypair.generate().publicKey,
+    state: {
+      deactivationSlot: BigInt('0xffffffffffffffff'),
+      lastExtendedSlot: 0,
+      lastExtendedSlotStartIndex: 0,
+      authority: user,
+      addresses: getDexLookupTableAddresses(),
+    },
+  });
+
+describe('transactionBuilder', () => {
+  it('resolves pool accounts through the DEX lookup table', async () => {
+    const instructions = swapInstructions(dexConfig.pools.slice(0, 2));
+
+    const inline = await buildVersionedTransaction(connection as any, user, instructions);
+    const withTable = await buildVersionedTransaction(connection as any, user, instructions, {
+      lookupTables: [dexLookupTable()],
+    });
+
+    expect(withTable.transaction.version).toBe(0);
+    expect(withTable.instructions).toHaveLength(2);
+    expect(withTable.lastValidBlockHeight).toBe(1000);
+    expect(withTable.transaction.message.addressTableLookups).toHaveLength(1);
+    // Only the payer, their token accounts and the invoked program stay inline
+    expect(withTable.transaction.message.staticAccountKeys).toHaveLength(4);
+    expect(withTable.transaction.serialize().length).toBeLessThan(inline.transaction.serialize().length);
+  });
+
+  it('rejects transactions that exceed the packet size', async () => {
+    const instructions = swapInstructions(dexConfig.pools);
+
+    await expect(
+      buildVersionedTransaction(connection as any, user, instructions)
+    ).rejects.toThrow('Transaction too large');
+  });
+
+  it('lists each DEX account once', () => {
+    const addresses = getDexLookupTableAddresses().map(address => address.toBase58());
+
+    expect(new Set(addresses).size).toBe(addresses.length);
+    expect(addresses).toContain(dexConfig.pools[0].tokenAccountA);
+    expect(addresses.length).toBeLessThanOrEqual(256);
+  });
+});
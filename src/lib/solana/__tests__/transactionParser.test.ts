@@ -0,0 +1,193 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransactionResponse,
+} from '@solana/web3.js';
+import dexConfig from '@/config/dex-config.json';
+import { SolanaProgramId, TransactionStatus, TransactionType } from '@/types';
+import { parseWalletTransaction } from '../transactionParser';
+
+const pool = dexConfig.pools[0];
+const programId = new PublicKey(dexConfig.programId);
+const user = Keypair.generate().publicKey;
+const userAccountA = Keypair.generate().publicKey.toBase58();
+const userAccountB = Keypair.generate().publicKey.toBase58();
+const userLpAccount = Keypair.generate().publicKey.toBase58();
+
+function u64(value: bigint): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(value);
+  return buffer;
+}
+
+type Balance = [account: string, mint: string, owner: string, pre: string, post: string];
+
+/**
+ * Confirmed transaction with one instruction and the given token balance changes
+ */
+function transaction(instruction: TransactionInstruction, balances: Balance[]): VersionedTransactionResponse {
+  const message = new TransactionMessage({
+    payerKey: user,
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions: [instruction],
+  }).compileToLegacyMessage();
+
+  const indexOf = (address: string) =>
+    message.accountKeys.findIndex(key => key.toBase58() === address);
+  const tokenBalance = (account: string, mint: string, owner: string, amount: string) => ({
+    accountIndex: indexOf(account),
+    mint,
+    owner,
+    uiTokenAmount: { amount, decimals: 6, uiAmount: null, uiAmountString: '' },
+  });
+
+  return {
+    slot: 100,
+    blockTime: 1_700_000_000,
+    transaction: { message, signatures: ['sig'] },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [],
+      postBalances: [],
+      preTokenBalances: balances.map(([account, mint, owner, pre]) => tokenBalance(account, mint, owner, pre)),
+      postTokenBalances: balances.map(([account, mint, owner, , post]) => tokenBalance(account, mint, owner, post)),
+    },
+  } as unknown as VersionedTransactionResponse;
+}
+
+/**
+ * SAMM instruction touching the pool, its vaults and the user's token accounts
+ */
+function sammInstruction(data: Buffer): TransactionInstruction {
+  const writable = (address: string) => ({ pubkey: new PublicKey(address), isSigner: false, isWritable: true });
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      { pubkey: user, isSigner: true, isWritable: true },
+      writable(pool.poolAddress),
+      writable(pool.tokenAccountA),
+      writable(pool.tokenAccountB),
+      writable(userAccountA),
+      writable(userAccountB),
+      writable(userLpAccount),
+    ],
+    data,
+  });
+}
+
+/**
+ * Jupiter v6 `route` instruction: discriminator, empty route plan, amount in,
+ * quoted amount out, slippage bps and platform fee bps
+ */
+function jupiterRouteInstruction(amountIn: bigint, quotedOut: bigint): TransactionInstruction {
+  const writable = (address: string) => ({ pubkey: new PublicKey(address), isSigner: false, isWritable: true });
+  return new TransactionInstruction({
+    programId: new PublicKey(SolanaProgramId.JUPITER_AGGREGATOR),
+    keys: [
+      { pubkey: new PublicKey(SolanaProgramId.TOKEN_PROGRAM), isSigner: false, isWritable: false },
+      { pubkey: user, isSigner: true, isWritable: true },
+      writable(userAccountA),
+      writable(userAccountB),
+    ],
+    data: Buffer.concat([
+      Buffer.from('e517cb977ae3ad2a', 'hex'),
+      Buffer.from([0, 0, 0, 0]),
+      u64(amountIn),
+      u64(quotedOut),
+      Buffer.from([50, 0, 0]),
+    ]),
+  });
+}
+
+const owner = user.toBase58();
+
+describe('parseWalletTransaction', () => {
+  it('decodes a swap with the direction taken from the wallet balances', () => {
+    // The wallet pays 480 token B for 1000 token A
+    const tx = transaction(sammInstruction(Buffer.concat([Buffer.from([1]), u64(480n), u64(900n)])), [
+      [userAccountA, pool.tokenA, owner, '0', '1000'],
+      [userAccountB, pool.tokenB, owner, '5000', '4520'],
+      [pool.tokenAccountA, pool.tokenA, 'authority', '50000', '49000'],
+      [pool.tokenAccountB, pool.tokenB, 'authority', '25000', '25480'],
+    ]);
+
+    const parsed = parseWalletTransaction(tx, 'sig', owner)!;
+
+    expect(parsed).toMatchObject({
+      type: TransactionType.SWAP,
+      status: TransactionStatus.CONFIRMED,
+      poolId: pool.poolAddress,
+      shardNumber: pool.shardNumber,
+      amountIn: 480n,
+      amountOut: 1000n,
+      solFee: 5000n,
+      feePayer: owner,
+      timestamp: 1_700_000_000_000,
+    });
+    expect(parsed.tokenIn?.symbol).toBe(pool.tokenBSymbol);
+    expect(parsed.tokenOut?.symbol).toBe(pool.tokenASymbol);
+  });
+
+  it('reports liquidity amounts as token A and token B of the pool', () => {
+    const data = Buffer.concat([Buffer.from([2]), u64(100n), u64(2000n), u64(1000n)]);
+    const tx = transaction(sammInstruction(data), [
+      [userAccountB, pool.tokenB, owner, '5000', '4000'],
+      [userAccountA, pool.tokenA, owner, '3000', '1000'],
+      [userLpAccount, pool.poolTokenMint, owner, '0', '100'],
+      [pool.tokenAccountA, pool.tokenA, 'authority', '50000', '52000'],
+      [pool.tokenAccountB, pool.tokenB, 'authority', '25000', '26000'],
+    ]);
+
+    const parsed = parseWalletTransaction(tx, 'sig', owner)!;
+
+    expect(parsed).toMatchObject({
+      type: TransactionType.ADD_LIQUIDITY,
+      poolId: pool.poolAddress,
+      amountIn: 2000n,
+      amountOut: 1000n,
+    });
+    expect(parsed.tokenIn?.mint).toBe(pool.tokenA);
+    expect(parsed.tokenOut?.mint).toBe(pool.tokenB);
+  });
+
+  it('classifies Jupiter routes as swaps from the wallet balances', () => {
+    // The wallet pays 2500 token A for 1200 token B through a Jupiter route
+    const tx = transaction(jupiterRouteInstruction(2500n, 1210n), [
+      [userAccountA, pool.tokenA, owner, '4000', '1500'],
+      [userAccountB, pool.tokenB, owner, '0', '1200'],
+    ]);
+
+    const parsed = parseWalletTransaction(tx, 'sig', owner)!;
+
+    expect(parsed).toMatchObject({
+      type: TransactionType.SWAP,
+      status: TransactionStatus.CONFIRMED,
+      amountIn: 2500n,
+      amountOut: 1200n,
+    });
+    expect(parsed.tokenIn?.mint).toBe(pool.tokenA);
+    expect(parsed.tokenOut?.mint).toBe(pool.tokenB);
+    expect(parsed.poolId).toBeUndefined();
+  });
+
+  it('classifies transactions without SAMM instructions as transfers', () => {
+    const recipient = Keypair.generate().publicKey;
+    const solTransfer = transaction(
+      SystemProgram.transfer({ fromPubkey: user, toPubkey: recipient, lamports: 1000 }),
+      []
+    );
+    const tokenTransfer = transaction(
+      SystemProgram.transfer({ fromPubkey: user, toPubkey: recipient, lamports: 1000 }),
+      [[userAccountA, pool.tokenA, owner, '1000', '0']]
+    );
+
+    expect(parseWalletTransaction(solTransfer, 'sig', owner)?.type).toBe(TransactionType.SOL_TRANSFER);
+    expect(parseWalletTransaction(tokenTransfer, 'sig', owner)?.type).toBe(TransactionType.SPL_TRANSFER);
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * SAMM Instruction Decoder
+ *
+ * Decodes the DEX program's instructions out of confirmed transactions so that
+ * history can be read back from the chain: which operation ran (keyed on the
+ * program ID and `INSTRUCTION_DISCRIMINATORS`), its u64 arguments, which pool
+ * and shard it touched, and the exact token balance changes it caused.
+ *
+ * Transactions are expected in the shape returned by `getTransaction` with
+ * `maxSupportedTransactionVersion: 0` (legacy and v0 messages). Only top-level
+ * instructions are decoded; calls made through CPI by other programs are not.
+ *
+ * Balance changes come from the transaction's pre/post token balances, using
+ * the raw `amount` strings so they are exact in base units.
+ *
+ * @module instructionDecoder
+ */
+
+import { TokenBalance, VersionedTransactionResponse } from '@solana/web3.js';
+import dexConfig from '@/config/dex-config.json';
+import { INSTRUCTION_DISCRIMINATORS } from './poolInstructions';
+import { findPoolConfig, PoolConfigEntry } from './poolRegistry';
+
+/**
+ * Operation performed by a SAMM instruction
+ */
+export type SammInstructionType =
+  | 'initialize'
+  | 'swap'
+  | 'addLiquidity'
+  | 'removeLiquidity'
+  | 'addSingle'
+  | 'removeSingle';
+
+/**
+ * Decoded instruction data, by operation
+ *
+ * Argument names follow the on-chain program (see poolInstructions).
+ */
+export type SammInstructionArgs =
+  | { type: 'initialize' }
+  | { type: 'swap'; amountIn: bigint; minimumAmountOut: bigint }
+  | { type: 'addLiquidity'; poolTokenAmount: bigint; maximumTokenA: bigint; maximumTokenB: bigint }
+  | { type: 'removeLiquidity'; poolTokenAmount: bigint; minimumTokenA: bigint; minimumTokenB: bigint }
+  | { type: 'addSingle'; sourceTokenAmount: bigint; minimumPoolTokenAmount: bigint }
+  | { type: 'removeSingle'; destinationTokenAmount: bigint; maximumPoolTokenAmount: bigint };
+
+/**
+ * SAMM instruction found in a transaction
+ */
+export interface DecodedSammInstruction {
+  /** Position of the instruction in the transaction */
+  index: number;
+  /** Decoded instruction data */
+  args: SammInstructionArgs;
+  /** Pool state account, or null if no known pool is referenced */
+  poolAddress: string | null;
+  /** Shard number of the pool, or null if the pool is not in the registry */
+  shardNumber: number | null;
+  /** Accounts passed to the instruction, in order */
+  accounts: string[];
+}
+
+/**
+ * Change of one token account's balance over a transaction
+ */
+export interface TokenBalanceDelta {
+  /** Token account address */
+  account: string;
+  /** Token mint */
+  mint: string;
+  /** Owner of the token account (if reported by the RPC node) */
+  owner?: string;
+  /** Decimals of the mint */
+  decimals: number;
+  /** Balance before the transaction in base units */
+  pre: bigint;
+  /** Balance after the transaction in base units */
+  post: bigint;
+  /** post - pre in base units */
+  delta: bigint;
+}
+
+const DISCRIMINATOR_TYPES: Record<number, SammInstructionType> = {
+  [INSTRUCTION_DISCRIMINATORS.INITIALIZE]: 'initialize',
+  [INSTRUCTION_DISCRIMINATORS.SWAP]: 'swap',
+  [INSTRUCTION_DISCRIMINATORS.ADD_LIQUIDITY]: 'addLiquidity',
+  [INSTRUCTION_DISCRIMINATORS.REMOVE_LIQUIDITY]: 'removeLiquidity',
+  [INSTRUCTION_DISCRIMINATORS.ADD_SINGLE]: 'addSingle',
+  [INSTRUCTION_DISCRIMINATORS.REMOVE_SINGLE]: 'removeSingle',
+};
+
+/**
+ * Read `count` little-endian u64 values following the discriminator
+ *
+ * @returns The values, or null if the data is too short
+ */
+function readU64Args(data: Uint8Array, count: number): bigint[] | null {
+  if (data.length < 1 + count * 8) {
+    return null;
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return Array.from({ length: count }, (_, i) => view.getBigUint64(1 + i * 8, true));
+}
+
+/**
+ * Decode SAMM instruction data
+ *
+ * @param data - Raw instruction data
+ * @returns Decoded arguments, or null if the data is not a known SAMM instruction
+ */
+export function decodeSammInstructionData(data: Uint8Array): SammInstructionArgs | null {
+  if (data.length === 0) {
+    return null;
+  }
+
+  const type = DISCRIMINATOR_TYPES[data[0]];
+  switch (type) {
+    case 'initialize':
+      return { type };
+    case 'swap': {
+      const args = readU64Args(data, 2);
+      return args && { type, amountIn: args[0], minimumAmountOut: args[1] };
+    }
+    case 'addLiquidity': {
+      const args = readU64Args(data, 3);
+      return args && { type, poolTokenAmount: args[0], maximumTokenA: args[1], maximumTokenB: args[2] };
+    }
+    case 'removeLiquidity': {
+      const args = readU64Args(data, 3);
+      return args && { type, poolTokenAmount: args[0], minimumTokenA: args[1], minimumTokenB: args[2] };
+    }
+    case 'addSingle': {
+      const args = readU64Args(data, 2);
+      return args && { type, sourceTokenAmount: args[0], minimumPoolTokenAmount: args[1] };
+    }
+    case 'removeSingle': {
+      const args = readU64Args(data, 2);
+      return args && { type, destinationTokenAmount: args[0], maximumPoolTokenAmount: args[1] };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Find the pool an instruction operates on
+ *
+ * Account positions differ between instruction builders (the swap builder puts
+ * the user first), so the accounts are scanned for a pool in the registry.
+ * A new pool being initialized is not registered yet; it is the first account.
+ */
+function resolvePool(args: SammInstructionArgs, accounts: string[]): PoolConfigEntry | string | null {
+  for (const account of accounts) {
+    const pool = findPoolConfig(account);
+    if (pool) {
+      return pool;
+    }
+  }
+  return args.type === 'initialize' ? accounts[0] ?? null : null;
+}
+
+/**
+ * Decode every top-level SAMM instruction in a transaction
+ *
+ * @param tx - Transaction from getTransaction (maxSupportedTransactionVersion: 0)
+ * @param programId - DEX program ID (default: the configured program)
+ * @returns Decoded instructions in transaction order (empty if there are none)
+ */
+export function decodeSammTransaction(
+  tx: VersionedTransactionResponse,
+  programId: string = dexConfig.programId
+): DecodedSammInstruction[] {
+  const message = tx.transaction.message;
+  const accountKeys = message.getAccountKeys({
+    accountKeysFromLookups: tx.meta?.loadedAddresses,
+  });
+  const keyAt = (index: number): string => accountKeys.get(index)?.toBase58() ?? '';
+
+  const decoded: DecodedSammInstruction[] = [];
+  message.compiledInstructions.forEach((instruction, index) => {
+    if (keyAt(instruction.programIdIndex) !== programId) {
+      return;
+    }
+
+    const args = decodeSammInstructionData(instruction.data);
+    if (!args) {
+      return;
+    }
+
+    const accounts = instruction.accountKeyIndexes.map(keyAt);
+    const pool = resolvePool(args, accounts);
+    decoded.push({
+      index,
+      args,
+      poolAddress: typeof pool === 'string' ? pool : pool?.poolAddress ?? null,
+      shardNumber: pool && typeof pool !== 'string' ? pool.shardNumber : null,
+      accounts,
+    });
+  });
+
+  return decoded;
+}
+
+/**
+ * Exact token balance changes of a transaction
+ *
+ * Accounts created or closed by the transaction are included (with a zero
+ * balance on the missing side). Accounts whose balance did not change are left
+ * out unless `includeUnchanged` is set.
+ *
+ * @param tx - Transaction from getTransaction (maxSupportedTransactionVersion: 0)
+ * @param includeUnchanged - Also return accounts with a zero delta
+ * @returns Balance changes, one per token account
+ */
+export function getTokenBalanceDeltas(
+  tx: VersionedTransactionResponse,
+  includeUnchanged: boolean = false
+): TokenBalanceDelta[] {
+  if (!tx.meta) {
+    return [];
+  }
+
+  const accountKeys = tx.transaction.message.getAccountKeys({
+    accountKeysFromLookups: tx.meta.loadedAddresses,
+  });
+  const balances = new Map<number, { pre?: TokenBalance; post?: TokenBalance }>();
+  for (const balance of tx.meta.preTokenBalances ?? []) {
+    balances.set(balance.accountIndex, { pre: balance });
+  }
+  for (const balance of tx.meta.postTokenBalances ?? []) {
+    balances.set(balance.accountIndex, { ...balances.get(balance.accountIndex), post: balance });
+  }
+
+  const deltas: TokenBalanceDelta[] = [];
+  balances.forEach(({ pre, post }, accountIndex) => {
+    const reference = (post ?? pre)!;
+    const preAmount = BigInt(pre?.uiTokenAmount.amount ?? 0);
+    const postAmount = BigInt(post?.uiTokenAmount.amount ?? 0);
+    if (preAmount === postAmount && !includeUnchanged) {
+      return;
+    }
+
+    deltas.push({
+      account: accountKeys.get(accountIndex)?.toBase58() ?? '',
+      mint: reference.mint,
+      owner: reference.owner,
+      decimals: reference.uiTokenAmount.decimals,
+      pre: preAmount,
+      post: postAmount,
+      delta: postAmount - preAmount,
+    });
+  });
+
+  return deltas;
+}
+
+/**
+ * Net change of a pool's vaults over a transaction
+ *
+ * Positive values mean tokens went into the pool.
+ *
+ * @param deltas - Balance changes from getTokenBalanceDeltas
+ * @param pool - Pool entry (vault addresses)
+ * @returns Vault A and vault B changes in base units
+ */
+export function getPoolVaultDeltas(
+  deltas: TokenBalanceDelta[],
+  pool: Pick<PoolConfigEntry, 'tokenAccountA' | 'tokenAccountB'>
+): { deltaA: bigint; deltaB: bigint } {
+  const deltaOf = (vault: string): bigint =>
+    deltas.find(delta => delta.account === vault)?.delta ?? 0n;
+
+  return {
+    deltaA: deltaOf(pool.tokenAccountA),
+    deltaB: deltaOf(pool.tokenAccountB),
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * DEX Address Lookup Table
+ *
+ * Every swap and liquidity instruction references the same static accounts:
+ * the pool state, its authority, both vaults, the LP mint, the fee account and
+ * the token mints. Keeping them in an address lookup table lets a v0 message
+ * reference each one with a 1-byte index instead of a 32-byte key, which is
+ * what makes multi-leg and multi-hop routes fit in a single transaction.
+ *
+ * The table is created and extended by `scripts/manage-lookup-table.js`, which
+ * writes its address to `lookupTable` in dex-config.json. Until that has been
+ * run the table is simply skipped and transactions list every key inline.
+ *
+ * @module lookupTable
+ */
+
+import { AddressLookupTableAccount, Connection, PublicKey, SystemProgram } from '@solana/web3.js';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import dexConfig from '@/config/dex-config.json';
+
+/**
+ * Subset of dex-config.json the lookup table is derived from
+ */
+export interface LookupTableConfig {
+  programId: string;
+  lookupTable?: string;
+  tokens: Array<{ mint: string }>;
+  pools: Array<{
+    poolAddress: string;
+    authority: string;
+    tokenAccountA: string;
+    tokenAccountB: string;
+    poolTokenMint: string;
+    feeAccount: string;
+    tokenA: string;
+    tokenB: string;
+  }>;
+}
+
+/** How long a fetched lookup table is reused before it is reloaded */
+const LOOKUP_TABLE_CACHE_TTL = 5 * 60 * 1000;
+
+let cachedTable: { account: AddressLookupTableAccount | null; expiresAt: number } | null = null;
+
+/**
+ * List the accounts the DEX lookup table should contain
+ *
+ * Programs come first, then token mints, then each pool's accounts in config
+ * order. Duplicates are removed so the list can be compared with the on-chain
+ * table directly. The lookup table script mirrors this ordering.
+ *
+ * @param config - DEX configuration (defaults to dex-config.json)
+ * @returns Unique addresses in table order
+ */
+export function getDexLookupTableAddresses(config: LookupTableConfig = dexConfig): PublicKey[] {
+  const addresses = [
+    config.programId,
+    TOKEN_PROGRAM_ID.toBase58(),
+    ASSOCIATED_TOKEN_PROGRAM_ID.toBase58(),
+    SystemProgram.programId.toBase58(),
+    ...config.tokens.map(token => token.mint),
+    ...config.pools.flatMap(pool => [
+      pool.poolAddress,
+      pool.authority,
+      pool.tokenAccountA,
+      pool.tokenAccountB,
+      pool.poolTokenMint,
+      pool.feeAccount,
+      pool.tokenA,
+      pool.tokenB,
+    ]),
+  ];
+
+  return Array.from(new Set(addresses)).map(address => new PublicKey(address));
+}
+
+/**
+ * Get the configured lookup table address, if any
+ *
+ * @param config - DEX configuration (defaults to dex-config.json)
+ * @returns Lookup table address, or null if the table has not been created yet
+ */
+export function getDexLookupTableAddress(config: LookupTableConfig = dexConfig): PublicKey | null {
+  return config.lookupTable ? new PublicKey(config.lookupTable) : null;
+}
+
+/**
+ * Load the DEX lookup table account
+ *
+ * The result is cached for five minutes. Failures are logged and treated as
+ * "no table" so a missing or unreachable table never blocks a transaction.
+ *
+ * @param connection - Solana connection instance
+ * @returns Lookup table account, or null if none is configured or it could not be loaded
+ */
+export async function getDexLookupTable(connection: Connection): Promise<AddressLookupTableAccount | null> {
+  if (cachedTable && cachedTable.expiresAt > Date.now()) {
+    return cachedTable.account;
+  }
+
+  const address = getDexLookupTableAddress();
+  if (!address) {
+    return null;
+  }
+
+  try {
+    const account = (await connection.getAddressLookupTable(address)).value;
+    if (account) {
+      console.log(`📇 Loaded DEX lookup table ${address.toBase58()} (${account.state.addresses.length} addresses)`);
+    } else {
+      console.warn(`⚠️  DEX lookup table ${address.toBase58()} not found, building transactions without it`);
+    }
+
+    cachedTable = { account, expiresAt: Date.now() + LOOKUP_TABLE_CACHE_TTL };
+    return account;
+  } catch (error) {
+    // Not cached, so the next transaction retries
+    console.warn('⚠️  Failed to load DEX lookup table, building transactions without it:', error);
+    return null;
+  }
+}
+
+/**
+ * Forget the cached lookup table (e.g. after it was extended)
+ */
+export function clearDexLookupTableCache(): void {
+  cachedTable = null;
+}
@@ -0,0 +1,364 @@
+/**
+ * LP Position History and P&L
+ *
+ * Rebuilds a liquidity provider's cost basis from their own add/remove
+ * liquidity transactions and values the position against it:
+ *
+ * - Hold value: what the deposited tokens would be worth now if they had been
+ *   kept in the wallet instead
+ * - Fees earned: growth of the pool invariant per LP token (sqrt(A × B) / LP
+ *   supply) since deposit. Swap fees are the only thing that grows it; price
+ *   moves do not. The entry invariant is only known exactly for balanced
+ *   deposits, so LP from single-sided deposits is left out of the estimate
+ * - Impermanent loss: LP value excluding fees versus hold value
+ * - Net P&L: realized P&L of withdrawals plus current value minus cost basis
+ *
+ * All values are in token A base units of the pool. Token B is converted at
+ * the pool price: the price after each transaction for historical amounts,
+ * and the current price for current value. Withdrawals reduce the cost basis
+ * proportionally (average cost).
+ *
+ * History is read from the signatures of the user's LP token account and cached
+ * per account, so refreshes only fetch new signatures.
+ *
+ * @module lpPositionHistory
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { throttledRpcCall } from '@/lib/utils/requestThrottler';
+import { decodeSammTransaction, getTokenBalanceDeltas, SammInstructionType } from './instructionDecoder';
+import type { PoolConfigEntry } from './poolRegistry';
+
+/** Maximum signatures returned by one getSignaturesForAddress call */
+const SIGNATURE_PAGE_SIZE = 1000;
+
+/** Transactions fetched per getTransactions call */
+const TRANSACTION_BATCH_SIZE = 25;
+
+const LIQUIDITY_TYPES: SammInstructionType[] = ['addLiquidity', 'removeLiquidity', 'addSingle', 'removeSingle'];
+
+/**
+ * Pool fields needed to read a position's history
+ */
+export type PositionPool = Pick<PoolConfigEntry, 'poolAddress' | 'tokenAccountA' | 'tokenAccountB' | 'poolTokenMint'>;
+
+/**
+ * Liquidity added or removed by the user in one transaction
+ */
+export interface LiquidityEvent {
+  /** Transaction signature */
+  signature: string;
+  /** Slot the transaction was confirmed in */
+  slot: number;
+  /** Block time (unix seconds), if known */
+  blockTime: number | null;
+  /** Pool state account address */
+  poolAddress: string;
+  /** Liquidity instruction executed */
+  type: SammInstructionType;
+  /** Token A paid into the pool in base units (negative: withdrawn) */
+  amountA: bigint;
+  /** Token B paid into the pool in base units (negative: withdrawn) */
+  amountB: bigint;
+  /** LP tokens minted to the user (negative: burned) */
+  lpAmount: bigint;
+  /** Token A reserve after the transaction */
+  reserveA: bigint;
+  /** Token B reserve after the transaction */
+  reserveB: bigint;
+}
+
+/**
+ * Current state of a position and its pool
+ */
+export interface PositionState {
+  /** User's LP token balance */
+  lpBalance: bigint;
+  /** Pool LP token supply */
+  lpSupply: bigint;
+  /** Pool token A reserve */
+  reserveA: bigint;
+  /** Pool token B reserve */
+  reserveB: bigint;
+}
+
+/**
+ * P&L of a position, in token A base units
+ */
+export interface PositionPnl {
+  /** Value of the deposits still in the position, at deposit-time prices */
+  costBasis: bigint;
+  /** Token A deposited and still attributed to the position */
+  depositedA: bigint;
+  /** Token B deposited and still attributed to the position */
+  depositedB: bigint;
+  /** Deposited tokens valued at the current price */
+  holdValue: bigint;
+  /** Current value of the position */
+  lpValue: bigint;
+  /** Part of the current value earned from swap fees */
+  feesEarned: bigint;
+  /** LP value excluding fees versus hold value, as a fraction (-0.02 = -2%) */
+  impermanentLoss: number;
+  /** P&L locked in by withdrawals */
+  realizedPnl: bigint;
+  /** Current value minus cost basis */
+  unrealizedPnl: bigint;
+  /** Realized plus unrealized P&L */
+  netPnl: bigint;
+  /**
+   * False if the LP balance does not match the history (e.g. LP tokens were
+   * transferred in); figures are then scaled to the current balance
+   */
+  historyComplete: boolean;
+  /**
+   * False if part of the position came from single-sided deposits: their
+   * fees are not estimated, so `feesEarned` covers the balanced deposits only
+   */
+  feesComplete: boolean;
+}
+
+/**
+ * Convert a token B amount to token A at a pool's price
+ */
+function toTokenA(amountB: bigint, reserveA: bigint, reserveB: bigint): bigint {
+  return reserveB > 0n ? (amountB * reserveA) / reserveB : 0n;
+}
+
+/**
+ * Read the user's liquidity change out of a transaction
+ *
+ * @param tx - Transaction from getTransaction (maxSupportedTransactionVersion: 0)
+ * @param signature - Transaction signature
+ * @param owner - Wallet that owns the LP tokens
+ * @param pool - Pool of the position
+ * @returns Liquidity event, or null if the transaction did not change the user's liquidity in the pool
+ */
+export function extractLiquidityEvent(
+  tx: Parameters<typeof decodeSammTransaction>[0],
+  signature: string,
+  owner: string,
+  pool: PositionPool
+): LiquidityEvent | null {
+  if (!tx.meta || tx.meta.err) {
+    return null;
+  }
+
+  const instruction = decodeSammTransaction(tx).find(
+    ix => ix.poolAddress === pool.poolAddress && LIQUIDITY_TYPES.includes(ix.args.type)
+  );
+  if (!instruction) {
+    return null;
+  }
+
+  const balances = getTokenBalanceDeltas(tx, true);
+  const vaultA = balances.find(balance => balance.account === pool.tokenAccountA);
+  const vaultB = balances.find(balance => balance.account === pool.tokenAccountB);
+  const lpAmount = balances
+    .filter(balance => balance.mint === pool.poolTokenMint && balance.owner === owner)
+    .reduce((sum, balance) => sum + balance.delta, 0n);
+
+  if (lpAmount === 0n) {
+    return null;
+  }
+
+  return {
+    signature,
+    slot: tx.slot,
+    blockTime: tx.blockTime ?? null,
+    poolAddress: pool.poolAddress,
+    type: instruction.args.type,
+    amountA: vaultA?.delta ?? 0n,
+    amountB: vaultB?.delta ?? 0n,
+    lpAmount,
+    reserveA: vaultA?.post ?? 0n,
+    reserveB: vaultB?.post ?? 0n,
+  };
+}
+
+/**
+ * Cached history per LP token account
+ */
+const historyCache = new Map<string, { cursor: string; events: LiquidityEvent[] }>();
+
+/**
+ * Fetch the user's liquidity events for a pool, oldest first
+ *
+ * Reads the signatures of the user's LP token account (associated token
+ * account). Results are cached, so later calls only fetch newer signatures.
+ *
+ * @param connection - Solana connection instance
+ * @param owner - Wallet that owns the LP tokens
+ * @param pool - Pool of the position
+ * @returns Promise resolving to the liquidity events
+ * @throws Error if an RPC call fails
+ */
+export async function fetchLiquidityEvents(
+  connection: Connection,
+  owner: PublicKey,
+  pool: PositionPool
+): Promise<LiquidityEvent[]> {
+  const lpAccount = getAssociatedTokenAddressSync(new PublicKey(pool.poolTokenMint), owner);
+  const cacheKey = lpAccount.toBase58();
+  const cached = historyCache.get(cacheKey);
+
+  const signatures: { signature: string; err: unknown }[] = [];
+  let before: string | undefined;
+  for (;;) {
+    const page = await throttledRpcCall(() =>
+      connection.getSignaturesForAddress(lpAccount, {
+        before,
+        until: cached?.cursor,
+        limit: SIGNATURE_PAGE_SIZE,
+      })
+    );
+    signatures.push(...page);
+    if (page.length < SIGNATURE_PAGE_SIZE) {
+      break;
+    }
+    before = page[page.length - 1].signature;
+  }
+
+  if (signatures.length === 0) {
+    return cached?.events ?? [];
+  }
+
+  const pending = signatures.filter(sig => !sig.err).map(sig => sig.signature);
+  const events: LiquidityEvent[] = [...(cached?.events ?? [])];
+
+  for (let i = 0; i < pending.length; i += TRANSACTION_BATCH_SIZE) {
+    const batch = pending.slice(i, i + TRANSACTION_BATCH_SIZE);
+    const txs = await throttledRpcCall(() =>
+      connection.getTransactions(batch, { maxSupportedTransactionVersion: 0, commitment: 'confirmed' })
+    );
+    txs.forEach((tx, j) => {
+      const event = tx && extractLiquidityEvent(tx, batch[j], owner.toBase58(), pool);
+      if (event) {
+        events.push(event);
+      }
+    });
+  }
+
+  events.sort((a, b) => a.slot - b.slot);
+  historyCache.set(cacheKey, { cursor: signatures[0].signature, events });
+
+  console.log(`📜 Loaded ${events.length} liquidity events for LP account ${cacheKey.slice(0, 8)}... (${pending.length} new)`);
+  return events;
+}
+
+/**
+ * Compute a position's P&L from its liquidity history
+ *
+ * @param events - Liquidity events of the position, oldest first
+ * @param state - Current position and pool state
+ * @returns Position P&L, or null if there is no deposit in the history
+ */
+export function computePositionPnl(events: LiquidityEvent[], state: PositionState): PositionPnl | null {
+  let lpHeld = 0n;
+  let depositedA = 0n;
+  let depositedB = 0n;
+  let costBasis = 0n;
+  let realizedPnl = 0n;
+  // Sum over LP from balanced deposits of the pool invariant per LP token at deposit
+  let entryInvariant = 0;
+  let balancedLp = 0n;
+  let historyComplete = true;
+
+  for (const event of events) {
+    if (event.lpAmount > 0n) {
+      const amountA = event.amountA > 0n ? event.amountA : 0n;
+      const amountB = event.amountB > 0n ? event.amountB : 0n;
+      const value = amountA + toTokenA(amountB, event.reserveA, event.reserveB);
+
+      // A balanced deposit worth V (in A) at price p (A per B) adds V / (2 × sqrt(p))
+      // to sqrt(A × B). A single-sided deposit adds less (the fee on its implicit
+      // swap stays in the pool), and the LP supply needed to measure it exactly
+      // is not in the transaction, so it is left out of the fee estimate
+      const price = event.reserveB > 0n ? Number(event.reserveA) / Number(event.reserveB) : 0;
+      if (event.type !== 'addSingle' && price > 0) {
+        entryInvariant += Number(value) / (2 * Math.sqrt(price));
+        balancedLp += event.lpAmount;
+      }
+
+      lpHeld += event.lpAmount;
+      depositedA += amountA;
+      depositedB += amountB;
+      costBasis += value;
+      continue;
+    }
+
+    const burned = -event.lpAmount;
+    if (lpHeld === 0n) {
+      historyComplete = false;
+      continue;
+    }
+    if (burned > lpHeld) {
+      historyComplete = false;
+    }
+    const removed = burned > lpHeld ? lpHeld : burned;
+
+    const removedCost = (costBasis * removed) / lpHeld;
+    const withdrawnA = event.amountA < 0n ? -event.amountA : 0n;
+    const withdrawnB = event.amountB < 0n ? -event.amountB : 0n;
+    realizedPnl += withdrawnA + toTokenA(withdrawnB, event.reserveA, event.reserveB) - removedCost;
+
+    entryInvariant -= (entryInvariant * Number(removed)) / Number(lpHeld);
+    balancedLp -= (balancedLp * removed) / lpHeld;
+    depositedA -= (depositedA * removed) / lpHeld;
+    depositedB -= (depositedB * removed) / lpHeld;
+    costBasis -= removedCost;
+    lpHeld -= removed;
+  }
+
+  if (lpHeld === 0n) {
+    return null;
+  }
+
+  // LP tokens received or sent outside the pool: scale the history to the balance
+  if (lpHeld !== state.lpBalance) {
+    historyComplete = false;
+    depositedA = (depositedA * state.lpBalance) / lpHeld;
+    depositedB = (depositedB * state.lpBalance) / lpHeld;
+    costBasis = (costBasis * state.lpBalance) / lpHeld;
+    entryInvariant = (entryInvariant * Number(state.lpBalance)) / Number(lpHeld);
+    balancedLp = (balancedLp * state.lpBalance) / lpHeld;
+  }
+  const feesComplete = balancedLp === state.lpBalance;
+
+  const { lpBalance, lpSupply, reserveA, reserveB } = state;
+  const userA = lpSupply > 0n ? (reserveA * lpBalance) / lpSupply : 0n;
+  const userB = lpSupply > 0n ? (reserveB * lpBalance) / lpSupply : 0n;
+  const lpValue = userA + toTokenA(userB, reserveA, reserveB);
+  const holdValue = depositedA + toTokenA(depositedB, reserveA, reserveB);
+
+  // Share of the balanced deposits' current value that comes from invariant growth (fees)
+  const currentInvariant = lpSupply > 0n
+    ? Math.sqrt(Number(reserveA) * Number(reserveB)) * Number(balancedLp) / Number(lpSupply)
+    : 0;
+  const feeShare = entryInvariant > 0 && currentInvariant > entryInvariant
+    ? 1 - entryInvariant / currentInvariant
+    : 0;
+  const balancedValue = lpBalance > 0n ? (lpValue * balancedLp) / lpBalance : 0n;
+  const feesEarned = BigInt(Math.floor(Number(balancedValue) * feeShare));
+
+  const impermanentLoss = holdValue > 0n
+    ? Number(lpValue - feesEarned) / Number(holdValue) - 1
+    : 0;
+  const unrealizedPnl = lpValue - costBasis;
+
+  return {
+    costBasis,
+    depositedA,
+    depositedB,
+    holdValue,
+    lpValue,
+    feesEarned,
+    impermanentLoss,
+    realizedPnl,
+    unrealizedPnl,
+    netPnl: realizedPnl + unrealizedPnl,
+    historyComplete,
+    feesComplete,
+  };
+}
@@ -0,0 +1,332 @@
+/**
+ * SAMM Pool Account Decoder
+ *
+ * This module decodes the on-chain accounts that make up a SAMM pool: the pool
+ * state account, its two token vaults and its LP mint. The program is a fork of
+ * the SPL Token Swap program and stores its pools in the same layout, so the fee
+ * schedule and curve parameters can be read straight from the account. Vaults
+ * and the LP mint are plain SPL Token accounts.
+ *
+ * Account Layout (324 bytes, little-endian):
+ * - Byte 0: version (u8, 1 for SwapV1)
+ * - Byte 1: is_initialized (u8 bool)
+ * - Byte 2: bump_seed (u8) - seed of the pool authority PDA
+ * - Bytes 3-34: token_program_id (Pubkey)
+ * - Bytes 35-66: token_a (Pubkey) - pool's token A reserve account
+ * - Bytes 67-98: token_b (Pubkey) - pool's token B reserve account
+ * - Bytes 99-130: pool_mint (Pubkey) - LP token mint
+ * - Bytes 131-162: token_a_mint (Pubkey)
+ * - Bytes 163-194: token_b_mint (Pubkey)
+ * - Bytes 195-226: pool_fee_account (Pubkey)
+ * - Bytes 227-290: fees (8 × u64 numerator/denominator pairs)
+ *   trade, owner trade, owner withdraw, host
+ * - Byte 291: curve_type (u8)
+ * - Bytes 292-323: curve calculator parameters (32 bytes, curve specific)
+ *
+ * Fee Model:
+ * On every swap the trade fee (kept in the pool for LPs) and the owner trade fee
+ * (minted to the fee account as LP tokens) are both taken from the input amount,
+ * so the effective swap fee is their sum.
+ *
+ * @module poolAccountDecoder
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { blob, struct, u8 } from '@solana/buffer-layout';
+import { AccountLayout, ACCOUNT_SIZE, MintLayout, MINT_SIZE } from '@solana/spl-token';
+
+/**
+ * Size of a SAMM pool state account in bytes
+ */
+export const POOL_ACCOUNT_SIZE = 324;
+
+/**
+ * Default swap fee used when the pool account cannot be read (0.3%)
+ */
+export const DEFAULT_SWAP_FEE = {
+  feeNumerator: 3n,
+  feeDenominator: 1000n,
+} as const;
+
+/**
+ * Curve types supported by the program
+ */
+export enum CurveType {
+  ConstantProduct = 0,
+  ConstantPrice = 1,
+  Stable = 2,
+  Offset = 3,
+}
+
+/**
+ * Fee schedule stored in the pool account
+ *
+ * Each fee is a numerator/denominator pair; a zero denominator means the fee is disabled.
+ */
+export interface PoolFees {
+  /** LP trade fee numerator */
+  tradeFeeNumerator: bigint;
+  /** LP trade fee denominator */
+  tradeFeeDenominator: bigint;
+  /** Protocol (owner) trade fee numerator */
+  ownerTradeFeeNumerator: bigint;
+  /** Protocol (owner) trade fee denominator */
+  ownerTradeFeeDenominator: bigint;
+  /** Fee on LP withdrawals numerator */
+  ownerWithdrawFeeNumerator: bigint;
+  /** Fee on LP withdrawals denominator */
+  ownerWithdrawFeeDenominator: bigint;
+  /** Host (referral) share of the owner fee numerator */
+  hostFeeNumerator: bigint;
+  /** Host (referral) share of the owner fee denominator */
+  hostFeeDenominator: bigint;
+}
+
+/**
+ * Swap curve configuration stored in the pool account
+ */
+export interface SwapCurveParams {
+  /** Curve type */
+  curveType: CurveType;
+  /** Raw curve calculator parameters (interpretation depends on curve type) */
+  parameters: Buffer;
+}
+
+/**
+ * Decoded SAMM pool state account
+ */
+export interface DecodedPoolAccount {
+  /** Account layout version */
+  version: number;
+  /** Whether the pool has been initialized */
+  isInitialized: boolean;
+  /** Bump seed of the pool authority PDA */
+  bumpSeed: number;
+  /** SPL Token program used by the pool */
+  tokenProgramId: PublicKey;
+  /** Pool's token A reserve account */
+  tokenAccountA: PublicKey;
+  /** Pool's token B reserve account */
+  tokenAccountB: PublicKey;
+  /** LP token mint */
+  poolMint: PublicKey;
+  /** Token A mint */
+  tokenAMint: PublicKey;
+  /** Token B mint */
+  tokenBMint: PublicKey;
+  /** Fee collection account (receives owner fees as LP tokens) */
+  feeAccount: PublicKey;
+  /** Fee schedule */
+  fees: PoolFees;
+  /** Swap curve */
+  curve: SwapCurveParams;
+}
+
+/**
+ * Decoded SPL token account (pool vault)
+ */
+export interface DecodedTokenAccount {
+  /** Mint of the tokens held */
+  mint: PublicKey;
+  /** Owner of the account (the pool authority for vaults) */
+  owner: PublicKey;
+  /** Token balance in base units */
+  amount: bigint;
+}
+
+/**
+ * Decoded SPL token mint (LP mint)
+ */
+export interface DecodedMint {
+  /** Total supply in base units */
+  supply: bigint;
+  /** Token decimals */
+  decimals: number;
+  /** Mint authority, or null if minting is disabled */
+  mintAuthority: PublicKey | null;
+}
+
+interface RawPoolAccount {
+  version: number;
+  isInitialized: number;
+  bumpSeed: number;
+  tokenProgramId: Uint8Array;
+  tokenAccountA: Uint8Array;
+  tokenAccountB: Uint8Array;
+  poolMint: Uint8Array;
+  tokenAMint: Uint8Array;
+  tokenBMint: Uint8Array;
+  feeAccount: Uint8Array;
+  tradeFeeNumerator: Uint8Array;
+  tradeFeeDenominator: Uint8Array;
+  ownerTradeFeeNumerator: Uint8Array;
+  ownerTradeFeeDenominator: Uint8Array;
+  ownerWithdrawFeeNumerator: Uint8Array;
+  ownerWithdrawFeeDenominator: Uint8Array;
+  hostFeeNumerator: Uint8Array;
+  hostFeeDenominator: Uint8Array;
+  curveType: number;
+  curveParameters: Uint8Array;
+}
+
+/**
+ * buffer-layout description of the pool account
+ * u64 and Pubkey fields are read as raw blobs and converted afterwards so
+ * that amounts keep full precision as bigint.
+ */
+const POOL_ACCOUNT_LAYOUT = struct<RawPoolAccount>([
+  u8('version'),
+  u8('isInitialized'),
+  u8('bumpSeed'),
+  blob(32, 'tokenProgramId'),
+  blob(32, 'tokenAccountA'),
+  blob(32, 'tokenAccountB'),
+  blob(32, 'poolMint'),
+  blob(32, 'tokenAMint'),
+  blob(32, 'tokenBMint'),
+  blob(32, 'feeAccount'),
+  blob(8, 'tradeFeeNumerator'),
+  blob(8, 'tradeFeeDenominator'),
+  blob(8, 'ownerTradeFeeNumerator'),
+  blob(8, 'ownerTradeFeeDenominator'),
+  blob(8, 'ownerWithdrawFeeNumerator'),
+  blob(8, 'ownerWithdrawFeeDenominator'),
+  blob(8, 'hostFeeNumerator'),
+  blob(8, 'hostFeeDenominator'),
+  u8('curveType'),
+  blob(32, 'curveParameters'),
+]);
+
+function readU64(bytes: Uint8Array): bigint {
+  return Buffer.from(bytes).readBigUInt64LE(0);
+}
+
+/**
+ * Decode a SAMM pool state account
+ *
+ * @param data - Raw account data
+ * @returns Decoded pool account
+ * @throws Error if the data is too short or the pool is not initialized
+ */
+export function decodePoolAccount(data: Buffer | Uint8Array): DecodedPoolAccount {
+  if (data.length < POOL_ACCOUNT_SIZE) {
+    throw new Error(`Invalid pool account: expected ${POOL_ACCOUNT_SIZE} bytes, got ${data.length}`);
+  }
+
+  const raw = POOL_ACCOUNT_LAYOUT.decode(Uint8Array.from(data));
+
+  if (!raw.isInitialized) {
+    throw new Error('Invalid pool account: pool is not initialized');
+  }
+
+  return {
+    version: raw.version,
+    isInitialized: raw.isInitialized !== 0,
+    bumpSeed: raw.bumpSeed,
+    tokenProgramId: new PublicKey(raw.tokenProgramId),
+    tokenAccountA: new PublicKey(raw.tokenAccountA),
+    tokenAccountB: new PublicKey(raw.tokenAccountB),
+    poolMint: new PublicKey(raw.poolMint),
+    tokenAMint: new PublicKey(raw.tokenAMint),
+    tokenBMint: new PublicKey(raw.tokenBMint),
+    feeAccount: new PublicKey(raw.feeAccount),
+    fees: {
+      tradeFeeNumerator: readU64(raw.tradeFeeNumerator),
+      tradeFeeDenominator: readU64(raw.tradeFeeDenominator),
+      ownerTradeFeeNumerator: readU64(raw.ownerTradeFeeNumerator),
+      ownerTradeFeeDenominator: readU64(raw.ownerTradeFeeDenominator),
+      ownerWithdrawFeeNumerator: readU64(raw.ownerWithdrawFeeNumerator),
+      ownerWithdrawFeeDenominator: readU64(raw.ownerWithdrawFeeDenominator),
+      hostFeeNumerator: readU64(raw.hostFeeNumerator),
+      hostFeeDenominator: readU64(raw.hostFeeDenominator),
+    },
+    curve: {
+      curveType: raw.curveType as CurveType,
+      parameters: Buffer.from(raw.curveParameters),
+    },
+  };
+}
+
+/**
+ * Decode an SPL token account
+ *
+ * @param data - Raw account data
+ * @returns Decoded token account
+ * @throws Error if the data is too short
+ */
+export function decodeTokenAccount(data: Buffer | Uint8Array): DecodedTokenAccount {
+  if (data.length < ACCOUNT_SIZE) {
+    throw new Error(`Invalid token account: expected ${ACCOUNT_SIZE} bytes, got ${data.length}`);
+  }
+
+  const raw = AccountLayout.decode(Uint8Array.from(data));
+
+  return {
+    mint: raw.mint,
+    owner: raw.owner,
+    amount: raw.amount,
+  };
+}
+
+/**
+ * Decode an SPL token mint
+ *
+ * @param data - Raw account data
+ * @returns Decoded mint
+ * @throws Error if the data is too short or the mint is not initialized
+ */
+export function decodeMint(data: Buffer | Uint8Array): DecodedMint {
+  if (data.length < MINT_SIZE) {
+    throw new Error(`Invalid mint account: expected ${MINT_SIZE} bytes, got ${data.length}`);
+  }
+
+  const raw = MintLayout.decode(Uint8Array.from(data));
+
+  if (!raw.isInitialized) {
+    throw new Error('Invalid mint account: mint is not initialized');
+  }
+
+  return {
+    supply: raw.supply,
+    decimals: raw.decimals,
+    mintAuthority: raw.mintAuthorityOption ? raw.mintAuthority : null,
+  };
+}
+
+/**
+ * Combine the trade and owner trade fees into a single swap fee fraction
+ *
+ * swapFee = tradeNum/tradeDen + ownerNum/ownerDen, expressed over the common
+ * denominator tradeDen * ownerDen. Disabled fees (zero denominator) are skipped.
+ *
+ * @param fees - Decoded pool fees
+ * @returns Effective swap fee as numerator/denominator
+ */
+export function getSwapFee(fees: PoolFees): { feeNumerator: bigint; feeDenominator: bigint } {
+  const parts: Array<[bigint, bigint]> = [
+    [fees.tradeFeeNumerator, fees.tradeFeeDenominator],
+    [fees.ownerTradeFeeNumerator, fees.ownerTradeFeeDenominator],
+  ].filter(([, denominator]) => denominator > 0n) as Array<[bigint, bigint]>;
+
+  if (parts.length === 0) {
+    return { feeNumerator: 0n, feeDenominator: 1n };
+  }
+
+  return parts.reduce(
+    (acc, [numerator, denominator]) => ({
+      feeNumerator: acc.feeNumerator * denominator + numerator * acc.feeDenominator,
+      feeDenominator: acc.feeDenominator * denominator,
+    }),
+    { feeNumerator: 0n, feeDenominator: 1n }
+  );
+}
+
+/**
+ * Convert a numerator/denominator fee to a percentage (e.g., 0.3 for 0.3%)
+ */
+export function feeToPercent(feeNumerator: bigint, feeDenominator: bigint): number {
+  if (feeDenominator === 0n) {
+    return 0;
+  }
+  return Number(feeNumerator) / Number(feeDenominator) * 100;
+}
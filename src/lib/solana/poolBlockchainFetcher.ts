@@ -9,7 +9,8 @@
  * - Fetch pool account data from Solana
  * - Fetch token account balances for pool reserves
  * - Fetch LP token supply
- * - Enrich pool objects with blockchain data
+ * - Enrich pool objects with blockchain data, loading all pool accounts with
+ *   batched getMultipleAccountsInfo calls
  * - Comprehensive error handling with fallbacks
  * 
  * @module poolBlockchainFetcher
@@ -24,6 +25,7 @@ import {
   PoolFetchError 
 } from '@/utils/fetchUtils';
 import { throttledRpcCall } from '@/lib/utils/requestThrottler';
+import { fetchPoolSnapshot, fetchPoolSnapshots, PoolSnapshot } from './poolSnapshot';
 
 /**
  * Pool account data structure from blockchain
@@ -45,6 +47,8 @@ export interface PoolAccountData {
   feeRate: number;
   /** Whether the pool is active and accepting trades */
   isActive: boolean;
+  /** Slot the data was read at */
+  slot: number;
   /** Timestamp when this data was fetched */
   lastUpdated: number;
 }
@@ -174,12 +178,27 @@ export async function fetchLPTokenSupply(
   );
 }
 
+/**
+ * Convert a pool snapshot to pool account data
+ */
+function snapshotToAccountData(snapshot: PoolSnapshot): PoolAccountData {
+  return {
+    reserveA: snapshot.reserveA,
+    reserveB: snapshot.reserveB,
+    lpTokenSupply: snapshot.lpTokenSupply,
+    feeRate: snapshot.feeRate,
+    isActive: true, // Assume active if we can fetch data
+    slot: snapshot.slot,
+    lastUpdated: snapshot.fetchedAt
+  };
+}
+
 /**
  * Fetch pool account data from blockchain
  * 
- * Fetches and parses the pool account data from the blockchain. For the sharded DEX,
- * we fetch reserves directly from token accounts rather than parsing the pool account,
- * as the pool account structure may vary.
+ * Loads the pool state account, both token vaults and the LP mint in a single
+ * getMultipleAccountsInfo call (see poolSnapshot), so reserves, LP supply and
+ * the decoded fee rate all come from the same slot.
  * 
  * @param connection - Solana connection instance
  * @param poolAddress - Pool account public key
@@ -200,26 +219,20 @@ export async function fetchPoolAccountData(
   console.log(`   Pool Address: ${poolAddress.toBase58()}`);
 
   try {
-    // Fetch reserves and LP supply in parallel
-    const [reserves, lpTokenSupply] = await Promise.all([
-      fetchPoolReserves(connection, tokenAAccount, tokenBAccount),
-      fetchLPTokenSupply(connection, lpTokenMint)
-    ]);
-
-    const accountData: PoolAccountData = {
-      reserveA: reserves.reserveA,
-      reserveB: reserves.reserveB,
-      lpTokenSupply,
-      feeRate: 0.3, // 0.3% fee (standard for this DEX)
-      isActive: true, // Assume active if we can fetch data
-      lastUpdated: Date.now()
-    };
+    // Fetch every pool account in one RPC call, with retry on transient failures
+    const snapshot = await fetchWithRetry(
+      () => fetchPoolSnapshot(connection, { poolAddress, tokenAAccount, tokenBAccount, lpTokenMint }),
+      { maxRetries: 3, baseDelay: 1000, maxDelay: 30000, multiplier: 2, timeoutMs: 10000 }
+    );
+
+    const accountData = snapshotToAccountData(snapshot);
 
     console.log('✅ Pool account data fetched successfully');
     console.log(`   Reserve A: ${accountData.reserveA.toString()}`);
     console.log(`   Reserve B: ${accountData.reserveB.toString()}`);
     console.log(`   LP Supply: ${accountData.lpTokenSupply.toString()}`);
     console.log(`   Fee Rate: ${accountData.feeRate}%`);
+    console.log(`   Slot: ${accountData.slot}`);
 
     return accountData;
   } catch (error) {
@@ -244,6 +257,32 @@ export async function fetchPoolAccountData(
   }
 }
 
+/**
+ * Apply fetched blockchain data to a pool
+ * 
+ * @param pool - Pool object to enrich
+ * @param accountData - Pool account data fetched from the blockchain
+ * @returns Enriched pool object marked as fresh blockchain data
+ */
+function applyAccountData(pool: Pool, accountData: PoolAccountData): Pool {
+  return {
+    ...pool,
+    reserveA: accountData.reserveA,
+    reserveB: accountData.reserveB,
+    lpTokenSupply: accountData.lpTokenSupply,
+    // Calculate total liquidity (sum of both reserves in base units)
+    totalLiquidity: accountData.reserveA + accountData.reserveB,
+    feeRate: accountData.feeRate,
+    isActive: accountData.isActive,
+    lastUpdated: accountData.lastUpdated,
+    // Add data source tracking (Requirement 5.1, 5.5)
+    dataSource: 'blockchain' as const,
+    lastBlockchainFetch: accountData.lastUpdated,
+    blockchainFetchError: null,
+    isFresh: true // Mark as fresh on successful fetch
+  };
+}
+
 /**
  * Enrich pool with blockchain data
  * 
@@ -286,25 +325,8 @@ export async function enrichPoolWithBlockchainData(
       );
     }
 
-    // Calculate total liquidity (sum of both reserves in base units)
-    const totalLiquidity = accountData.reserveA + accountData.reserveB;
-
     // Create enriched pool object
-    const enrichedPool: Pool = {
-      ...pool,
-      reserveA: accountData.reserveA,
-      reserveB: accountData.reserveB,
-      lpTokenSupply: accountData.lpTokenSupply,
-      totalLiquidity,
-      feeRate: accountData.feeRate,
-      isActive: accountData.isActive,
-      lastUpdated: accountData.lastUpdated,
-      // Add data source tracking (Requirement 5.1, 5.5)
-      dataSource: 'blockchain' as const,
-      lastBlockchainFetch: accountData.lastUpdated,
-      blockchainFetchError: null,
-      isFresh: true // Mark as fresh on successful fetch
-    };
+    const enrichedPool = applyAccountData(pool, accountData);
 
     console.log('✅ Pool enriched with blockchain data');
     console.log(`   Reserve A: ${enrichedPool.reserveA.toString()}`);
@@ -329,8 +351,9 @@ export async function enrichPoolWithBlockchainData(
 /**
  * Fetch blockchain data for multiple pools with batching and throttling
  * 
- * Efficiently fetches blockchain data for multiple pools using batched requests
- * to prevent overwhelming RPC endpoints with simultaneous calls.
+ * Loads every pool's state account, vaults and LP mint through batched
+ * getMultipleAccountsInfo calls (25 pools per call) instead of three RPC
+ * calls per pool.
  * 
  * Failed fetches are logged but don't prevent other pools from being enriched.
  * Pools that fail to fetch will retain their original config data.
@@ -346,47 +369,33 @@ export async function enrichPoolsWithBlockchainData(
   console.log(`\n🔄 Enriching ${pools.length} pools with blockchain data (batched)`);
 
   const startTime = Date.now();
-  const BATCH_SIZE = 5; // Process 5 pools at a time to reduce RPC load
-  const BATCH_DELAY = 200; // 200ms delay between batches
 
   try {
-    const enrichedPools: Pool[] = [];
-    
-    // Process pools in batches to avoid overwhelming RPC
-    for (let i = 0; i < pools.length; i += BATCH_SIZE) {
-      const batch = pools.slice(i, i + BATCH_SIZE);
-      const batchNumber = Math.floor(i / BATCH_SIZE) + 1;
-      const totalBatches = Math.ceil(pools.length / BATCH_SIZE);
-      
-      console.log(`🔄 Processing batch ${batchNumber}/${totalBatches} (${batch.length} pools)`);
-      
-      // Process current batch in parallel
-      const batchResults = await Promise.allSettled(
-        batch.map(pool => enrichPoolWithBlockchainData(connection, pool))
-      );
-      
-      // Extract successful results and handle failures
-      batchResults.forEach((result, index) => {
-        const pool = batch[index];
-        if (result.status === 'fulfilled') {
-          enrichedPools.push(result.value);
-        } else {
-          console.warn(`⚠️ Failed to enrich pool ${pool.tokenA.symbol}/${pool.tokenB.symbol}: ${result.reason}`);
-          // Keep original pool data on failure
-          enrichedPools.push({
-            ...pool,
-            dataSource: 'config' as const,
-            blockchainFetchError: result.reason instanceof Error ? result.reason.message : String(result.reason),
-            isFresh: false
-          });
-        }
-      });
-      
-      // Add delay between batches (except for the last batch)
-      if (i + BATCH_SIZE < pools.length) {
-        await new Promise(resolve => setTimeout(resolve, BATCH_DELAY));
+    const snapshots = await fetchWithRetry(
+      () => fetchPoolSnapshots(connection, pools.map(pool => ({
+        poolAddress: new PublicKey(pool.id),
+        tokenAAccount: pool.tokenAAccount,
+        tokenBAccount: pool.tokenBAccount,
+        lpTokenMint: pool.lpTokenMint
+      }))),
+      { maxRetries: 3, baseDelay: 1000, maxDelay: 30000, multiplier: 2, timeoutMs: 30000 }
+    );
+
+    const enrichedPools: Pool[] = pools.map((pool, index) => {
+      const snapshot = snapshots[index];
+      if (snapshot) {
+        return applyAccountData(pool, snapshotToAccountData(snapshot));
       }
-    }
+
+      console.warn(`⚠️ Failed to enrich pool ${pool.tokenA.symbol}/${pool.tokenB.symbol}: pool accounts not found or invalid`);
+      // Keep original pool data on failure
+      return {
+        ...pool,
+        dataSource: 'config' as const,
+        blockchainFetchError: `Pool accounts not found or invalid: ${pool.id}`,
+        isFresh: false
+      };
+    });
 
     const duration = Date.now() - startTime;
     const successCount = enrichedPools.filter(p => p.dataSource === 'blockchain').length;
@@ -398,8 +407,6 @@ export async function enrichPoolsWithBlockchainData(
     console.log(`   Failed: ${failureCount}`);
     console.log(`   Duration: ${duration}ms`);
     console.log(`   Avg per pool: ${(duration / pools.length).toFixed(2)}ms`);
-    console.log(`   Batches: ${Math.ceil(pools.length / BATCH_SIZE)}`);
-    console.log(`   Batch size: ${BATCH_SIZE}`);
 
     return enrichedPools;
   } catch (error) {
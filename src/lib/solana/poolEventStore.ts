@@ -0,0 +1,245 @@
+/**
+ * Pool Event Store
+ *
+ * Local storage for pool events decoded by the pool indexer, so that history
+ * only has to be read from the chain once: each pool keeps a cursor (the newest
+ * signature indexed) and later syncs fetch only newer signatures. A sync that
+ * stops at its page limit also leaves a resume point, so the signatures it
+ * did not reach are fetched by the next sync instead of being skipped.
+ *
+ * - `IndexedDbPoolEventStore` persists events in the browser
+ * - `MemoryPoolEventStore` keeps them for the lifetime of the process (SSR, tests)
+ *
+ * The Node indexing script (scripts/index-pools.ts) provides a SQLite store
+ * implementing the same interface.
+ *
+ * Amounts are stored as decimal strings so every backend can hold them without
+ * losing u64 precision.
+ *
+ * @module poolEventStore
+ */
+
+import type { SammInstructionType } from './instructionDecoder';
+
+/**
+ * SAMM instruction executed on a pool, with its effect on the vaults
+ */
+export interface PoolEvent {
+  /** Unique ID: `${signature}:${instructionIndex}` */
+  id: string;
+  /** Transaction signature */
+  signature: string;
+  /** Slot the transaction was confirmed in */
+  slot: number;
+  /** Block time (unix seconds) */
+  blockTime: number;
+  /** Pool state account address */
+  poolAddress: string;
+  /** Shard number of the pool */
+  shardNumber: number;
+  /** Operation performed */
+  type: SammInstructionType;
+  /** Change of the token A vault in base units (positive: into the pool) */
+  deltaA: string;
+  /** Change of the token B vault in base units (positive: into the pool) */
+  deltaB: string;
+}
+
+/**
+ * Unfinished signature walk of a pool: signatures older than `before` and
+ * newer than `until` have not been indexed yet
+ */
+export interface PoolIndexResumePoint {
+  /** Oldest signature fetched so far; the walk continues before it */
+  before: string;
+  /** Signature the walk stops at (the previous cursor), or null to stop at the lookback window */
+  until: string | null;
+}
+
+/**
+ * Storage backend for indexed pool events
+ */
+export interface PoolEventStore {
+  /** Newest signature indexed for a pool, or null if the pool was never indexed */
+  getCursor(poolAddress: string): Promise<string | null>;
+  /** Record the newest signature indexed for a pool */
+  setCursor(poolAddress: string, signature: string): Promise<void>;
+  /** Unfinished walk of a pool, or null if its history is complete up to the cursor */
+  getResumePoint(poolAddress: string): Promise<PoolIndexResumePoint | null>;
+  /** Record (or clear, with null) the unfinished walk of a pool */
+  setResumePoint(poolAddress: string, point: PoolIndexResumePoint | null): Promise<void>;
+  /** Insert events, replacing any with the same ID */
+  putEvents(events: PoolEvent[]): Promise<void>;
+  /** Events of a pool at or after `sinceBlockTime` (unix seconds), oldest first */
+  getEvents(poolAddress: string, sinceBlockTime: number): Promise<PoolEvent[]>;
+}
+
+/**
+ * Sort events oldest first (by slot, then ID)
+ */
+export function sortPoolEvents(events: PoolEvent[]): PoolEvent[] {
+  return events.sort((a, b) => a.slot - b.slot || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+}
+
+/**
+ * In-memory event store
+ */
+export class MemoryPoolEventStore implements PoolEventStore {
+  private cursors = new Map<string, string>();
+  private resumePoints = new Map<string, PoolIndexResumePoint>();
+  private events = new Map<string, PoolEvent>();
+
+  async getCursor(poolAddress: string): Promise<string | null> {
+    return this.cursors.get(poolAddress) ?? null;
+  }
+
+  async setCursor(poolAddress: string, signature: string): Promise<void> {
+    this.cursors.set(poolAddress, signature);
+  }
+
+  async getResumePoint(poolAddress: string): Promise<PoolIndexResumePoint | null> {
+    return this.resumePoints.get(poolAddress) ?? null;
+  }
+
+  async setResumePoint(poolAddress: string, point: PoolIndexResumePoint | null): Promise<void> {
+    if (point) {
+      this.resumePoints.set(poolAddress, point);
+    } else {
+      this.resumePoints.delete(poolAddress);
+    }
+  }
+
+  async putEvents(events: PoolEvent[]): Promise<void> {
+    events.forEach(event => this.events.set(event.id, event));
+  }
+
+  async getEvents(poolAddress: string, sinceBlockTime: number): Promise<PoolEvent[]> {
+    return sortPoolEvents(
+      Array.from(this.events.values()).filter(
+        event => event.poolAddress === poolAddress && event.blockTime >= sinceBlockTime
+      )
+    );
+  }
+}
+
+const DB_NAME = 'samm_pool_index';
+const DB_VERSION = 2;
+const EVENTS_STORE = 'events';
+const CURSORS_STORE = 'cursors';
+const RESUME_POINTS_STORE = 'resumePoints';
+const POOL_TIME_INDEX = 'poolAddress_blockTime';
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB-backed event store (browser only)
+ */
+export class IndexedDbPoolEventStore implements PoolEventStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+          const db = request.result;
+          if (event.oldVersion < 1) {
+            const events = db.createObjectStore(EVENTS_STORE, { keyPath: 'id' });
+            events.createIndex(POOL_TIME_INDEX, ['poolAddress', 'blockTime']);
+            db.createObjectStore(CURSORS_STORE);
+          }
+          if (event.oldVersion < 2) {
+            db.createObjectStore(RESUME_POINTS_STORE);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry if opening failed
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  async getCursor(poolAddress: string): Promise<string | null> {
+    const db = await this.open();
+    const cursor = await requestToPromise<string | undefined>(
+      db.transaction(CURSORS_STORE).objectStore(CURSORS_STORE).get(poolAddress)
+    );
+    return cursor ?? null;
+  }
+
+  async setCursor(poolAddress: string, signature: string): Promise<void> {
+    const db = await this.open();
+    await requestToPromise(
+      db.transaction(CURSORS_STORE, 'readwrite').objectStore(CURSORS_STORE).put(signature, poolAddress)
+    );
+  }
+
+  async getResumePoint(poolAddress: string): Promise<PoolIndexResumePoint | null> {
+    const db = await this.open();
+    const point = await requestToPromise<PoolIndexResumePoint | undefined>(
+      db.transaction(RESUME_POINTS_STORE).objectStore(RESUME_POINTS_STORE).get(poolAddress)
+    );
+    return point ?? null;
+  }
+
+  async setResumePoint(poolAddress: string, point: PoolIndexResumePoint | null): Promise<void> {
+    const db = await this.open();
+    const store = db.transaction(RESUME_POINTS_STORE, 'readwrite').objectStore(RESUME_POINTS_STORE);
+    if (point) {
+      await requestToPromise(store.put(point, poolAddress));
+    } else {
+      await requestToPromise(store.delete(poolAddress));
+    }
+  }
+
+  async putEvents(events: PoolEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    const db = await this.open();
+    const tx = db.transaction(EVENTS_STORE, 'readwrite');
+    const store = tx.objectStore(EVENTS_STORE);
+    events.forEach(event => store.put(event));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  async getEvents(poolAddress: string, sinceBlockTime: number): Promise<PoolEvent[]> {
+    const db = await this.open();
+    const range = IDBKeyRange.bound([poolAddress, sinceBlockTime], [poolAddress, Infinity]);
+    const events = await requestToPromise<PoolEvent[]>(
+      db.transaction(EVENTS_STORE).objectStore(EVENTS_STORE).index(POOL_TIME_INDEX).getAll(range)
+    );
+    return sortPoolEvents(events);
+  }
+}
+
+let defaultStore: PoolEventStore | null = null;
+
+/**
+ * Event store shared by the app: IndexedDB in the browser, in-memory elsewhere
+ */
+export function getDefaultPoolEventStore(): PoolEventStore {
+  if (!defaultStore) {
+    defaultStore = typeof indexedDB !== 'undefined'
+      ? new IndexedDbPoolEventStore()
+      : new MemoryPoolEventStore();
+  }
+  return defaultStore;
+}
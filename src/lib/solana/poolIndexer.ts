@@ -0,0 +1,399 @@
+/**
+ * Pool Transaction Indexer
+ *
+ * Builds pool volume, fee and APR figures from the program's own transactions
+ * instead of placeholders. For each pool the indexer pages through
+ * `getSignaturesForAddress` (newest first, stopping at the pool's cursor),
+ * decodes the SAMM instructions with instructionDecoder, records their vault
+ * changes as pool events in a PoolEventStore, and advances the cursor. A walk
+ * cut short by the page limit is finished by the next sync from its resume
+ * point before newer signatures are fetched.
+ *
+ * Stats are computed from stored events:
+ * - Volume: token A side of each swap (A paid in, or A paid out)
+ * - Fees: volume × the pool's effective swap fee
+ * - Fee APR: 7-day fees annualized, over TVL (2 × reserve A)
+ *
+ * All amounts are in token A base units of the pool, so they can be summed
+ * across the shards of a pair.
+ *
+ * @module poolIndexer
+ */
+
+import { Connection, PublicKey, VersionedTransactionResponse } from '@solana/web3.js';
+import { throttledRpcCall } from '@/lib/utils/requestThrottler';
+import { decodeSammTransaction, getPoolVaultDeltas, getTokenBalanceDeltas } from './instructionDecoder';
+import type { PoolConfigEntry } from './poolRegistry';
+import { getDefaultPoolEventStore, PoolEvent, PoolEventStore } from './poolEventStore';
+
+/** Seconds in a day */
+const DAY_SECONDS = 24 * 60 * 60;
+
+/** Maximum signatures returned by one getSignaturesForAddress call */
+const SIGNATURE_PAGE_SIZE = 1000;
+
+/**
+ * Options for indexing a pool
+ */
+export interface PoolIndexOptions {
+  /** How far back to index a pool with no cursor, in seconds (default: 7 days) */
+  lookbackSeconds?: number;
+  /** Maximum signature pages fetched per sync (default: 10) */
+  maxPages?: number;
+  /** Transactions fetched per getTransactions call (default: 25) */
+  batchSize?: number;
+}
+
+/**
+ * Result of indexing one pool
+ */
+export interface PoolIndexResult {
+  /** Pool state account address */
+  poolAddress: string;
+  /** New successful signatures processed */
+  signatures: number;
+  /** Pool events stored */
+  events: number;
+}
+
+/**
+ * Pool fields needed to index it
+ */
+export type IndexedPool = Pick<PoolConfigEntry, 'poolAddress' | 'shardNumber' | 'tokenAccountA' | 'tokenAccountB'>;
+
+/**
+ * Turn a transaction into events for one pool
+ *
+ * Vault changes are measured over the whole transaction, so if it runs several
+ * SAMM instructions against the same pool they are attributed to the first.
+ *
+ * @param tx - Transaction from getTransaction (maxSupportedTransactionVersion: 0)
+ * @param signature - Transaction signature
+ * @param pool - Pool being indexed
+ * @returns Events for the pool (empty for failed or unrelated transactions)
+ */
+export function extractPoolEvents(
+  tx: VersionedTransactionResponse,
+  signature: string,
+  pool: IndexedPool
+): PoolEvent[] {
+  if (!tx.meta || tx.meta.err || !tx.blockTime) {
+    return [];
+  }
+
+  const instructions = decodeSammTransaction(tx).filter(ix => ix.poolAddress === pool.poolAddress);
+  if (instructions.length === 0) {
+    return [];
+  }
+
+  const { deltaA, deltaB } = getPoolVaultDeltas(getTokenBalanceDeltas(tx), pool);
+
+  return instructions.map((ix, i) => ({
+    id: `${signature}:${ix.index}`,
+    signature,
+    slot: tx.slot,
+    blockTime: tx.blockTime!,
+    poolAddress: pool.poolAddress,
+    shardNumber: pool.shardNumber,
+    type: ix.args.type,
+    deltaA: (i === 0 ? deltaA : 0n).toString(),
+    deltaB: (i === 0 ? deltaB : 0n).toString(),
+  }));
+}
+
+/**
+ * Index new transactions of a pool
+ *
+ * Fetches signatures newer than the pool's cursor (or within the lookback
+ * window on the first run), decodes them and stores the pool's events. The
+ * cursor only moves once everything fetched has been stored, so an interrupted
+ * sync is retried from the same point.
+ *
+ * If the walk stops at `maxPages` before reaching the cursor or the lookback
+ * window, the older signatures it did not reach are recorded as a resume
+ * point, and the next sync continues that walk instead of fetching newer
+ * signatures.
+ *
+ * @param connection - Solana connection instance
+ * @param pool - Pool to index
+ * @param store - Event store (default: the app's shared store)
+ * @param options - Indexing options
+ * @returns Promise resolving to what was indexed
+ * @throws Error if an RPC call fails
+ */
+export async function indexPool(
+  connection: Connection,
+  pool: IndexedPool,
+  store: PoolEventStore = getDefaultPoolEventStore(),
+  options: PoolIndexOptions = {}
+): Promise<PoolIndexResult> {
+  const { lookbackSeconds = 7 * DAY_SECONDS, maxPages = 10, batchSize = 25 } = options;
+  const address = new PublicKey(pool.poolAddress);
+  const cursor = await store.getCursor(pool.poolAddress);
+  const resume = await store.getResumePoint(pool.poolAddress);
+  const since = Math.floor(Date.now() / 1000) - lookbackSeconds;
+
+  // Page back from the newest signature (or the resume point) until the
+  // cursor or the lookback window
+  const until = resume ? resume.until : cursor;
+  const signatures: { signature: string; blockTime?: number | null; err: unknown }[] = [];
+  let before = resume?.before;
+  let complete = false;
+  for (let page = 0; page < maxPages; page++) {
+    const batch = await throttledRpcCall(() =>
+      connection.getSignaturesForAddress(address, {
+        before,
+        until: until ?? undefined,
+        limit: SIGNATURE_PAGE_SIZE,
+      })
+    );
+    signatures.push(...batch);
+
+    const oldest = batch[batch.length - 1];
+    if (batch.length < SIGNATURE_PAGE_SIZE || (oldest.blockTime && oldest.blockTime < since)) {
+      complete = true;
+      break;
+    }
+    before = oldest.signature;
+  }
+
+  if (signatures.length === 0) {
+    if (resume) {
+      await store.setResumePoint(pool.poolAddress, null);
+    }
+    return { poolAddress: pool.poolAddress, signatures: 0, events: 0 };
+  }
+
+  const pending = signatures.filter(sig => !sig.err && (!sig.blockTime || sig.blockTime >= since));
+  const events: PoolEvent[] = [];
+
+  for (let i = 0; i < pending.length; i += batchSize) {
+    const batch = pending.slice(i, i + batchSize).map(sig => sig.signature);
+    const txs = await throttledRpcCall(() =>
+      connection.getTransactions(batch, { maxSupportedTransactionVersion: 0, commitment: 'confirmed' })
+    );
+    txs.forEach((tx, j) => {
+      if (tx) {
+        events.push(...extractPoolEvents(tx, batch[j], pool));
+      }
+    });
+  }
+
+  await store.putEvents(events);
+
+  // Record where an unfinished walk continues before moving the cursor past
+  // it, so an interruption in between cannot skip signatures
+  const oldest = signatures[signatures.length - 1].signature;
+  await store.setResumePoint(pool.poolAddress, complete ? null : { before: oldest, until });
+  if (!resume) {
+    await store.setCursor(pool.poolAddress, signatures[0].signature);
+  }
+
+  console.log(`📇 Indexed Shard ${pool.shardNumber} (${pool.poolAddress.slice(0, 8)}...): ${pending.length} new transactions, ${events.length} events${complete ? '' : ' (more to fetch next sync)'}`);
+
+  return { poolAddress: pool.poolAddress, signatures: pending.length, events: events.length };
+}
+
+const syncsInFlight = new Map<string, Promise<PoolIndexResult>>();
+
+/**
+ * Index several pools, sharing in-flight syncs with concurrent callers
+ *
+ * Pools that fail to index are logged and left out of the results.
+ *
+ * @param connection - Solana connection instance
+ * @param pools - Pools to index
+ * @param store - Event store (default: the app's shared store)
+ * @param options - Indexing options
+ * @returns Promise resolving to the results of the pools that were indexed
+ */
+export async function syncPoolIndex(
+  connection: Connection,
+  pools: IndexedPool[],
+  store: PoolEventStore = getDefaultPoolEventStore(),
+  options: PoolIndexOptions = {}
+): Promise<PoolIndexResult[]> {
+  const results: PoolIndexResult[] = [];
+
+  // Pools are indexed one after another to stay within the RPC rate limits
+  for (const pool of pools) {
+    let sync = syncsInFlight.get(pool.poolAddress);
+    if (!sync) {
+      sync = indexPool(connection, pool, store, options).finally(() => {
+        syncsInFlight.delete(pool.poolAddress);
+      });
+      syncsInFlight.set(pool.poolAddress, sync);
+    }
+
+    try {
+      results.push(await sync);
+    } catch (error) {
+      console.warn(`⚠️  Failed to index pool ${pool.poolAddress}:`, error);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Pool state needed to value its events
+ */
+export interface ShardStatsInput {
+  /** Pool state account address */
+  poolAddress: string;
+  /** Shard number of the pool */
+  shardNumber: number;
+  /** Current token A reserve in base units */
+  reserveA: bigint;
+  /** Effective swap fee numerator */
+  feeNumerator: bigint;
+  /** Effective swap fee denominator */
+  feeDenominator: bigint;
+}
+
+/**
+ * Rolling stats of one shard, in token A base units
+ */
+export interface ShardStats {
+  /** Pool state account address */
+  poolAddress: string;
+  /** Shard number of the pool */
+  shardNumber: number;
+  /** Swap volume over the last 24 hours */
+  volume24h: bigint;
+  /** Swap volume over the last 7 days */
+  volume7d: bigint;
+  /** Swap fees over the last 24 hours */
+  fees24h: bigint;
+  /** Swap fees over the last 7 days */
+  fees7d: bigint;
+  /** Swaps over the last 24 hours */
+  swaps24h: number;
+  /** Total value locked (2 × reserve A) */
+  tvl: bigint;
+  /** Annualized fee return on TVL as a fraction (0.12 = 12%) */
+  feeApr: number;
+}
+
+/**
+ * Rolling stats of a pair, summed over its shards
+ */
+export interface PairStats extends Omit<ShardStats, 'poolAddress' | 'shardNumber'> {
+  /** Per-shard stats */
+  shards: ShardStats[];
+}
+
+/**
+ * Token A side of a swap event
+ *
+ * A positive A change means A was paid in; otherwise A was paid out for B.
+ *
+ * @param event - Swap event
+ * @returns Traded token A amount in base units
+ */
+export function swapVolumeA(event: PoolEvent): bigint {
+  const deltaA = BigInt(event.deltaA);
+  return deltaA < 0n ? -deltaA : deltaA;
+}
+
+/**
+ * Annualized fee APR from 7-day fees
+ */
+function feeAprOf(fees7d: bigint, tvl: bigint): number {
+  return tvl > 0n ? (Number(fees7d) / 7) * 365 / Number(tvl) : 0;
+}
+
+/**
+ * Compute rolling stats of a shard from its events
+ *
+ * @param events - Pool events (events of other pools and non-swaps are ignored)
+ * @param shard - Current pool state
+ * @param now - Current time in unix seconds (default: now)
+ * @returns Shard stats
+ */
+export function computeShardStats(
+  events: PoolEvent[],
+  shard: ShardStatsInput,
+  now: number = Math.floor(Date.now() / 1000)
+): ShardStats {
+  const dayAgo = now - DAY_SECONDS;
+  const weekAgo = now - 7 * DAY_SECONDS;
+
+  let volume24h = 0n;
+  let volume7d = 0n;
+  let swaps24h = 0;
+
+  for (const event of events) {
+    if (event.poolAddress !== shard.poolAddress || event.type !== 'swap' || event.blockTime < weekAgo) {
+      continue;
+    }
+    const volume = swapVolumeA(event);
+    volume7d += volume;
+    if (event.blockTime >= dayAgo) {
+      volume24h += volume;
+      swaps24h++;
+    }
+  }
+
+  const feeOf = (volume: bigint): bigint =>
+    shard.feeDenominator > 0n ? (volume * shard.feeNumerator) / shard.feeDenominator : 0n;
+  const fees7d = feeOf(volume7d);
+  const tvl = shard.reserveA * 2n;
+
+  return {
+    poolAddress: shard.poolAddress,
+    shardNumber: shard.shardNumber,
+    volume24h,
+    volume7d,
+    fees24h: feeOf(volume24h),
+    fees7d,
+    swaps24h,
+    tvl,
+    feeApr: feeAprOf(fees7d, tvl),
+  };
+}
+
+/**
+ * Sum shard stats into pair stats
+ *
+ * The shards must share the same token A, so their amounts are in the same unit.
+ *
+ * @param shards - Stats of the pair's shards
+ * @returns Pair stats (APR is total 7-day fees over total TVL)
+ */
+export function computePairStats(shards: ShardStats[]): PairStats {
+  const sum = (field: 'volume24h' | 'volume7d' | 'fees24h' | 'fees7d' | 'tvl'): bigint =>
+    shards.reduce((total, shard) => total + shard[field], 0n);
+
+  const fees7d = sum('fees7d');
+  const tvl = sum('tvl');
+
+  return {
+    volume24h: sum('volume24h'),
+    volume7d: sum('volume7d'),
+    fees24h: sum('fees24h'),
+    fees7d,
+    swaps24h: shards.reduce((total, shard) => total + shard.swaps24h, 0),
+    tvl,
+    feeApr: feeAprOf(fees7d, tvl),
+    shards,
+  };
+}
+
+/**
+ * Read a shard's stats from the event store
+ *
+ * Does not touch the chain; run syncPoolIndex first for fresh figures.
+ *
+ * @param shard - Current pool state
+ * @param store - Event store (default: the app's shared store)
+ * @returns Promise resolving to the shard stats
+ */
+export async function getShardStats(
+  shard: ShardStatsInput,
+  store: PoolEventStore = getDefaultPoolEventStore()
+): Promise<ShardStats> {
+  const now = Math.floor(Date.now() / 1000);
+  const events = await store.getEvents(shard.poolAddress, now - 7 * DAY_SECONDS);
+  return computeShardStats(events, shard, now);
+}
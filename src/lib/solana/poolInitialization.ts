@@ -0,0 +1,322 @@
+/**
+ * On-chain Pool Initialization
+ *
+ * Creates a new SAMM pool with the program's INITIALIZE instruction. The
+ * program expects everything except the pool state account to exist already,
+ * so creation takes two transactions:
+ *
+ * 1. Setup: create the LP mint (mint authority = pool authority PDA), both
+ *    vaults (owned by the PDA), the fee account and the creator's LP account.
+ *    No funds move, so a failure here only costs rent.
+ * 2. Initialize: fund the vaults, allocate the pool state account and call
+ *    INITIALIZE, which mints the initial LP supply to the creator. The funding
+ *    and initialization are atomic.
+ *
+ * Each transaction is simulated before the wallet is asked to sign.
+ *
+ * @module poolInitialization
+ */
+
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createInitializeMint2Instruction,
+  createTransferInstruction,
+  getAssociatedTokenAddressSync,
+  MINT_SIZE,
+  TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import { WalletContextState } from '@solana/wallet-adapter-react';
+import dexConfig from '@/config/dex-config.json';
+import { createInitializePoolInstruction, findPoolAuthorityAddress } from './poolInstructions';
+import { CurveType, PoolFees, POOL_ACCOUNT_SIZE } from './poolAccountDecoder';
+import { getPoolConfigs, PoolConfigEntry } from './poolRegistry';
+import { buildDexTransaction, BuiltTransaction } from './transactionBuilder';
+import { PriorityFeeSettings } from './priorityFees';
+import { getConfirmedTransactionError, simulateDexTransaction } from './simulation';
+
+/**
+ * Decimals of LP token mints created by the app
+ */
+export const LP_TOKEN_DECIMALS = 9;
+
+/**
+ * LP supply the constant-product curve mints to the creator on initialization
+ */
+export const INITIAL_LP_SUPPLY = BigInt(1_000_000_000);
+
+/**
+ * Token side of a new pool
+ */
+export interface PoolTokenInfo {
+  /** Mint address */
+  mint: string;
+  /** Symbol recorded in the pool entry */
+  symbol: string;
+  /** Mint decimals */
+  decimals: number;
+}
+
+/**
+ * Parameters for initializing a pool
+ */
+export interface InitializePoolParams {
+  /** Token A */
+  tokenA: PoolTokenInfo;
+  /** Token B */
+  tokenB: PoolTokenInfo;
+  /** Initial token A liquidity in base units */
+  amountA: bigint;
+  /** Initial token B liquidity in base units */
+  amountB: bigint;
+  /** Fee schedule (see `poolFeesFromRate`) */
+  fees: PoolFees;
+  /** Shard number to record (default: next free number for the pair) */
+  shardNumber?: number;
+}
+
+/**
+ * Options for initializing a pool
+ */
+export interface InitializePoolOptions {
+  /** Program that owns the pool (default: the configured SAMM program) */
+  programId?: string;
+  /** Owner of the fee account (default: the configured DEX payer) */
+  feeOwner?: PublicKey;
+  /** Priority fee preferences (default: auto-optimize) */
+  feeSettings?: PriorityFeeSettings;
+}
+
+/**
+ * A pool created on-chain
+ */
+export interface InitializedPool {
+  /** Signature of the initialize transaction */
+  signature: string;
+  /** Pool entry in `dex-config.json` format */
+  config: PoolConfigEntry;
+  /** LP supply minted to the creator */
+  lpTokenSupply: bigint;
+}
+
+/**
+ * Fee schedule with a single trade fee and no owner fees
+ *
+ * @param feeRate - Trade fee in percent (e.g. 0.25 for 0.25%)
+ * @returns Fee schedule in basis-point precision
+ */
+export function poolFeesFromRate(feeRate: number): PoolFees {
+  return {
+    tradeFeeNumerator: BigInt(Math.round(feeRate * 100)),
+    tradeFeeDenominator: BigInt(10000),
+    ownerTradeFeeNumerator: BigInt(0),
+    ownerTradeFeeDenominator: BigInt(0),
+    ownerWithdrawFeeNumerator: BigInt(0),
+    ownerWithdrawFeeDenominator: BigInt(0),
+    hostFeeNumerator: BigInt(0),
+    hostFeeDenominator: BigInt(0),
+  };
+}
+
+/**
+ * Next unused shard number for a token pair
+ *
+ * @param tokenAMint - Token A mint address
+ * @param tokenBMint - Token B mint address
+ * @returns One more than the highest known shard number for the pair (1 for a new pair)
+ */
+export function getNextShardNumber(tokenAMint: string, tokenBMint: string): number {
+  const shardNumbers = getPoolConfigs()
+    .filter(pool =>
+      (pool.tokenA === tokenAMint && pool.tokenB === tokenBMint) ||
+      (pool.tokenA === tokenBMint && pool.tokenB === tokenAMint)
+    )
+    .map(pool => pool.shardNumber);
+
+  return shardNumbers.length > 0 ? Math.max(...shardNumbers) + 1 : 1;
+}
+
+/**
+ * Create and initialize a new pool
+ *
+ * @param connection - Solana connection instance
+ * @param wallet - Creator's wallet (pays rent and provides the initial liquidity)
+ * @param params - Tokens, initial liquidity and fees
+ * @param options - Program, fee owner and priority fee settings
+ * @returns Promise resolving to the new pool
+ * @throws DexTransactionError if a transaction fails in simulation or on-chain
+ * @throws Error if the wallet cannot sign or an amount is not positive
+ */
+export async function initializePool(
+  connection: Connection,
+  wallet: WalletContextState,
+  params: InitializePoolParams,
+  options: InitializePoolOptions = {}
+): Promise<InitializedPool> {
+  const { tokenA, tokenB, amountA, amountB, fees } = params;
+  const { feeSettings } = options;
+
+  if (!wallet.publicKey || !wallet.signTransaction) {
+    throw new Error('Wallet not connected or does not support transaction signing');
+  }
+  if (amountA <= BigInt(0) || amountB <= BigInt(0)) {
+    throw new Error('Initial liquidity must be positive for both tokens');
+  }
+
+  const payer = wallet.publicKey;
+  const programId = new PublicKey(options.programId ?? dexConfig.programId);
+  const feeOwner = options.feeOwner ?? new PublicKey(dexConfig.payer);
+
+  const poolKeypair = Keypair.generate();
+  const lpMintKeypair = Keypair.generate();
+  const [poolAuthority] = findPoolAuthorityAddress(programId, poolKeypair.publicKey);
+
+  const tokenAMint = new PublicKey(tokenA.mint);
+  const tokenBMint = new PublicKey(tokenB.mint);
+  const lpTokenMint = lpMintKeypair.publicKey;
+
+  // Vaults are the authority's ATAs (the authority is a PDA, so off-curve owners are allowed)
+  const poolTokenAccountA = getAssociatedTokenAddressSync(tokenAMint, poolAuthority, true);
+  const poolTokenAccountB = getAssociatedTokenAddressSync(tokenBMint, poolAuthority, true);
+  const feeAccount = getAssociatedTokenAddressSync(lpTokenMint, feeOwner, true);
+  const userLpTokenAccount = getAssociatedTokenAddressSync(lpTokenMint, payer);
+  const userTokenAccountA = getAssociatedTokenAddressSync(tokenAMint, payer);
+  const userTokenAccountB = getAssociatedTokenAddressSync(tokenBMint, payer);
+
+  console.log('🏗️  Initializing pool:');
+  console.log(`   Pair: ${tokenA.symbol}/${tokenB.symbol}`);
+  console.log(`   Pool: ${poolKeypair.publicKey.toBase58()}`);
+  console.log(`   Authority: ${poolAuthority.toBase58()}`);
+  console.log(`   LP mint: ${lpTokenMint.toBase58()}`);
+
+  // 1. Setup: LP mint, vaults, fee account and creator LP account
+  const [mintRent, poolRent] = await Promise.all([
+    connection.getMinimumBalanceForRentExemption(MINT_SIZE),
+    connection.getMinimumBalanceForRentExemption(POOL_ACCOUNT_SIZE),
+  ]);
+
+  const setupInstructions: TransactionInstruction[] = [
+    SystemProgram.createAccount({
+      fromPubkey: payer,
+      newAccountPubkey: lpTokenMint,
+      lamports: mintRent,
+      space: MINT_SIZE,
+      programId: TOKEN_PROGRAM_ID,
+    }),
+    createInitializeMint2Instruction(lpTokenMint, LP_TOKEN_DECIMALS, poolAuthority, null),
+    createAssociatedTokenAccountIdempotentInstruction(payer, poolTokenAccountA, poolAuthority, tokenAMint),
+    createAssociatedTokenAccountIdempotentInstruction(payer, poolTokenAccountB, poolAuthority, tokenBMint),
+    createAssociatedTokenAccountIdempotentInstruction(payer, feeAccount, feeOwner, lpTokenMint),
+  ];
+  if (!feeAccount.equals(userLpTokenAccount)) {
+    setupInstructions.push(
+      createAssociatedTokenAccountIdempotentInstruction(payer, userLpTokenAccount, payer, lpTokenMint)
+    );
+  }
+
+  const setup = await buildDexTransaction(connection, payer, setupInstructions, { feeSettings });
+  await sendWithSigners(connection, wallet, setup, lpMintKeypair, programId);
+  console.log('✅ Pool accounts created');
+
+  // 2. Fund the vaults and initialize the pool atomically
+  const initializeInstructions: TransactionInstruction[] = [
+    createTransferInstruction(userTokenAccountA, poolTokenAccountA, payer, amountA),
+    createTransferInstruction(userTokenAccountB, poolTokenAccountB, payer, amountB),
+    SystemProgram.createAccount({
+      fromPubkey: payer,
+      newAccountPubkey: poolKeypair.publicKey,
+      lamports: poolRent,
+      space: POOL_ACCOUNT_SIZE,
+      programId,
+    }),
+    createInitializePoolInstruction(
+      programId,
+      poolKeypair.publicKey,
+      poolAuthority,
+      poolTokenAccountA,
+      poolTokenAccountB,
+      lpTokenMint,
+      feeAccount,
+      userLpTokenAccount,
+      fees,
+      CurveType.ConstantProduct
+    ),
+  ];
+
+  const initialize = await buildDexTransaction(connection, payer, initializeInstructions, {
+    commitment: 'finalized',
+    feeSettings,
+  });
+  const signature = await sendWithSigners(connection, wallet, initialize, poolKeypair, programId);
+  console.log(`✅ Pool initialized: ${signature}`);
+
+  let lpTokenSupply = INITIAL_LP_SUPPLY;
+  try {
+    lpTokenSupply = BigInt((await connection.getTokenSupply(lpTokenMint, 'confirmed')).value.amount);
+  } catch (error) {
+    console.warn('⚠️  Could not read initial LP supply, assuming the curve default:', error);
+  }
+
+  const config: PoolConfigEntry = {
+    poolAddress: poolKeypair.publicKey.toBase58(),
+    tokenA: tokenA.mint,
+    tokenB: tokenB.mint,
+    tokenASymbol: tokenA.symbol,
+    tokenBSymbol: tokenB.symbol,
+    liquidityA: (Number(amountA) / Math.pow(10, tokenA.decimals)).toString(),
+    liquidityB: (Number(amountB) / Math.pow(10, tokenB.decimals)).toString(),
+    shardNumber: params.shardNumber ?? getNextShardNumber(tokenA.mint, tokenB.mint),
+    authority: poolAuthority.toBase58(),
+    poolTokenMint: lpTokenMint.toBase58(),
+    feeAccount: feeAccount.toBase58(),
+    tokenAccountA: poolTokenAccountA.toBase58(),
+    tokenAccountB: poolTokenAccountB.toBase58(),
+    deployedAt: new Date().toISOString(),
+  };
+
+  return { signature, config, lpTokenSupply };
+}
+
+/**
+ * Simulate, sign (wallet plus one account keypair), send and confirm
+ *
+ * @returns Promise resolving to the confirmed signature
+ * @throws DexTransactionError if the transaction fails
+ */
+async function sendWithSigners(
+  connection: Connection,
+  wallet: WalletContextState,
+  built: BuiltTransaction,
+  signer: Keypair,
+  programId: PublicKey
+): Promise<string> {
+  const { transaction, blockhash, lastValidBlockHeight } = built;
+
+  // Simulate before signing; throws a decoded DexTransactionError on failure
+  await simulateDexTransaction(connection, transaction, { programId: programId.toBase58() });
+
+  const signed = await wallet.signTransaction!(transaction);
+  signed.sign([signer]);
+
+  const signature = await connection.sendRawTransaction(signed.serialize(), {
+    skipPreflight: true,
+    maxRetries: 3,
+  });
+
+  const confirmation = await connection.confirmTransaction(
+    { signature, blockhash, lastValidBlockHeight },
+    'confirmed'
+  );
+
+  if (confirmation.value.err) {
+    throw await getConfirmedTransactionError(connection, signature, confirmation.value.err, programId.toBase58());
+  }
+
+  return signature;
+}
@@ -3,8 +3,11 @@
  * 
  * This file contains instruction builders for interacting with the DEX smart contract.
  * It provides functions to create properly formatted transaction instructions for:
+ * - Initializing new pools
  * - Adding liquidity to pools (both tokens)
  * - Removing liquidity from pools (both tokens)
+ * - Adding liquidity to pools (single token)
+ * - Removing liquidity from pools (single token)
  * - Swapping tokens (handled in separate file)
  * 
  * Smart Contract Information:
@@ -13,12 +16,12 @@
  * - Type: Automated Market Maker (AMM) DEX
  * 
  * Available Operations:
- * - INITIALIZE (0): Create new liquidity pool (not used in frontend - pools are pre-created)
+ * - INITIALIZE (0): Create new liquidity pool from pre-funded vaults
  * - SWAP (1): Exchange one token for another
  * - ADD_LIQUIDITY (2): Deposit both tokens to receive LP tokens
  * - REMOVE_LIQUIDITY (3): Burn LP tokens to withdraw both tokens
- * - ADD_SINGLE (4): Deposit single token to receive LP tokens (future feature)
- * - REMOVE_SINGLE (5): Burn LP tokens to withdraw single token (future feature)
+ * - ADD_SINGLE (4): Deposit single token to receive LP tokens
+ * - REMOVE_SINGLE (5): Burn LP tokens to withdraw single token
  * 
  * Important Notes:
  * - All instruction discriminators and account orders MUST match the on-chain program exactly
@@ -31,12 +34,14 @@
  */
 
 import {
+  AccountMeta,
   PublicKey,
   TransactionInstruction,
 } from '@solana/web3.js';
 import {
   TOKEN_PROGRAM_ID,
 } from '@solana/spl-token';
+import { CurveType, PoolFees } from './poolAccountDecoder';
 
 /**
  * Instruction discriminators for the DEX smart contract
@@ -52,8 +57,10 @@ import {
  * 
  * Discriminator Values:
  * - 0 (INITIALIZE): Creates a new liquidity pool
- *   - Data format: [discriminator (1 byte)] + pool initialization parameters
- *   - Account count: Varies (not used in frontend - pools are pre-created)
+ *   - Data format: [discriminator (1 byte)][fees (8 × u64)][curve_type (1 byte)][curve_parameters (32 bytes)]
+ *   - Total data size: 98 bytes
+ *   - Account count: 8 accounts
+ *   - Vaults must be owned by the pool authority PDA and hold the initial liquidity
  * 
  * - 1 (SWAP): Swaps one token for another in an existing pool
  *   - Data format: [discriminator (1 byte)][amount_in (8 bytes)][minimum_amount_out (8 bytes)]
@@ -76,15 +83,19 @@ import {
  *   - min_token_a: Minimum token A to receive (slippage protection)
  *   - min_token_b: Minimum token B to receive (slippage protection)
  * 
- * - 4 (ADD_SINGLE): Deposits single token to receive LP tokens (future feature)
- *   - Data format: [discriminator (1 byte)] + single token parameters
- *   - Account count: TBD
- *   - Status: Not yet implemented in frontend
- * 
- * - 5 (REMOVE_SINGLE): Burns LP tokens to receive single token (future feature)
- *   - Data format: [discriminator (1 byte)] + single token parameters
- *   - Account count: TBD
- *   - Status: Not yet implemented in frontend
+ * - 4 (ADD_SINGLE): Deposits single token to receive LP tokens
+ *   - Data format: [discriminator (1 byte)][source_token_amount (8 bytes)][minimum_pool_token_amount (8 bytes)]
+ *   - Total data size: 17 bytes
+ *   - Account count: 11 accounts
+ *   - source_token_amount: Exact amount of the source token to deposit
+ *   - minimum_pool_token_amount: Minimum LP tokens to receive (slippage protection)
+ * 
+ * - 5 (REMOVE_SINGLE): Burns LP tokens to receive single token
+ *   - Data format: [discriminator (1 byte)][destination_token_amount (8 bytes)][maximum_pool_token_amount (8 bytes)]
+ *   - Total data size: 17 bytes
+ *   - Account count: 12 accounts
+ *   - destination_token_amount: Exact amount of the chosen token to receive
+ *   - maximum_pool_token_amount: Maximum LP tokens to burn (slippage protection)
  */
 export const INSTRUCTION_DISCRIMINATORS = {
   INITIALIZE: 0,
@@ -422,3 +433,528 @@ export function createRemoveLiquidityInstruction(
   });
 }
 
+
+/**
+ * Build single-sided add liquidity instruction data for the DEX smart contract
+ * 
+ * This function creates the binary instruction data for the smart contract's
+ * DepositSingleTokenTypeExactAmountIn operation (discriminator 4). The program
+ * swaps part of the deposit into the other token internally, so the LP tokens
+ * minted are net of the swap fee on that implicit trade.
+ * 
+ * Instruction Data Format (17 bytes total):
+ * - Byte 0: Discriminator (value 4 for ADD_SINGLE)
+ * - Bytes 1-8: source_token_amount (u64, little-endian) - Exact source token amount to deposit
+ * - Bytes 9-16: minimum_pool_token_amount (u64, little-endian) - Minimum LP tokens to receive
+ * 
+ * @param sourceTokenAmount - Source token amount to deposit (must be > 0)
+ * @param minimumPoolTokenAmount - Minimum LP tokens to receive (slippage protection, must be > 0)
+ * @returns Buffer containing the 17-byte instruction data
+ * @throws Error if either amount is not positive (must be > 0)
+ * 
+ * @example
+ * ```typescript
+ * // Deposit 1000 USDC only, expect at least 49 LP tokens
+ * const data = buildAddSingleLiquidityInstructionData(
+ *   BigInt(1_000_000_000),   // 1000 USDC (6 decimals)
+ *   BigInt(49_000_000_000)   // 49 LP tokens (9 decimals)
+ * );
+ * ```
+ */
+export function buildAddSingleLiquidityInstructionData(
+  sourceTokenAmount: bigint,
+  minimumPoolTokenAmount: bigint
+): Buffer {
+  // Input validation - both amounts must be positive
+  if (sourceTokenAmount <= BigInt(0)) {
+    throw new Error('Source token amount must be positive (> 0)');
+  }
+  if (minimumPoolTokenAmount <= BigInt(0)) {
+    throw new Error('Minimum pool token amount must be positive (> 0)');
+  }
+
+  // Allocate 17 bytes: 1 byte discriminator + 8 bytes source_token_amount + 8 bytes minimum_pool_token_amount
+  const data = Buffer.alloc(17);
+
+  // Byte 0: Write discriminator (value 4 for ADD_SINGLE)
+  data.writeUInt8(INSTRUCTION_DISCRIMINATORS.ADD_SINGLE, 0);
+
+  // Bytes 1-8: Write source_token_amount
+  data.writeBigUInt64LE(sourceTokenAmount, 1);
+
+  // Bytes 9-16: Write minimum_pool_token_amount
+  data.writeBigUInt64LE(minimumPoolTokenAmount, 9);
+
+  return data;
+}
+
+/**
+ * Build the account list for a single-sided add liquidity instruction
+ * 
+ * ⚠️ CRITICAL: Account order MUST match the smart contract specification exactly.
+ * Using incorrect account order will cause transactions to fail with InvalidInstruction error (0xe).
+ * 
+ * Account Order (11 accounts total):
+ * 0. swap_account (read-only) - The token swap pool account
+ * 1. swap_authority (read-only) - PDA authority of the swap
+ * 2. user_transfer_authority (signer) - User's wallet that must sign the transaction
+ * 3. user_source_token_account (writable) - User's account for the deposited token
+ * 4. pool_token_a_account (writable) - Pool's token A reserve account
+ * 5. pool_token_b_account (writable) - Pool's token B reserve account
+ * 6. pool_mint (writable) - LP token mint account (for minting new LP tokens)
+ * 7. user_lp_token_account (writable) - User's LP token account (destination for LP tokens)
+ * 8. source_token_mint (read-only) - Mint of the deposited token
+ * 9. source_token_program (read-only) - SPL Token program for the deposited token
+ * 10. pool_token_program (read-only) - SPL Token program for LP tokens
+ * 
+ * Total: 11 accounts
+ * 
+ * @param poolAddress - The swap pool account address
+ * @param poolAuthority - The PDA authority of the swap
+ * @param poolTokenAccountA - Pool's token A reserve account
+ * @param poolTokenAccountB - Pool's token B reserve account
+ * @param lpTokenMint - LP token mint account
+ * @param sourceTokenMint - Mint of the deposited token (token A or token B)
+ * @param userAuthority - User's wallet public key (signer)
+ * @param userSourceTokenAccount - User's account for the deposited token
+ * @param userLpTokenAccount - User's LP token account
+ * @returns Account metas in program order
+ */
+export function buildAddSingleLiquidityAccounts(
+  poolAddress: PublicKey,
+  poolAuthority: PublicKey,
+  poolTokenAccountA: PublicKey,
+  poolTokenAccountB: PublicKey,
+  lpTokenMint: PublicKey,
+  sourceTokenMint: PublicKey,
+  userAuthority: PublicKey,
+  userSourceTokenAccount: PublicKey,
+  userLpTokenAccount: PublicKey
+): AccountMeta[] {
+  return [
+    { pubkey: poolAddress, isSigner: false, isWritable: false },            // 0. swap_account
+    { pubkey: poolAuthority, isSigner: false, isWritable: false },          // 1. swap_authority
+    { pubkey: userAuthority, isSigner: true, isWritable: false },           // 2. user_transfer_authority
+    { pubkey: userSourceTokenAccount, isSigner: false, isWritable: true },  // 3. user_source_token_account
+    { pubkey: poolTokenAccountA, isSigner: false, isWritable: true },       // 4. pool_token_a_account
+    { pubkey: poolTokenAccountB, isSigner: false, isWritable: true },       // 5. pool_token_b_account
+    { pubkey: lpTokenMint, isSigner: false, isWritable: true },             // 6. pool_mint
+    { pubkey: userLpTokenAccount, isSigner: false, isWritable: true },      // 7. user_lp_token_account
+    { pubkey: sourceTokenMint, isSigner: false, isWritable: false },        // 8. source_token_mint
+    { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },       // 9. source_token_program
+    { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },       // 10. pool_token_program
+  ];
+}
+
+/**
+ * Create instruction to add liquidity to a pool with a single token
+ * 
+ * See {@link buildAddSingleLiquidityAccounts} for the account order.
+ * 
+ * @param programId - The DEX smart contract program ID
+ * @param poolAddress - The swap pool account address
+ * @param poolAuthority - The PDA authority of the swap
+ * @param poolTokenAccountA - Pool's token A reserve account
+ * @param poolTokenAccountB - Pool's token B reserve account
+ * @param lpTokenMint - LP token mint account
+ * @param sourceTokenMint - Mint of the deposited token (token A or token B)
+ * @param userAuthority - User's wallet public key (signer)
+ * @param userSourceTokenAccount - User's account for the deposited token
+ * @param userLpTokenAccount - User's LP token account
+ * @param sourceTokenAmount - Exact source token amount to deposit
+ * @param minLpTokens - Minimum LP tokens to receive (slippage protection)
+ * @returns TransactionInstruction for adding single-sided liquidity
+ */
+export function createAddSingleLiquidityInstruction(
+  programId: PublicKey,
+  poolAddress: PublicKey,
+  poolAuthority: PublicKey,
+  poolTokenAccountA: PublicKey,
+  poolTokenAccountB: PublicKey,
+  lpTokenMint: PublicKey,
+  sourceTokenMint: PublicKey,
+  userAuthority: PublicKey,
+  userSourceTokenAccount: PublicKey,
+  userLpTokenAccount: PublicKey,
+  sourceTokenAmount: bigint,
+  minLpTokens: bigint
+): TransactionInstruction {
+  const data = buildAddSingleLiquidityInstructionData(sourceTokenAmount, minLpTokens);
+  const keys = buildAddSingleLiquidityAccounts(
+    poolAddress,
+    poolAuthority,
+    poolTokenAccountA,
+    poolTokenAccountB,
+    lpTokenMint,
+    sourceTokenMint,
+    userAuthority,
+    userSourceTokenAccount,
+    userLpTokenAccount
+  );
+
+  // Debug logging
+  console.log('🔧 Add Single-Sided Liquidity Instruction:');
+  console.log('  Discriminator:', INSTRUCTION_DISCRIMINATORS.ADD_SINGLE);
+  console.log('  Instruction data (hex):', data.toString('hex'));
+  console.log('  Account count:', keys.length);
+  console.log('  Program ID:', programId.toString());
+
+  return new TransactionInstruction({
+    keys,
+    programId,
+    data,
+  });
+}
+
+/**
+ * Build single-sided remove liquidity instruction data for the DEX smart contract
+ * 
+ * This function creates the binary instruction data for the smart contract's
+ * WithdrawSingleTokenTypeExactAmountOut operation (discriminator 5). The user
+ * receives exactly `destinationTokenAmount` of one token; the program burns
+ * however many LP tokens that costs, including the swap fee on the half that
+ * is implicitly traded, and fails if that exceeds `maximumPoolTokenAmount`.
+ * 
+ * Instruction Data Format (17 bytes total):
+ * - Byte 0: Discriminator (value 5 for REMOVE_SINGLE)
+ * - Bytes 1-8: destination_token_amount (u64, little-endian) - Exact token amount to receive
+ * - Bytes 9-16: maximum_pool_token_amount (u64, little-endian) - Maximum LP tokens to burn
+ * 
+ * @param destinationTokenAmount - Token amount to receive (must be > 0)
+ * @param maximumPoolTokenAmount - Maximum LP tokens to burn (slippage protection, must be > 0)
+ * @returns Buffer containing the 17-byte instruction data
+ * @throws Error if either amount is not positive (must be > 0)
+ * 
+ * @example
+ * ```typescript
+ * // Withdraw exactly 500 USDC, burning at most 25 LP tokens
+ * const data = buildRemoveSingleLiquidityInstructionData(
+ *   BigInt(500_000_000),     // 500 USDC (6 decimals)
+ *   BigInt(25_000_000_000)   // 25 LP tokens (9 decimals)
+ * );
+ * ```
+ */
+export function buildRemoveSingleLiquidityInstructionData(
+  destinationTokenAmount: bigint,
+  maximumPoolTokenAmount: bigint
+): Buffer {
+  // Input validation - both amounts must be positive
+  if (destinationTokenAmount <= BigInt(0)) {
+    throw new Error('Destination token amount must be positive (> 0)');
+  }
+  if (maximumPoolTokenAmount <= BigInt(0)) {
+    throw new Error('Maximum pool token amount must be positive (> 0)');
+  }
+
+  // Allocate 17 bytes: 1 byte discriminator + 8 bytes destination_token_amount + 8 bytes maximum_pool_token_amount
+  const data = Buffer.alloc(17);
+
+  // Byte 0: Write discriminator (value 5 for REMOVE_SINGLE)
+  data.writeUInt8(INSTRUCTION_DISCRIMINATORS.REMOVE_SINGLE, 0);
+
+  // Bytes 1-8: Write destination_token_amount
+  data.writeBigUInt64LE(destinationTokenAmount, 1);
+
+  // Bytes 9-16: Write maximum_pool_token_amount
+  data.writeBigUInt64LE(maximumPoolTokenAmount, 9);
+
+  return data;
+}
+
+/**
+ * Build the account list for a single-sided remove liquidity instruction
+ * 
+ * ⚠️ CRITICAL: Account order MUST match the smart contract specification exactly.
+ * Using incorrect account order will cause transactions to fail with InvalidInstruction error (0xe).
+ * 
+ * Account Order (12 accounts total):
+ * 0. swap_account (read-only) - The token swap pool account
+ * 1. swap_authority (read-only) - PDA authority of the swap
+ * 2. user_transfer_authority (signer) - User's wallet that must sign the transaction
+ * 3. pool_mint (writable) - LP token mint account (for burning LP tokens)
+ * 4. user_lp_token_account (writable) - User's LP token account (source for burning)
+ * 5. pool_token_a_account (writable) - Pool's token A reserve account
+ * 6. pool_token_b_account (writable) - Pool's token B reserve account
+ * 7. user_destination_token_account (writable) - User's account for the withdrawn token
+ * 8. fee_account (writable) - Pool fee account for collecting withdrawal fees
+ * 9. destination_token_mint (read-only) - Mint of the withdrawn token
+ * 10. pool_token_program (read-only) - SPL Token program for LP tokens
+ * 11. destination_token_program (read-only) - SPL Token program for the withdrawn token
+ * 
+ * Total: 12 accounts
+ * 
+ * @param poolAddress - The swap pool account address
+ * @param poolAuthority - The PDA authority of the swap
+ * @param poolTokenAccountA - Pool's token A reserve account
+ * @param poolTokenAccountB - Pool's token B reserve account
+ * @param lpTokenMint - LP token mint account
+ * @param feeAccount - Pool fee account for withdrawal fees
+ * @param destinationTokenMint - Mint of the withdrawn token (token A or token B)
+ * @param userAuthority - User's wallet public key (signer)
+ * @param userDestinationTokenAccount - User's account for the withdrawn token
+ * @param userLpTokenAccount - User's LP token account
+ * @returns Account metas in program order
+ */
+export function buildRemoveSingleLiquidityAccounts(
+  poolAddress: PublicKey,
+  poolAuthority: PublicKey,
+  poolTokenAccountA: PublicKey,
+  poolTokenAccountB: PublicKey,
+  lpTokenMint: PublicKey,
+  feeAccount: PublicKey,
+  destinationTokenMint: PublicKey,
+  userAuthority: PublicKey,
+  userDestinationTokenAccount: PublicKey,
+  userLpTokenAccount: PublicKey
+): AccountMeta[] {
+  return [
+    { pubkey: poolAddress, isSigner: false, isWritable: false },                 // 0. swap_account
+    { pubkey: poolAuthority, isSigner: false, isWritable: false },               // 1. swap_authority
+    { pubkey: userAuthority, isSigner: true, isWritable: false },                // 2. user_transfer_authority
+    { pubkey: lpTokenMint, isSigner: false, isWritable: true },                  // 3. pool_mint
+    { pubkey: userLpTokenAccount, isSigner: false, isWritable: true },           // 4. user_lp_token_account
+    { pubkey: poolTokenAccountA, isSigner: false, isWritable: true },            // 5. pool_token_a_account
+    { pubkey: poolTokenAccountB, isSigner: false, isWritable: true },            // 6. pool_token_b_account
+    { pubkey: userDestinationTokenAccount, isSigner: false, isWritable: true },  // 7. user_destination_token_account
+    { pubkey: feeAccount, isSigner: false, isWritable: true },                   // 8. fee_account
+    { pubkey: destinationTokenMint, isSigner: false, isWritable: false },        // 9. destination_token_mint
+    { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },            // 10. pool_token_program
+    { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },            // 11. destination_token_program
+  ];
+}
+
+/**
+ * Create instruction to remove liquidity from a pool as a single token
+ * 
+ * See {@link buildRemoveSingleLiquidityAccounts} for the account order.
+ * 
+ * @param programId - The DEX smart contract program ID
+ * @param poolAddress - The swap pool account address
+ * @param poolAuthority - The PDA authority of the swap
+ * @param poolTokenAccountA - Pool's token A reserve account
+ * @param poolTokenAccountB - Pool's token B reserve account
+ * @param lpTokenMint - LP token mint account
+ * @param feeAccount - Pool fee account for withdrawal fees
+ * @param destinationTokenMint - Mint of the withdrawn token (token A or token B)
+ * @param userAuthority - User's wallet public key (signer)
+ * @param userDestinationTokenAccount - User's account for the withdrawn token
+ * @param userLpTokenAccount - User's LP token account
+ * @param destinationTokenAmount - Exact token amount to receive
+ * @param maxLpTokens - Maximum LP tokens to burn (slippage protection)
+ * @returns TransactionInstruction for removing single-sided liquidity
+ */
+export function createRemoveSingleLiquidityInstruction(
+  programId: PublicKey,
+  poolAddress: PublicKey,
+  poolAuthority: PublicKey,
+  poolTokenAccountA: PublicKey,
+  poolTokenAccountB: PublicKey,
+  lpTokenMint: PublicKey,
+  feeAccount: PublicKey,
+  destinationTokenMint: PublicKey,
+  userAuthority: PublicKey,
+  userDestinationTokenAccount: PublicKey,
+  userLpTokenAccount: PublicKey,
+  destinationTokenAmount: bigint,
+  maxLpTokens: bigint
+): TransactionInstruction {
+  const data = buildRemoveSingleLiquidityInstructionData(destinationTokenAmount, maxLpTokens);
+  const keys = buildRemoveSingleLiquidityAccounts(
+    poolAddress,
+    poolAuthority,
+    poolTokenAccountA,
+    poolTokenAccountB,
+    lpTokenMint,
+    feeAccount,
+    destinationTokenMint,
+    userAuthority,
+    userDestinationTokenAccount,
+    userLpTokenAccount
+  );
+
+  // Debug logging
+  console.log('🔧 Remove Single-Sided Liquidity Instruction:');
+  console.log('  Discriminator:', INSTRUCTION_DISCRIMINATORS.REMOVE_SINGLE);
+  console.log('  Instruction data (hex):', data.toString('hex'));
+  console.log('  Account count:', keys.length);
+  console.log('  Program ID:', programId.toString());
+
+  return new TransactionInstruction({
+    keys,
+    programId,
+    data,
+  });
+}
+
+/**
+ * Derive the pool authority PDA
+ * 
+ * The authority owns the pool's vaults and is the LP mint's mint authority.
+ * It is derived from the pool state account address alone, so it is known
+ * before the pool account exists.
+ * 
+ * @param programId - The DEX smart contract program ID
+ * @param poolAddress - The swap pool account address
+ * @returns Tuple of the authority address and its bump seed
+ */
+export function findPoolAuthorityAddress(
+  programId: PublicKey,
+  poolAddress: PublicKey
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync([poolAddress.toBuffer()], programId);
+}
+
+/**
+ * Build initialize pool instruction data for the DEX smart contract
+ * 
+ * This function creates the binary instruction data for the smart contract's
+ * initialize operation (discriminator 0). The fee schedule and curve are stored
+ * in the pool account and cannot be changed afterwards.
+ * 
+ * Instruction Data Format (98 bytes total):
+ * - Byte 0: Discriminator (value 0 for INITIALIZE)
+ * - Bytes 1-64: Fees (8 × u64, little-endian) in pool account order:
+ *   trade, owner trade, owner withdraw, host (numerator then denominator)
+ * - Byte 65: curve_type (u8)
+ * - Bytes 66-97: curve_parameters (32 bytes, zero for constant product)
+ * 
+ * @param fees - Fee schedule for the pool
+ * @param curveType - Swap curve (default: constant product)
+ * @param curveParameters - Curve calculator parameters, at most 32 bytes (default: none)
+ * @returns Buffer containing the 98-byte instruction data
+ * @throws Error if a fee numerator is not below its denominator or the curve parameters are too long
+ * 
+ * @example
+ * ```typescript
+ * // Constant product pool with a 0.25% trade fee and no owner fees
+ * const data = buildInitializeInstructionData({
+ *   tradeFeeNumerator: BigInt(25),
+ *   tradeFeeDenominator: BigInt(10000),
+ *   ownerTradeFeeNumerator: BigInt(0),
+ *   ownerTradeFeeDenominator: BigInt(0),
+ *   ownerWithdrawFeeNumerator: BigInt(0),
+ *   ownerWithdrawFeeDenominator: BigInt(0),
+ *   hostFeeNumerator: BigInt(0),
+ *   hostFeeDenominator: BigInt(0),
+ * });
+ * ```
+ */
+export function buildInitializeInstructionData(
+  fees: PoolFees,
+  curveType: CurveType = CurveType.ConstantProduct,
+  curveParameters: Buffer = Buffer.alloc(0)
+): Buffer {
+  const feeFields: Array<[bigint, bigint]> = [
+    [fees.tradeFeeNumerator, fees.tradeFeeDenominator],
+    [fees.ownerTradeFeeNumerator, fees.ownerTradeFeeDenominator],
+    [fees.ownerWithdrawFeeNumerator, fees.ownerWithdrawFeeDenominator],
+    [fees.hostFeeNumerator, fees.hostFeeDenominator],
+  ];
+
+  // Input validation - the program rejects fees of 100% or more (a disabled fee is 0/0)
+  for (const [numerator, denominator] of feeFields) {
+    if (numerator < BigInt(0) || denominator < BigInt(0)) {
+      throw new Error('Fee numerators and denominators cannot be negative');
+    }
+    if (numerator > BigInt(0) && numerator >= denominator) {
+      throw new Error('Fee numerator must be less than its denominator');
+    }
+  }
+  if (curveParameters.length > 32) {
+    throw new Error('Curve parameters cannot exceed 32 bytes');
+  }
+
+  // Allocate 98 bytes: 1 byte discriminator + 64 bytes fees + 1 byte curve type + 32 bytes curve parameters
+  const data = Buffer.alloc(98);
+
+  // Byte 0: Write discriminator (value 0 for INITIALIZE)
+  data.writeUInt8(INSTRUCTION_DISCRIMINATORS.INITIALIZE, 0);
+
+  // Bytes 1-64: Write fee numerator/denominator pairs
+  feeFields.forEach(([numerator, denominator], index) => {
+    data.writeBigUInt64LE(numerator, 1 + index * 16);
+    data.writeBigUInt64LE(denominator, 9 + index * 16);
+  });
+
+  // Byte 65: Write curve_type
+  data.writeUInt8(curveType, 65);
+
+  // Bytes 66-97: Write curve_parameters (zero padded)
+  curveParameters.copy(data, 66);
+
+  return data;
+}
+
+/**
+ * Create instruction to initialize a new pool
+ * 
+ * The pool account must already be allocated (owned by the program), the LP
+ * mint must have the pool authority as mint authority and zero supply, and both
+ * vaults must be owned by the pool authority and hold the initial liquidity.
+ * 
+ * ⚠️ CRITICAL: Account order MUST match the smart contract specification exactly.
+ * Using incorrect account order will cause transactions to fail with InvalidInstruction error (0xe).
+ * 
+ * Account Order (8 accounts total):
+ * 0. swap_account (writable) - The new pool state account
+ * 1. swap_authority (read-only) - PDA authority of the swap
+ * 2. pool_token_a_account (read-only) - Pool's token A reserve account
+ * 3. pool_token_b_account (read-only) - Pool's token B reserve account
+ * 4. pool_mint (writable) - LP token mint account (initial supply is minted)
+ * 5. fee_account (read-only) - LP token account that collects owner fees
+ * 6. destination_lp_token_account (writable) - Receives the initial LP tokens
+ * 7. pool_token_program (read-only) - SPL Token program for LP tokens
+ * 
+ * Total: 8 accounts
+ * 
+ * @param programId - The DEX smart contract program ID
+ * @param poolAddress - The new swap pool account address
+ * @param poolAuthority - The PDA authority of the swap
+ * @param poolTokenAccountA - Pool's token A reserve account
+ * @param poolTokenAccountB - Pool's token B reserve account
+ * @param lpTokenMint - LP token mint account
+ * @param feeAccount - LP token account that collects owner fees
+ * @param destinationLpTokenAccount - LP token account receiving the initial supply
+ * @param fees - Fee schedule for the pool
+ * @param curveType - Swap curve (default: constant product)
+ * @returns TransactionInstruction for initializing the pool
+ */
+export function createInitializePoolInstruction(
+  programId: PublicKey,
+  poolAddress: PublicKey,
+  poolAuthority: PublicKey,
+  poolTokenAccountA: PublicKey,
+  poolTokenAccountB: PublicKey,
+  lpTokenMint: PublicKey,
+  feeAccount: PublicKey,
+  destinationLpTokenAccount: PublicKey,
+  fees: PoolFees,
+  curveType: CurveType = CurveType.ConstantProduct
+): TransactionInstruction {
+  const data = buildInitializeInstructionData(fees, curveType);
+
+  // Account order matching smart contract specification exactly (8 accounts)
+  const keys = [
+    { pubkey: poolAddress, isSigner: false, isWritable: true },                // 0. swap_account
+    { pubkey: poolAuthority, isSigner: false, isWritable: false },             // 1. swap_authority
+    { pubkey: poolTokenAccountA, isSigner: false, isWritable: false },         // 2. pool_token_a_account
+    { pubkey: poolTokenAccountB, isSigner: false, isWritable: false },         // 3. pool_token_b_account
+    { pubkey: lpTokenMint, isSigner: false, isWritable: true },                // 4. pool_mint
+    { pubkey: feeAccount, isSigner: false, isWritable: false },                // 5. fee_account
+    { pubkey: destinationLpTokenAccount, isSigner: false, isWritable: true },  // 6. destination_lp_token_account
+    { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },          // 7. pool_token_program
+  ];
+
+  // Debug logging
+  console.log('🔧 Initialize Pool Instruction:');
+  console.log('  Discriminator:', INSTRUCTION_DISCRIMINATORS.INITIALIZE);
+  console.log('  Instruction data (hex):', data.toString('hex'));
+  console.log('  Account count:', keys.length);
+  console.log('  Program ID:', programId.toString());
+
+  return new TransactionInstruction({
+    keys,
+    programId,
+    data,
+  });
+}
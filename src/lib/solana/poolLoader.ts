@@ -1,14 +1,17 @@
 /**
- * Pool Loader - Loads pool metadata from dex-config.json and fetches real-time data from blockchain
+ * Pool Loader - Loads pool metadata from the pool registry and fetches real-time data from blockchain
  * 
- * This module provides functions to load pool metadata (addresses, token info) from configuration
- * and fetch real-time pool data from the Solana blockchain. All pool data must come from blockchain.
+ * This module provides functions to load pool metadata (addresses, token info) discovered on-chain
+ * (seeded by dex-config.json) and fetch real-time pool data from the Solana blockchain.
+ * All pool data must come from blockchain.
  */
 
 import { Connection, PublicKey } from '@solana/web3.js';
 import { Pool, Token } from '@/types';
 import dexConfig from '@/config/dex-config.json';
 import { enrichPoolsWithBlockchainData, enrichPoolWithBlockchainData } from './poolBlockchainFetcher';
+import { discoverPools, findPoolConfig, PoolConfigEntry } from './poolRegistry';
+import { getShardStats, syncPoolIndex } from './poolIndexer';
 
 /**
  * Convert dex-config pool to Pool skeleton (metadata only, no reserve data)
@@ -36,20 +39,70 @@ function convertDexConfigPoolToSkeleton(configPool: any, tokens: Token[]): Pool
     reserveB: BigInt(0), // Must be fetched from blockchain
     totalLiquidity: BigInt(0), // Must be calculated from blockchain data
     lpTokenSupply: BigInt(0), // Must be fetched from blockchain
-    volume24h: BigInt(0), // Mock data
-    fees24h: BigInt(0), // Mock data
-    feeRate: 0.3, // 0.3% fee
+    volume24h: BigInt(0), // Filled in from the pool index
+    fees24h: BigInt(0), // Filled in from the pool index
+    feeRate: 0.3, // Default 0.3% until decoded from the pool account
     isActive: true,
-    createdAt: new Date(configPool.deployedAt).getTime(),
+    createdAt: configPool.deployedAt ? new Date(configPool.deployedAt).getTime() : 0, // Unknown for discovered pools
     lastUpdated: 0, // Will be set when blockchain data is fetched
     ammType: 'constant_product',
   };
 }
 
+/**
+ * Fill in rolling volume, fees and fee APR from the pool index
+ *
+ * Reads the events the pool indexer has already stored (no RPC calls), then
+ * starts a background sync of the pools so the next load has fresh figures.
+ * Amounts are in token A base units.
+ *
+ * @param connection - Solana connection instance
+ * @param pools - Pools enriched with blockchain data
+ * @returns Promise resolving to the pools with indexed stats
+ */
+async function applyIndexedStats(connection: Connection, pools: Pool[]): Promise<Pool[]> {
+  const configs = pools
+    .map(pool => findPoolConfig(pool.id))
+    .filter((config): config is PoolConfigEntry => config !== undefined);
+
+  syncPoolIndex(connection, configs).catch(error => {
+    console.warn('⚠️  Background pool index sync failed:', error);
+  });
+
+  return Promise.all(pools.map(async pool => {
+    const config = configs.find(c => c.poolAddress === pool.id);
+    if (!config || pool.dataSource !== 'blockchain') {
+      return pool;
+    }
+
+    try {
+      const stats = await getShardStats({
+        poolAddress: pool.id,
+        shardNumber: config.shardNumber,
+        reserveA: pool.reserveA,
+        // feeRate is a percentage; 1e6 keeps 4 decimal places of it
+        feeNumerator: BigInt(Math.round(pool.feeRate * 10000)),
+        feeDenominator: BigInt(1000000),
+      });
+      return {
+        ...pool,
+        volume24h: stats.volume24h,
+        fees24h: stats.fees24h,
+        volume7d: stats.volume7d,
+        fees7d: stats.fees7d,
+        feeApr: stats.feeApr,
+      };
+    } catch (error) {
+      console.warn(`⚠️  Failed to read indexed stats for pool ${pool.id}:`, error);
+      return pool;
+    }
+  }));
+}
+
 /**
  * Load all pools from blockchain
  * 
- * Loads pool metadata from dex-config.json and fetches real-time data from blockchain.
+ * Discovers the program's pools and fetches real-time data from blockchain.
  * This function ALWAYS requires a connection and fetches from blockchain.
  * 
  * @param connection - Solana connection instance (required)
@@ -71,16 +124,19 @@ export async function loadPoolsFromBlockchain(connection: Connection): Promise<P
     isNative: token.symbol === 'SOL',
   }));
 
-  // Convert all pools from config to skeleton (metadata only)
-  const poolSkeletons = dexConfig.pools.map(configPool =>
+  // Convert all known pools to skeletons (metadata only)
+  const poolSkeletons = (await discoverPools(connection)).map(configPool =>
     convertDexConfigPoolToSkeleton(configPool, tokens)
   );
 
-  console.log(`📋 Loaded ${poolSkeletons.length} pool definitions from config`);
+  console.log(`📋 Loaded ${poolSkeletons.length} pool definitions from the pool registry`);
   console.log('🔄 Fetching real-time data from blockchain...');
 
   // Fetch blockchain data for all pools (no fallback to config data)
-  const enrichedPools = await enrichPoolsWithBlockchainData(connection, poolSkeletons);
+  const enrichedPools = await applyIndexedStats(
+    connection,
+    await enrichPoolsWithBlockchainData(connection, poolSkeletons)
+  );
   
   console.log(`✅ Loaded ${enrichedPools.length} pools with blockchain data`);
   return enrichedPools;
@@ -89,7 +145,7 @@ export async function loadPoolsFromBlockchain(connection: Connection): Promise<P
 /**
  * Get pool by address from blockchain
  * 
- * Loads pool metadata from config and fetches real-time data from blockchain.
+ * Loads pool metadata from the pool registry and fetches real-time data from blockchain.
  * 
  * @param connection - Solana connection instance (required)
  * @param poolAddress - Pool address to find
@@ -114,11 +170,12 @@ export async function getPoolByAddress(
     isNative: token.symbol === 'SOL',
   }));
 
-  // Find pool in config
-  const configPool = dexConfig.pools.find(p => p.poolAddress === poolAddress);
+  // Find pool in the registry
+  await discoverPools(connection);
+  const configPool = findPoolConfig(poolAddress);
   
   if (!configPool) {
-    console.warn(`⚠️  Pool not found in config: ${poolAddress}`);
+    console.warn(`⚠️  Pool not found in registry: ${poolAddress}`);
     return null;
   }
 
@@ -127,7 +184,10 @@ export async function getPoolByAddress(
 
   // Fetch blockchain data
   console.log('🔄 Fetching real-time data from blockchain...');
-  const enrichedPool = await enrichPoolWithBlockchainData(connection, poolSkeleton);
+  const [enrichedPool] = await applyIndexedStats(
+    connection,
+    [await enrichPoolWithBlockchainData(connection, poolSkeleton)]
+  );
   
   console.log(`✅ Loaded pool with blockchain data`);
   return enrichedPool;
@@ -136,7 +196,7 @@ export async function getPoolByAddress(
 /**
  * Get pools by token pair from blockchain
  * 
- * Loads pool metadata from config and fetches real-time data from blockchain.
+ * Loads pool metadata from the pool registry and fetches real-time data from blockchain.
  * 
  * @param connection - Solana connection instance (required)
  * @param tokenAMint - Token A mint address
@@ -163,8 +223,8 @@ export async function getPoolsByTokenPair(
     isNative: token.symbol === 'SOL',
   }));
 
-  // Find pools in config
-  const configPools = dexConfig.pools.filter(pool =>
+  // Find pools in the registry
+  const configPools = (await discoverPools(connection)).filter(pool =>
     (pool.tokenA === tokenAMint && pool.tokenB === tokenBMint) ||
     (pool.tokenA === tokenBMint && pool.tokenB === tokenAMint)
   );
@@ -179,11 +239,14 @@ export async function getPoolsByTokenPair(
     convertDexConfigPoolToSkeleton(configPool, tokens)
   );
 
-  console.log(`📋 Found ${poolSkeletons.length} pool(s) in config`);
+  console.log(`📋 Found ${poolSkeletons.length} pool(s) in the registry`);
   console.log('🔄 Fetching real-time data from blockchain...');
 
   // Fetch blockchain data
-  const enrichedPools = await enrichPoolsWithBlockchainData(connection, poolSkeletons);
+  const enrichedPools = await applyIndexedStats(
+    connection,
+    await enrichPoolsWithBlockchainData(connection, poolSkeletons)
+  );
   
   console.log(`✅ Loaded ${enrichedPools.length} pool(s) with blockchain data`);
   return enrichedPools;
@@ -0,0 +1,276 @@
+/**
+ * Client-side Pool Registry
+ *
+ * Single lookup point for the pools the DEX can route through. Pools are
+ * discovered on-chain with `getProgramAccounts` on the configured program,
+ * decoded, and grouped into shards by mint pair. The pools in `dex-config.json`
+ * are only a seed: they are served until the first discovery completes, keep
+ * their shard numbers and metadata when found on-chain, and can optionally act
+ * as an allowlist (`NEXT_PUBLIC_POOL_ALLOWLIST=true`) so that only configured
+ * pools are routed through.
+ *
+ * Pools registered at runtime (e.g. one the user just initialized) are served
+ * immediately, without waiting for the next discovery.
+ *
+ * @module poolRegistry
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import dexConfig from '@/config/dex-config.json';
+import { throttledRpcCall } from '@/lib/utils/requestThrottler';
+import { fetchWithTimeout } from '@/utils/fetchUtils';
+import { CurveType, decodePoolAccount, POOL_ACCOUNT_SIZE } from './poolAccountDecoder';
+
+/**
+ * Pool entry in the shape of `dex-config.json`'s `pools` array
+ */
+export type PoolConfigEntry = (typeof dexConfig.pools)[number];
+
+/**
+ * Options for on-chain pool discovery
+ */
+export interface PoolDiscoveryOptions {
+  /** Program that owns the pools (default: the configured SAMM program) */
+  programId?: string;
+  /** Only accept pools listed in dex-config.json (default: NEXT_PUBLIC_POOL_ALLOWLIST) */
+  allowlistOnly?: boolean;
+  /** Ignore the cache and query the chain again */
+  force?: boolean;
+}
+
+/**
+ * How long discovered pools are served before the chain is queried again
+ */
+const DISCOVERY_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Pools found by the last discovery, or null before the first one completes
+ */
+let discoveredPools: PoolConfigEntry[] | null = null;
+let discoveredAt = 0;
+let discoveryInFlight: Promise<void> | null = null;
+
+/**
+ * Pools registered at runtime, in registration order
+ */
+const registeredPools: PoolConfigEntry[] = [];
+
+/**
+ * All known pools: discovered pools (or the configured seed before discovery),
+ * then runtime registrations not yet discovered
+ *
+ * @returns Pool entries
+ */
+export function getPoolConfigs(): PoolConfigEntry[] {
+  const pools = discoveredPools ?? dexConfig.pools;
+  const known = new Set(pools.map(pool => pool.poolAddress));
+  return [...pools, ...registeredPools.filter(pool => !known.has(pool.poolAddress))];
+}
+
+/**
+ * Find a pool by its state account address
+ *
+ * @param poolAddress - Pool state account address
+ * @returns Pool entry, or undefined if the pool is unknown
+ */
+export function findPoolConfig(poolAddress: string): PoolConfigEntry | undefined {
+  return getPoolConfigs().find(pool => pool.poolAddress === poolAddress);
+}
+
+/**
+ * Register a pool created after the build
+ *
+ * Registering an address that is already known replaces the runtime entry;
+ * configured pools cannot be overridden.
+ *
+ * @param pool - Pool entry to register
+ * @throws Error if the address belongs to a configured pool
+ */
+export function registerPool(pool: PoolConfigEntry): void {
+  if (dexConfig.pools.some(p => p.poolAddress === pool.poolAddress)) {
+    throw new Error(`Pool ${pool.poolAddress} is already configured`);
+  }
+
+  const index = registeredPools.findIndex(p => p.poolAddress === pool.poolAddress);
+  if (index >= 0) {
+    registeredPools[index] = pool;
+  } else {
+    registeredPools.push(pool);
+  }
+
+  console.log(`📝 Registered pool ${pool.poolAddress} (${pool.tokenASymbol}/${pool.tokenBSymbol} shard ${pool.shardNumber})`);
+}
+
+/**
+ * Discover the program's pools on-chain
+ *
+ * Results are cached for five minutes and concurrent calls share one RPC
+ * request. If discovery fails, the previous pool list (or the configured seed)
+ * stays in use, so callers never need to handle the error.
+ *
+ * @param connection - Solana connection instance
+ * @param options - Program, allowlist and cache options
+ * @returns Promise resolving to all known pools
+ */
+export async function discoverPools(
+  connection: Connection,
+  options: PoolDiscoveryOptions = {}
+): Promise<PoolConfigEntry[]> {
+  const isFresh = discoveredPools !== null && Date.now() - discoveredAt < DISCOVERY_TTL_MS;
+
+  if (!options.force && isFresh) {
+    return getPoolConfigs();
+  }
+
+  if (!discoveryInFlight) {
+    discoveryInFlight = fetchProgramPools(connection, options)
+      .then(pools => {
+        discoveredPools = pools;
+        discoveredAt = Date.now();
+      })
+      .catch(error => {
+        console.warn('⚠️  Pool discovery failed, keeping the current pool list:', error);
+      })
+      .finally(() => {
+        discoveryInFlight = null;
+      });
+  }
+
+  await discoveryInFlight;
+  return getPoolConfigs();
+}
+
+/**
+ * Drop discovered pools so the configured seed is served until the next discovery
+ */
+export function clearDiscoveredPools(): void {
+  discoveredPools = null;
+  discoveredAt = 0;
+}
+
+/**
+ * Key identifying a mint pair regardless of token order
+ */
+function pairKey(mintA: string, mintB: string): string {
+  return mintA < mintB ? `${mintA}:${mintB}` : `${mintB}:${mintA}`;
+}
+
+/**
+ * Query, decode and shard the program's pool accounts
+ *
+ * Pools whose mints are not in the token list are skipped because they cannot
+ * be displayed or priced. Pools on a curve other than constant product, or
+ * whose vaults belong to a token program other than SPL Token, are skipped too:
+ * quoting and swap building assume both. Shard numbers come from the seed or a runtime
+ * registration where available; newly found pools get the next free numbers of
+ * their pair, in address order.
+ *
+ * @param connection - Solana connection instance
+ * @param options - Program and allowlist options
+ * @returns Promise resolving to the discovered pools
+ * @throws Error if the RPC call fails
+ */
+async function fetchProgramPools(
+  connection: Connection,
+  options: PoolDiscoveryOptions
+): Promise<PoolConfigEntry[]> {
+  const programId = new PublicKey(options.programId ?? dexConfig.programId);
+  const allowlistOnly = options.allowlistOnly ?? process.env.NEXT_PUBLIC_POOL_ALLOWLIST === 'true';
+
+  console.log(`🔍 Discovering pools owned by ${programId.toBase58()}${allowlistOnly ? ' (allowlist only)' : ''}`);
+
+  const accounts = await throttledRpcCall(() =>
+    fetchWithTimeout(
+      connection.getProgramAccounts(programId, {
+        filters: [{ dataSize: POOL_ACCOUNT_SIZE }],
+      }),
+      15000
+    )
+  );
+
+  const pools: PoolConfigEntry[] = [];
+  const unnumbered: PoolConfigEntry[] = [];
+
+  for (const { pubkey, account } of accounts) {
+    const poolAddress = pubkey.toBase58();
+    const seed = [...dexConfig.pools, ...registeredPools].find(pool => pool.poolAddress === poolAddress);
+
+    if (allowlistOnly && !seed) {
+      continue;
+    }
+
+    let decoded;
+    let authority: PublicKey;
+    try {
+      decoded = decodePoolAccount(account.data);
+      authority = PublicKey.createProgramAddressSync(
+        [pubkey.toBuffer(), Buffer.from([decoded.bumpSeed])],
+        programId
+      );
+    } catch (error) {
+      console.warn(`⚠️  Skipping undecodable pool account ${poolAddress}:`, error);
+      continue;
+    }
+
+    if (decoded.curve.curveType !== CurveType.ConstantProduct) {
+      console.warn(`⚠️  Skipping pool ${poolAddress} with unsupported curve type ${CurveType[decoded.curve.curveType] ?? decoded.curve.curveType}`);
+      continue;
+    }
+    if (!decoded.tokenProgramId.equals(TOKEN_PROGRAM_ID)) {
+      console.warn(`⚠️  Skipping pool ${poolAddress} with unsupported token program ${decoded.tokenProgramId.toBase58()}`);
+      continue;
+    }
+
+    const tokenA = dexConfig.tokens.find(t => t.mint === decoded.tokenAMint.toBase58());
+    const tokenB = dexConfig.tokens.find(t => t.mint === decoded.tokenBMint.toBase58());
+    if (!tokenA || !tokenB) {
+      console.warn(`⚠️  Skipping pool ${poolAddress} with unlisted tokens`);
+      continue;
+    }
+
+    // On-chain accounts are authoritative; the seed only contributes metadata
+    const entry: PoolConfigEntry = {
+      poolAddress,
+      tokenA: tokenA.mint,
+      tokenB: tokenB.mint,
+      tokenASymbol: tokenA.symbol,
+      tokenBSymbol: tokenB.symbol,
+      liquidityA: seed?.liquidityA ?? '0',
+      liquidityB: seed?.liquidityB ?? '0',
+      shardNumber: seed?.shardNumber ?? 0,
+      authority: authority.toBase58(),
+      poolTokenMint: decoded.poolMint.toBase58(),
+      feeAccount: decoded.feeAccount.toBase58(),
+      tokenAccountA: decoded.tokenAccountA.toBase58(),
+      tokenAccountB: decoded.tokenAccountB.toBase58(),
+      deployedAt: seed?.deployedAt ?? '',
+    };
+
+    if (seed) {
+      pools.push(entry);
+    } else {
+      unnumbered.push(entry);
+    }
+  }
+
+  // Group into shards by mint pair and number the new shards after the known ones
+  unnumbered.sort((a, b) => a.poolAddress.localeCompare(b.poolAddress));
+  for (const entry of unnumbered) {
+    const key = pairKey(entry.tokenA, entry.tokenB);
+    const shardNumbers = pools
+      .filter(pool => pairKey(pool.tokenA, pool.tokenB) === key)
+      .map(pool => pool.shardNumber);
+    entry.shardNumber = shardNumbers.length > 0 ? Math.max(...shardNumbers) + 1 : 1;
+    pools.push(entry);
+  }
+
+  const missing = dexConfig.pools.filter(seed => !pools.some(pool => pool.poolAddress === seed.poolAddress));
+  if (missing.length > 0) {
+    console.warn(`⚠️  ${missing.length} configured pool(s) not found on-chain:`, missing.map(pool => pool.poolAddress));
+  }
+
+  console.log(`✅ Discovered ${pools.length} pools (${unnumbered.length} not in config)`);
+
+  return pools;
+}
@@ -0,0 +1,212 @@
+/**
+ * Pool Snapshot
+ *
+ * Loads everything needed to price a pool - the pool state account, both token
+ * vaults and the LP mint - with a single getMultipleAccountsInfo call. Because
+ * all four accounts come back from the same RPC response they are read at the
+ * same slot, so reserves, LP supply and fees are always mutually consistent.
+ *
+ * RPC Cost:
+ * - Previously: 2 × getTokenAccountBalance + 1 × getTokenSupply per pool
+ * - Now: 1 × getMultipleAccountsInfo per 25 pools (4 accounts per pool, 100 per call)
+ *
+ * @module poolSnapshot
+ */
+
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import { throttledRpcCall } from '@/lib/utils/requestThrottler';
+import { fetchWithTimeout } from '@/utils/fetchUtils';
+import {
+  decodeMint,
+  decodePoolAccount,
+  decodeTokenAccount,
+  DecodedPoolAccount,
+  DEFAULT_SWAP_FEE,
+  feeToPercent,
+  getSwapFee,
+} from './poolAccountDecoder';
+
+/**
+ * Accounts that make up a pool
+ */
+export interface PoolSnapshotAccounts {
+  /** Pool state account */
+  poolAddress: PublicKey;
+  /** Token A vault */
+  tokenAAccount: PublicKey;
+  /** Token B vault */
+  tokenBAccount: PublicKey;
+  /** LP token mint */
+  lpTokenMint: PublicKey;
+}
+
+/**
+ * Consistent view of a pool at a single slot
+ */
+export interface PoolSnapshot {
+  /** Pool state account address */
+  poolAddress: string;
+  /** Slot the accounts were read at */
+  slot: number;
+  /** Decoded pool state account, or null if it could not be decoded */
+  pool: DecodedPoolAccount | null;
+  /** Token A reserve in base units */
+  reserveA: bigint;
+  /** Token B reserve in base units */
+  reserveB: bigint;
+  /** LP token supply in base units */
+  lpTokenSupply: bigint;
+  /** LP token decimals */
+  lpDecimals: number;
+  /** Effective swap fee numerator */
+  feeNumerator: bigint;
+  /** Effective swap fee denominator */
+  feeDenominator: bigint;
+  /** Swap fee as a percentage (e.g., 0.3 for 0.3%) */
+  feeRate: number;
+  /** Timestamp when this snapshot was fetched */
+  fetchedAt: number;
+}
+
+/** Maximum accounts accepted by a single getMultipleAccountsInfo call */
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+/** Accounts loaded per pool (state, vault A, vault B, LP mint) */
+const ACCOUNTS_PER_POOL = 4;
+
+/**
+ * Build a snapshot from already-fetched account infos
+ *
+ * The vaults and LP mint are required. The pool state account is only used for
+ * the fee schedule, so if it is missing or cannot be decoded the default 0.3%
+ * fee is assumed and `pool` is null.
+ *
+ * @param accounts - Pool account addresses
+ * @param infos - Account infos in [pool, vault A, vault B, LP mint] order
+ * @param slot - Slot the account infos were read at
+ * @returns Pool snapshot
+ * @throws Error if a vault or the LP mint is missing or invalid
+ */
+export function parsePoolSnapshot(
+  accounts: PoolSnapshotAccounts,
+  infos: Array<AccountInfo<Buffer> | null>,
+  slot: number
+): PoolSnapshot {
+  const [poolInfo, vaultAInfo, vaultBInfo, mintInfo] = infos;
+
+  if (!vaultAInfo) {
+    throw new Error(`Could not find account ${accounts.tokenAAccount.toBase58()} (token A vault)`);
+  }
+  if (!vaultBInfo) {
+    throw new Error(`Could not find account ${accounts.tokenBAccount.toBase58()} (token B vault)`);
+  }
+  if (!mintInfo) {
+    throw new Error(`Could not find account ${accounts.lpTokenMint.toBase58()} (LP mint)`);
+  }
+
+  const vaultA = decodeTokenAccount(vaultAInfo.data);
+  const vaultB = decodeTokenAccount(vaultBInfo.data);
+  const lpMint = decodeMint(mintInfo.data);
+
+  let pool: DecodedPoolAccount | null = null;
+  let fee: { feeNumerator: bigint; feeDenominator: bigint } = DEFAULT_SWAP_FEE;
+  try {
+    if (!poolInfo) {
+      throw new Error('Pool account not found');
+    }
+    pool = decodePoolAccount(poolInfo.data);
+    fee = getSwapFee(pool.fees);
+  } catch (error) {
+    console.warn(`⚠️  Could not decode pool account ${accounts.poolAddress.toBase58()}, assuming 0.3% fee`);
+    console.warn(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return {
+    poolAddress: accounts.poolAddress.toBase58(),
+    slot,
+    pool,
+    reserveA: vaultA.amount,
+    reserveB: vaultB.amount,
+    lpTokenSupply: lpMint.supply,
+    lpDecimals: lpMint.decimals,
+    feeNumerator: fee.feeNumerator,
+    feeDenominator: fee.feeDenominator,
+    feeRate: feeToPercent(fee.feeNumerator, fee.feeDenominator),
+    fetchedAt: Date.now(),
+  };
+}
+
+/**
+ * Fetch a snapshot of a single pool with one RPC call
+ *
+ * @param connection - Solana connection instance
+ * @param accounts - Pool account addresses
+ * @returns Promise resolving to the pool snapshot
+ * @throws Error if the RPC call fails or a vault or the LP mint is missing or invalid
+ */
+export async function fetchPoolSnapshot(
+  connection: Connection,
+  accounts: PoolSnapshotAccounts
+): Promise<PoolSnapshot> {
+  const { context, value } = await throttledRpcCall(() =>
+    fetchWithTimeout(
+      connection.getMultipleAccountsInfoAndContext([
+        accounts.poolAddress,
+        accounts.tokenAAccount,
+        accounts.tokenBAccount,
+        accounts.lpTokenMint,
+      ]),
+      10000
+    )
+  );
+
+  return parsePoolSnapshot(accounts, value, context.slot);
+}
+
+/**
+ * Fetch snapshots of many pools, batching up to 25 pools per RPC call
+ *
+ * Pools whose accounts are missing or invalid come back as null so that one
+ * bad pool does not prevent the others from loading; the reason is logged.
+ *
+ * @param connection - Solana connection instance
+ * @param poolAccounts - Account addresses for each pool
+ * @returns Promise resolving to snapshots aligned with `poolAccounts`
+ * @throws Error if an RPC call fails
+ */
+export async function fetchPoolSnapshots(
+  connection: Connection,
+  poolAccounts: PoolSnapshotAccounts[]
+): Promise<Array<PoolSnapshot | null>> {
+  const poolsPerRequest = MAX_ACCOUNTS_PER_REQUEST / ACCOUNTS_PER_POOL;
+  const snapshots: Array<PoolSnapshot | null> = [];
+
+  for (let i = 0; i < poolAccounts.length; i += poolsPerRequest) {
+    const batch = poolAccounts.slice(i, i + poolsPerRequest);
+    const keys = batch.flatMap(accounts => [
+      accounts.poolAddress,
+      accounts.tokenAAccount,
+      accounts.tokenBAccount,
+      accounts.lpTokenMint,
+    ]);
+
+    console.log(`🔍 Fetching ${batch.length} pool snapshot(s) (${keys.length} accounts, 1 RPC call)`);
+
+    const { context, value } = await throttledRpcCall(() =>
+      fetchWithTimeout(connection.getMultipleAccountsInfoAndContext(keys), 10000)
+    );
+
+    batch.forEach((accounts, j) => {
+      const infos = value.slice(j * ACCOUNTS_PER_POOL, (j + 1) * ACCOUNTS_PER_POOL);
+      try {
+        snapshots.push(parsePoolSnapshot(accounts, infos, context.slot));
+      } catch (error) {
+        console.warn(`⚠️  Invalid pool snapshot for ${accounts.poolAddress.toBase58()}`);
+        console.warn(`   Error: ${error instanceof Error ? error.message : String(error)}`);
+        snapshots.push(null);
+      }
+    });
+  }
+
+  return snapshots;
+}
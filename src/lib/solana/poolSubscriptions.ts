@@ -0,0 +1,406 @@
+/**
+ * Pool Subscriptions
+ *
+ * Keeps live pool reserves up to date by subscribing to account changes on each
+ * pool's token vaults over the RPC websocket, instead of polling on a timer.
+ *
+ * Lifecycle:
+ * 1. subscribe() seeds the pool with a full snapshot (reserves + fees) and opens
+ *    an onAccountChange subscription for both vaults
+ * 2. Every vault change is decoded and pushed to the pool's listeners
+ * 3. If the websocket drops, all subscribed pools are polled with batched
+ *    snapshots until it reconnects; on reconnect one refresh catches up on any
+ *    changes missed while disconnected
+ * 4. Subscriptions are reference counted and closed when the last listener leaves
+ *
+ * Updates are ordered by slot per vault, so a slow snapshot never overwrites a
+ * newer websocket notification.
+ *
+ * @module poolSubscriptions
+ */
+
+import { AccountInfo, Connection, Context } from '@solana/web3.js';
+import { decodeTokenAccount } from './poolAccountDecoder';
+import { fetchPoolSnapshots, PoolSnapshot, PoolSnapshotAccounts } from './poolSnapshot';
+
+/**
+ * Reserve update pushed to pool listeners
+ */
+export interface PoolReserveUpdate {
+  /** Pool state account address */
+  poolAddress: string;
+  /** Token A reserve in base units */
+  reserveA: bigint;
+  /** Token B reserve in base units */
+  reserveB: bigint;
+  /** Effective swap fee numerator */
+  feeNumerator: bigint;
+  /** Effective swap fee denominator */
+  feeDenominator: bigint;
+  /** Latest slot reflected in the reserves */
+  slot: number;
+  /** How the update was received */
+  source: 'websocket' | 'poll';
+  /** Timestamp when the update was received */
+  receivedAt: number;
+}
+
+/**
+ * Callback invoked whenever a pool's reserves change
+ */
+export type PoolUpdateListener = (update: PoolReserveUpdate) => void;
+
+/**
+ * Options for the subscription manager
+ */
+export interface PoolSubscriptionOptions {
+  /** Polling interval used while the websocket is down (default: 10000ms) */
+  pollIntervalMs?: number;
+}
+
+/**
+ * Internal state of one subscribed pool
+ */
+interface PoolSubscription {
+  accounts: PoolSnapshotAccounts;
+  listeners: Set<PoolUpdateListener>;
+  subscriptionIds: number[];
+  reserveA: bigint;
+  reserveB: bigint;
+  /** Slot of the last applied vault A value (-1 until seeded) */
+  slotA: number;
+  /** Slot of the last applied vault B value (-1 until seeded) */
+  slotB: number;
+  feeNumerator: bigint;
+  feeDenominator: bigint;
+  /** How the last emitted update was received (the seed is a snapshot) */
+  source: PoolReserveUpdate['source'];
+}
+
+/**
+ * Minimal view of the websocket client web3.js keeps on each Connection.
+ * It is not part of the public API, so it is accessed defensively.
+ */
+interface RpcWebSocketEvents {
+  on(event: 'open' | 'close', listener: () => void): unknown;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 10000;
+
+/**
+ * Manages websocket subscriptions to pool vaults with polling fallback
+ *
+ * Use getPoolSubscriptionManager() to share one manager per connection.
+ *
+ * @class PoolSubscriptionManager
+ */
+export class PoolSubscriptionManager {
+  private connection: Connection;
+  private pollIntervalMs: number;
+  private subscriptions = new Map<string, PoolSubscription>();
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(connection: Connection, options: PoolSubscriptionOptions = {}) {
+    this.connection = connection;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.watchWebSocket();
+  }
+
+  /**
+   * Subscribe to reserve updates for a pool
+   *
+   * If the pool is already seeded, the listener is called immediately with the
+   * latest reserves.
+   *
+   * @param accounts - Pool account addresses
+   * @param listener - Callback invoked on every reserve change
+   * @returns Function that removes the listener
+   */
+  subscribe(accounts: PoolSnapshotAccounts, listener: PoolUpdateListener): () => void {
+    const poolAddress = accounts.poolAddress.toBase58();
+    let subscription = this.subscriptions.get(poolAddress);
+
+    if (!subscription) {
+      subscription = {
+        accounts,
+        listeners: new Set(),
+        subscriptionIds: [],
+        reserveA: 0n,
+        reserveB: 0n,
+        slotA: -1,
+        slotB: -1,
+        feeNumerator: 0n,
+        feeDenominator: 1n,
+        source: 'poll',
+      };
+      this.subscriptions.set(poolAddress, subscription);
+      this.openSubscription(subscription);
+    }
+
+    subscription.listeners.add(listener);
+
+    const latest = this.getLatest(poolAddress);
+    if (latest) {
+      listener(latest);
+    }
+
+    return () => this.unsubscribe(poolAddress, listener);
+  }
+
+  /**
+   * Get the latest reserves of a subscribed pool
+   *
+   * @param poolAddress - Pool address
+   * @returns Latest update, or null if the pool is not subscribed or not yet seeded
+   */
+  getLatest(poolAddress: string): PoolReserveUpdate | null {
+    const subscription = this.subscriptions.get(poolAddress);
+    if (!subscription || subscription.slotA < 0 || subscription.slotB < 0) {
+      return null;
+    }
+    return this.toUpdate(subscription, subscription.source);
+  }
+
+  /**
+   * Whether a pool currently has live subscribers
+   */
+  isSubscribed(poolAddress: string): boolean {
+    return this.subscriptions.has(poolAddress);
+  }
+
+  /**
+   * Whether the manager has fallen back to polling
+   */
+  isPolling(): boolean {
+    return this.pollTimer !== null;
+  }
+
+  private unsubscribe(poolAddress: string, listener: PoolUpdateListener): void {
+    const subscription = this.subscriptions.get(poolAddress);
+    if (!subscription) {
+      return;
+    }
+
+    subscription.listeners.delete(listener);
+    if (subscription.listeners.size > 0) {
+      return;
+    }
+
+    console.log(`🔕 Closing vault subscriptions for pool ${poolAddress}`);
+    this.subscriptions.delete(poolAddress);
+    subscription.subscriptionIds.forEach(id => {
+      this.connection.removeAccountChangeListener(id).catch(error => {
+        console.warn(`⚠️  Failed to remove account listener ${id}:`, error);
+      });
+    });
+
+    if (this.subscriptions.size === 0) {
+      this.stopPolling();
+    }
+  }
+
+  /**
+   * Seed a new pool with a snapshot and open its vault subscriptions
+   */
+  private openSubscription(subscription: PoolSubscription): void {
+    const { accounts } = subscription;
+    console.log(`🔔 Subscribing to vaults of pool ${accounts.poolAddress.toBase58()}`);
+
+    try {
+      subscription.subscriptionIds = [
+        this.connection.onAccountChange(
+          accounts.tokenAAccount,
+          (info, context) => this.handleVaultChange(subscription, 'A', info, context),
+          'confirmed'
+        ),
+        this.connection.onAccountChange(
+          accounts.tokenBAccount,
+          (info, context) => this.handleVaultChange(subscription, 'B', info, context),
+          'confirmed'
+        ),
+      ];
+    } catch (error) {
+      console.warn('⚠️  Websocket subscription failed, falling back to polling:', error);
+      this.startPolling();
+    }
+
+    this.refresh([subscription]);
+  }
+
+  /**
+   * Apply a decoded vault change from the websocket
+   */
+  private handleVaultChange(
+    subscription: PoolSubscription,
+    vault: 'A' | 'B',
+    info: AccountInfo<Buffer>,
+    context: Context
+  ): void {
+    try {
+      const { amount } = decodeTokenAccount(info.data);
+      if (this.applyVault(subscription, vault, amount, context.slot)) {
+        this.emit(subscription, 'websocket');
+      }
+    } catch (error) {
+      console.warn(`⚠️  Failed to decode vault ${vault} update for pool ${subscription.accounts.poolAddress.toBase58()}:`, error);
+    }
+  }
+
+  /**
+   * Apply a vault balance if it is not older than the current one
+   *
+   * @returns True if the reserve changed
+   */
+  private applyVault(subscription: PoolSubscription, vault: 'A' | 'B', amount: bigint, slot: number): boolean {
+    if (vault === 'A') {
+      if (slot < subscription.slotA) return false;
+      const changed = subscription.slotA < 0 || subscription.reserveA !== amount;
+      subscription.reserveA = amount;
+      subscription.slotA = slot;
+      return changed;
+    }
+
+    if (slot < subscription.slotB) return false;
+    const changed = subscription.slotB < 0 || subscription.reserveB !== amount;
+    subscription.reserveB = amount;
+    subscription.slotB = slot;
+    return changed;
+  }
+
+  /**
+   * Apply a full snapshot (reserves and fees)
+   *
+   * @returns True if anything changed
+   */
+  private applySnapshot(subscription: PoolSubscription, snapshot: PoolSnapshot): boolean {
+    const feeChanged = subscription.feeNumerator !== snapshot.feeNumerator
+      || subscription.feeDenominator !== snapshot.feeDenominator;
+    subscription.feeNumerator = snapshot.feeNumerator;
+    subscription.feeDenominator = snapshot.feeDenominator;
+
+    const changedA = this.applyVault(subscription, 'A', snapshot.reserveA, snapshot.slot);
+    const changedB = this.applyVault(subscription, 'B', snapshot.reserveB, snapshot.slot);
+
+    return feeChanged || changedA || changedB;
+  }
+
+  /**
+   * Fetch fresh snapshots for pools and notify listeners of any changes
+   */
+  private async refresh(
+    subscriptions: PoolSubscription[] = Array.from(this.subscriptions.values())
+  ): Promise<void> {
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    try {
+      const snapshots = await fetchPoolSnapshots(
+        this.connection,
+        subscriptions.map(subscription => subscription.accounts)
+      );
+
+      snapshots.forEach((snapshot, i) => {
+        const subscription = subscriptions[i];
+        // Skip pools that were unsubscribed while the request was in flight
+        if (!snapshot || !this.subscriptions.has(snapshot.poolAddress)) {
+          return;
+        }
+        if (this.applySnapshot(subscription, snapshot)) {
+          this.emit(subscription, 'poll');
+        }
+      });
+    } catch (error) {
+      console.warn('⚠️  Failed to refresh pool snapshots:', error);
+    }
+  }
+
+  private emit(subscription: PoolSubscription, source: PoolReserveUpdate['source']): void {
+    if (subscription.slotA < 0 || subscription.slotB < 0) {
+      // Not seeded yet - wait for the initial snapshot
+      return;
+    }
+
+    subscription.source = source;
+    const update = this.toUpdate(subscription, source);
+    subscription.listeners.forEach(listener => {
+      try {
+        listener(update);
+      } catch (error) {
+        console.error('❌ Pool update listener failed:', error);
+      }
+    });
+  }
+
+  private toUpdate(subscription: PoolSubscription, source: PoolReserveUpdate['source']): PoolReserveUpdate {
+    return {
+      poolAddress: subscription.accounts.poolAddress.toBase58(),
+      reserveA: subscription.reserveA,
+      reserveB: subscription.reserveB,
+      feeNumerator: subscription.feeNumerator,
+      feeDenominator: subscription.feeDenominator,
+      slot: Math.max(subscription.slotA, subscription.slotB),
+      source,
+      receivedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Switch to polling while the websocket is down
+   *
+   * web3.js reconnects and resubscribes on its own; we only need to cover the gap.
+   */
+  private watchWebSocket(): void {
+    const webSocket = (this.connection as unknown as { _rpcWebSocket?: RpcWebSocketEvents })._rpcWebSocket;
+    if (!webSocket || typeof webSocket.on !== 'function') {
+      return;
+    }
+
+    webSocket.on('close', () => {
+      if (this.subscriptions.size > 0) {
+        console.warn('⚠️  RPC websocket closed, polling pool reserves until it reconnects');
+        this.startPolling();
+      }
+    });
+
+    webSocket.on('open', () => {
+      if (this.pollTimer) {
+        console.log('✅ RPC websocket reconnected, stopping pool polling');
+        this.stopPolling();
+        // Catch up on changes missed while disconnected
+        this.refresh();
+      }
+    });
+  }
+
+  private startPolling(): void {
+    if (this.pollTimer) {
+      return;
+    }
+    this.pollTimer = setInterval(() => this.refresh(), this.pollIntervalMs);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+}
+
+const managers = new WeakMap<Connection, PoolSubscriptionManager>();
+
+/**
+ * Get the shared subscription manager for a connection
+ *
+ * @param connection - Solana connection instance
+ * @returns Subscription manager bound to the connection
+ */
+export function getPoolSubscriptionManager(connection: Connection): PoolSubscriptionManager {
+  let manager = managers.get(connection);
+  if (!manager) {
+    manager = new PoolSubscriptionManager(connection);
+    managers.set(connection, manager);
+  }
+  return manager;
+}
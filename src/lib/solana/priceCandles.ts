@@ -0,0 +1,236 @@
+/**
+ * Price Candles
+ *
+ * OHLCV series for a trading pair built from indexed swap events of all its
+ * shards (see poolIndexer). Each swap's execution price is the ratio of the
+ * vault changes, so candles reflect what traders actually paid across shards.
+ * Volume is split by shard so the chart can show where flow was routed.
+ *
+ * Events come from the pool event store, which keeps a cursor per pool, so
+ * loading a pair again only fetches signatures newer than the last load.
+ *
+ * Prices are quoted as quote token per base token (human-readable units).
+ *
+ * @module priceCandles
+ */
+
+import { Connection } from '@solana/web3.js';
+import dexConfig from '@/config/dex-config.json';
+import { discoverPools } from './poolRegistry';
+import { getDefaultPoolEventStore, PoolEvent, PoolEventStore, sortPoolEvents } from './poolEventStore';
+import { swapVolumeA, syncPoolIndex } from './poolIndexer';
+
+/**
+ * Candle width
+ */
+export type CandleInterval = '1m' | '15m' | '1h' | '1d';
+
+/**
+ * Candle width in seconds, by interval
+ */
+export const CANDLE_INTERVAL_SECONDS: Record<CandleInterval, number> = {
+  '1m': 60,
+  '15m': 15 * 60,
+  '1h': 60 * 60,
+  '1d': 24 * 60 * 60,
+};
+
+/**
+ * One OHLCV candle
+ */
+export interface Candle {
+  /** Start of the candle (unix seconds) */
+  time: number;
+  /** Price of the first swap (previous close for candles without swaps) */
+  open: number;
+  /** Highest swap price */
+  high: number;
+  /** Lowest swap price */
+  low: number;
+  /** Price of the last swap */
+  close: number;
+  /** Base token volume in base units */
+  volume: bigint;
+  /** Base token volume in base units, by shard number */
+  volumeByShard: Record<number, bigint>;
+  /** Number of swaps */
+  trades: number;
+}
+
+/**
+ * Options for building candles
+ */
+export interface CandleOptions {
+  /** Base token decimals */
+  baseDecimals: number;
+  /** Quote token decimals */
+  quoteDecimals: number;
+  /** Only build the last `limit` candles */
+  limit?: number;
+  /** End of the series (unix seconds, default: the last swap) */
+  now?: number;
+}
+
+/**
+ * Execution price of a swap event
+ *
+ * @param event - Swap event oriented so token A is the base token
+ * @param baseDecimals - Base token decimals
+ * @param quoteDecimals - Quote token decimals
+ * @returns Quote per base, or null if the event moved only one vault
+ */
+export function getSwapPrice(event: PoolEvent, baseDecimals: number, quoteDecimals: number): number | null {
+  const base = Number(swapVolumeA(event));
+  const quote = Math.abs(Number(event.deltaB));
+  if (base === 0 || quote === 0) {
+    return null;
+  }
+  return (quote / base) * Math.pow(10, baseDecimals - quoteDecimals);
+}
+
+/**
+ * Swap token A and B of events from a pool stored in the opposite token order
+ *
+ * @param events - Events of one pool
+ * @returns Events with token A and B deltas exchanged
+ */
+export function invertPoolEvents(events: PoolEvent[]): PoolEvent[] {
+  return events.map(event => ({ ...event, deltaA: event.deltaB, deltaB: event.deltaA }));
+}
+
+/**
+ * Build OHLCV candles from swap events
+ *
+ * Events may come from several shards of the pair; they must all be oriented
+ * so that token A is the base token. Candles without swaps between the first
+ * and last candle are filled flat at the previous close with zero volume.
+ *
+ * @param events - Pool events (non-swaps are ignored)
+ * @param interval - Candle width
+ * @param options - Token decimals and series bounds
+ * @returns Candles oldest first (empty if there are no swaps)
+ */
+export function buildCandles(events: PoolEvent[], interval: CandleInterval, options: CandleOptions): Candle[] {
+  const { baseDecimals, quoteDecimals, limit } = options;
+  const size = CANDLE_INTERVAL_SECONDS[interval];
+
+  const trades = sortPoolEvents(events.filter(event => event.type === 'swap'))
+    .map(event => ({ event, price: getSwapPrice(event, baseDecimals, quoteDecimals) }))
+    .filter((trade): trade is { event: PoolEvent; price: number } => trade.price !== null);
+
+  if (trades.length === 0) {
+    return [];
+  }
+
+  const bucketOf = (time: number): number => Math.floor(time / size) * size;
+  const last = bucketOf(options.now ?? trades[trades.length - 1].event.blockTime);
+  let start = bucketOf(trades[0].event.blockTime);
+  if (limit) {
+    start = Math.max(start, last - (limit - 1) * size);
+  }
+
+  // Trades before the first candle only provide its opening price
+  let i = 0;
+  let previousClose: number | null = null;
+  while (i < trades.length && trades[i].event.blockTime < start) {
+    previousClose = trades[i].price;
+    i++;
+  }
+
+  const candles: Candle[] = [];
+  for (let time = start; time <= last; time += size) {
+    let candle: Candle | null = null;
+
+    while (i < trades.length && trades[i].event.blockTime < time + size) {
+      const { event, price } = trades[i];
+      const volume = swapVolumeA(event);
+      if (!candle) {
+        candle = { time, open: price, high: price, low: price, close: price, volume: 0n, volumeByShard: {}, trades: 0 };
+      }
+      candle.high = Math.max(candle.high, price);
+      candle.low = Math.min(candle.low, price);
+      candle.close = price;
+      candle.volume += volume;
+      candle.volumeByShard[event.shardNumber] = (candle.volumeByShard[event.shardNumber] ?? 0n) + volume;
+      candle.trades++;
+      i++;
+    }
+
+    if (!candle && previousClose !== null) {
+      candle = {
+        time,
+        open: previousClose,
+        high: previousClose,
+        low: previousClose,
+        close: previousClose,
+        volume: 0n,
+        volumeByShard: {},
+        trades: 0,
+      };
+    }
+
+    if (candle) {
+      candles.push(candle);
+      previousClose = candle.close;
+    }
+  }
+
+  return candles;
+}
+
+/**
+ * Swap events of a pair across all its shards
+ */
+export interface PairSwapEvents {
+  /** Events oriented so token A is the base token, oldest first */
+  events: PoolEvent[];
+  /** Shard numbers of the pair */
+  shards: number[];
+  /** Base token decimals */
+  baseDecimals: number;
+  /** Quote token decimals */
+  quoteDecimals: number;
+}
+
+/**
+ * Load a pair's swap events from every shard
+ *
+ * Indexes new signatures of each shard first (unless `sync` is false), then
+ * reads the events from the store and orients them to the base token.
+ *
+ * @param connection - Solana connection instance
+ * @param baseMint - Mint prices are quoted for
+ * @param quoteMint - Mint prices are quoted in
+ * @param options - Event store, time range and whether to sync the index
+ * @returns Promise resolving to the pair's events (empty if the pair has no pools)
+ */
+export async function loadPairSwapEvents(
+  connection: Connection,
+  baseMint: string,
+  quoteMint: string,
+  options: { store?: PoolEventStore; since?: number; sync?: boolean } = {}
+): Promise<PairSwapEvents> {
+  const { store = getDefaultPoolEventStore(), since = 0, sync = true } = options;
+  const decimalsOf = (mint: string): number => dexConfig.tokens.find(t => t.mint === mint)?.decimals ?? 9;
+
+  const pools = (await discoverPools(connection)).filter(pool =>
+    (pool.tokenA === baseMint && pool.tokenB === quoteMint) ||
+    (pool.tokenA === quoteMint && pool.tokenB === baseMint)
+  );
+
+  if (sync) {
+    await syncPoolIndex(connection, pools, store);
+  }
+
+  const perPool = await Promise.all(pools.map(async pool => {
+    const events = (await store.getEvents(pool.poolAddress, since)).filter(event => event.type === 'swap');
+    return pool.tokenA === baseMint ? events : invertPoolEvents(events);
+  }));
+
+  return {
+    events: sortPoolEvents(perPool.flat()),
+    shards: pools.map(pool => pool.shardNumber).sort((a, b) => a - b),
+    baseDecimals: decimalsOf(baseMint),
+    quoteDecimals: decimalsOf(quoteMint),
+  };
+}
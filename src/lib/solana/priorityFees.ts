@@ -0,0 +1,236 @@
+/**
+ * Priority Fees and Compute Budget
+ *
+ * Prepends ComputeBudgetProgram instructions to DEX transactions:
+ *
+ * 1. Compute unit limit - the transaction is simulated once and the limit is
+ *    set to the units it consumed plus a safety margin, instead of paying for
+ *    the default 200k units per instruction
+ * 2. Compute unit price - either estimated from getRecentPrioritizationFees
+ *    for the writable accounts the transaction locks (i.e. what recently
+ *    landed transactions touching the same pools paid), or derived from the
+ *    fixed priority fee the user entered in their settings
+ *
+ * Because the priority fee paid is price × limit, tightening the limit also
+ * makes every priority fee cheaper.
+ *
+ * @module priorityFees
+ */
+
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+
+/**
+ * User fee preferences (same fields as SwapSettingsData)
+ */
+export interface PriorityFeeSettings {
+  /** Fixed priority fee in lamports; 0 means no fixed fee */
+  priorityFee: number;
+  /** Estimate the compute unit price from recent fees when no fixed fee is set */
+  autoOptimizeFees: boolean;
+}
+
+/**
+ * Compute budget chosen for a transaction
+ */
+export interface ComputeBudget {
+  /** Compute unit limit */
+  computeUnitLimit: number;
+  /** Compute unit price in micro-lamports (0 = no priority fee) */
+  computeUnitPrice: number;
+  /** Total priority fee in lamports (price × limit) */
+  priorityFeeLamports: number;
+  /** Whether the limit came from a successful simulation */
+  simulated: boolean;
+}
+
+export const DEFAULT_PRIORITY_FEE_SETTINGS: PriorityFeeSettings = {
+  priorityFee: 0,
+  autoOptimizeFees: true,
+};
+
+/** Hard cap on compute units per transaction */
+export const MAX_COMPUTE_UNITS = 1_400_000;
+
+/** Runtime default per instruction, used when simulation fails */
+const DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION = 200_000;
+
+/** Extra headroom on top of the simulated units, in percent */
+const COMPUTE_UNIT_MARGIN_PERCENT = 10;
+
+/** Percentile of recent fees to pay when estimating the price */
+const PRIORITY_FEE_PERCENTILE = 0.75;
+
+/** Upper bound on an estimated price, so a fee spike cannot drain the wallet */
+const MAX_COMPUTE_UNIT_PRICE = 2_000_000;
+
+/** getRecentPrioritizationFees accepts at most 128 accounts */
+const MAX_FEE_ACCOUNTS = 128;
+
+const MICRO_LAMPORTS_PER_LAMPORT = 1_000_000;
+
+/**
+ * Estimate a compute unit price from recent prioritization fees
+ *
+ * Only fees paid by transactions that write-locked the same accounts are
+ * considered, so the estimate reflects contention on these pools rather than
+ * the whole network.
+ *
+ * @param connection - Solana connection instance
+ * @param writableAccounts - Accounts the transaction write-locks
+ * @returns Compute unit price in micro-lamports (0 if there is no recent contention)
+ */
+export async function estimateComputeUnitPrice(
+  connection: Connection,
+  writableAccounts: PublicKey[]
+): Promise<number> {
+  try {
+    const recentFees = await connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: writableAccounts.slice(0, MAX_FEE_ACCOUNTS),
+    });
+
+    if (recentFees.length === 0) {
+      return 0;
+    }
+
+    const fees = recentFees.map(fee => fee.prioritizationFee).sort((a, b) => a - b);
+    const index = Math.min(fees.length - 1, Math.floor(fees.length * PRIORITY_FEE_PERCENTILE));
+
+    return Math.min(MAX_COMPUTE_UNIT_PRICE, Math.ceil(fees[index]));
+  } catch (error) {
+    console.warn('⚠️  Failed to estimate priority fee, sending without one:', error);
+    return 0;
+  }
+}
+
+/**
+ * Simulate instructions to measure the compute units they consume
+ *
+ * The simulation runs with the maximum limit and a replaced blockhash, so it
+ * needs neither a signature nor a fresh blockhash.
+ *
+ * @param connection - Solana connection instance
+ * @param payer - Fee payer
+ * @param instructions - Instructions to measure (without compute budget instructions)
+ * @param lookupTables - Lookup tables the transaction will use
+ * @returns Units consumed, or null if the simulation failed
+ */
+export async function simulateComputeUnits(
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  lookupTables: AddressLookupTableAccount[] = []
+): Promise<number | null> {
+  try {
+    const message = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: PublicKey.default.toBase58(),
+      instructions: [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }),
+        // Same shape as the final transaction, so its cost is included
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 0 }),
+        ...instructions,
+      ],
+    }).compileToV0Message(lookupTables);
+
+    const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: 'confirmed',
+    });
+
+    if (value.err || !value.unitsConsumed) {
+      console.warn('⚠️  Compute unit simulation failed:', value.err ?? 'no units reported');
+      return null;
+    }
+
+    return value.unitsConsumed;
+  } catch (error) {
+    console.warn('⚠️  Compute unit simulation failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Choose the compute budget for a set of instructions
+ *
+ * - Limit: simulated units + 10%, or 200k per instruction if simulation fails
+ * - Price: a fixed `priorityFee` is spread over the limit; otherwise the price
+ *   is estimated from recent fees when `autoOptimizeFees` is on, and no
+ *   priority fee is paid when it is off
+ *
+ * @param connection - Solana connection instance
+ * @param payer - Fee payer
+ * @param instructions - Instructions to budget (without compute budget instructions)
+ * @param settings - User fee preferences
+ * @param lookupTables - Lookup tables the transaction will use
+ * @returns Chosen compute budget
+ */
+export async function getComputeBudget(
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  settings: PriorityFeeSettings = DEFAULT_PRIORITY_FEE_SETTINGS,
+  lookupTables: AddressLookupTableAccount[] = []
+): Promise<ComputeBudget> {
+  const needsEstimate = settings.priorityFee <= 0 && settings.autoOptimizeFees;
+
+  const [unitsConsumed, estimatedPrice] = await Promise.all([
+    simulateComputeUnits(connection, payer, instructions, lookupTables),
+    needsEstimate ? estimateComputeUnitPrice(connection, getWritableAccounts(instructions)) : Promise.resolve(0),
+  ]);
+
+  const computeUnitLimit = Math.min(
+    MAX_COMPUTE_UNITS,
+    unitsConsumed !== null
+      ? Math.ceil(unitsConsumed * (100 + COMPUTE_UNIT_MARGIN_PERCENT) / 100)
+      : DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION * instructions.length
+  );
+
+  const computeUnitPrice = settings.priorityFee > 0
+    ? Math.floor(settings.priorityFee * MICRO_LAMPORTS_PER_LAMPORT / computeUnitLimit)
+    : estimatedPrice;
+
+  return {
+    computeUnitLimit,
+    computeUnitPrice,
+    priorityFeeLamports: Math.ceil(computeUnitPrice * computeUnitLimit / MICRO_LAMPORTS_PER_LAMPORT),
+    simulated: unitsConsumed !== null,
+  };
+}
+
+/**
+ * Build the ComputeBudgetProgram instructions for a budget
+ *
+ * @param budget - Compute budget from getComputeBudget()
+ * @returns Instructions to prepend to the transaction
+ */
+export function createComputeBudgetInstructions(budget: ComputeBudget): TransactionInstruction[] {
+  const instructions = [ComputeBudgetProgram.setComputeUnitLimit({ units: budget.computeUnitLimit })];
+
+  if (budget.computeUnitPrice > 0) {
+    instructions.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: budget.computeUnitPrice }));
+  }
+
+  return instructions;
+}
+
+/**
+ * Unique accounts write-locked by a set of instructions
+ */
+function getWritableAccounts(instructions: TransactionInstruction[]): PublicKey[] {
+  const accounts = new Map<string, PublicKey>();
+  instructions.forEach(instruction => {
+    instruction.keys
+      .filter(key => key.isWritable)
+      .forEach(key => accounts.set(key.pubkey.toBase58(), key.pubkey));
+  });
+  return Array.from(accounts.values());
+}
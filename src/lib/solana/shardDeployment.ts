@@ -0,0 +1,253 @@
+/**
+ * Shard Deployment
+ *
+ * Adds a shard to an existing trading pair. The new pool uses the pair's token
+ * mints and the fee schedule of its first shard, is seeded at the current
+ * cross-shard price so it does not open an arbitrage gap, and takes the next
+ * free shard number. Deployed shards are registered for routing immediately;
+ * the resulting entry (and the updated `summary`) can be copied into
+ * `dex-config.json` to make the shard permanent.
+ *
+ * @module shardDeployment
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { WalletContextState } from '@solana/wallet-adapter-react';
+import dexConfig from '@/config/dex-config.json';
+import { shardedDex } from '../shardedDex';
+import { PoolFees } from './poolAccountDecoder';
+import { fetchPoolSnapshot } from './poolSnapshot';
+import {
+  getNextShardNumber,
+  initializePool,
+  InitializedPool,
+  InitializePoolOptions,
+  poolFeesFromRate,
+} from './poolInitialization';
+import { getPoolConfigs, PoolConfigEntry, registerPool } from './poolRegistry';
+
+/**
+ * Token entry in the shape of `dex-config.json`'s `tokens` array
+ */
+type TokenConfigEntry = (typeof dexConfig.tokens)[number];
+
+/**
+ * Summary section of `dex-config.json`
+ */
+export type DexConfigSummary = typeof dexConfig.summary;
+
+/**
+ * Everything needed to deploy a new shard, shown to the operator before signing
+ */
+export interface ShardDeploymentQuote {
+  /** Pair name in config orientation (e.g. "USDC/SOL") */
+  pair: string;
+  /** Token A of the pair as configured */
+  tokenA: TokenConfigEntry;
+  /** Token B of the pair as configured */
+  tokenB: TokenConfigEntry;
+  /** Shard number the new pool will get */
+  shardNumber: number;
+  /** Cross-shard price in token B per token A */
+  price: number;
+  /** Number of existing shards the price was computed from */
+  sourceShards: number;
+  /** Initial token A liquidity (human-readable) */
+  amountA: number;
+  /** Initial token B liquidity at the cross-shard price (human-readable) */
+  amountB: number;
+  /** Fee schedule copied from the pair's first shard */
+  fees: PoolFees;
+}
+
+/**
+ * Config changes for a deployed shard
+ */
+export interface ShardConfigUpdate {
+  /** New entry for `pools` */
+  pool: PoolConfigEntry;
+  /** Replacement for `summary` */
+  summary: DexConfigSummary;
+}
+
+/**
+ * A shard deployed on-chain
+ */
+export interface DeployedShard extends InitializedPool {
+  /** Config changes to persist the shard */
+  configUpdate: ShardConfigUpdate;
+}
+
+/**
+ * Cross-shard price of a pair
+ *
+ * The price of the pair's combined liquidity (total token B over total token A),
+ * which weights each shard by its size. Shards without reserves are ignored.
+ *
+ * @param shards - Shards with human-readable reserves, all in the same orientation
+ * @returns Price in token B per token A
+ * @throws Error if no shard has liquidity on both sides
+ */
+export function computeCrossShardPrice(
+  shards: Array<{ liquidityA: string; liquidityB: string }>
+): number {
+  let totalA = 0;
+  let totalB = 0;
+
+  for (const shard of shards) {
+    const reserveA = parseFloat(shard.liquidityA);
+    const reserveB = parseFloat(shard.liquidityB);
+    if (reserveA > 0 && reserveB > 0) {
+      totalA += reserveA;
+      totalB += reserveB;
+    }
+  }
+
+  if (totalA === 0) {
+    throw new Error('No shard with liquidity to price the new shard from');
+  }
+
+  return totalB / totalA;
+}
+
+/**
+ * Quote a new shard for a pair
+ *
+ * @param connection - Solana connection instance
+ * @param symbolA - Token A symbol of the pair as configured (e.g. 'USDC')
+ * @param symbolB - Token B symbol of the pair as configured (e.g. 'SOL')
+ * @param amountA - Initial token A liquidity (human-readable)
+ * @returns Promise resolving to the deployment quote
+ * @throws Error if the pair has no shards or no priced liquidity
+ */
+export async function quoteNewShard(
+  connection: Connection,
+  symbolA: string,
+  symbolB: string,
+  amountA: number
+): Promise<ShardDeploymentQuote> {
+  if (!(amountA > 0)) {
+    throw new Error('Initial liquidity must be positive');
+  }
+
+  const shards = await shardedDex.getShardsWithRealTimeData(symbolA, symbolB);
+  if (shards.length === 0) {
+    throw new Error(`No shards found for ${symbolA}/${symbolB}`);
+  }
+
+  // Keep the configured orientation of the pair even if the symbols were passed reversed
+  const reference = shards[0];
+  const tokenA = dexConfig.tokens.find(t => t.mint === reference.tokenA);
+  const tokenB = dexConfig.tokens.find(t => t.mint === reference.tokenB);
+  if (!tokenA || !tokenB) {
+    throw new Error(`Token config not found for ${symbolA}/${symbolB}`);
+  }
+
+  const price = computeCrossShardPrice(
+    shards.map(shard => shard.tokenA === reference.tokenA
+      ? shard
+      : { liquidityA: shard.liquidityB, liquidityB: shard.liquidityA })
+  );
+
+  // New shards share the pair's fee schedule so routing treats them alike
+  const snapshot = await fetchPoolSnapshot(connection, {
+    poolAddress: new PublicKey(reference.poolAddress),
+    tokenAAccount: new PublicKey(reference.tokenAccountA),
+    tokenBAccount: new PublicKey(reference.tokenAccountB),
+    lpTokenMint: new PublicKey(reference.poolTokenMint),
+  });
+  const fees = snapshot.pool?.fees ?? poolFeesFromRate(snapshot.feeRate);
+
+  const quote: ShardDeploymentQuote = {
+    pair: `${tokenA.symbol}/${tokenB.symbol}`,
+    tokenA,
+    tokenB,
+    shardNumber: getNextShardNumber(tokenA.mint, tokenB.mint),
+    price,
+    sourceShards: shards.length,
+    amountA,
+    amountB: amountA * price,
+    fees,
+  };
+
+  console.log(`🧮 New ${quote.pair} shard #${quote.shardNumber}: ${amountA} ${tokenA.symbol} + ${quote.amountB} ${tokenB.symbol} @ ${price}`);
+
+  return quote;
+}
+
+/**
+ * Config changes that persist a shard
+ *
+ * The summary is recomputed from every known pool, so shards deployed earlier
+ * in the session are counted too.
+ *
+ * @param pool - Entry of the deployed shard
+ * @returns New pool entry and updated summary
+ */
+export function buildShardConfigUpdate(pool: PoolConfigEntry): ShardConfigUpdate {
+  const pools = getPoolConfigs();
+  const pairs = dexConfig.summary.pairs.map(p => ({ ...p }));
+
+  const countShards = (a: string, b: string) => pools.filter(p =>
+    (p.tokenASymbol === a && p.tokenBSymbol === b) ||
+    (p.tokenASymbol === b && p.tokenBSymbol === a)
+  ).length;
+
+  for (const entry of pairs) {
+    const [a, b] = entry.pair.split('/');
+    entry.shards = countShards(a, b);
+  }
+
+  const pairName = `${pool.tokenASymbol}/${pool.tokenBSymbol}`;
+  const reversedName = `${pool.tokenBSymbol}/${pool.tokenASymbol}`;
+  if (!pairs.some(p => p.pair === pairName || p.pair === reversedName)) {
+    pairs.push({ pair: pairName, shards: countShards(pool.tokenASymbol, pool.tokenBSymbol) });
+  }
+
+  return {
+    pool,
+    summary: {
+      ...dexConfig.summary,
+      totalPools: pools.length,
+      pairs,
+    },
+  };
+}
+
+/**
+ * Deploy a quoted shard
+ *
+ * @param connection - Solana connection instance
+ * @param wallet - Operator's wallet (pays rent and provides the initial liquidity)
+ * @param quote - Quote from `quoteNewShard`
+ * @param options - Program, fee owner and priority fee settings
+ * @returns Promise resolving to the deployed shard and its config changes
+ * @throws DexTransactionError if a transaction fails in simulation or on-chain
+ */
+export async function deployShard(
+  connection: Connection,
+  wallet: WalletContextState,
+  quote: ShardDeploymentQuote,
+  options: InitializePoolOptions = {}
+): Promise<DeployedShard> {
+  const { tokenA, tokenB } = quote;
+
+  const result = await initializePool(
+    connection,
+    wallet,
+    {
+      tokenA: { mint: tokenA.mint, symbol: tokenA.symbol, decimals: tokenA.decimals },
+      tokenB: { mint: tokenB.mint, symbol: tokenB.symbol, decimals: tokenB.decimals },
+      amountA: BigInt(Math.floor(quote.amountA * Math.pow(10, tokenA.decimals))),
+      amountB: BigInt(Math.floor(quote.amountB * Math.pow(10, tokenB.decimals))),
+      fees: quote.fees,
+      shardNumber: quote.shardNumber,
+    },
+    options
+  );
+
+  registerPool(result.config);
+  console.log(`✅ ${quote.pair} shard #${quote.shardNumber} deployed at ${result.config.poolAddress}`);
+
+  return { ...result, configUpdate: buildShardConfigUpdate(result.config) };
+}
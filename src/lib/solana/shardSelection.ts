@@ -0,0 +1,116 @@
+/**
+ * Shard Selection for Liquidity Providers
+ *
+ * Local implementation of the SAMM "fill-up" strategy served by the router
+ * backend's smallest-shards endpoint: liquidity goes to the smallest shard of
+ * a pair, measured by its reserve of the input token, so shards converge in
+ * size and traders see the same depth whichever shard they are routed to.
+ *
+ * Used when the backend is unavailable; reserves come from live pool
+ * snapshots of the pools in the registry.
+ *
+ * @module shardSelection
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { discoverPools, PoolConfigEntry } from './poolRegistry';
+import { fetchPoolSnapshots } from './poolSnapshot';
+
+/**
+ * Shard of a pair with live reserves, in pool token order
+ */
+export interface ShardSize {
+  /** Pool state account address */
+  poolAddress: string;
+  /** Shard number within the pair */
+  shardNumber: number;
+  /** Mint of the pool's token A */
+  tokenAMint: string;
+  /** Current reserves in base units */
+  reserves: {
+    tokenA: string;
+    tokenB: string;
+  };
+}
+
+/**
+ * Order shards for the fill-up strategy (smallest first)
+ *
+ * Shards are measured by their reserve of `inputMint`, like the backend.
+ * Ties go to the lower shard number so the result is deterministic.
+ *
+ * @param shards - Shards of one pair
+ * @param inputMint - Mint whose reserve measures shard size
+ * @returns New array sorted smallest first
+ */
+export function rankShardsForFillUp(shards: ShardSize[], inputMint: string): ShardSize[] {
+  const sizeOf = (shard: ShardSize): bigint =>
+    BigInt(shard.tokenAMint === inputMint ? shard.reserves.tokenA : shard.reserves.tokenB);
+
+  return [...shards].sort((a, b) => {
+    const sizeA = sizeOf(a);
+    const sizeB = sizeOf(b);
+    if (sizeA !== sizeB) {
+      return sizeA < sizeB ? -1 : 1;
+    }
+    return a.shardNumber - b.shardNumber;
+  });
+}
+
+/**
+ * Fetch live sizes of every shard of a pair, smallest first
+ *
+ * Shards whose accounts cannot be read are left out.
+ *
+ * @param connection - Solana connection instance
+ * @param tokenAMint - Token A mint address
+ * @param tokenBMint - Token B mint address
+ * @param inputMint - Mint shard size is measured in (default: token A)
+ * @returns Promise resolving to the pair's shards sorted for fill-up
+ * @throws Error if the RPC call fails
+ */
+export async function getSmallestShardsLocally(
+  connection: Connection,
+  tokenAMint: string,
+  tokenBMint: string,
+  inputMint: string = tokenAMint
+): Promise<ShardSize[]> {
+  const pools = (await discoverPools(connection)).filter(
+    (pool: PoolConfigEntry) =>
+      (pool.tokenA === tokenAMint && pool.tokenB === tokenBMint) ||
+      (pool.tokenA === tokenBMint && pool.tokenB === tokenAMint)
+  );
+
+  if (pools.length === 0) {
+    return [];
+  }
+
+  const snapshots = await fetchPoolSnapshots(
+    connection,
+    pools.map(pool => ({
+      poolAddress: new PublicKey(pool.poolAddress),
+      tokenAAccount: new PublicKey(pool.tokenAccountA),
+      tokenBAccount: new PublicKey(pool.tokenAccountB),
+      lpTokenMint: new PublicKey(pool.poolTokenMint),
+    }))
+  );
+
+  const shards: ShardSize[] = [];
+  pools.forEach((pool, i) => {
+    const snapshot = snapshots[i];
+    if (!snapshot) {
+      return;
+    }
+    shards.push({
+      poolAddress: pool.poolAddress,
+      shardNumber: pool.shardNumber,
+      tokenAMint: pool.tokenA,
+      reserves: {
+        tokenA: snapshot.reserveA.toString(),
+        tokenB: snapshot.reserveB.toString(),
+      },
+    });
+  });
+
+  return rankShardsForFillUp(shards, inputMint);
+}
@@ -0,0 +1,133 @@
+/**
+ * DEX Transaction Simulation
+ *
+ * Every DEX transaction is simulated before it is signed. A failed simulation
+ * is decoded from the program logs into a typed error (see
+ * `decodeTransactionError`), so callers no longer string-match RPC preflight
+ * messages. A successful simulation reports the compute units used and, when
+ * an output token account is watched, the exact amount it would receive.
+ *
+ * @module simulation
+ */
+
+import { Connection, PublicKey, TransactionError, VersionedTransaction } from '@solana/web3.js';
+import { AccountLayout } from '@solana/spl-token';
+import dexConfig from '@/config/dex-config.json';
+import { decodeTransactionError, DexTransactionError } from '@/utils/solanaErrors';
+
+/**
+ * Result of a successful simulation
+ */
+export interface TransactionSimulation {
+  /** Compute units consumed */
+  unitsConsumed: number;
+  /** Program logs */
+  logs: string[];
+  /** Balance change of the watched token account, in base units */
+  outputAmount?: bigint;
+}
+
+/**
+ * Options for simulating a DEX transaction
+ */
+export interface SimulateTransactionOptions {
+  /** Token account whose balance change is reported as `outputAmount` */
+  outputTokenAccount?: PublicKey;
+  /** Program whose custom errors are decoded (default: the SAMM program) */
+  programId?: string;
+}
+
+/**
+ * Simulate an unsigned DEX transaction
+ *
+ * @param connection - Solana connection instance
+ * @param transaction - Transaction to simulate (signatures are not verified)
+ * @param options - Output account to watch and program to decode errors for
+ * @returns Promise resolving to the simulation result
+ * @throws DexTransactionError with the decoded error if the simulation fails
+ */
+export async function simulateDexTransaction(
+  connection: Connection,
+  transaction: VersionedTransaction,
+  options: SimulateTransactionOptions = {}
+): Promise<TransactionSimulation> {
+  const { outputTokenAccount, programId = dexConfig.programId } = options;
+
+  const [balanceBefore, { value }] = await Promise.all([
+    outputTokenAccount ? getTokenBalance(connection, outputTokenAccount) : Promise.resolve(BigInt(0)),
+    connection.simulateTransaction(transaction, {
+      sigVerify: false,
+      commitment: 'confirmed',
+      accounts: outputTokenAccount
+        ? { encoding: 'base64', addresses: [outputTokenAccount.toBase58()] }
+        : undefined,
+    }),
+  ]);
+
+  const logs = value.logs ?? [];
+
+  if (value.err) {
+    const solanaError = decodeTransactionError(value.err, logs, programId);
+    console.error(`❌ Simulation failed: ${solanaError.code}${solanaError.programErrorCode !== undefined ? ` (custom error ${solanaError.programErrorCode})` : ''}`);
+    logs.forEach(log => console.error(`   ${log}`));
+    throw new DexTransactionError(solanaError);
+  }
+
+  let outputAmount: bigint | undefined;
+  const outputAccount = value.accounts?.[0];
+  if (outputTokenAccount && outputAccount) {
+    const balanceAfter = AccountLayout.decode(Buffer.from(outputAccount.data[0], 'base64')).amount;
+    outputAmount = balanceAfter - balanceBefore;
+  }
+
+  console.log(`🧪 Simulation succeeded: ${value.unitsConsumed ?? 0} CU${outputAmount !== undefined ? `, output ${outputAmount.toString()} base units` : ''}`);
+
+  return {
+    unitsConsumed: value.unitsConsumed ?? 0,
+    logs,
+    outputAmount,
+  };
+}
+
+/**
+ * Current balance of a token account (0 if it does not exist yet)
+ */
+async function getTokenBalance(connection: Connection, tokenAccount: PublicKey): Promise<bigint> {
+  const accountInfo = await connection.getAccountInfo(tokenAccount, 'confirmed');
+  if (!accountInfo) {
+    return BigInt(0);
+  }
+  return AccountLayout.decode(accountInfo.data).amount;
+}
+
+/**
+ * Decode the error of a transaction that failed after it was sent
+ *
+ * Fetches the transaction's logs (best effort) so custom program errors can be
+ * attributed to the program that raised them.
+ *
+ * @param connection - Solana connection instance
+ * @param signature - Signature of the failed transaction
+ * @param err - `value.err` from confirmTransaction
+ * @param programId - Program whose custom errors are decoded (default: the SAMM program)
+ * @returns Error to throw
+ */
+export async function getConfirmedTransactionError(
+  connection: Connection,
+  signature: string,
+  err: TransactionError,
+  programId: string = dexConfig.programId
+): Promise<DexTransactionError> {
+  let logs: string[] = [];
+  try {
+    const transaction = await connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    logs = transaction?.meta?.logMessages ?? [];
+  } catch (error) {
+    console.warn('⚠️  Could not fetch logs for failed transaction:', error);
+  }
+
+  return new DexTransactionError(decodeTransactionError(err, logs, programId));
+}
@@ -0,0 +1,168 @@
+/**
+ * Versioned Transaction Builder
+ *
+ * Compiles instructions into v0 `VersionedTransaction`s. v0 messages can
+ * resolve accounts through address lookup tables, so a transaction touching
+ * several pools stays well under the 1232-byte packet limit that legacy
+ * transactions hit after two or three shards.
+ *
+ * @module transactionBuilder
+ */
+
+import {
+  AddressLookupTableAccount,
+  Commitment,
+  Connection,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { getDexLookupTable } from './lookupTable';
+import {
+  ComputeBudget,
+  createComputeBudgetInstructions,
+  DEFAULT_PRIORITY_FEE_SETTINGS,
+  getComputeBudget,
+  PriorityFeeSettings,
+} from './priorityFees';
+
+/**
+ * A compiled v0 transaction with what is needed to confirm it
+ */
+export interface BuiltTransaction {
+  /** Unsigned v0 transaction */
+  transaction: VersionedTransaction;
+  /** Instructions compiled into the transaction, in order */
+  instructions: TransactionInstruction[];
+  /** Blockhash the message was compiled with */
+  blockhash: string;
+  /** Last block height at which the blockhash is valid */
+  lastValidBlockHeight: number;
+  /** Compute budget applied to the transaction, if any */
+  computeBudget?: ComputeBudget;
+}
+
+/**
+ * Options for building a versioned transaction
+ */
+export interface BuildTransactionOptions {
+  /** Lookup tables used to compress account keys */
+  lookupTables?: AddressLookupTableAccount[];
+  /** Commitment used to fetch the blockhash (default: 'confirmed') */
+  commitment?: Commitment;
+}
+
+/**
+ * Compile instructions into a v0 transaction
+ *
+ * @param connection - Solana connection instance
+ * @param payer - Fee payer
+ * @param instructions - Instructions to include, in order
+ * @param options - Lookup tables and blockhash commitment
+ * @returns Promise resolving to the unsigned transaction and its blockhash
+ * @throws Error if there are no instructions or the transaction exceeds the packet size
+ */
+export async function buildVersionedTransaction(
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  options: BuildTransactionOptions = {}
+): Promise<BuiltTransaction> {
+  const { lookupTables = [], commitment = 'confirmed' } = options;
+
+  if (instructions.length === 0) {
+    throw new Error('Cannot build a transaction without instructions');
+  }
+
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash(commitment);
+
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: blockhash,
+    instructions,
+  }).compileToV0Message(lookupTables);
+
+  const transaction = new VersionedTransaction(message);
+  assertTransactionSize(transaction);
+
+  return { transaction, instructions, blockhash, lastValidBlockHeight };
+}
+
+/**
+ * Options for building a DEX transaction
+ */
+export interface BuildDexTransactionOptions {
+  /** Commitment used to fetch the blockhash (default: 'confirmed') */
+  commitment?: Commitment;
+  /** User fee preferences (default: auto-optimized priority fee) */
+  feeSettings?: PriorityFeeSettings;
+}
+
+/**
+ * Compile DEX instructions into a v0 transaction using the DEX lookup table
+ *
+ * Compute budget instructions (simulated unit limit and priority fee) are
+ * prepended according to the fee settings. Falls back to inline account keys
+ * when no lookup table is configured.
+ *
+ * @param connection - Solana connection instance
+ * @param payer - Fee payer
+ * @param instructions - Instructions to include, in order
+ * @param options - Blockhash commitment and fee settings
+ * @returns Promise resolving to the unsigned transaction, its blockhash and compute budget
+ * @throws Error if there are no instructions or the transaction exceeds the packet size
+ */
+export async function buildDexTransaction(
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  options: BuildDexTransactionOptions = {}
+): Promise<BuiltTransaction> {
+  const { commitment = 'confirmed', feeSettings = DEFAULT_PRIORITY_FEE_SETTINGS } = options;
+
+  if (instructions.length === 0) {
+    throw new Error('Cannot build a transaction without instructions');
+  }
+
+  const lookupTable = await getDexLookupTable(connection);
+  const lookupTables = lookupTable ? [lookupTable] : [];
+
+  const computeBudget = await getComputeBudget(connection, payer, instructions, feeSettings, lookupTables);
+  console.log(`⛽ Compute budget: ${computeBudget.computeUnitLimit} CU${computeBudget.simulated ? ' (simulated)' : ''} @ ${computeBudget.computeUnitPrice} µLamports/CU = ${computeBudget.priorityFeeLamports} lamports priority fee`);
+
+  const built = await buildVersionedTransaction(
+    connection,
+    payer,
+    [...createComputeBudgetInstructions(computeBudget), ...instructions],
+    { lookupTables, commitment }
+  );
+
+  return { ...built, computeBudget };
+}
+
+/**
+ * Fail early, with a readable error, if a transaction will not fit in a packet
+ *
+ * Signatures are zero-filled until signing, so the unsigned size is final.
+ *
+ * @param transaction - Transaction to check
+ * @throws Error if the serialized transaction exceeds PACKET_DATA_SIZE
+ */
+export function assertTransactionSize(transaction: VersionedTransaction): void {
+  let size: number;
+  try {
+    size = transaction.serialize().length;
+  } catch (error) {
+    // web3.js throws a RangeError while encoding messages that overflow the buffer
+    if (!(error instanceof RangeError)) {
+      throw error;
+    }
+    throw new Error(`Transaction too large: exceeds ${PACKET_DATA_SIZE} bytes. Try a route with fewer legs.`);
+  }
+
+  if (size > PACKET_DATA_SIZE) {
+    throw new Error(`Transaction too large: ${size} bytes (max ${PACKET_DATA_SIZE}). Try a route with fewer legs.`);
+  }
+}
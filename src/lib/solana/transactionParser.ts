@@ -0,0 +1,237 @@
+/**
+ * Wallet Transaction Parser
+ *
+ * Turns a confirmed transaction into a `Transaction` history entry for one
+ * wallet. DEX operations are recognised by decoding the SAMM instructions
+ * (program ID and discriminator, see instructionDecoder) rather than by
+ * searching log messages, so swaps, liquidity changes and pool creation are
+ * classified exactly and linked to their pool and shard. Swaps routed through
+ * the Jupiter v6 aggregator (used for pairs without a SAMM pool) are
+ * recognised by its program ID.
+ *
+ * Amounts are the wallet's own token balance changes, summed per mint over
+ * the token accounts it owns, in exact base units.
+ *
+ * @module transactionParser
+ */
+
+import { VersionedTransactionResponse } from '@solana/web3.js';
+import dexConfig from '@/config/dex-config.json';
+import { SolanaProgramId, Token, Transaction, TransactionStatus, TransactionType } from '@/types';
+import {
+  decodeSammTransaction,
+  DecodedSammInstruction,
+  getTokenBalanceDeltas,
+  SammInstructionType,
+} from './instructionDecoder';
+import { findPoolConfig } from './poolRegistry';
+
+/** Transaction type of each SAMM operation */
+const SAMM_TRANSACTION_TYPES: Record<SammInstructionType, TransactionType> = {
+  initialize: TransactionType.CREATE_POOL,
+  swap: TransactionType.SWAP,
+  addLiquidity: TransactionType.ADD_LIQUIDITY,
+  addSingle: TransactionType.ADD_LIQUIDITY,
+  removeLiquidity: TransactionType.REMOVE_LIQUIDITY,
+  removeSingle: TransactionType.REMOVE_LIQUIDITY,
+};
+
+/**
+ * Token metadata for a mint, from the DEX config if it is a known token
+ */
+function tokenForMint(mint: string, decimals: number): Token {
+  const known = dexConfig.tokens.find(token => token.mint === mint);
+  if (known) {
+    return {
+      mint,
+      address: mint,
+      symbol: known.symbol,
+      displaySymbol: known.displaySymbol,
+      name: known.name,
+      decimals: known.decimals,
+      logoURI: known.logoURI,
+      isNative: known.symbol === 'SOL',
+    };
+  }
+
+  return {
+    mint,
+    address: mint,
+    symbol: mint.slice(0, 4) + '...' + mint.slice(-4),
+    name: mint,
+    decimals,
+    isNative: false,
+  };
+}
+
+/**
+ * Net token balance change of a wallet per mint
+ *
+ * @returns Change and decimals by mint, in the order the mints first appear (zero changes left out)
+ */
+function getOwnerMintDeltas(
+  tx: VersionedTransactionResponse,
+  owner: string
+): Map<string, { delta: bigint; decimals: number }> {
+  const byMint = new Map<string, { delta: bigint; decimals: number }>();
+  for (const balance of getTokenBalanceDeltas(tx)) {
+    if (balance.owner !== owner) {
+      continue;
+    }
+    const entry = byMint.get(balance.mint) ?? { delta: 0n, decimals: balance.decimals };
+    entry.delta += balance.delta;
+    byMint.set(balance.mint, entry);
+  }
+
+  byMint.forEach((entry, mint) => {
+    if (entry.delta === 0n) {
+      byMint.delete(mint);
+    }
+  });
+  return byMint;
+}
+
+/**
+ * Tokens and amounts of a swap: the mint the wallet paid (negative change)
+ * as `tokenIn` and the mint it received (positive change) as `tokenOut`
+ */
+function getSwapAmounts(
+  mintDeltas: Map<string, { delta: bigint; decimals: number }>
+): Pick<Transaction, 'tokenIn' | 'tokenOut' | 'amountIn' | 'amountOut'> {
+  const entries = Array.from(mintDeltas.entries());
+  const paid = entries.find(([, entry]) => entry.delta < 0n);
+  const received = entries.find(([, entry]) => entry.delta > 0n);
+  return {
+    tokenIn: paid && tokenForMint(paid[0], paid[1].decimals),
+    amountIn: paid && -paid[1].delta,
+    tokenOut: received && tokenForMint(received[0], received[1].decimals),
+    amountOut: received?.[1].delta,
+  };
+}
+
+/**
+ * Whether a top-level instruction of the transaction calls the given program
+ */
+function invokesProgram(tx: VersionedTransactionResponse, programId: string): boolean {
+  const message = tx.transaction.message;
+  const accountKeys = message.getAccountKeys({
+    accountKeysFromLookups: tx.meta?.loadedAddresses,
+  });
+  return message.compiledInstructions.some(
+    instruction => accountKeys.get(instruction.programIdIndex)?.toBase58() === programId
+  );
+}
+
+/**
+ * Tokens and amounts of a SAMM operation, from the wallet's balance changes
+ *
+ * Swaps report the token the wallet paid as `tokenIn` and the token it
+ * received as `tokenOut`. Liquidity operations and pool creation follow the
+ * convention of the liquidity components: `tokenIn`/`amountIn` is the pool's
+ * token A and `tokenOut`/`amountOut` its token B, as absolute amounts.
+ */
+function getOperationAmounts(
+  instruction: DecodedSammInstruction,
+  mintDeltas: Map<string, { delta: bigint; decimals: number }>
+): Pick<Transaction, 'tokenIn' | 'tokenOut' | 'amountIn' | 'amountOut'> {
+  if (instruction.args.type === 'swap') {
+    return getSwapAmounts(mintDeltas);
+  }
+
+  const entries = Array.from(mintDeltas.entries());
+  const abs = (value: bigint): bigint => (value < 0n ? -value : value);
+
+  const pool = instruction.poolAddress ? findPoolConfig(instruction.poolAddress) : undefined;
+  let mintA = pool?.tokenA;
+  let mintB = pool?.tokenB;
+  if (!pool) {
+    // Pool not registered yet (e.g. created by this transaction): use the
+    // wallet's token changes, leaving out the LP tokens it received
+    const paid = entries.filter(([, entry]) => entry.delta < 0n);
+    [mintA, mintB] = [paid[0]?.[0], paid[1]?.[0]];
+  }
+
+  const sideOf = (mint: string | undefined) => {
+    const entry = mint ? mintDeltas.get(mint) : undefined;
+    return entry && mint
+      ? { token: tokenForMint(mint, entry.decimals), amount: abs(entry.delta) }
+      : undefined;
+  };
+  const sideA = sideOf(mintA);
+  const sideB = sideOf(mintB);
+
+  return {
+    tokenIn: sideA?.token,
+    amountIn: sideA?.amount,
+    tokenOut: sideB?.token,
+    amountOut: sideB?.amount,
+  };
+}
+
+/**
+ * Parse a confirmed transaction into a history entry for a wallet
+ *
+ * Transactions with a SAMM instruction are classified by the first one
+ * (swap, add/remove liquidity or create pool) and carry its pool and shard.
+ * Jupiter v6 transactions are swaps, with the tokens taken from the wallet's
+ * balance changes. Other transactions are token transfers if the wallet's
+ * token balances changed, SOL transfers otherwise.
+ *
+ * @param tx - Transaction from getTransaction (maxSupportedTransactionVersion: 0)
+ * @param signature - Transaction signature
+ * @param owner - Wallet address the history belongs to
+ * @param blockTime - Block time from the signature info (unix seconds), if known
+ * @returns History entry, or null if the transaction has no metadata
+ */
+export function parseWalletTransaction(
+  tx: VersionedTransactionResponse,
+  signature: string,
+  owner: string,
+  blockTime?: number | null
+): Transaction | null {
+  if (!tx.meta) {
+    return null;
+  }
+
+  const time = blockTime ?? tx.blockTime ?? null;
+  const base: Transaction = {
+    signature,
+    hash: signature,
+    type: TransactionType.SOL_TRANSFER,
+    status: tx.meta.err ? TransactionStatus.FAILED : TransactionStatus.CONFIRMED,
+    timestamp: time ? time * 1000 : Date.now(),
+    blockTime: time ?? undefined,
+    slot: tx.slot,
+    feePayer: tx.transaction.message.staticAccountKeys[0]?.toBase58() ?? '',
+    solFee: BigInt(tx.meta.fee || 0),
+    computeUnitsUsed: tx.meta.computeUnitsConsumed ?? undefined,
+    error: tx.meta.err ? JSON.stringify(tx.meta.err) : undefined,
+    logs: tx.meta.logMessages ?? [],
+  };
+
+  const mintDeltas = getOwnerMintDeltas(tx, owner);
+  const [instruction] = decodeSammTransaction(tx);
+
+  if (!instruction && invokesProgram(tx, SolanaProgramId.JUPITER_AGGREGATOR)) {
+    return {
+      ...base,
+      type: TransactionType.SWAP,
+      ...getSwapAmounts(mintDeltas),
+    };
+  }
+
+  if (!instruction) {
+    return {
+      ...base,
+      type: mintDeltas.size > 0 ? TransactionType.SPL_TRANSFER : TransactionType.SOL_TRANSFER,
+    };
+  }
+
+  return {
+    ...base,
+    type: SAMM_TRANSACTION_TYPES[instruction.args.type],
+    poolId: instruction.poolAddress ?? undefined,
+    shardNumber: instruction.shardNumber ?? undefined,
+    ...getOperationAmounts(instruction, mintDeltas),
+  };
+}
@@ -1,12 +1,14 @@
 /**
  * Swap Instruction Builder for Sharded DEX
  * Handles transaction building for on-chain swaps
+ * All builders return v0 transactions that resolve pool accounts through the
+ * DEX address lookup table when one is configured, with compute budget
+ * instructions chosen from the optional fee settings
  */
 
 import {
   Connection,
   PublicKey,
-  Transaction,
   TransactionInstruction,
   SystemProgram,
 } from '@solana/web3.js';
@@ -16,6 +18,9 @@ import {
   createAssociatedTokenAccountInstruction,
   getAccount,
 } from '@solana/spl-token';
+import { buildDexTransaction, BuiltTransaction } from './solana/transactionBuilder';
+import type { PriorityFeeSettings } from './solana/priorityFees';
+
 /**
  * Instruction discriminators for the DEX program
  * These are typically the first 8 bytes of the instruction data
@@ -28,13 +33,14 @@ const INSTRUCTION_DISCRIMINATORS = {
 
 /**
  * Find or create associated token account
+ * Appends a create instruction to `instructions` if the account does not exist yet
  */
 export async function findOrCreateATA(
   connection: Connection,
   payer: PublicKey,
   mint: PublicKey,
   owner: PublicKey,
-  transaction: Transaction
+  instructions: TransactionInstruction[]
 ): Promise<PublicKey> {
   const ata = await getAssociatedTokenAddress(mint, owner, false, TOKEN_PROGRAM_ID);
 
@@ -51,7 +57,7 @@ export async function findOrCreateATA(
       mint,
       TOKEN_PROGRAM_ID
     );
-    transaction.add(createATAInstruction);
+    instructions.push(createATAInstruction);
     return ata;
   }
 }
@@ -125,9 +131,10 @@ export async function buildSwapTransaction(
   poolTokenMint: PublicKey,
   feeAccount: PublicKey,
   amountIn: bigint,
-  minimumAmountOut: bigint
-): Promise<Transaction> {
-  const transaction = new Transaction();
+  minimumAmountOut: bigint,
+  feeSettings?: PriorityFeeSettings
+): Promise<BuiltTransaction> {
+  const instructions: TransactionInstruction[] = [];
 
   // Get or create user's token accounts
   const userTokenAccountIn = await findOrCreateATA(
@@ -135,7 +142,7 @@ export async function buildSwapTransaction(
     user,
     inputMint,
     user,
-    transaction
+    instructions
   );
 
   const userTokenAccountOut = await findOrCreateATA(
@@ -143,7 +150,7 @@ export async function buildSwapTransaction(
     user,
     outputMint,
     user,
-    transaction
+    instructions
   );
 
   // Create swap instruction
@@ -162,15 +169,9 @@ export async function buildSwapTransaction(
     minimumAmountOut
   );
 
-  transaction.add(swapInstruction);
+  instructions.push(swapInstruction);
 
-  // Set recent blockhash and fee payer
-  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
-  transaction.recentBlockhash = blockhash;
-  transaction.feePayer = user;
-  transaction.lastValidBlockHeight = lastValidBlockHeight;
-
-  return transaction;
+  return buildDexTransaction(connection, user, instructions, { feeSettings });
 }
 
 /**
@@ -245,9 +246,10 @@ export async function buildSimpleSwapTransaction(
   tokenAMint: PublicKey,
   tokenBMint: PublicKey,
   amountIn: bigint,
-  minimumAmountOut: bigint
-): Promise<Transaction> {
-  const transaction = new Transaction();
+  minimumAmountOut: bigint,
+  feeSettings?: PriorityFeeSettings
+): Promise<BuiltTransaction> {
+  const instructions: TransactionInstruction[] = [];
 
   // Get or create user's token accounts
   const userTokenAccountIn = await findOrCreateATA(
@@ -255,7 +257,7 @@ export async function buildSimpleSwapTransaction(
     user,
     inputMint,
     user,
-    transaction
+    instructions
   );
 
   const userTokenAccountOut = await findOrCreateATA(
@@ -263,7 +265,7 @@ export async function buildSimpleSwapTransaction(
     user,
     outputMint,
     user,
-    transaction
+    instructions
   );
 
   // Create simple swap instruction with all required accounts
@@ -284,13 +286,144 @@ export async function buildSimpleSwapTransaction(
     minimumAmountOut
   );
 
-  transaction.add(swapInstruction);
+  instructions.push(swapInstruction);
+
+  return buildDexTransaction(connection, user, instructions, { feeSettings });
+}
+
+/**
+ * Accounts and amounts for one leg of a multi-shard swap
+ */
+export interface SwapLeg {
+  poolAddress: PublicKey;
+  poolAuthority: PublicKey;
+  poolTokenAccountA: PublicKey;
+  poolTokenAccountB: PublicKey;
+  poolTokenMint: PublicKey;
+  feeAccount: PublicKey;
+  tokenAMint: PublicKey;
+  tokenBMint: PublicKey;
+  amountIn: bigint;
+  minimumAmountOut: bigint;
+}
+
+/**
+ * Build a swap transaction that routes one order through several shards
+ * Adds one simple swap instruction per leg so the whole split settles atomically
+ */
+export async function buildMultiShardSwapTransaction(
+  connection: Connection,
+  programId: PublicKey,
+  user: PublicKey,
+  inputMint: PublicKey,
+  outputMint: PublicKey,
+  legs: SwapLeg[],
+  feeSettings?: PriorityFeeSettings
+): Promise<BuiltTransaction> {
+  if (legs.length === 0) {
+    throw new Error('Cannot build swap transaction without any route legs');
+  }
+
+  const instructions: TransactionInstruction[] = [];
+
+  // User token accounts are shared by every leg
+  const userTokenAccountIn = await findOrCreateATA(
+    connection,
+    user,
+    inputMint,
+    user,
+    instructions
+  );
 
-  // Set recent blockhash and fee payer
-  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
-  transaction.recentBlockhash = blockhash;
-  transaction.feePayer = user;
-  transaction.lastValidBlockHeight = lastValidBlockHeight;
+  const userTokenAccountOut = await findOrCreateATA(
+    connection,
+    user,
+    outputMint,
+    user,
+    instructions
+  );
+
+  for (const leg of legs) {
+    instructions.push(
+      createSimpleSwapInstruction(
+        programId,
+        user,
+        leg.poolAddress,
+        leg.poolAuthority,
+        userTokenAccountIn,
+        userTokenAccountOut,
+        leg.poolTokenAccountA,
+        leg.poolTokenAccountB,
+        leg.poolTokenMint,
+        leg.feeAccount,
+        leg.tokenAMint,
+        leg.tokenBMint,
+        leg.amountIn,
+        leg.minimumAmountOut
+      )
+    );
+  }
+
+  return buildDexTransaction(connection, user, instructions, { feeSettings });
+}
+
+/**
+ * One hop of a multi-hop swap: a swap leg plus the mints it trades between
+ */
+export interface SwapHop extends SwapLeg {
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+}
+
+/**
+ * Build a swap transaction that routes through intermediate tokens
+ * Each hop's output lands in the user's token account for that mint, which
+ * the next hop then spends, so the whole path settles atomically
+ */
+export async function buildMultiHopSwapTransaction(
+  connection: Connection,
+  programId: PublicKey,
+  user: PublicKey,
+  hops: SwapHop[],
+  feeSettings?: PriorityFeeSettings
+): Promise<BuiltTransaction> {
+  if (hops.length === 0) {
+    throw new Error('Cannot build swap transaction without any route hops');
+  }
+
+  const instructions: TransactionInstruction[] = [];
+  const userTokenAccounts = new Map<string, PublicKey>();
+
+  // Get or create one user token account per mint on the path
+  for (const mint of [hops[0].inputMint, ...hops.map(hop => hop.outputMint)]) {
+    if (!userTokenAccounts.has(mint.toBase58())) {
+      userTokenAccounts.set(
+        mint.toBase58(),
+        await findOrCreateATA(connection, user, mint, user, instructions)
+      );
+    }
+  }
+
+  for (const hop of hops) {
+    instructions.push(
+      createSimpleSwapInstruction(
+        programId,
+        user,
+        hop.poolAddress,
+        hop.poolAuthority,
+        userTokenAccounts.get(hop.inputMint.toBase58())!,
+        userTokenAccounts.get(hop.outputMint.toBase58())!,
+        hop.poolTokenAccountA,
+        hop.poolTokenAccountB,
+        hop.poolTokenMint,
+        hop.feeAccount,
+        hop.tokenAMint,
+        hop.tokenBMint,
+        hop.amountIn,
+        hop.minimumAmountOut
+      )
+    );
+  }
 
-  return transaction;
+  return buildDexTransaction(connection, user, instructions, { feeSettings });
 }
@@ -0,0 +1,345 @@
+/**
+ * Transaction History Export
+ *
+ * Writes transaction history to CSV or JSON for accounting and tax reporting.
+ * The full layout has one row per transaction with every field the app knows.
+ * Tax-tool presets follow the import layouts of common tools. They split
+ * liquidity operations into one row per token, because those tools expect a
+ * single sent or received asset per row.
+ *
+ * Amounts are exact decimal strings (base units with decimals applied), never
+ * floats. USD values are only filled in where they are known at execution
+ * time: for the leg of a trade paid or received in a USD stablecoin.
+ *
+ * @module transactionExport
+ */
+
+import { Token, Transaction, TransactionStatus, TransactionType } from '@/types';
+
+/**
+ * Export file format
+ */
+export type ExportFormat = 'csv' | 'json';
+
+/**
+ * Column layout of an export
+ */
+export type ExportPresetId = 'full' | 'koinly' | 'cointracker' | 'cointracking';
+
+/**
+ * Column layout definition
+ */
+export interface ExportPreset {
+  /** Preset identifier */
+  id: ExportPresetId;
+  /** Name shown in the export menu */
+  label: string;
+  /** Column headers */
+  headers: string[];
+  /** Rows for one transaction (values in header order) */
+  toRows: (tx: Transaction) => string[][];
+}
+
+/** Tokens valued at $1 when computing USD values */
+const USD_STABLECOINS = ['USDC', 'USDT'];
+
+/** Lamports per SOL, for fee amounts */
+const SOL_DECIMALS = 9;
+
+/**
+ * Format a base unit amount with decimals applied, exactly
+ *
+ * @param amount - Amount in base units
+ * @param decimals - Token decimals
+ * @returns Decimal string without trailing zeros (e.g. "1.5")
+ */
+export function formatUnits(amount: bigint, decimals: number): string {
+  const negative = amount < 0n;
+  const digits = (negative ? -amount : amount).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+function symbolOf(token: Token): string {
+  return token.displaySymbol ?? token.symbol;
+}
+
+function isStablecoin(token: Token | undefined): boolean {
+  return !!token && USD_STABLECOINS.includes(token.symbol);
+}
+
+/**
+ * USD value of a swap at execution time, from its stablecoin leg
+ *
+ * @returns USD value as a decimal string, or undefined if neither token is a USD stablecoin
+ */
+export function getSwapValueUsd(tx: Transaction): string | undefined {
+  if (tx.type !== TransactionType.SWAP || tx.status === TransactionStatus.FAILED) {
+    return undefined;
+  }
+  if (isStablecoin(tx.tokenIn) && tx.amountIn !== undefined) {
+    return formatUnits(tx.amountIn, tx.tokenIn!.decimals);
+  }
+  if (isStablecoin(tx.tokenOut) && tx.amountOut !== undefined) {
+    return formatUnits(tx.amountOut, tx.tokenOut!.decimals);
+  }
+  return undefined;
+}
+
+/**
+ * One asset movement of a transaction, as tax tools see it
+ */
+interface TaxEntry {
+  sentAmount?: string;
+  sentCurrency?: string;
+  receivedAmount?: string;
+  receivedCurrency?: string;
+  /** SOL fee (only on the first entry of a transaction) */
+  fee?: string;
+  valueUsd?: string;
+  description: string;
+}
+
+function describeTransaction(tx: Transaction): string {
+  const operation = {
+    [TransactionType.SWAP]: 'Swap',
+    [TransactionType.ADD_LIQUIDITY]: 'Add liquidity',
+    [TransactionType.REMOVE_LIQUIDITY]: 'Remove liquidity',
+    [TransactionType.CREATE_POOL]: 'Create pool',
+    [TransactionType.SPL_TRANSFER]: 'Token transfer',
+    [TransactionType.SOL_TRANSFER]: 'SOL transfer',
+  }[tx.type];
+  const shard = tx.shardNumber !== undefined ? ` shard ${tx.shardNumber}` : '';
+  const pool = tx.poolId ? ` (pool${shard} ${tx.poolId})` : '';
+  const failed = tx.status === TransactionStatus.FAILED ? ' [failed]' : '';
+  return `${operation}${pool}${failed}`;
+}
+
+/**
+ * Split a transaction into asset movements
+ *
+ * Swaps are one trade. Liquidity deposits and pool creation send token A
+ * and token B; withdrawals receive them. Transactions whose amounts are
+ * unknown, and failed transactions, only carry the fee.
+ */
+function toTaxEntries(tx: Transaction): TaxEntry[] {
+  const fee = tx.solFee > 0n ? formatUnits(tx.solFee, SOL_DECIMALS) : undefined;
+  const description = describeTransaction(tx);
+  const legIn = tx.tokenIn && tx.amountIn !== undefined
+    ? { amount: formatUnits(tx.amountIn, tx.tokenIn.decimals), currency: symbolOf(tx.tokenIn), stable: isStablecoin(tx.tokenIn) }
+    : undefined;
+  const legOut = tx.tokenOut && tx.amountOut !== undefined
+    ? { amount: formatUnits(tx.amountOut, tx.tokenOut.decimals), currency: symbolOf(tx.tokenOut), stable: isStablecoin(tx.tokenOut) }
+    : undefined;
+
+  if (tx.status === TransactionStatus.FAILED || (!legIn && !legOut)) {
+    return [{ fee, description }];
+  }
+
+  if (tx.type === TransactionType.SWAP) {
+    return [{
+      sentAmount: legIn?.amount,
+      sentCurrency: legIn?.currency,
+      receivedAmount: legOut?.amount,
+      receivedCurrency: legOut?.currency,
+      fee,
+      valueUsd: getSwapValueUsd(tx),
+      description,
+    }];
+  }
+
+  const received = tx.type === TransactionType.REMOVE_LIQUIDITY;
+  return [legIn, legOut]
+    .filter((leg): leg is NonNullable<typeof leg> => !!leg)
+    .map((leg, index) => ({
+      ...(received
+        ? { receivedAmount: leg.amount, receivedCurrency: leg.currency }
+        : { sentAmount: leg.amount, sentCurrency: leg.currency }),
+      fee: index === 0 ? fee : undefined,
+      valueUsd: leg.stable ? leg.amount : undefined,
+      description,
+    }));
+}
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+/** YYYY-MM-DD HH:mm:ss in UTC */
+function formatUtc(timestamp: number): string {
+  const d = new Date(timestamp);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())} ${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}`;
+}
+
+/**
+ * Available export layouts, by preset ID
+ */
+export const EXPORT_PRESETS: Record<ExportPresetId, ExportPreset> = {
+  full: {
+    id: 'full',
+    label: 'Full history',
+    headers: [
+      'Timestamp', 'Signature', 'Type', 'Status',
+      'Token In', 'Token In Mint', 'Amount In',
+      'Token Out', 'Token Out Mint', 'Amount Out',
+      'Fee (SOL)', 'Pool', 'Shard', 'Value (USD)',
+    ],
+    toRows: tx => [[
+      new Date(tx.timestamp).toISOString(),
+      tx.signature,
+      tx.type,
+      tx.status,
+      tx.tokenIn ? symbolOf(tx.tokenIn) : '',
+      tx.tokenIn?.mint ?? '',
+      tx.tokenIn && tx.amountIn !== undefined ? formatUnits(tx.amountIn, tx.tokenIn.decimals) : '',
+      tx.tokenOut ? symbolOf(tx.tokenOut) : '',
+      tx.tokenOut?.mint ?? '',
+      tx.tokenOut && tx.amountOut !== undefined ? formatUnits(tx.amountOut, tx.tokenOut.decimals) : '',
+      formatUnits(tx.solFee, SOL_DECIMALS),
+      tx.poolId ?? '',
+      tx.shardNumber?.toString() ?? '',
+      getSwapValueUsd(tx) ?? '',
+    ]],
+  },
+
+  koinly: {
+    id: 'koinly',
+    label: 'Koinly (universal)',
+    headers: [
+      'Date', 'Sent Amount', 'Sent Currency', 'Received Amount', 'Received Currency',
+      'Fee Amount', 'Fee Currency', 'Net Worth Amount', 'Net Worth Currency',
+      'Label', 'Description', 'TxHash',
+    ],
+    toRows: tx => toTaxEntries(tx).map(entry => [
+      `${formatUtc(tx.timestamp)} UTC`,
+      entry.sentAmount ?? '',
+      entry.sentCurrency ?? '',
+      entry.receivedAmount ?? '',
+      entry.receivedCurrency ?? '',
+      entry.fee ?? '',
+      entry.fee ? 'SOL' : '',
+      entry.valueUsd ?? '',
+      entry.valueUsd ? 'USD' : '',
+      '',
+      entry.description,
+      tx.signature,
+    ]),
+  },
+
+  cointracker: {
+    id: 'cointracker',
+    label: 'CoinTracker',
+    headers: [
+      'Date', 'Received Quantity', 'Received Currency', 'Sent Quantity', 'Sent Currency',
+      'Fee Amount', 'Fee Currency', 'Tag',
+    ],
+    toRows: tx => toTaxEntries(tx).map(entry => {
+      const d = new Date(tx.timestamp);
+      return [
+        `${pad(d.getUTCMonth() + 1)}/${pad(d.getUTCDate())}/${d.getUTCFullYear()} ${formatUtc(tx.timestamp).slice(11)}`,
+        entry.receivedAmount ?? '',
+        entry.receivedCurrency ?? '',
+        entry.sentAmount ?? '',
+        entry.sentCurrency ?? '',
+        entry.fee ?? '',
+        entry.fee ? 'SOL' : '',
+        '',
+      ];
+    }),
+  },
+
+  cointracking: {
+    id: 'cointracking',
+    label: 'CoinTracking',
+    headers: [
+      'Type', 'Buy Amount', 'Buy Currency', 'Sell Amount', 'Sell Currency',
+      'Fee', 'Fee Currency', 'Exchange', 'Trade-Group', 'Comment', 'Date', 'Tx-ID',
+    ],
+    toRows: tx => toTaxEntries(tx).map(entry => {
+      const type = entry.sentAmount && entry.receivedAmount ? 'Trade'
+        : entry.receivedAmount ? 'Deposit'
+        : entry.sentAmount ? 'Withdrawal'
+        : 'Other Fee';
+      const d = new Date(tx.timestamp);
+      return [
+        type,
+        entry.receivedAmount ?? '',
+        entry.receivedCurrency ?? '',
+        // A fee-only row sells the fee itself
+        type === 'Other Fee' ? entry.fee ?? '' : entry.sentAmount ?? '',
+        type === 'Other Fee' ? (entry.fee ? 'SOL' : '') : entry.sentCurrency ?? '',
+        type === 'Other Fee' ? '' : entry.fee ?? '',
+        type === 'Other Fee' || !entry.fee ? '' : 'SOL',
+        'SAMM DEX',
+        '',
+        entry.description,
+        `${pad(d.getUTCDate())}.${pad(d.getUTCMonth() + 1)}.${d.getUTCFullYear()} ${formatUtc(tx.timestamp).slice(11)}`,
+        tx.signature,
+      ];
+    }),
+  },
+};
+
+/**
+ * Quote a CSV field if it contains a separator, quote or line break
+ *
+ * Text starting with a character spreadsheets read as a formula (`=`, `+`,
+ * `-`, `@`, tab, carriage return) is prefixed with `'` so token names and
+ * symbols from the chain cannot inject formulas. Plain numbers such as
+ * negative amounts are left as they are.
+ */
+function escapeCsv(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Serialize transactions in a preset's layout
+ *
+ * @param transactions - Transactions to export (exported in the given order)
+ * @param format - CSV, or JSON (an array of objects keyed by column header)
+ * @param presetId - Column layout (default: full)
+ * @returns File contents
+ */
+export function serializeTransactions(
+  transactions: Transaction[],
+  format: ExportFormat,
+  presetId: ExportPresetId = 'full'
+): string {
+  const preset = EXPORT_PRESETS[presetId];
+  const rows = transactions.flatMap(tx => preset.toRows(tx));
+
+  if (format === 'json') {
+    const records = rows.map(row =>
+      Object.fromEntries(preset.headers.map((header, i) => [header, row[i]]))
+    );
+    return JSON.stringify(records, null, 2);
+  }
+
+  return [preset.headers, ...rows]
+    .map(row => row.map(escapeCsv).join(','))
+    .join('\n');
+}
+
+/**
+ * Download transactions as a file in the browser
+ *
+ * @param transactions - Transactions to export
+ * @param format - File format
+ * @param presetId - Column layout (default: full)
+ */
+export function downloadTransactions(
+  transactions: Transaction[],
+  format: ExportFormat,
+  presetId: ExportPresetId = 'full'
+): void {
+  const content = serializeTransactions(transactions, format, presetId);
+  const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `transactions-${presetId}-${Date.now()}.${format}`;
+  a.click();
+  URL.revokeObjectURL(url);
+
+  console.log(`📤 Exported ${transactions.length} transactions (${presetId}, ${format})`);
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { SammRouterService, RouteRequest, RouteResponse } from '../sammRouterService';
+import { SammRouterService, RouteRequest, RouteResponse, CircuitOpenError } from '../sammRouterService';
 
 // Mock fetch globally
 global.fetch = vi.fn();
@@ -378,4 +378,71 @@ describe('SammRouterService', () => {
       await expect(service.healthCheck()).resolves.toBe(false);
     });
   });
+
+  describe('circuit breaker', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      service = new SammRouterService('http://test-api.example.com', {
+        failureThreshold: 2,
+        resetTimeoutMs: 1000,
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('opens after consecutive failures and skips the backend', async () => {
+      mockFetch.mockRejectedValue(new Error('Connection refused'));
+
+      await expect(service.getRoute(mockRouteRequest)).rejects.toThrow('Connection refused');
+      expect(service.getHealth().state).toBe('closed');
+      await expect(service.getRoute(mockRouteRequest)).rejects.toThrow('Connection refused');
+
+      expect(service.getHealth()).toMatchObject({ state: 'open', consecutiveFailures: 2 });
+      expect(service.isCircuitOpen()).toBe(true);
+      await expect(service.getSmallestShards('a', 'b', 'a')).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not count client errors as failures', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        text: async () => 'invalid token',
+      } as Response);
+
+      await expect(service.getRoute(mockRouteRequest)).rejects.toThrow('HTTP 400');
+      await expect(service.getRoute(mockRouteRequest)).rejects.toThrow('HTTP 400');
+
+      expect(service.getHealth().state).toBe('closed');
+    });
+
+    it('probes with a health check once the reset timeout elapses', async () => {
+      vi.useFakeTimers();
+      const listener = vi.fn();
+      service.onStateChange(listener);
+      mockFetch.mockRejectedValueOnce(new Error('down')).mockRejectedValueOnce(new Error('down'));
+      await expect(service.getRoute(mockRouteRequest)).rejects.toThrow();
+      await expect(service.getRoute(mockRouteRequest)).rejects.toThrow();
+
+      // Failed probe keeps the circuit open for another period
+      vi.advanceTimersByTime(1000);
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 503 } as Response);
+      await expect(service.getRoute(mockRouteRequest)).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(service.isCircuitOpen()).toBe(true);
+
+      // Healthy probe closes it and the request goes through
+      vi.advanceTimersByTime(1000);
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 200 } as Response)
+        .mockResolvedValueOnce({ ok: true, json: async () => mockSuccessResponse } as Response);
+      await expect(service.getRoute(mockRouteRequest)).resolves.toEqual(mockSuccessResponse);
+
+      expect(service.getHealth()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+      expect(listener.mock.calls.map(([health]) => health.state))
+        .toEqual(['open', 'half-open', 'open', 'half-open', 'closed']);
+    });
+  });
 });
@@ -25,9 +25,18 @@ export class JupiterSwapService {
   private connection: Connection;
   private jupiterApiUrl: string;
 
+  /**
+   * Creates a new JupiterSwapService instance
+   * @param connection - Solana connection used to send and confirm swaps
+   * @param jupiterApiUrl - Optional base URL for the Jupiter API (e.g., a local mock in tests).
+   *                        Falls back to NEXT_PUBLIC_JUPITER_API_URL, then the public endpoint.
+   */
   constructor(connection: Connection, jupiterApiUrl?: string) {
     this.connection = connection;
-    this.jupiterApiUrl = jupiterApiUrl || 'https://quote-api.jup.ag/v6';
+    this.jupiterApiUrl =
+      jupiterApiUrl ||
+      process.env.NEXT_PUBLIC_JUPITER_API_URL ||
+      'https://quote-api.jup.ag/v6';
   }
 
   /**
@@ -1,14 +1,28 @@
-import { Connection, PublicKey, Transaction } from '@solana/web3.js';
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
 import { WalletContextState } from '@solana/wallet-adapter-react';
 import { Pool, TransactionStatus } from '@/types';
 import { getAssociatedTokenAddress, TOKEN_PROGRAM_ID } from '@solana/spl-token';
-import { calculateLiquidityTokens } from '@/utils/calculations';
+import {
+  applySlippageCeiling,
+  calculateDepositForLpTokens,
+  calculateLiquidityTokens,
+  calculateSingleSidedLiquidityTokens,
+  calculateSingleSidedWithdrawal,
+} from '@/utils/calculations';
 import {
   createAddLiquidityInstruction,
+  createAddSingleLiquidityInstruction,
   createRemoveLiquidityInstruction,
+  createRemoveSingleLiquidityInstruction,
 } from '@/lib/solana/poolInstructions';
+import { fetchPoolSnapshot } from '@/lib/solana/poolSnapshot';
 import { findOrCreateATA } from '@/lib/swapInstructions';
-import dexConfig from '@/config/dex-config.json';
+import { buildDexTransaction, BuiltTransaction } from '@/lib/solana/transactionBuilder';
+import { PriorityFeeSettings } from '@/lib/solana/priorityFees';
+import { getConfirmedTransactionError, simulateDexTransaction } from '@/lib/solana/simulation';
+import { DexTransactionError, SolanaErrorCode } from '@/utils/solanaErrors';
+import { findPoolConfig, PoolConfigEntry } from '@/lib/solana/poolRegistry';
+import { getSmallestShardsLocally } from '@/lib/solana/shardSelection';
 import { SammRouterService } from './sammRouterService';
 
 export interface LiquidityExecutionResult {
@@ -19,9 +33,28 @@ export interface LiquidityExecutionResult {
 
 export interface AddLiquidityParams {
   pool: Pool;
-  amountA: bigint;
-  amountB: bigint;
-  minLpTokens?: bigint; // Minimum LP tokens to receive (slippage protection)
+  amountA: bigint; // Token A the user wants to deposit
+  amountB: bigint; // Token B the user wants to deposit
+  slippageTolerance?: number; // Percent (default: 0.5)
+  quote?: AddLiquidityQuote; // Previewed quote to enforce (default: quoted at build time)
+  feeSettings?: PriorityFeeSettings; // Priority fee preferences (default: auto-optimize)
+}
+
+export interface AddLiquidityQuote {
+  lpTokens: bigint; // Exact LP tokens requested on-chain
+  tokenA: bigint; // Token A the program takes at the quoted reserves
+  tokenB: bigint; // Token B the program takes at the quoted reserves
+  maxTokenA: bigint; // Worst-case token A after slippage tolerance (sent on-chain)
+  maxTokenB: bigint; // Worst-case token B after slippage tolerance (sent on-chain)
+  shareOfPool: number; // Percent of the pool owned by the new LP tokens
+  slippageTolerance: number; // Percent the maximums were derived with
+}
+
+export interface ShardRecommendation {
+  poolAddress: string; // Smallest shard of the pair
+  shardNumber: number;
+  reserves: { tokenA: string; tokenB: string }; // Reserves in base units, pool token order
+  routingMethod: 'backend' | 'local'; // Whether the router backend or local fill-up picked it
 }
 
 export interface RemoveLiquidityParams {
@@ -29,6 +62,37 @@ export interface RemoveLiquidityParams {
   lpTokenAmount: bigint;
   minTokenA?: bigint; // Minimum token A to receive
   minTokenB?: bigint; // Minimum token B to receive
+  feeSettings?: PriorityFeeSettings; // Priority fee preferences (default: auto-optimize)
+}
+
+export interface AddSingleSidedLiquidityParams {
+  pool: Pool;
+  sourceMint: string; // Mint of the deposited token (pool token A or B)
+  amountIn: bigint; // Exact amount of the source token to deposit
+  slippageTolerance?: number; // Percent (default: 0.5)
+  feeSettings?: PriorityFeeSettings; // Priority fee preferences (default: auto-optimize)
+}
+
+export interface SingleSidedDepositQuote {
+  lpTokens: bigint; // Expected LP tokens at current reserves
+  minLpTokens: bigint; // LP tokens after slippage tolerance (sent on-chain)
+  swapFee: bigint; // Fee on the implicit swap, in source token base units
+  shareOfPool: number; // Percent of the pool owned by the new LP tokens
+}
+
+export interface RemoveSingleSidedLiquidityParams {
+  pool: Pool;
+  destinationMint: string; // Mint of the token to receive (pool token A or B)
+  lpTokenAmount: bigint; // Maximum LP tokens to burn
+  slippageTolerance?: number; // Percent (default: 0.5)
+  feeSettings?: PriorityFeeSettings; // Priority fee preferences (default: auto-optimize)
+}
+
+export interface SingleSidedWithdrawalQuote {
+  tokenAmount: bigint; // Expected tokens for burning all of lpTokenAmount at current reserves
+  minTokenAmount: bigint; // Tokens requested on-chain after slippage tolerance (exact amount out)
+  maxLpTokens: bigint; // Upper bound on LP tokens burned (sent on-chain)
+  swapFee: bigint; // Fee on the implicit swap, in destination token base units
 }
 
 export class LiquidityService {
@@ -55,14 +119,17 @@ export class LiquidityService {
    * Liquidity providers should add liquidity to the smallest shard for best trader experience.
    * This implements the "fillup strategy" from the SAMM paper.
    * 
+   * If the backend fails or has no shards, the same strategy runs locally over
+   * live reserves of the registry's pools; `routingMethod` tells which was used.
+   * 
    * @param tokenAMint - Token A mint address
    * @param tokenBMint - Token B mint address
-   * @returns Promise resolving to the smallest shard pool address, or null if API fails
+   * @returns Promise resolving to the smallest shard, or null if neither backend nor chain has one
    */
   async getSmallestShard(
     tokenAMint: string,
     tokenBMint: string
-  ): Promise<{ poolAddress: string; shardNumber: number; reserves: { tokenA: string; tokenB: string } } | null> {
+  ): Promise<ShardRecommendation | null> {
     try {
       console.log('🔍 Fetching smallest shard for liquidity addition...');
       console.log(`   Token A: ${tokenAMint}`);
@@ -79,7 +146,7 @@ export class LiquidityService {
         const smallestShard = response.data.shards[0];
         
         // Find the shard number from config
-        const poolConfig = dexConfig.pools.find(p => p.poolAddress === smallestShard.address);
+        const poolConfig = findPoolConfig(smallestShard.address);
         const shardNumber = poolConfig?.shardNumber || 0;
         
         console.log('✅ Smallest shard found:');
@@ -91,14 +158,52 @@ export class LiquidityService {
         return {
           poolAddress: smallestShard.address,
           shardNumber,
-          reserves: smallestShard.reserves
+          reserves: smallestShard.reserves,
+          routingMethod: 'backend'
         };
       }
 
-      console.warn('⚠️  Backend API returned no shards');
-      return null;
+      console.warn('⚠️  Backend API returned no shards, selecting locally');
+    } catch (error) {
+      console.warn('⚠️  Failed to fetch smallest shard from backend, selecting locally:', error);
+    }
+
+    return this.getSmallestShardLocally(tokenAMint, tokenBMint);
+  }
+
+  /**
+   * Select the smallest shard from live on-chain reserves
+   * 
+   * @param tokenAMint - Token A mint address
+   * @param tokenBMint - Token B mint address
+   * @returns Promise resolving to the smallest shard, or null if the pair has no readable shard
+   */
+  private async getSmallestShardLocally(
+    tokenAMint: string,
+    tokenBMint: string
+  ): Promise<ShardRecommendation | null> {
+    try {
+      const shards = await getSmallestShardsLocally(this.connection, tokenAMint, tokenBMint);
+      if (shards.length === 0) {
+        console.warn('⚠️  No shards found on-chain for this pair');
+        return null;
+      }
+
+      const [smallestShard] = shards;
+      console.log('✅ Smallest shard selected locally:');
+      console.log(`   Address: ${smallestShard.poolAddress}`);
+      console.log(`   Shard Number: ${smallestShard.shardNumber}`);
+      console.log(`   Reserve A: ${smallestShard.reserves.tokenA}`);
+      console.log(`   Reserve B: ${smallestShard.reserves.tokenB}`);
+
+      return {
+        poolAddress: smallestShard.poolAddress,
+        shardNumber: smallestShard.shardNumber,
+        reserves: smallestShard.reserves,
+        routingMethod: 'local'
+      };
     } catch (error) {
-      console.warn('⚠️  Failed to fetch smallest shard from backend:', error);
+      console.warn('⚠️  Local shard selection failed:', error);
       console.log('   Will use first available pool from config as fallback');
       return null;
     }
@@ -139,27 +244,216 @@ export class LiquidityService {
     return { tokenA, tokenB };
   }
 
+  /**
+   * Quote a two-sided deposit
+   *
+   * Finds the largest LP amount the entered token amounts can pay for at the
+   * current reserves, using the program's rounding, and derives the worst-case
+   * deposit the user accepts from the slippage tolerance. The quoted deposit
+   * never exceeds the entered amounts, so a pool move can take at most the
+   * entered amounts plus the tolerance.
+   *
+   * @param pool - Pool to deposit into
+   * @param amountA - Token A the user wants to deposit
+   * @param amountB - Token B the user wants to deposit
+   * @param slippageTolerance - Percent (default: 0.5)
+   * @returns Promise resolving to the deposit quote
+   * @throws Error if the pool is unknown or the amounts are too small to mint LP tokens
+   */
+  async quoteAddLiquidity(
+    pool: Pool,
+    amountA: bigint,
+    amountB: bigint,
+    slippageTolerance: number = 0.5
+  ): Promise<AddLiquidityQuote> {
+    const poolConfig = findPoolConfig(pool.id);
+    if (!poolConfig) {
+      throw new Error(`Pool config not found for ${pool.id}`);
+    }
+
+    const snapshot = await fetchPoolSnapshot(this.connection, {
+      poolAddress: new PublicKey(poolConfig.poolAddress),
+      tokenAAccount: new PublicKey(poolConfig.tokenAccountA),
+      tokenBAccount: new PublicKey(poolConfig.tokenAccountB),
+      lpTokenMint: new PublicKey(poolConfig.poolTokenMint),
+    });
+
+    // floor(amount * supply / reserve) always fits: its rounded-up deposit is at most amount
+    const lpTokens = calculateLiquidityTokens(
+      amountA,
+      amountB,
+      snapshot.reserveA,
+      snapshot.reserveB,
+      snapshot.lpTokenSupply
+    );
+    if (lpTokens <= BigInt(0)) {
+      throw new Error('Deposit is too small to mint LP tokens');
+    }
+
+    const { tokenA, tokenB } = calculateDepositForLpTokens(
+      lpTokens,
+      snapshot.reserveA,
+      snapshot.reserveB,
+      snapshot.lpTokenSupply
+    );
+    const newSupply = snapshot.lpTokenSupply + lpTokens;
+
+    const quote: AddLiquidityQuote = {
+      lpTokens,
+      tokenA,
+      tokenB,
+      maxTokenA: applySlippageCeiling(tokenA, slippageTolerance),
+      maxTokenB: applySlippageCeiling(tokenB, slippageTolerance),
+      shareOfPool: (Number(lpTokens) / Number(newSupply)) * 100,
+      slippageTolerance,
+    };
+
+    console.log('📊 Add liquidity quote:', {
+      amountA: amountA.toString(),
+      amountB: amountB.toString(),
+      lpTokens: lpTokens.toString(),
+      tokenA: tokenA.toString(),
+      tokenB: tokenB.toString(),
+      maxTokenA: quote.maxTokenA.toString(),
+      maxTokenB: quote.maxTokenB.toString(),
+      slippageTolerance,
+      slot: snapshot.slot,
+    });
+
+    return quote;
+  }
+
+  /**
+   * Quote a single-sided deposit against fresh on-chain reserves and fees
+   *
+   * The program swaps half of the deposit into the other token, so the
+   * quoted LP tokens are net of the pool's trade fee on that half.
+   */
+  async quoteSingleSidedDeposit(
+    pool: Pool,
+    sourceMint: string,
+    amountIn: bigint,
+    slippageTolerance: number = 0.5
+  ): Promise<SingleSidedDepositQuote> {
+    const poolConfig = findPoolConfig(pool.id);
+    if (!poolConfig) {
+      throw new Error(`Pool config not found for ${pool.id}`);
+    }
+    if (sourceMint !== poolConfig.tokenA && sourceMint !== poolConfig.tokenB) {
+      throw new Error(`Token ${sourceMint} is not part of pool ${pool.id}`);
+    }
+
+    const snapshot = await fetchPoolSnapshot(this.connection, {
+      poolAddress: new PublicKey(poolConfig.poolAddress),
+      tokenAAccount: new PublicKey(poolConfig.tokenAccountA),
+      tokenBAccount: new PublicKey(poolConfig.tokenAccountB),
+      lpTokenMint: new PublicKey(poolConfig.poolTokenMint),
+    });
+
+    const sourceReserve = sourceMint === poolConfig.tokenA ? snapshot.reserveA : snapshot.reserveB;
+    const { lpTokens, swapFee } = calculateSingleSidedLiquidityTokens(
+      amountIn,
+      sourceReserve,
+      snapshot.lpTokenSupply,
+      snapshot.feeNumerator,
+      snapshot.feeDenominator
+    );
+
+    const slippageBps = BigInt(Math.floor(slippageTolerance * 100));
+    const minLpTokens = (lpTokens * (BigInt(10000) - slippageBps)) / BigInt(10000);
+    const newSupply = snapshot.lpTokenSupply + lpTokens;
+    const shareOfPool = newSupply > BigInt(0) ? (Number(lpTokens) / Number(newSupply)) * 100 : 0;
+
+    console.log('📊 Single-sided deposit quote:', {
+      sourceMint,
+      amountIn: amountIn.toString(),
+      sourceReserve: sourceReserve.toString(),
+      lpTokens: lpTokens.toString(),
+      minLpTokens: minLpTokens.toString(),
+      swapFee: swapFee.toString(),
+      slot: snapshot.slot,
+    });
+
+    return { lpTokens, minLpTokens, swapFee, shareOfPool };
+  }
+
+  /**
+   * Quote a single-token withdrawal against fresh on-chain reserves and fees
+   *
+   * The program withdraws an exact token amount and burns however many LP
+   * tokens that costs, so the quote turns the LP amount into the two
+   * on-chain bounds: the slippage-reduced amount out and the LP burn cap.
+   */
+  async quoteSingleSidedWithdrawal(
+    pool: Pool,
+    destinationMint: string,
+    lpTokenAmount: bigint,
+    slippageTolerance: number = 0.5
+  ): Promise<SingleSidedWithdrawalQuote> {
+    const poolConfig = findPoolConfig(pool.id);
+    if (!poolConfig) {
+      throw new Error(`Pool config not found for ${pool.id}`);
+    }
+    if (destinationMint !== poolConfig.tokenA && destinationMint !== poolConfig.tokenB) {
+      throw new Error(`Token ${destinationMint} is not part of pool ${pool.id}`);
+    }
+
+    const snapshot = await fetchPoolSnapshot(this.connection, {
+      poolAddress: new PublicKey(poolConfig.poolAddress),
+      tokenAAccount: new PublicKey(poolConfig.tokenAccountA),
+      tokenBAccount: new PublicKey(poolConfig.tokenAccountB),
+      lpTokenMint: new PublicKey(poolConfig.poolTokenMint),
+    });
+
+    const destinationReserve = destinationMint === poolConfig.tokenA ? snapshot.reserveA : snapshot.reserveB;
+    const { tokenAmount, swapFee } = calculateSingleSidedWithdrawal(
+      lpTokenAmount,
+      destinationReserve,
+      snapshot.lpTokenSupply,
+      snapshot.feeNumerator,
+      snapshot.feeDenominator,
+      snapshot.pool?.fees.ownerWithdrawFeeNumerator,
+      snapshot.pool?.fees.ownerWithdrawFeeDenominator
+    );
+
+    const slippageBps = BigInt(Math.floor(slippageTolerance * 100));
+    const minTokenAmount = (tokenAmount * (BigInt(10000) - slippageBps)) / BigInt(10000);
+
+    console.log('📊 Single-sided withdrawal quote:', {
+      destinationMint,
+      lpTokenAmount: lpTokenAmount.toString(),
+      destinationReserve: destinationReserve.toString(),
+      tokenAmount: tokenAmount.toString(),
+      minTokenAmount: minTokenAmount.toString(),
+      swapFee: swapFee.toString(),
+      slot: snapshot.slot,
+    });
+
+    return { tokenAmount, minTokenAmount, maxLpTokens: lpTokenAmount, swapFee };
+  }
+
   /**
    * Build add liquidity transaction
-   * Uses pool config directly (same pattern as swap)
+   * Uses pool config directly (same pattern as swap) and compiles a v0
+   * transaction against the DEX lookup table
    */
   async buildAddLiquidityTransaction(
     params: AddLiquidityParams,
     userPublicKey: PublicKey
-  ): Promise<Transaction> {
-    const { pool, amountA, amountB, minLpTokens = BigInt(0) } = params;
+  ): Promise<BuiltTransaction> {
+    const { pool, amountA, amountB, slippageTolerance = 0.5, feeSettings } = params;
     
     if (!this.programId) {
       throw new Error('Program ID not configured. Use getLiquidityService(connection, programId).');
     }
 
     // Find pool config from dex-config.json (same as swap does)
-    const poolConfig = dexConfig.pools.find(p => p.poolAddress === pool.id);
+    const poolConfig = findPoolConfig(pool.id);
     if (!poolConfig) {
       throw new Error(`Pool config not found for ${pool.id}`);
     }
 
-    const transaction = new Transaction();
+    const instructions: TransactionInstruction[] = [];
     const poolAddress = new PublicKey(poolConfig.poolAddress);
     const poolAuthority = new PublicKey(poolConfig.authority);
     const poolTokenAccountA = new PublicKey(poolConfig.tokenAccountA);
@@ -175,7 +469,7 @@ export class LiquidityService {
       userPublicKey,
       tokenAMint,
       userPublicKey,
-      transaction
+      instructions
     );
     
     const userTokenBAccount = await findOrCreateATA(
@@ -183,7 +477,7 @@ export class LiquidityService {
       userPublicKey,
       tokenBMint,
       userPublicKey,
-      transaction
+      instructions
     );
 
     const userLpTokenAccount = await findOrCreateATA(
@@ -191,66 +485,26 @@ export class LiquidityService {
       userPublicKey,
       lpTokenMint,
       userPublicKey,
-      transaction
+      instructions
     );
 
-    // ✅ CRITICAL: Fetch FRESH pool state from blockchain right before transaction
-    // This ensures we use the most up-to-date reserves for calculation
-    console.log('🔄 Fetching FRESH pool state from blockchain...');
-    const [poolTokenAInfo, poolTokenBInfo] = await Promise.all([
-      this.connection.getTokenAccountBalance(poolTokenAccountA),
-      this.connection.getTokenAccountBalance(poolTokenAccountB)
-    ]);
-    
-    const freshReserveA = BigInt(poolTokenAInfo.value.amount);
-    const freshReserveB = BigInt(poolTokenBInfo.value.amount);
-    // Use the pool's LP supply from the pool object (already correct)
-    const freshLpSupply = pool.lpTokenSupply;
-    
-    console.log('📊 FRESH Pool State from blockchain:', {
-      reserveA: freshReserveA.toString(),
-      reserveB: freshReserveB.toString(),
-      lpSupply: freshLpSupply.toString(),
-      lpSupplySource: 'pool.lpTokenSupply (correct)',
-      timestamp: new Date().toISOString()
-    });
-    
-    // Recalculate LP tokens with FRESH reserves
-    const lpFromA = (amountA * freshLpSupply) / freshReserveA;
-    const lpFromB = (amountB * freshLpSupply) / freshReserveB;
-    const recalculatedLpTokens = lpFromA < lpFromB ? lpFromA : lpFromB;
-    
-    console.log('🔄 Recalculated LP tokens with fresh reserves:', {
-      lpFromA: lpFromA.toString(),
-      lpFromB: lpFromB.toString(),
-      recalculatedLpTokens: recalculatedLpTokens.toString(),
-      originalLpTokens: minLpTokens.toString(),
-      difference: (Number(recalculatedLpTokens) - Number(minLpTokens)).toString()
-    });
-    
-    // Use the recalculated LP tokens (based on fresh reserves)
-    const targetLpTokens = recalculatedLpTokens;
+    // Quote at fresh reserves unless the caller previewed one; either way the
+    // LP target is exact and the maximums come from the slippage tolerance
+    const quote = params.quote ?? await this.quoteAddLiquidity(pool, amountA, amountB, slippageTolerance);
 
-    // Add the add liquidity instruction with all required accounts
-    // CRITICAL: maxTokenA and maxTokenB need slippage ADDED (not subtracted!)
-    // The smart contract checks: actual_amount_needed <= max_amount
-    // So we need to provide MORE than the exact amount to account for slippage
-    
-    // Use 2x buffer (100% slippage) - MATCHES WORKING NODE.JS SCRIPT EXACTLY
-    // This is what the working script uses successfully
-    // Note: User still only deposits the calculated amount, this is just the maximum allowed
-    const maxTokenA = amountA * BigInt(2);
-    const maxTokenB = amountB * BigInt(2);
-    
-    console.log('🔧 Slippage-adjusted amounts (2x buffer like working script):');
-    console.log('  Exact Amount A:', amountA.toString());
-    console.log('  Max Amount A (2x buffer):', maxTokenA.toString());
-    console.log('  Exact Amount B:', amountB.toString());
-    console.log('  Max Amount B (2x buffer):', maxTokenB.toString());
-    
-    // ✅ CRITICAL: poolTokenAmount is EXPECTED LP tokens, NOT minimum!
-    // The smart contract interprets this as "I want to receive THIS MANY LP tokens"
-    // Slippage protection is handled by maxTokenA and maxTokenB (2x buffer)
+    // Reject reserve drift beyond tolerance before asking the wallet to sign
+    if (params.quote) {
+      await this.assertDepositWithinTolerance(poolConfig, quote);
+    }
+
+    console.log('🔧 Slippage-bounded deposit:');
+    console.log('  LP tokens:', quote.lpTokens.toString());
+    console.log('  Amount A:', quote.tokenA.toString(), 'max', quote.maxTokenA.toString());
+    console.log('  Amount B:', quote.tokenB.toString(), 'max', quote.maxTokenB.toString());
+    console.log('  Slippage tolerance:', `${quote.slippageTolerance}%`);
+
+    // poolTokenAmount is the EXACT LP amount to mint; the program takes what it
+    // costs at execution-time reserves and fails if that exceeds a maximum
     const addLiquidityIx = createAddLiquidityInstruction(
       this.programId,
       poolAddress,
@@ -265,43 +519,85 @@ export class LiquidityService {
       userTokenAAccount,
       userTokenBAccount,
       userLpTokenAccount,
-      maxTokenA,        // maxTokenA - maximum token A to deposit (WITH 2x slippage buffer)
-      maxTokenB,        // maxTokenB - maximum token B to deposit (WITH 2x slippage buffer)
-      targetLpTokens    // poolTokenAmount - EXPECTED LP tokens based on FRESH reserves
+      quote.maxTokenA,  // maxTokenA - worst-case token A deposit
+      quote.maxTokenB,  // maxTokenB - worst-case token B deposit
+      quote.lpTokens    // poolTokenAmount - exact LP tokens to mint
     );
 
-    transaction.add(addLiquidityIx);
+    instructions.push(addLiquidityIx);
+
+    // ✅ CRITICAL: Use a 'finalized' blockhash to prevent "already processed" errors
+    // (more unique blockhashes when the user submits several deposits in a row)
+    return buildDexTransaction(this.connection, userPublicKey, instructions, {
+      commitment: 'finalized',
+      feeSettings,
+    });
+  }
 
-    // Set recent blockhash and fee payer
-    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
-    transaction.recentBlockhash = blockhash;
-    transaction.feePayer = userPublicKey;
-    transaction.lastValidBlockHeight = lastValidBlockHeight;
+  /**
+   * Check that a previewed deposit still fits its maximums at current reserves
+   *
+   * @param poolConfig - Pool entry
+   * @param quote - Previewed deposit quote
+   * @throws DexTransactionError (SLIPPAGE_EXCEEDED) if the reserves moved beyond tolerance
+   */
+  private async assertDepositWithinTolerance(
+    poolConfig: PoolConfigEntry,
+    quote: AddLiquidityQuote
+  ): Promise<void> {
+    const snapshot = await fetchPoolSnapshot(this.connection, {
+      poolAddress: new PublicKey(poolConfig.poolAddress),
+      tokenAAccount: new PublicKey(poolConfig.tokenAccountA),
+      tokenBAccount: new PublicKey(poolConfig.tokenAccountB),
+      lpTokenMint: new PublicKey(poolConfig.poolTokenMint),
+    });
+    const required = calculateDepositForLpTokens(
+      quote.lpTokens,
+      snapshot.reserveA,
+      snapshot.reserveB,
+      snapshot.lpTokenSupply
+    );
 
-    return transaction;
+    if (required.tokenA > quote.maxTokenA || required.tokenB > quote.maxTokenB) {
+      console.warn('⚠️  Pool reserves drifted beyond slippage tolerance:', {
+        requiredA: required.tokenA.toString(),
+        maxTokenA: quote.maxTokenA.toString(),
+        requiredB: required.tokenB.toString(),
+        maxTokenB: quote.maxTokenB.toString(),
+        slot: snapshot.slot,
+      });
+      throw new DexTransactionError({
+        code: SolanaErrorCode.SLIPPAGE_EXCEEDED,
+        message: `Deposit requires ${required.tokenA}/${required.tokenB}, above maximum ${quote.maxTokenA}/${quote.maxTokenB}`,
+        userMessage: 'Pool price moved beyond your slippage tolerance since the preview. Review the updated deposit and try again.',
+        recoverable: true,
+        retryable: true,
+      });
+    }
   }
 
   /**
    * Build remove liquidity transaction
-   * Uses pool config directly (same pattern as swap)
+   * Uses pool config directly (same pattern as swap) and compiles a v0
+   * transaction against the DEX lookup table
    */
   async buildRemoveLiquidityTransaction(
     params: RemoveLiquidityParams,
     userPublicKey: PublicKey
-  ): Promise<Transaction> {
-    const { pool, lpTokenAmount, minTokenA = BigInt(0), minTokenB = BigInt(0) } = params;
+  ): Promise<BuiltTransaction> {
+    const { pool, lpTokenAmount, minTokenA = BigInt(0), minTokenB = BigInt(0), feeSettings } = params;
     
     if (!this.programId) {
       throw new Error('Program ID not configured. Use getLiquidityService(connection, programId).');
     }
 
     // Find pool config from dex-config.json (same as swap does)
-    const poolConfig = dexConfig.pools.find(p => p.poolAddress === pool.id);
+    const poolConfig = findPoolConfig(pool.id);
     if (!poolConfig) {
       throw new Error(`Pool config not found for ${pool.id}`);
     }
 
-    const transaction = new Transaction();
+    const instructions: TransactionInstruction[] = [];
     const poolAddress = new PublicKey(poolConfig.poolAddress);
     const poolAuthority = new PublicKey(poolConfig.authority);
     const poolTokenAccountA = new PublicKey(poolConfig.tokenAccountA);
@@ -348,15 +644,131 @@ export class LiquidityService {
       minTokenB       // minTokenB - minimum token B to receive
     );
 
-    transaction.add(removeLiquidityIx);
+    instructions.push(removeLiquidityIx);
+
+    return buildDexTransaction(this.connection, userPublicKey, instructions, { feeSettings });
+  }
+
+  /**
+   * Build single-sided add liquidity transaction
+   * Quotes against fresh reserves so the minimum LP amount reflects the
+   * current pool state, then compiles a v0 transaction
+   */
+  async buildAddSingleSidedLiquidityTransaction(
+    params: AddSingleSidedLiquidityParams,
+    userPublicKey: PublicKey
+  ): Promise<BuiltTransaction & { quote: SingleSidedDepositQuote }> {
+    const { pool, sourceMint, amountIn, slippageTolerance, feeSettings } = params;
 
-    // Set recent blockhash and fee payer
-    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
-    transaction.recentBlockhash = blockhash;
-    transaction.feePayer = userPublicKey;
-    transaction.lastValidBlockHeight = lastValidBlockHeight;
+    if (!this.programId) {
+      throw new Error('Program ID not configured. Use getLiquidityService(connection, programId).');
+    }
+
+    const poolConfig = findPoolConfig(pool.id);
+    if (!poolConfig) {
+      throw new Error(`Pool config not found for ${pool.id}`);
+    }
+
+    const quote = await this.quoteSingleSidedDeposit(pool, sourceMint, amountIn, slippageTolerance);
+    if (quote.minLpTokens <= BigInt(0)) {
+      throw new Error('Deposit is too small to mint any LP tokens');
+    }
+
+    const instructions: TransactionInstruction[] = [];
+    const sourceTokenMint = new PublicKey(sourceMint);
+    const lpTokenMint = new PublicKey(poolConfig.poolTokenMint);
+
+    // The source account must already hold the deposit; only the LP account may need creating
+    const userSourceTokenAccount = await getAssociatedTokenAddress(sourceTokenMint, userPublicKey);
+    const userLpTokenAccount = await findOrCreateATA(
+      this.connection,
+      userPublicKey,
+      lpTokenMint,
+      userPublicKey,
+      instructions
+    );
+
+    instructions.push(createAddSingleLiquidityInstruction(
+      this.programId,
+      new PublicKey(poolConfig.poolAddress),
+      new PublicKey(poolConfig.authority),
+      new PublicKey(poolConfig.tokenAccountA),
+      new PublicKey(poolConfig.tokenAccountB),
+      lpTokenMint,
+      sourceTokenMint,
+      userPublicKey,
+      userSourceTokenAccount,
+      userLpTokenAccount,
+      amountIn,
+      quote.minLpTokens
+    ));
 
-    return transaction;
+    const built = await buildDexTransaction(this.connection, userPublicKey, instructions, {
+      commitment: 'finalized',
+      feeSettings,
+    });
+
+    return { ...built, quote };
+  }
+
+  /**
+   * Build single-sided remove liquidity transaction
+   * Quotes against fresh reserves so the bounds reflect the current pool
+   * state, then compiles a v0 transaction
+   */
+  async buildRemoveSingleSidedLiquidityTransaction(
+    params: RemoveSingleSidedLiquidityParams,
+    userPublicKey: PublicKey
+  ): Promise<BuiltTransaction & { quote: SingleSidedWithdrawalQuote }> {
+    const { pool, destinationMint, lpTokenAmount, slippageTolerance, feeSettings } = params;
+
+    if (!this.programId) {
+      throw new Error('Program ID not configured. Use getLiquidityService(connection, programId).');
+    }
+
+    const poolConfig = findPoolConfig(pool.id);
+    if (!poolConfig) {
+      throw new Error(`Pool config not found for ${pool.id}`);
+    }
+
+    const quote = await this.quoteSingleSidedWithdrawal(pool, destinationMint, lpTokenAmount, slippageTolerance);
+    if (quote.minTokenAmount <= BigInt(0)) {
+      throw new Error('Withdrawal is too small to receive any tokens');
+    }
+
+    const instructions: TransactionInstruction[] = [];
+    const destinationTokenMint = new PublicKey(destinationMint);
+    const lpTokenMint = new PublicKey(poolConfig.poolTokenMint);
+
+    // The destination account may not exist if the user only ever held the other token
+    const userDestinationTokenAccount = await findOrCreateATA(
+      this.connection,
+      userPublicKey,
+      destinationTokenMint,
+      userPublicKey,
+      instructions
+    );
+    const userLpTokenAccount = await getAssociatedTokenAddress(lpTokenMint, userPublicKey);
+
+    instructions.push(createRemoveSingleLiquidityInstruction(
+      this.programId,
+      new PublicKey(poolConfig.poolAddress),
+      new PublicKey(poolConfig.authority),
+      new PublicKey(poolConfig.tokenAccountA),
+      new PublicKey(poolConfig.tokenAccountB),
+      lpTokenMint,
+      new PublicKey(poolConfig.feeAccount),
+      destinationTokenMint,
+      userPublicKey,
+      userDestinationTokenAccount,
+      userLpTokenAccount,
+      quote.minTokenAmount,
+      quote.maxLpTokens
+    ));
+
+    const built = await buildDexTransaction(this.connection, userPublicKey, instructions, { feeSettings });
+
+    return { ...built, quote };
   }
 
   /**
@@ -374,33 +786,28 @@ export class LiquidityService {
     try {
       onStatusUpdate?.(TransactionStatus.PENDING);
 
-      // Build transaction
-      const transaction = await this.buildAddLiquidityTransaction(
+      // Build transaction (with a fresh 'finalized' blockhash)
+      const { transaction, instructions, blockhash, lastValidBlockHeight, computeBudget } = await this.buildAddLiquidityTransaction(
         params,
         wallet.publicKey
       );
-
-      // ✅ CRITICAL: Get fresh blockhash to prevent "already processed" errors
-      // Using 'finalized' commitment for more unique blockhashes
-      console.log('🔄 Fetching fresh blockhash for transaction...');
-      const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('finalized');
       console.log('✅ Got blockhash:', blockhash.slice(0, 8) + '...');
 
-      transaction.recentBlockhash = blockhash;
-      transaction.feePayer = wallet.publicKey;
-
       // Log transaction details for debugging
       console.log('🔍 Add Liquidity Transaction Details:');
       console.log('  Pool:', params.pool.id);
       console.log('  Amount A:', params.amountA.toString());
       console.log('  Amount B:', params.amountB.toString());
-      console.log('  Min LP Tokens:', params.minLpTokens.toString());
+      console.log('  Slippage tolerance:', `${params.quote?.slippageTolerance ?? params.slippageTolerance ?? 0.5}%`);
       console.log('  Program ID:', this.programId);
-      console.log('  Instructions:', transaction.instructions.length);
+      console.log('  Instructions:', instructions.length);
+      console.log('  Lookup tables:', transaction.message.addressTableLookups.length);
+      console.log('  Compute unit limit:', computeBudget?.computeUnitLimit);
+      console.log('  Priority fee (lamports):', computeBudget?.priorityFeeLamports);
       
       // Validate instruction data before sending
-      if (transaction.instructions.length > 0) {
-        const lastIx = transaction.instructions[transaction.instructions.length - 1];
+      if (instructions.length > 0) {
+        const lastIx = instructions[instructions.length - 1];
         console.log('  Last instruction data:', lastIx.data.toString('hex'));
         console.log('  Last instruction accounts:', lastIx.keys.length);
         console.log('  Last instruction program:', lastIx.programId.toString());
@@ -409,46 +816,7 @@ export class LiquidityService {
         this.validateInstructionData(lastIx.data, 2, 'Add Liquidity');
       }
 
-      // Sign transaction
-      const signedTransaction = await wallet.signTransaction(transaction);
-
-      // Send transaction
-      const signature = await this.connection.sendRawTransaction(
-        signedTransaction.serialize(),
-        {
-          skipPreflight: false,
-          preflightCommitment: 'confirmed',
-          maxRetries: 3,
-        }
-      );
-
-      onStatusUpdate?.(TransactionStatus.PENDING, signature);
-
-      // Wait for confirmation
-      const confirmation = await this.connection.confirmTransaction(
-        {
-          signature,
-          blockhash,
-          lastValidBlockHeight,
-        },
-        'confirmed'
-      );
-
-      if (confirmation.value.err) {
-        const error = `Transaction failed: ${JSON.stringify(confirmation.value.err)}`;
-        onStatusUpdate?.(TransactionStatus.FAILED, signature, error);
-        return {
-          signature,
-          status: TransactionStatus.FAILED,
-          error,
-        };
-      }
-
-      onStatusUpdate?.(TransactionStatus.CONFIRMED, signature);
-      return {
-        signature,
-        status: TransactionStatus.CONFIRMED,
-      };
+      return await this.sendAndConfirm({ transaction, blockhash, lastValidBlockHeight }, wallet, onStatusUpdate);
 
     } catch (error) {
       let errorMessage = this.parseTransactionError(error);
@@ -474,6 +842,49 @@ export class LiquidityService {
     }
   }
 
+  /**
+   * Execute single-sided add liquidity transaction
+   */
+  async addSingleSidedLiquidity(
+    params: AddSingleSidedLiquidityParams,
+    wallet: WalletContextState,
+    onStatusUpdate?: (status: TransactionStatus, signature?: string, error?: string) => void
+  ): Promise<LiquidityExecutionResult> {
+    if (!wallet.publicKey || !wallet.signTransaction) {
+      throw new Error('Wallet not connected or does not support transaction signing');
+    }
+
+    try {
+      onStatusUpdate?.(TransactionStatus.PENDING);
+
+      const { transaction, blockhash, lastValidBlockHeight, computeBudget, quote } =
+        await this.buildAddSingleSidedLiquidityTransaction(params, wallet.publicKey);
+
+      console.log('🔍 Single-Sided Add Liquidity Transaction Details:');
+      console.log('  Pool:', params.pool.id);
+      console.log('  Source mint:', params.sourceMint);
+      console.log('  Amount in:', params.amountIn.toString());
+      console.log('  Expected LP tokens:', quote.lpTokens.toString());
+      console.log('  Min LP tokens:', quote.minLpTokens.toString());
+      console.log('  Swap fee:', quote.swapFee.toString());
+      console.log('  Compute unit limit:', computeBudget?.computeUnitLimit);
+      console.log('  Priority fee (lamports):', computeBudget?.priorityFeeLamports);
+
+      return await this.sendAndConfirm({ transaction, blockhash, lastValidBlockHeight }, wallet, onStatusUpdate);
+
+    } catch (error) {
+      const errorMessage = this.parseTransactionError(error);
+      console.error('Single-sided add liquidity failed:', error);
+      onStatusUpdate?.(TransactionStatus.FAILED, undefined, errorMessage);
+
+      return {
+        signature: '',
+        status: TransactionStatus.FAILED,
+        error: errorMessage,
+      };
+    }
+  }
+
   /**
    * Execute remove liquidity transaction
    */
@@ -490,16 +901,11 @@ export class LiquidityService {
       onStatusUpdate?.(TransactionStatus.PENDING);
 
       // Build transaction
-      const transaction = await this.buildRemoveLiquidityTransaction(
+      const { transaction, instructions, blockhash, lastValidBlockHeight, computeBudget } = await this.buildRemoveLiquidityTransaction(
         params,
         wallet.publicKey
       );
 
-      // Get recent blockhash
-      const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
-      transaction.recentBlockhash = blockhash;
-      transaction.feePayer = wallet.publicKey;
-
       // Log transaction details for debugging
       console.log('🔍 Remove Liquidity Transaction Details:');
       console.log('  Pool:', params.pool.id);
@@ -507,11 +913,14 @@ export class LiquidityService {
       console.log('  Min Token A:', params.minTokenA?.toString() || '0');
       console.log('  Min Token B:', params.minTokenB?.toString() || '0');
       console.log('  Program ID:', this.programId);
-      console.log('  Instructions:', transaction.instructions.length);
+      console.log('  Instructions:', instructions.length);
+      console.log('  Lookup tables:', transaction.message.addressTableLookups.length);
+      console.log('  Compute unit limit:', computeBudget?.computeUnitLimit);
+      console.log('  Priority fee (lamports):', computeBudget?.priorityFeeLamports);
       
       // Validate instruction data before sending
-      if (transaction.instructions.length > 0) {
-        const lastIx = transaction.instructions[transaction.instructions.length - 1];
+      if (instructions.length > 0) {
+        const lastIx = instructions[instructions.length - 1];
         console.log('  Last instruction data:', lastIx.data.toString('hex'));
         console.log('  Last instruction accounts:', lastIx.keys.length);
         console.log('  Last instruction program:', lastIx.programId.toString());
@@ -520,52 +929,55 @@ export class LiquidityService {
         this.validateInstructionData(lastIx.data, 3, 'Remove Liquidity');
       }
 
-      // Sign transaction
-      const signedTransaction = await wallet.signTransaction(transaction);
-
-      // Send transaction
-      const signature = await this.connection.sendRawTransaction(
-        signedTransaction.serialize(),
-        {
-          skipPreflight: false,
-          preflightCommitment: 'confirmed',
-          maxRetries: 3,
-        }
-      );
+      return await this.sendAndConfirm({ transaction, blockhash, lastValidBlockHeight }, wallet, onStatusUpdate);
 
-      onStatusUpdate?.(TransactionStatus.PENDING, signature);
+    } catch (error) {
+      const errorMessage = this.parseTransactionError(error);
+      console.error('Remove liquidity failed:', error);
+      onStatusUpdate?.(TransactionStatus.FAILED, undefined, errorMessage);
+      
+      return {
+        signature: '',
+        status: TransactionStatus.FAILED,
+        error: errorMessage,
+      };
+    }
+  }
 
-      // Wait for confirmation
-      const confirmation = await this.connection.confirmTransaction(
-        {
-          signature,
-          blockhash,
-          lastValidBlockHeight,
-        },
-        'confirmed'
-      );
+  /**
+   * Execute single-sided remove liquidity transaction
+   */
+  async removeSingleSidedLiquidity(
+    params: RemoveSingleSidedLiquidityParams,
+    wallet: WalletContextState,
+    onStatusUpdate?: (status: TransactionStatus, signature?: string, error?: string) => void
+  ): Promise<LiquidityExecutionResult> {
+    if (!wallet.publicKey || !wallet.signTransaction) {
+      throw new Error('Wallet not connected or does not support transaction signing');
+    }
 
-      if (confirmation.value.err) {
-        const error = `Transaction failed: ${JSON.stringify(confirmation.value.err)}`;
-        onStatusUpdate?.(TransactionStatus.FAILED, signature, error);
-        return {
-          signature,
-          status: TransactionStatus.FAILED,
-          error,
-        };
-      }
+    try {
+      onStatusUpdate?.(TransactionStatus.PENDING);
 
-      onStatusUpdate?.(TransactionStatus.CONFIRMED, signature);
-      return {
-        signature,
-        status: TransactionStatus.CONFIRMED,
-      };
+      const { transaction, blockhash, lastValidBlockHeight, computeBudget, quote } =
+        await this.buildRemoveSingleSidedLiquidityTransaction(params, wallet.publicKey);
+
+      console.log('🔍 Single-Sided Remove Liquidity Transaction Details:');
+      console.log('  Pool:', params.pool.id);
+      console.log('  Destination mint:', params.destinationMint);
+      console.log('  Max LP tokens:', quote.maxLpTokens.toString());
+      console.log('  Token amount out:', quote.minTokenAmount.toString());
+      console.log('  Swap fee:', quote.swapFee.toString());
+      console.log('  Compute unit limit:', computeBudget?.computeUnitLimit);
+      console.log('  Priority fee (lamports):', computeBudget?.priorityFeeLamports);
+
+      return await this.sendAndConfirm({ transaction, blockhash, lastValidBlockHeight }, wallet, onStatusUpdate);
 
     } catch (error) {
       const errorMessage = this.parseTransactionError(error);
-      console.error('Remove liquidity failed:', error);
+      console.error('Single-sided remove liquidity failed:', error);
       onStatusUpdate?.(TransactionStatus.FAILED, undefined, errorMessage);
-      
+
       return {
         signature: '',
         status: TransactionStatus.FAILED,
@@ -574,6 +986,68 @@ export class LiquidityService {
     }
   }
 
+  /**
+   * Simulate, sign, send and confirm a built liquidity transaction
+   *
+   * Reports PENDING with the signature once sent, then CONFIRMED or FAILED.
+   * An on-chain failure is returned as a FAILED result with the decoded
+   * program error; simulation, signing and RPC errors are thrown for the
+   * caller to report.
+   */
+  private async sendAndConfirm(
+    built: Pick<BuiltTransaction, 'transaction' | 'blockhash' | 'lastValidBlockHeight'>,
+    wallet: WalletContextState,
+    onStatusUpdate?: (status: TransactionStatus, signature?: string, error?: string) => void
+  ): Promise<LiquidityExecutionResult> {
+    const { transaction, blockhash, lastValidBlockHeight } = built;
+
+    // Simulate before signing; throws a decoded DexTransactionError on failure
+    await simulateDexTransaction(this.connection, transaction, { programId: this.programId?.toBase58() });
+
+    const signedTransaction = await wallet.signTransaction!(transaction);
+
+    // Send transaction (already simulated, so skip the RPC's duplicate preflight)
+    const signature = await this.connection.sendRawTransaction(
+      signedTransaction.serialize(),
+      {
+        skipPreflight: true,
+        maxRetries: 3,
+      }
+    );
+
+    onStatusUpdate?.(TransactionStatus.PENDING, signature);
+
+    const confirmation = await this.connection.confirmTransaction(
+      {
+        signature,
+        blockhash,
+        lastValidBlockHeight,
+      },
+      'confirmed'
+    );
+
+    if (confirmation.value.err) {
+      const error = (await getConfirmedTransactionError(
+        this.connection,
+        signature,
+        confirmation.value.err,
+        this.programId?.toBase58()
+      )).message;
+      onStatusUpdate?.(TransactionStatus.FAILED, signature, error);
+      return {
+        signature,
+        status: TransactionStatus.FAILED,
+        error,
+      };
+    }
+
+    onStatusUpdate?.(TransactionStatus.CONFIRMED, signature);
+    return {
+      signature,
+      status: TransactionStatus.CONFIRMED,
+    };
+  }
+
   /**
    * Validate instruction data before sending transaction
    * @private
@@ -629,6 +1103,11 @@ export class LiquidityService {
       return error;
     }
 
+    // Program errors are already decoded from the simulation logs
+    if (error instanceof DexTransactionError) {
+      return error.message;
+    }
+
     if (error?.message) {
       const message = error.message.toLowerCase();
       
@@ -101,12 +101,74 @@ export interface SmallestShardsResponse {
   error?: string;
 }
 
+/**
+ * Circuit breaker state for the backend
+ * - 'closed': requests go to the backend
+ * - 'open': the backend is failing; requests are rejected immediately
+ * - 'half-open': the reset timeout elapsed; a health check decides whether to close again
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker thresholds
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 3) */
+  failureThreshold: number;
+  /** How long the circuit stays open before a health check probe, in ms (default: 30000) */
+  resetTimeoutMs: number;
+}
+
+/**
+ * Health of the backend as tracked by the circuit breaker
+ */
+export interface RouterHealth {
+  /** Current circuit state */
+  state: CircuitState;
+  /** Failures since the last successful request */
+  consecutiveFailures: number;
+  /** Last failure message, if any */
+  lastError: string | null;
+  /** When the last request failed (ms since epoch) */
+  lastFailureAt: number | null;
+  /** When the last request succeeded (ms since epoch) */
+  lastSuccessAt: number | null;
+  /** When the circuit opens for a probe again (ms since epoch; only while open) */
+  retryAt: number | null;
+}
+
+/**
+ * Thrown instead of calling the backend while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(public readonly retryAt: number) {
+    super(`SAMM Router circuit is open; backend skipped until ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  resetTimeoutMs: 30000,
+};
+
 /**
  * Service for interacting with the SAMM Router backend API
  */
 export class SammRouterService {
   private baseUrl: string;
   private timeout: number = 5000; // 5 second timeout
+  private circuitOptions: CircuitBreakerOptions;
+  private health: RouterHealth = {
+    state: 'closed',
+    consecutiveFailures: 0,
+    lastError: null,
+    lastFailureAt: null,
+    lastSuccessAt: null,
+    retryAt: null,
+  };
+  private probe: Promise<boolean> | null = null;
+  private stateListeners = new Set<(health: RouterHealth) => void>();
 
   /**
    * Normalizes a URL to use HTTPS when in a secure (HTTPS) context
@@ -134,8 +196,10 @@ export class SammRouterService {
   /**
    * Creates a new SammRouterService instance
    * @param baseUrl - Optional base URL for the API. Falls back to environment variable or default.
+   * @param circuitOptions - Optional circuit breaker thresholds
    */
-  constructor(baseUrl?: string) {
+  constructor(baseUrl?: string, circuitOptions: Partial<CircuitBreakerOptions> = {}) {
+    this.circuitOptions = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...circuitOptions };
     const rawUrl = 
       baseUrl || 
       process.env.NEXT_PUBLIC_SAMM_ROUTER_API_URL || 
@@ -159,9 +223,14 @@ export class SammRouterService {
    * Get optimal route for a token swap
    * @param request - Route request parameters
    * @returns Promise resolving to route response
+   * @throws CircuitOpenError if the backend is being skipped
    * @throws Error if request fails or times out
    */
   async getRoute(request: RouteRequest): Promise<RouteResponse> {
+    return this.withCircuitBreaker(() => this.requestRoute(request));
+  }
+
+  private async requestRoute(request: RouteRequest): Promise<RouteResponse> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
     const startTime = performance.now();
@@ -305,12 +374,21 @@ export class SammRouterService {
    * @param tokenB - Token B mint address
    * @param inputToken - Which token you're measuring (usually tokenA)
    * @returns Promise resolving to smallest shards response
+   * @throws CircuitOpenError if the backend is being skipped
    * @throws Error if request fails or times out
    */
   async getSmallestShards(
     tokenA: string,
     tokenB: string,
     inputToken: string
+  ): Promise<SmallestShardsResponse> {
+    return this.withCircuitBreaker(() => this.requestSmallestShards(tokenA, tokenB, inputToken));
+  }
+
+  private async requestSmallestShards(
+    tokenA: string,
+    tokenB: string,
+    inputToken: string
   ): Promise<SmallestShardsResponse> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
@@ -438,6 +516,9 @@ export class SammRouterService {
    * @returns Promise resolving to true if healthy, false otherwise
    */
   async healthCheck(): Promise<boolean> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
     try {
       const url = `${this.baseUrl}/api/health`;
       
@@ -445,6 +526,7 @@ export class SammRouterService {
 
       const response = await fetch(url, {
         method: 'GET',
+        signal: controller.signal,
       });
 
       const isHealthy = response.ok && response.status === 200;
@@ -464,6 +546,114 @@ export class SammRouterService {
         timestamp: new Date().toISOString()
       });
       return false;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Current backend health and circuit state
+   * @returns Snapshot of the circuit breaker state
+   */
+  getHealth(): RouterHealth {
+    return { ...this.health };
+  }
+
+  /**
+   * Whether requests are currently skipped without calling the backend
+   *
+   * False once the reset timeout has elapsed, so the next request runs the
+   * half-open health check probe.
+   */
+  isCircuitOpen(): boolean {
+    return this.health.state === 'open' && this.health.retryAt !== null && Date.now() < this.health.retryAt;
+  }
+
+  /**
+   * Subscribe to circuit state changes
+   * @param listener - Called with the new health whenever the state changes
+   * @returns Unsubscribe function
+   */
+  onStateChange(listener: (health: RouterHealth) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Run a backend request through the circuit breaker
+   *
+   * While open, requests fail fast with CircuitOpenError. After the reset
+   * timeout the circuit goes half-open and one healthCheck() probe (shared by
+   * concurrent requests) decides whether to close it or keep it open.
+   * HTTP 4xx responses mean the backend is up, so they do not count as failures.
+   */
+  private async withCircuitBreaker<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.health.state !== 'closed') {
+      if (this.isCircuitOpen()) {
+        throw new CircuitOpenError(this.health.retryAt!);
+      }
+
+      if (!this.probe) {
+        this.setState('half-open');
+        this.probe = this.healthCheck().finally(() => {
+          this.probe = null;
+        });
+      }
+
+      const healthy = await this.probe;
+      if (!healthy) {
+        if (this.health.state === 'half-open') {
+          this.open('Health check failed');
+        }
+        throw new CircuitOpenError(this.health.retryAt!);
+      }
+      if (this.health.state === 'half-open') {
+        this.health.consecutiveFailures = 0;
+        this.setState('closed');
+      }
+    }
+
+    try {
+      const result = await operation();
+      this.health.consecutiveFailures = 0;
+      this.health.lastSuccessAt = Date.now();
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!/^HTTP 4\d\d/.test(message)) {
+        this.health.consecutiveFailures++;
+        this.health.lastError = message;
+        this.health.lastFailureAt = Date.now();
+        if (this.health.consecutiveFailures >= this.circuitOptions.failureThreshold) {
+          this.open(message);
+        }
+      }
+      throw error;
+    }
+  }
+
+  private open(reason: string): void {
+    this.health.retryAt = Date.now() + this.circuitOptions.resetTimeoutMs;
+    console.warn('[SammRouterService] Circuit opened, skipping backend:', {
+      reason,
+      consecutiveFailures: this.health.consecutiveFailures,
+      retryAt: new Date(this.health.retryAt).toISOString()
+    });
+    this.setState('open');
+  }
+
+  private setState(state: CircuitState): void {
+    if (state !== 'open') {
+      this.health.retryAt = null;
+    }
+    const changed = this.health.state !== state;
+    this.health.state = state;
+    if (changed) {
+      console.log(`[SammRouterService] Circuit ${state}`);
+      const health = this.getHealth();
+      this.stateListeners.forEach(listener => listener(health));
     }
   }
 }
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { SwapQuote, Token, TransactionStatus } from '@/types';
+import { DEFAULT_PRIORITY_FEE_SETTINGS, PriorityFeeSettings } from '@/lib/solana/priorityFees';
 
 interface SwapStore {
   tokenIn: Token | null;
@@ -17,6 +18,12 @@ interface SwapStore {
   transactionError: string | null;
   showConfirmationModal: boolean;
   
+  // Priority fee preferences applied to swap and liquidity transactions
+  feeSettings: PriorityFeeSettings;
+  
+  // Slippage tolerance (percent) applied to swaps and liquidity deposits
+  slippageTolerance: number;
+  
   setTokenIn: (token: Token | null) => void;
   setTokenOut: (token: Token | null) => void;
   setAmountIn: (amount: string) => void;
@@ -33,6 +40,8 @@ interface SwapStore {
   setTransactionError: (error: string | null) => void;
   setShowConfirmationModal: (show: boolean) => void;
   resetTransaction: () => void;
+  setFeeSettings: (settings: Partial<PriorityFeeSettings>) => void;
+  setSlippageTolerance: (slippageTolerance: number) => void;
 }
 
 export const useSwapStore = create<SwapStore>((set, get) => ({
@@ -51,6 +60,9 @@ export const useSwapStore = create<SwapStore>((set, get) => ({
   transactionError: null,
   showConfirmationModal: false,
   
+  feeSettings: DEFAULT_PRIORITY_FEE_SETTINGS,
+  slippageTolerance: 5.0, // Default 5% - accounts for devnet pool changes
+  
   setTokenIn: (token) => set({ tokenIn: token }),
   setTokenOut: (token) => set({ tokenOut: token }),
   setAmountIn: (amount) => set({ amountIn: amount }),
@@ -84,4 +96,10 @@ export const useSwapStore = create<SwapStore>((set, get) => ({
     transactionError: null,
     showConfirmationModal: false,
   }),
+  
+  setFeeSettings: (settings) => set((state) => ({
+    feeSettings: { ...state.feeSettings, ...settings },
+  })),
+  
+  setSlippageTolerance: (slippageTolerance) => set({ slippageTolerance }),
 }));
\ No newline at end of file
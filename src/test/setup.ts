@@ -12,27 +12,30 @@ global.ResizeObserver = class ResizeObserver {
   disconnect() {}
 };
 
-// Mock window.solana for Phantom wallet
-Object.defineProperty(window, 'solana', {
-  value: {
-    isPhantom: true,
-    connect: vi.fn(),
-    disconnect: vi.fn(),
-    signTransaction: vi.fn(),
-    signAllTransactions: vi.fn(),
-    publicKey: null,
-    isConnected: false,
-  },
-  writable: true,
-});
+// Browser mocks are skipped for test files that opt into the node environment
+if (typeof window !== 'undefined') {
+  // Mock window.solana for Phantom wallet
+  Object.defineProperty(window, 'solana', {
+    value: {
+      isPhantom: true,
+      connect: vi.fn(),
+      disconnect: vi.fn(),
+      signTransaction: vi.fn(),
+      signAllTransactions: vi.fn(),
+      publicKey: null,
+      isConnected: false,
+    },
+    writable: true,
+  });
 
-// Mock localStorage
-Object.defineProperty(window, 'localStorage', {
-  value: {
-    getItem: vi.fn(),
-    setItem: vi.fn(),
-    removeItem: vi.fn(),
-    clear: vi.fn(),
-  },
-  writable: true,
-});
\ No newline at end of file
+  // Mock localStorage
+  Object.defineProperty(window, 'localStorage', {
+    value: {
+      getItem: vi.fn(),
+      setItem: vi.fn(),
+      removeItem: vi.fn(),
+      clear: vi.fn(),
+    },
+    writable: true,
+  });
+}
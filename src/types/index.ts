@@ -140,6 +140,9 @@ export interface Pool {
   // Pool metrics
   volume24h: bigint;
   fees24h: bigint;
+  volume7d?: bigint; // Indexed swap volume over 7 days (token A base units)
+  fees7d?: bigint; // Indexed swap fees over 7 days (token A base units)
+  feeApr?: number; // Annualized 7-day fees over TVL as a fraction (0.12 = 12%)
   feeRate: number; // Fee rate as percentage (e.g., 0.25 for 0.25%)
 
   // Pool state
@@ -191,6 +194,7 @@ export interface Transaction {
 
   // Pool information (for AMM transactions)
   poolId?: string;
+  shardNumber?: number; // Shard of the pool, if it is a known SAMM pool
   priceImpact?: number;
   slippage?: number;
 }
@@ -3,6 +3,10 @@ import {
   calculateSwapOutput,
   calculatePriceImpact,
   calculateLiquidityTokens,
+  calculateDepositForLpTokens,
+  applySlippageCeiling,
+  calculateSingleSidedLiquidityTokens,
+  calculateSingleSidedWithdrawal,
 } from '../calculations';
 
 describe('calculations', () => {
@@ -269,4 +273,125 @@ describe('calculations', () => {
       expect(liquidity).toBe(expected);
     });
   });
-});
\ No newline at end of file
+
+  describe('calculateDepositForLpTokens', () => {
+    it('rounds each side up like the program', () => {
+      // 10 * 1001 / 300 = 33.37 and 10 * 999 / 300 = 33.3
+      const deposit = calculateDepositForLpTokens(BigInt(10), BigInt(1001), BigInt(999), BigInt(300));
+
+      expect(deposit.tokenA).toBe(BigInt(34));
+      expect(deposit.tokenB).toBe(BigInt(34));
+    });
+
+    it('never exceeds the amounts the LP target was derived from', () => {
+      const amountA = BigInt('123456789');
+      const amountB = BigInt('98765432');
+      const reserveA = BigInt('5000000000');
+      const reserveB = BigInt('4000000001');
+      const supply = BigInt('4472135955');
+
+      const lpTokens = calculateLiquidityTokens(amountA, amountB, reserveA, reserveB, supply);
+      const deposit = calculateDepositForLpTokens(lpTokens, reserveA, reserveB, supply);
+
+      expect(deposit.tokenA).toBeLessThanOrEqual(amountA);
+      expect(deposit.tokenB).toBeLessThanOrEqual(amountB);
+    });
+  });
+
+  describe('applySlippageCeiling', () => {
+    it('adds the tolerance rounded up', () => {
+      expect(applySlippageCeiling(BigInt(10000), 0.5)).toBe(BigInt(10050));
+      expect(applySlippageCeiling(BigInt(101), 1)).toBe(BigInt(103));
+      expect(applySlippageCeiling(BigInt(500), 0)).toBe(BigInt(500));
+    });
+  });
+
+  describe('calculateSingleSidedLiquidityTokens', () => {
+    const reserve = BigInt('1000000');
+    const totalSupply = BigInt('1000000');
+
+    it('deposits along the invariant when there is no fee', () => {
+      // sqrt(1.21) - 1 = 0.1 of the supply
+      const { lpTokens, swapFee } = calculateSingleSidedLiquidityTokens(
+        BigInt('210000'),
+        reserve,
+        totalSupply,
+        BigInt(0),
+        BigInt(1)
+      );
+
+      expect(swapFee).toBe(BigInt(0));
+      expect(lpTokens).toBe(BigInt('100000'));
+    });
+
+    it('charges the swap fee on half of the deposit', () => {
+      const { lpTokens, swapFee } = calculateSingleSidedLiquidityTokens(
+        BigInt('210000'),
+        reserve,
+        totalSupply,
+        BigInt(3),
+        BigInt(1000)
+      );
+
+      // 0.3% of 105000
+      expect(swapFee).toBe(BigInt(315));
+      expect(lpTokens).toBeLessThan(BigInt('100000'));
+      expect(lpTokens).toBeGreaterThan(BigInt('99800'));
+    });
+
+    it('returns nothing for an empty pool', () => {
+      const { lpTokens } = calculateSingleSidedLiquidityTokens(
+        BigInt('210000'),
+        BigInt(0),
+        BigInt(0),
+        BigInt(3),
+        BigInt(1000)
+      );
+
+      expect(lpTokens).toBe(BigInt(0));
+    });
+  });
+
+  describe('calculateSingleSidedWithdrawal', () => {
+    const reserve = BigInt('1000000');
+    const totalSupply = BigInt('1000000');
+
+    it('releases reserve * (1 - (1 - share)^2) when there is no fee', () => {
+      // Burning 10% of the supply: 1 - 0.9^2 = 19% of the reserve
+      const { tokenAmount, swapFee } = calculateSingleSidedWithdrawal(
+        BigInt('100000'),
+        reserve,
+        totalSupply,
+        BigInt(0),
+        BigInt(1)
+      );
+
+      expect(swapFee).toBe(BigInt(0));
+      expect(tokenAmount).toBe(BigInt('190000'));
+    });
+
+    it('deducts the swap fee on half and the withdraw fee in LP tokens', () => {
+      const withSwapFee = calculateSingleSidedWithdrawal(
+        BigInt('100000'),
+        reserve,
+        totalSupply,
+        BigInt(3),
+        BigInt(1000)
+      );
+      const withBothFees = calculateSingleSidedWithdrawal(
+        BigInt('100000'),
+        reserve,
+        totalSupply,
+        BigInt(3),
+        BigInt(1000),
+        BigInt(1),
+        BigInt(100)
+      );
+
+      // 190000 / (1 + 0.0015)
+      expect(withSwapFee.tokenAmount).toBe(BigInt('189715'));
+      expect(withSwapFee.swapFee).toBe(BigInt(285));
+      expect(withBothFees.tokenAmount).toBeLessThan(withSwapFee.tokenAmount);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import {
+  decodeTransactionError,
+  DexErrorCode,
+  DexTransactionError,
+  parseSolanaError,
+  SammErrorCode,
+  SolanaErrorCode,
+} from '../solanaErrors';
+
+const SAMM_PROGRAM_ID = '6QcjKRkeDfA1vQUMGc4eQUFoDTX7snoZZSA1N1SUdb4Z';
+
+const failedLogs = (programId: string, code: number) => [
+  `Program ${programId} invoke [1]`,
+  `Program log: Error: custom error`,
+  `Program ${programId} failed: custom program error: 0x${code.toString(16)}`,
+];
+
+describe('solanaErrors', () => {
+  describe('decodeTransactionError', () => {
+    it('decodes SAMM custom errors from the failing program', () => {
+      const error = decodeTransactionError(
+        { InstructionError: [2, { Custom: 16 }] },
+        failedLogs(SAMM_PROGRAM_ID, 16),
+        SAMM_PROGRAM_ID
+      );
+
+      expect(error.code).toBe(SammErrorCode.EXCEEDED_SLIPPAGE);
+      expect(error.code).toBe(DexErrorCode.EXCEEDED_SLIPPAGE);
+      expect(error.programErrorCode).toBe(16);
+      expect(error.retryable).toBe(true);
+      expect(error.logs).toHaveLength(3);
+    });
+
+    it('attributes the same custom number to the token program when it failed', () => {
+      const error = decodeTransactionError(
+        { InstructionError: [2, { Custom: 1 }] },
+        failedLogs(TOKEN_PROGRAM_ID.toBase58(), 1),
+        SAMM_PROGRAM_ID
+      );
+
+      expect(error.code).toBe(SolanaErrorCode.INSUFFICIENT_TOKEN_BALANCE);
+    });
+
+    it('maps built-in runtime errors to generic codes', () => {
+      expect(decodeTransactionError('InsufficientFundsForFee').code).toBe(SolanaErrorCode.INSUFFICIENT_SOL);
+      expect(decodeTransactionError('BlockhashNotFound').code).toBe(SolanaErrorCode.BLOCKHASH_NOT_FOUND);
+      expect(decodeTransactionError({ InstructionError: [0, { Custom: 42 }] }).code).toBe(SolanaErrorCode.TRANSACTION_FAILED);
+    });
+  });
+
+  it('returns the decoded error from parseSolanaError without string matching', () => {
+    const decoded = decodeTransactionError(
+      { InstructionError: [1, { Custom: 14 }] },
+      failedLogs(SAMM_PROGRAM_ID, 14),
+      SAMM_PROGRAM_ID
+    );
+    const error = new DexTransactionError(decoded);
+
+    expect(error.message).toBe(decoded.userMessage);
+    expect(parseSolanaError(error).code).toBe(SammErrorCode.INVALID_INSTRUCTION);
+  });
+});
@@ -103,6 +103,132 @@ export const calculateLiquidityTokens = (
   return result;
 };
 
+/**
+ * Token amounts the program takes to mint an exact number of LP tokens
+ *
+ * Mirrors the program's deposit rounding: each side is lp * reserve / supply,
+ * rounded up when there is a remainder (unless it rounds down to zero, which
+ * the program rejects), so LP tokens are never minted for free.
+ *
+ * @param lpTokens - LP tokens to mint
+ * @param reserveA - Pool reserve of token A
+ * @param reserveB - Pool reserve of token B
+ * @param totalSupply - Current LP token supply
+ */
+export const calculateDepositForLpTokens = (
+  lpTokens: bigint,
+  reserveA: bigint,
+  reserveB: bigint,
+  totalSupply: bigint
+): { tokenA: bigint; tokenB: bigint } => {
+  if (totalSupply <= BigInt(0)) {
+    return { tokenA: BigInt(0), tokenB: BigInt(0) };
+  }
+
+  const ceilDiv = (numerator: bigint): bigint => {
+    const quotient = numerator / totalSupply;
+    return quotient > BigInt(0) && numerator % totalSupply > BigInt(0) ? quotient + BigInt(1) : quotient;
+  };
+
+  return {
+    tokenA: ceilDiv(lpTokens * reserveA),
+    tokenB: ceilDiv(lpTokens * reserveB),
+  };
+};
+
+/**
+ * Raise an amount by a slippage tolerance, rounding up
+ *
+ * @param amount - Expected amount in base units
+ * @param slippageTolerance - Tolerance in percent (e.g. 0.5 for 0.5%)
+ */
+export const applySlippageCeiling = (amount: bigint, slippageTolerance: number): bigint => {
+  const slippageBps = BigInt(Math.ceil(slippageTolerance * 100));
+  return amount + (amount * slippageBps + BigInt(9999)) / BigInt(10000);
+};
+
+/**
+ * LP tokens minted by a single-sided deposit, and the swap fee it pays
+ *
+ * The program treats half of the deposit as a swap into the other token, so
+ * the pool's trade fee is charged on that half. The remainder is deposited
+ * along the constant-product invariant:
+ *   lp = supply * (sqrt(1 + net / reserve) - 1)
+ *
+ * @param sourceAmount - Amount of the deposited token, in base units
+ * @param sourceReserve - Pool reserve of the deposited token
+ * @param totalSupply - Current LP token supply
+ * @param feeNumerator - Combined swap fee numerator
+ * @param feeDenominator - Combined swap fee denominator
+ */
+export const calculateSingleSidedLiquidityTokens = (
+  sourceAmount: bigint,
+  sourceReserve: bigint,
+  totalSupply: bigint,
+  feeNumerator: bigint,
+  feeDenominator: bigint
+): { lpTokens: bigint; swapFee: bigint } => {
+  if (sourceAmount <= BigInt(0) || sourceReserve <= BigInt(0) || totalSupply <= BigInt(0)) {
+    return { lpTokens: BigInt(0), swapFee: BigInt(0) };
+  }
+
+  const tradedAmount = (sourceAmount + BigInt(1)) / BigInt(2);
+  let swapFee = feeDenominator > BigInt(0) ? (tradedAmount * feeNumerator) / feeDenominator : BigInt(0);
+  // The program rounds any non-zero fee up to at least one base unit
+  if (swapFee === BigInt(0) && feeNumerator > BigInt(0)) {
+    swapFee = BigInt(1);
+  }
+
+  const netAmount = sourceAmount - swapFee;
+  const lpTokens = (totalSupply * (sqrt(sourceReserve * (sourceReserve + netAmount)) - sourceReserve)) / sourceReserve;
+
+  return { lpTokens, swapFee };
+};
+
+/**
+ * Tokens received for burning LP tokens into a single token, and the swap fee paid
+ *
+ * Inverse of the program's exact-amount-out withdrawal: burning `lp` of
+ * `supply` releases `reserve * (1 - (1 - lp / supply)^2)` of the token, of
+ * which half is implicitly swapped and pays the pool's trade fee. The owner
+ * withdraw fee is charged in LP tokens on top of the burned amount.
+ *
+ * @param lpTokenAmount - LP tokens to burn, including the withdraw fee
+ * @param destinationReserve - Pool reserve of the withdrawn token
+ * @param totalSupply - Current LP token supply
+ * @param feeNumerator - Combined swap fee numerator
+ * @param feeDenominator - Combined swap fee denominator
+ * @param withdrawFeeNumerator - Owner withdraw fee numerator (default: 0)
+ * @param withdrawFeeDenominator - Owner withdraw fee denominator (default: 1)
+ */
+export const calculateSingleSidedWithdrawal = (
+  lpTokenAmount: bigint,
+  destinationReserve: bigint,
+  totalSupply: bigint,
+  feeNumerator: bigint,
+  feeDenominator: bigint,
+  withdrawFeeNumerator: bigint = BigInt(0),
+  withdrawFeeDenominator: bigint = BigInt(1)
+): { tokenAmount: bigint; swapFee: bigint } => {
+  if (lpTokenAmount <= BigInt(0) || destinationReserve <= BigInt(0) || totalSupply <= BigInt(0)) {
+    return { tokenAmount: BigInt(0), swapFee: BigInt(0) };
+  }
+
+  let netLpTokens = withdrawFeeNumerator > BigInt(0) && withdrawFeeDenominator > BigInt(0)
+    ? (lpTokenAmount * withdrawFeeDenominator) / (withdrawFeeDenominator + withdrawFeeNumerator)
+    : lpTokenAmount;
+  if (netLpTokens > totalSupply) {
+    netLpTokens = totalSupply;
+  }
+
+  const grossAmount = (destinationReserve * netLpTokens * (BigInt(2) * totalSupply - netLpTokens)) / (totalSupply * totalSupply);
+  const tokenAmount = feeDenominator > BigInt(0)
+    ? (grossAmount * BigInt(2) * feeDenominator) / (BigInt(2) * feeDenominator + feeNumerator)
+    : grossAmount;
+
+  return { tokenAmount, swapFee: grossAmount - tokenAmount };
+};
+
 // Simple integer square root implementation
 function sqrt(value: bigint): bigint {
   if (value < BigInt(0)) {
@@ -1,5 +1,8 @@
 // Solana-specific error handling utilities
 
+import { TransactionError } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+
 export enum SolanaErrorCode {
   // Wallet errors
   WALLET_NOT_CONNECTED = 'WALLET_NOT_CONNECTED',
@@ -42,8 +45,103 @@ export enum SolanaErrorCode {
   NETWORK_ERROR = 'NETWORK_ERROR',
 }
 
+/**
+ * Custom error codes returned by the SAMM program
+ *
+ * The program keeps the token-swap `SwapError` numbering, so a log line such as
+ * `custom program error: 0x10` is `EXCEEDED_SLIPPAGE`.
+ */
+export enum SammErrorCode {
+  ALREADY_IN_USE = 'SAMM_ALREADY_IN_USE',
+  INVALID_PROGRAM_ADDRESS = 'SAMM_INVALID_PROGRAM_ADDRESS',
+  INVALID_OWNER = 'SAMM_INVALID_OWNER',
+  INVALID_OUTPUT_OWNER = 'SAMM_INVALID_OUTPUT_OWNER',
+  EXPECTED_MINT = 'SAMM_EXPECTED_MINT',
+  EXPECTED_ACCOUNT = 'SAMM_EXPECTED_ACCOUNT',
+  EMPTY_SUPPLY = 'SAMM_EMPTY_SUPPLY',
+  INVALID_SUPPLY = 'SAMM_INVALID_SUPPLY',
+  INVALID_DELEGATE = 'SAMM_INVALID_DELEGATE',
+  INVALID_INPUT = 'SAMM_INVALID_INPUT',
+  INCORRECT_SWAP_ACCOUNT = 'SAMM_INCORRECT_SWAP_ACCOUNT',
+  INCORRECT_POOL_MINT = 'SAMM_INCORRECT_POOL_MINT',
+  INVALID_OUTPUT = 'SAMM_INVALID_OUTPUT',
+  CALCULATION_FAILURE = 'SAMM_CALCULATION_FAILURE',
+  INVALID_INSTRUCTION = 'SAMM_INVALID_INSTRUCTION',
+  REPEATED_MINT = 'SAMM_REPEATED_MINT',
+  EXCEEDED_SLIPPAGE = 'SAMM_EXCEEDED_SLIPPAGE',
+  INVALID_CLOSE_AUTHORITY = 'SAMM_INVALID_CLOSE_AUTHORITY',
+  INVALID_FREEZE_AUTHORITY = 'SAMM_INVALID_FREEZE_AUTHORITY',
+  INCORRECT_FEE_ACCOUNT = 'SAMM_INCORRECT_FEE_ACCOUNT',
+  ZERO_TRADING_TOKENS = 'SAMM_ZERO_TRADING_TOKENS',
+  FEE_CALCULATION_FAILURE = 'SAMM_FEE_CALCULATION_FAILURE',
+  CONVERSION_FAILURE = 'SAMM_CONVERSION_FAILURE',
+  INVALID_FEE = 'SAMM_INVALID_FEE',
+  INCORRECT_TOKEN_PROGRAM_ID = 'SAMM_INCORRECT_TOKEN_PROGRAM_ID',
+  UNSUPPORTED_CURVE_TYPE = 'SAMM_UNSUPPORTED_CURVE_TYPE',
+  INVALID_CURVE = 'SAMM_INVALID_CURVE',
+  UNSUPPORTED_CURVE_OPERATION = 'SAMM_UNSUPPORTED_CURVE_OPERATION',
+  INVALID_FEE_ACCOUNT = 'SAMM_INVALID_FEE_ACCOUNT',
+}
+
+/**
+ * Every error code a DEX transaction can fail with: the generic Solana codes
+ * plus the SAMM program's custom codes
+ */
+export const DexErrorCode = { ...SolanaErrorCode, ...SammErrorCode };
+export type DexErrorCode = SolanaErrorCode | SammErrorCode;
+
+interface ProgramErrorInfo {
+  code: DexErrorCode;
+  userMessage: string;
+  retryable: boolean;
+}
+
+/**
+ * SAMM custom error number → error info, indexed by the on-chain error number
+ */
+const SAMM_PROGRAM_ERRORS: ProgramErrorInfo[] = [
+  { code: SammErrorCode.ALREADY_IN_USE, userMessage: 'This pool account is already in use.', retryable: false },
+  { code: SammErrorCode.INVALID_PROGRAM_ADDRESS, userMessage: 'The pool authority does not match the pool. The pool configuration may be out of date.', retryable: false },
+  { code: SammErrorCode.INVALID_OWNER, userMessage: 'A pool account has the wrong owner. The pool configuration may be out of date.', retryable: false },
+  { code: SammErrorCode.INVALID_OUTPUT_OWNER, userMessage: 'The output token account is not owned by the pool authority.', retryable: false },
+  { code: SammErrorCode.EXPECTED_MINT, userMessage: 'Expected a token mint account.', retryable: false },
+  { code: SammErrorCode.EXPECTED_ACCOUNT, userMessage: 'Expected a token account.', retryable: false },
+  { code: SammErrorCode.EMPTY_SUPPLY, userMessage: 'The pool has no liquidity yet.', retryable: false },
+  { code: SammErrorCode.INVALID_SUPPLY, userMessage: 'The LP token supply is invalid for this operation.', retryable: false },
+  { code: SammErrorCode.INVALID_DELEGATE, userMessage: 'A token account has a delegate set, which the pool does not allow.', retryable: false },
+  { code: SammErrorCode.INVALID_INPUT, userMessage: 'The input token account does not belong to this pool.', retryable: false },
+  { code: SammErrorCode.INCORRECT_SWAP_ACCOUNT, userMessage: 'The source and destination token accounts must differ from the pool vaults.', retryable: false },
+  { code: SammErrorCode.INCORRECT_POOL_MINT, userMessage: 'The LP token mint does not match the pool.', retryable: false },
+  { code: SammErrorCode.INVALID_OUTPUT, userMessage: 'The output token account does not belong to this pool.', retryable: false },
+  { code: SammErrorCode.CALCULATION_FAILURE, userMessage: 'The pool could not calculate this trade. Try reducing the amount.', retryable: false },
+  { code: SammErrorCode.INVALID_INSTRUCTION, userMessage: 'The pool program rejected the instruction format. Please contact support if this persists.', retryable: false },
+  { code: SammErrorCode.REPEATED_MINT, userMessage: 'Input and output tokens must be different.', retryable: false },
+  { code: SammErrorCode.EXCEEDED_SLIPPAGE, userMessage: 'Price moved beyond your slippage tolerance. Try increasing slippage tolerance or refreshing the quote.', retryable: true },
+  { code: SammErrorCode.INVALID_CLOSE_AUTHORITY, userMessage: 'A pool token account has a close authority set.', retryable: false },
+  { code: SammErrorCode.INVALID_FREEZE_AUTHORITY, userMessage: 'The LP token mint has a freeze authority set.', retryable: false },
+  { code: SammErrorCode.INCORRECT_FEE_ACCOUNT, userMessage: 'The fee account does not match the pool.', retryable: false },
+  { code: SammErrorCode.ZERO_TRADING_TOKENS, userMessage: 'The amount is too small to trade. Try a larger amount.', retryable: false },
+  { code: SammErrorCode.FEE_CALCULATION_FAILURE, userMessage: 'The pool could not calculate the fee for this trade. Try a different amount.', retryable: false },
+  { code: SammErrorCode.CONVERSION_FAILURE, userMessage: 'The amount is too large for the pool to convert. Try a smaller amount.', retryable: false },
+  { code: SammErrorCode.INVALID_FEE, userMessage: 'The pool fee parameters are invalid.', retryable: false },
+  { code: SammErrorCode.INCORRECT_TOKEN_PROGRAM_ID, userMessage: 'The token program does not match the pool.', retryable: false },
+  { code: SammErrorCode.UNSUPPORTED_CURVE_TYPE, userMessage: 'The pool curve type is not supported.', retryable: false },
+  { code: SammErrorCode.INVALID_CURVE, userMessage: 'The pool curve parameters are invalid.', retryable: false },
+  { code: SammErrorCode.UNSUPPORTED_CURVE_OPERATION, userMessage: 'This operation is not supported by the pool curve.', retryable: false },
+  { code: SammErrorCode.INVALID_FEE_ACCOUNT, userMessage: 'The pool fee account is invalid.', retryable: false },
+];
+
+/**
+ * SPL Token custom errors that DEX users actually hit
+ */
+const TOKEN_PROGRAM_ERRORS: Record<number, ProgramErrorInfo> = {
+  1: { code: SolanaErrorCode.INSUFFICIENT_TOKEN_BALANCE, userMessage: 'Insufficient token balance for this transaction.', retryable: false },
+  3: { code: SolanaErrorCode.INVALID_TOKEN_MINT, userMessage: 'A token account does not match the expected token mint.', retryable: false },
+  17: { code: SolanaErrorCode.TOKEN_ACCOUNT_FROZEN, userMessage: 'One of your token accounts is frozen.', retryable: false },
+};
+
 export interface SolanaError {
-  code: SolanaErrorCode;
+  code: DexErrorCode;
   message: string;
   userMessage: string;
   recoverable: boolean;
@@ -53,12 +151,145 @@ export interface SolanaError {
     handler: () => void;
   };
   originalError?: Error;
+  /** Custom error number reported by the failing program */
+  programErrorCode?: number;
+  /** Program logs from the simulation or transaction */
+  logs?: string[];
+}
+
+/**
+ * Error thrown when a DEX transaction fails simulation or on-chain
+ *
+ * The message is the user-facing text; the decoded error and the program logs
+ * are kept for handlers and debugging.
+ */
+export class DexTransactionError extends Error {
+  solanaError: SolanaError;
+  logs: string[];
+
+  constructor(solanaError: SolanaError) {
+    super(solanaError.userMessage);
+    this.name = 'DexTransactionError';
+    this.solanaError = solanaError;
+    this.logs = solanaError.logs ?? [];
+  }
+}
+
+/**
+ * Find the program that failed from transaction logs
+ *
+ * @returns Program id and its failure text, e.g. `custom program error: 0x10`
+ */
+export function findFailedProgram(logs: string[] = []): { programId: string; reason: string } | null {
+  for (let i = logs.length - 1; i >= 0; i--) {
+    const match = logs[i].match(/^Program (\w+) failed: (.*)$/);
+    if (match) {
+      return { programId: match[1], reason: match[2] };
+    }
+  }
+  return null;
+}
+
+/**
+ * Decode a transaction error from simulation or confirmation into a SolanaError
+ *
+ * Custom error numbers are resolved against the program that failed (taken
+ * from the logs): SAMM program errors map to `SammErrorCode`, SPL Token errors
+ * to the matching `SolanaErrorCode`. Built-in runtime errors such as
+ * `InsufficientFundsForFee` map to the generic codes.
+ *
+ * @param err - `value.err` from simulateTransaction or confirmTransaction
+ * @param logs - Program logs, if available
+ * @param sammProgramId - SAMM program id (base58)
+ * @returns Structured error information
+ */
+export function decodeTransactionError(
+  err: TransactionError | string,
+  logs: string[] = [],
+  sammProgramId?: string
+): SolanaError {
+  const message = `Transaction failed: ${typeof err === 'string' ? err : JSON.stringify(err)}`;
+  const failedProgram = findFailedProgram(logs);
+  const fromInfo = (info: ProgramErrorInfo, programErrorCode?: number): SolanaError => ({
+    ...info,
+    message,
+    recoverable: true,
+    programErrorCode,
+    logs,
+  });
+
+  const instructionError = typeof err === 'object' && err !== null && 'InstructionError' in err
+    ? (err as { InstructionError: [number, unknown] }).InstructionError[1]
+    : undefined;
+
+  // Custom program errors
+  if (instructionError && typeof instructionError === 'object' && 'Custom' in instructionError) {
+    const customCode = (instructionError as { Custom: number }).Custom;
+    const programId = failedProgram?.programId;
+
+    if (programId && programId === sammProgramId && SAMM_PROGRAM_ERRORS[customCode]) {
+      return fromInfo(SAMM_PROGRAM_ERRORS[customCode], customCode);
+    }
+    if (programId === TOKEN_PROGRAM_ID.toBase58() && TOKEN_PROGRAM_ERRORS[customCode]) {
+      return fromInfo(TOKEN_PROGRAM_ERRORS[customCode], customCode);
+    }
+
+    return fromInfo({
+      code: SolanaErrorCode.TRANSACTION_FAILED,
+      userMessage: `Transaction failed in program ${programId ? programId.slice(0, 8) + '...' : 'unknown'} with error ${customCode} (0x${customCode.toString(16)}).`,
+      retryable: false,
+    }, customCode);
+  }
+
+  // Built-in instruction and transaction errors
+  const builtIn = typeof instructionError === 'string' ? instructionError : typeof err === 'string' ? err : undefined;
+  switch (builtIn) {
+    case 'InsufficientFundsForFee':
+    case 'InsufficientFundsForRent':
+    case 'AccountNotFound':
+      return fromInfo({
+        code: SolanaErrorCode.INSUFFICIENT_SOL,
+        userMessage: 'Insufficient SOL balance to complete this transaction. Please add more SOL to your wallet.',
+        retryable: false,
+      });
+    case 'InsufficientFunds':
+      return fromInfo({
+        code: SolanaErrorCode.INSUFFICIENT_TOKEN_BALANCE,
+        userMessage: 'Insufficient token balance for this transaction.',
+        retryable: false,
+      });
+    case 'BlockhashNotFound':
+      return fromInfo({
+        code: SolanaErrorCode.BLOCKHASH_NOT_FOUND,
+        userMessage: 'Transaction expired. Please try again.',
+        retryable: true,
+      });
+    case 'ComputationalBudgetExceeded':
+      return fromInfo({
+        code: SolanaErrorCode.TRANSACTION_FAILED,
+        userMessage: 'Transaction ran out of compute units. Please try again.',
+        retryable: true,
+      });
+  }
+
+  return fromInfo({
+    code: SolanaErrorCode.TRANSACTION_FAILED,
+    userMessage: failedProgram
+      ? `Transaction failed: ${failedProgram.reason}`
+      : 'Transaction failed. Please try again.',
+    retryable: true,
+  });
 }
 
 /**
  * Parse Solana error messages and return structured error information
  */
 export function parseSolanaError(error: unknown): SolanaError {
+  // Already decoded from the transaction error and logs
+  if (error instanceof DexTransactionError) {
+    return error.solanaError;
+  }
+
   const errorMessage = error instanceof Error ? error.message : String(error);
   const errorString = errorMessage.toLowerCase();
 